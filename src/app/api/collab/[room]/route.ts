@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_MESSAGE_BYTES, joinRoom, publish } from '@/lib/collabRelay';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: { room: string } };
+
+/**
+ * Collaboration relay for the film timeline (see lib/syncTransport createRelayTransport).
+ * GET subscribes to a room as a server-sent event stream; POST forwards one JSON message
+ * to everyone in the room. Rooms live in memory, so this is for local/single-server use.
+ */
+export async function GET(req: NextRequest, { params }: Ctx) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try { controller.enqueue(encoder.encode(chunk)); } catch { cleanup(); }
+      };
+      const leave = joinRoom(params.room, data => send(`data: ${data}\n\n`));
+      // comments keep proxies from closing an idle stream
+      const ping = setInterval(() => send(': ping\n\n'), 20000);
+      cleanup = () => {
+        clearInterval(ping);
+        leave();
+        cleanup = () => {};
+      };
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try { controller.close(); } catch {}
+      });
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache, no-transform',
+      connection: 'keep-alive',
+    },
+  });
+}
+
+/** The body as text, or null once it passes `max` bytes (checked as it streams in). */
+async function readBody(req: NextRequest, max: number): Promise<string | null> {
+  if (!req.body) return '';
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > max) {
+      reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export async function POST(req: NextRequest, { params }: Ctx) {
+  const tooLarge = () => NextResponse.json({ error: 'Message too large' }, { status: 413 });
+  if (Number(req.headers.get('content-length')) > MAX_MESSAGE_BYTES) return tooLarge();
+  const text = await readBody(req, MAX_MESSAGE_BYTES);
+  if (text === null) return tooLarge();
+  let msg: { type?: unknown; site?: unknown } | null = null;
+  try { msg = JSON.parse(text); } catch {}
+  if (!msg || typeof msg.type !== 'string' || typeof msg.site !== 'string') {
+    return NextResponse.json({ error: 'Expected a JSON sync message with type and site' }, { status: 400 });
+  }
+  // re-serialized so the message is a single line (one SSE data field)
+  return NextResponse.json({ delivered: publish(params.room, JSON.stringify(msg)) });
+}
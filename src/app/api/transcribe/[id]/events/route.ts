@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { providerFromEnv } from '@/lib/transcription/config';
+import { checkJob, JOB_POLL_MS, type TranscriptionJob } from '@/lib/transcription/jobs';
+import type { TranscriptionProvider } from '@/lib/transcription/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Progress of a transcription job as server-sent events: one `data: { job }` message now
+ * and on every change; the stream ends once the job is done or failed. The backend is
+ * polled while the stream is open, so a reconnect may land on any server instance.
+ */
+export async function GET(req: NextRequest, { params }: Ctx) {
+  let provider: TranscriptionProvider;
+  try {
+    provider = providerFromEnv();
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || 'Transcription is not configured' }, { status: 500 });
+  }
+  let initial: TranscriptionJob | null;
+  try {
+    initial = await checkJob(provider, params.id, { signal: req.signal });
+  } catch (err: any) {
+    console.error('[Transcribe] Job check failed:', err);
+    return NextResponse.json({ error: err?.message || 'Could not reach the transcription service' }, { status: 502 });
+  }
+  if (!initial) return NextResponse.json({ error: 'Unknown job' }, { status: 404 });
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let last = '';
+      const close = () => {
+        cleanup();
+        try { controller.close(); } catch {}
+      };
+      const write = (chunk: string) => {
+        try { controller.enqueue(encoder.encode(chunk)); return true; } catch { cleanup(); return false; }
+      };
+      const send = (job: TranscriptionJob) => {
+        const data = JSON.stringify({ job });
+        // unchanged: a comment still keeps proxies from closing an idle stream
+        if (!write(data === last ? ': ping\n\n' : `data: ${data}\n\n`)) return;
+        last = data;
+        if (job.status !== 'running') close();
+        else timer = setTimeout(poll, JOB_POLL_MS);
+      };
+      const poll = async () => {
+        let job: TranscriptionJob | null;
+        try {
+          job = await checkJob(provider, params.id, { signal: req.signal });
+        } catch (err) {
+          if (req.signal.aborted) return;
+          // the backend hiccuped; ask again next time
+          console.error('[Transcribe] Job check failed:', err);
+          if (write(': ping\n\n')) timer = setTimeout(poll, JOB_POLL_MS);
+          return;
+        }
+        if (!job) { close(); return; }
+        send(job);
+      };
+      cleanup = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        cleanup = () => {};
+      };
+      req.signal.addEventListener('abort', close);
+      send(initial!);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache, no-transform',
+      connection: 'keep-alive',
+    },
+  });
+}
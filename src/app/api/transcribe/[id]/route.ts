@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { providerFromEnv } from '@/lib/transcription/config';
+import { checkJob } from '@/lib/transcription/jobs';
+import type { TranscriptionProvider } from '@/lib/transcription/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: { id: string } };
+
+/** Status of a transcription job, asked of its backend; the transcript is in `job.result` once it's done. */
+export async function GET(req: Request, { params }: Ctx) {
+  let provider: TranscriptionProvider;
+  try {
+    provider = providerFromEnv();
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || 'Transcription is not configured' }, { status: 500 });
+  }
+  try {
+    const job = await checkJob(provider, params.id, { signal: req.signal });
+    if (!job) return NextResponse.json({ error: 'Unknown job' }, { status: 404 });
+    return NextResponse.json({ job });
+  } catch (err: any) {
+    console.error('[Transcribe] Job check failed:', err);
+    return NextResponse.json({ error: err?.message || 'Could not reach the transcription service' }, { status: 502 });
+  }
+}
@@ -17,6 +17,7 @@ export default function FilmPage() {
           <nav className="ml-4 flex items-center gap-2 text-sm">
             <a href="/music" className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700 border border-neutral-700">Music</a>
             <a href="/writer" className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700 border border-neutral-700">Script Writer</a>
+            <a href="/film/stripboard" className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700 border border-neutral-700">Stripboard</a>
           </nav>
           <div className="ml-auto text-sm text-neutral-400">Film Workspace</div>
         </div>
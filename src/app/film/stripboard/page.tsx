@@ -0,0 +1,23 @@
+import React from 'react';
+import Stripboard from '@/components/Stripboard';
+
+export const metadata = {
+  title: 'Directors Timeline — Stripboard',
+  description: 'Shooting schedule: drag scene strips into shoot days.',
+};
+
+export default function StripboardPage() {
+  return (
+    <main className="min-h-screen bg-neutral-950 text-neutral-100">
+      <header className="border-b border-neutral-800 bg-neutral-900/60 backdrop-blur">
+        <div className="mx-auto max-w-6xl px-4 py-3 flex items-center gap-3">
+          <a href="/film" className="text-sm text-neutral-400 hover:text-neutral-200">← Timeline</a>
+          <div className="ml-auto text-sm text-neutral-400">Stripboard</div>
+        </div>
+      </header>
+      <div className="h-[calc(100vh-49px)] overflow-hidden">
+        <Stripboard />
+      </div>
+    </main>
+  );
+}
@@ -17,6 +17,9 @@ export default function MusicPage() {
     setErrorMsg(null);
     try {
       const ab = await decodeAudioFile(file);
+      // kept for project export (file name) and bundles (the file itself)
+      (ab as any)._fileName = file.name;
+      (ab as any)._file = file;
       setAudioBuffer(ab);
     } catch (err) {
       console.error(err);
@@ -61,7 +64,7 @@ export default function MusicPage() {
 
       {/* Canvas */}
       <div className="h-[calc(100vh-65px)]">
-        <WaveformCanvas audioBuffer={audioBuffer} />
+        <WaveformCanvas audioBuffer={audioBuffer} setAudioBuffer={setAudioBuffer} />
       </div>
     </main>
   );
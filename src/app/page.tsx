@@ -1,5 +1,6 @@
 import Link from 'next/link';
 import type { Metadata } from 'next';
+import RecentProjects from '@/components/RecentProjects';
 
 export const metadata: Metadata = {
   title: 'Directors Timeline — Welcome',
@@ -112,6 +113,8 @@ export default function WelcomePage() {
           ))}
         </div>
 
+        <RecentProjects />
+
         {/* Tips */}
         <div className="mt-10 grid gap-3 md:grid-cols-3 text-sm text-neutral-400">
           <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-4">
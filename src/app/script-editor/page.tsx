@@ -4,6 +4,7 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { ScriptLine, LineType } from '@/lib/scriptTypes';
 import { linesToFountain } from '@/lib/fountainFormat';
 import { parseScript } from '@/lib/scriptParser';
+import { classifyLines } from '@/lib/scriptClassifier';
 
 const BLANK: ScriptLine = { type: 'action', text: '' };
 
@@ -15,47 +16,19 @@ const typeClasses: Record<LineType, string> = {
   dialogue: 'text-neutral-200',
   transition: 'text-fuchsia-300',
   lyric: 'text-pink-300 italic',
+  centered: 'text-neutral-100 text-center',
+  section: 'text-amber-300/80',
+  synopsis: 'text-amber-200/70 italic',
+  note: 'text-neutral-500 italic',
+  boneyard: 'text-neutral-600 line-through',
+  pagebreak: 'text-neutral-600',
+  title: 'text-neutral-300',
+  shot: 'text-emerald-200 uppercase',
   general: 'text-neutral-100',
 };
 
-function isSceneHeading(t: string): boolean {
-  return /^(INT|EXT|EST|INT\.\/EXT\.)\./i.test(t.trim());
-}
-function isParenthetical(t: string): boolean {
-  return /^\(.+\)$/.test(t.trim());
-}
-function isTransition(t: string): boolean {
-  return /^[A-Z0-9 .']+TO:\s*$/i.test(t.trim());
-}
-function isLyric(t: string): boolean {
-  return /^~/.test(t.trim());
-}
-function isCharacter(t: string): boolean {
-  const s = t.trim();
-  if (!s) return false;
-  if (s.length > 40) return false;
-  if (/TO:\s*$/.test(s)) return false; // avoid transitions
-  // ALL CAPS with common name chars
-  return /^[A-Z0-9() '\-.]+$/.test(s) && s === s.toUpperCase();
-}
-
 function textToScriptLines(text: string): ScriptLine[] {
-  const out: ScriptLine[] = [];
-  const lines = text.replace(/\r\n/g, '\n').split('\n');
-  let prevType: LineType = 'action';
-  for (const raw of lines) {
-    const t = raw; // keep exact text as typed
-    let type: LineType = 'action';
-    if (isSceneHeading(t)) type = 'scene';
-    else if (isParenthetical(t)) type = 'parenthetical';
-    else if (isTransition(t)) type = 'transition';
-    else if (isLyric(t)) type = 'lyric';
-    else if (isCharacter(t)) type = 'character';
-    else if (prevType === 'character' || prevType === 'parenthetical') type = 'dialogue';
-    else type = 'action';
-    out.push({ type, text: t });
-    prevType = type;
-  }
+  const out = classifyLines(text);
   return out.length ? out : [{ type: 'action', text: '' }];
 }
 
@@ -2,35 +2,11 @@
 
 import React, { useMemo, useState } from 'react';
 import { linesToFountain, type ScriptLine, type LineType } from '@/lib/format/fountain';
+import { classifyLines } from '@/lib/scriptClassifier';
 
-// --- lightweight classifier so the preview looks like a screenplay ---
-function isSceneHeading(t: string) { return /^(INT|EXT|EST|INT\.\/EXT\.)\./i.test(t.trim()); }
-function isParenthetical(t: string) { return /^\(.+\)$/.test(t.trim()); }
-function isTransition(t: string) { return /^[A-Z0-9 .']+TO:\s*$/i.test(t.trim()); }
-function isLyric(t: string) { return /^~/.test(t.trim()); }
-function isCharacter(t: string) {
-  const s = t.trim();
-  if (!s || s.length > 40) return false;
-  if (/TO:\s*$/.test(s)) return false;
-  return /^[A-Z0-9() '\-.]+$/.test(s) && s === s.toUpperCase();
-}
-
+// --- shared Fountain classifier so the preview looks like a screenplay ---
 function textToScriptLines(text: string): ScriptLine[] {
-  const out: ScriptLine[] = [];
-  const rows = (text || '').replace(/\r\n/g, '\n').split('\n');
-  let prev: LineType = 'action';
-  for (const raw of rows) {
-    let type: LineType = 'action';
-    if (isSceneHeading(raw)) type = 'scene';
-    else if (isParenthetical(raw)) type = 'parenthetical';
-    else if (isTransition(raw)) type = 'transition';
-    else if (isLyric(raw)) type = 'lyric';
-    else if (isCharacter(raw)) type = 'character';
-    else if (prev === 'character' || prev === 'parenthetical') type = 'dialogue';
-    out.push({ type, text: raw });
-    prev = type;
-  }
-  return out;
+  return classifyLines(text);
 }
 
 // --- pretty screenplay-like preview ---
@@ -44,6 +20,15 @@ function ScriptFormattedView({ lines }: { lines: ScriptLine[] }) {
     dialogue: 12,
     transition: 40,
     lyric: 10,
+    centered: 20,
+    section: 0,
+    synopsis: 0,
+    note: 0,
+    boneyard: 0,
+    pagebreak: 0,
+    title: 20,
+    shot: 0,
+    general: 0,
   };
 
   return (
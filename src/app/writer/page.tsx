@@ -3,114 +3,23 @@
 import React, { useMemo, useRef, useState, useEffect } from 'react';
 // PDF export uses dynamic import('jspdf') in the handlers below
 
-// --------------------------------------
-// Types
-// --------------------------------------
- type LineType = 'scene' | 'action' | 'character' | 'parenthetical' | 'dialogue' | 'transition' | 'lyric' | 'unknown';
- type ScriptLine = { type: LineType; text: string };
+import type { LineType, ScriptLine } from '@/lib/scriptTypes';
+import { classifyLines, isSceneHeading } from '@/lib/scriptClassifier';
+import { linesToFdx } from '@/lib/format/fdx';
+import { downloadBlob } from '@/lib/download';
 
 // --------------------------------------
 // Parsing / Formatting Heuristics
 // --------------------------------------
-const SCENE_RE = /^\s*(?:\d+[A-Z]?[:.)]?\s+)?(INT|EXT|EST|I\/E)\.?\s/i;
-const TRANSITION_RE = /(FADE (IN|OUT):|CUT TO:|MATCH CUT TO:|SMASH CUT TO:|DISSOLVE TO:|WIPE TO:|TO:)$/;
 const PAREN_RE = /^\(.+\)$/;
-const CHARACTER_RE = /^[A-Z0-9 .'\-()]+$/; // CAPS, allows (CONT'D)
-
-function isLikelyScene(s: string) {
-  return SCENE_RE.test(s);
-}
-function isLikelyTransition(s: string) {
-  return TRANSITION_RE.test(s);
-}
-function isLikelyParenthetical(s: string) {
-  return PAREN_RE.test(s);
-}
-function isLikelyCharacter(s: string) {
-  if (!CHARACTER_RE.test(s)) return false;
-  if (s.length > 30) return false; // names are short
-  if (/[.!?]$/.test(s)) return false; // not sentences
-  if (isLikelyScene(s)) return false; // avoid INT/EXT
-  return true;
-}
 
 function toLines(text: string): string[] {
   return text.replace(/\r\n?/g, '\n').split('\n');
 }
 
-// Two-pass stateful analyzer closer to Fountain semantics
+// Shared Fountain classifier (same rules as the film importer)
 function analyze(text: string): ScriptLine[] {
-  const raw = toLines(text);
-  const out: ScriptLine[] = [];
-  let inDialogueBlock = false; // after a character (or parenthetical under a character)
-
-  // Remove leading tokens like "2", "12A.", "3)" and trailing tokens like "\t2" or double-space + 2
-  const stripSceneNumbers = (s: string) => {
-    let t = s.trim();
-    // leading scene number tokens
-    t = t.replace(/^\s*\d+[A-Z]?[.)]?\s+/, '');
-    // trailing numbers separated by tabs or 2+ spaces
-    t = t.replace(/(?:\s{2,}|\t)+\d+[A-Z]?\s*$/, '');
-    return t;
-  };
-
-  for (let i = 0; i < raw.length; i++) {
-    const original = raw[i];
-    const t = original.trim();
-
-    if (t === '') {
-      out.push({ type: 'unknown', text: '' });
-      inDialogueBlock = false;
-      continue;
-    }
-
-    // Hard classifiers first
-    if (isLikelyScene(t)) {
-      const normalized = stripSceneNumbers(t).toUpperCase();
-      out.push({ type: 'scene', text: normalized });
-      inDialogueBlock = false;
-      continue;
-    }
-    if (isLikelyTransition(t.toUpperCase())) {
-      out.push({ type: 'transition', text: t.toUpperCase() });
-      inDialogueBlock = false;
-      continue;
-    }
-
-    // Character starts a dialogue block
-    if (isLikelyCharacter(t)) {
-      out.push({ type: 'character', text: t.toUpperCase() });
-      inDialogueBlock = true;
-      continue;
-    }
-
-    // Parenthetical: if inside a dialogue block, keep as parenthetical, else action
-    if (isLikelyParenthetical(t)) {
-      if (inDialogueBlock) {
-        out.push({ type: 'parenthetical', text: t });
-      } else {
-        out.push({ type: 'action', text: original });
-      }
-      continue;
-    }
-
-    // Dialogue lines continue until blank or new block
-    if (inDialogueBlock) {
-      out.push({ type: 'dialogue', text: original });
-      continue;
-    }
-
-    // Lyrics
-    if (/^~/.test(t)) {
-      out.push({ type: 'lyric', text: original.replace(/^~/, '') });
-      continue;
-    }
-
-    // Default to action
-    out.push({ type: 'action', text: original });
-  }
-
-  return out;
+  return classifyLines(text);
 }
 
 // --------------------------------------
@@ -164,6 +73,39 @@ function LineView({ line }: { line: ScriptLine }) {
         </div>
       );
 
+    case 'centered':
+      return (
+        <div className={`${base} text-[13px] leading-6 text-neutral-100`} style={{ textAlign: 'center' }}>
+          {line.text.trim()}
+        </div>
+      );
+
+    case 'section':
+    case 'synopsis':
+      return (
+        <div className={`${base} text-[12px] leading-6 text-amber-300/80`}>
+          {line.type === 'section' ? `${'#'.repeat(line.depth || 1)} ` : '= '}{line.text}
+        </div>
+      );
+
+    case 'note':
+    case 'boneyard':
+      return (
+        <div className={`${base} text-[12px] leading-6 text-neutral-500 italic`}>
+          {line.text}
+        </div>
+      );
+
+    case 'pagebreak':
+      return <hr className="my-3 border-neutral-700 border-dashed" />;
+
+    case 'title':
+      return (
+        <div className={`${base} text-[13px] leading-6 text-neutral-300`} style={{ textAlign: 'center' }}>
+          {line.text}
+        </div>
+      );
+
     case 'action':
     default:
       return (
@@ -223,7 +165,7 @@ export default function WriterPage() {
         // strip any leading scene number like "12A." or "3)" and any trailing number columns
         replaced = replaced.replace(/^\s*\d+[A-Z]?[.)]?\s+/, '');
         replaced = replaced.replace(/(?:\s{2,}|\t)+\d+[A-Z]?\s*$/, '');
-        if (!SCENE_RE.test(replaced)) replaced = 'INT. ' + replaced;
+        if (!isSceneHeading(replaced)) replaced = 'INT. ' + replaced;
         break;
       case 'character':
         replaced = line.toUpperCase();
@@ -339,8 +281,20 @@ export default function WriterPage() {
             }
             break;
           case 'lyric':
+          case 'centered':
             writeLine(ln.text, { align: 'center' });
             break;
+          case 'pagebreak':
+            doc.addPage('letter', 'portrait');
+            x = left; y = top;
+            break;
+          case 'title':
+          case 'section':
+          case 'synopsis':
+          case 'note':
+          case 'boneyard':
+            // not printed in the formatted draft
+            break;
           case 'action':
           default:
             writeLine(ln.text);
@@ -392,6 +346,16 @@ export default function WriterPage() {
     }
   }
 
+  function exportFdx() {
+    try {
+      const xml = linesToFdx(analyze(text));
+      downloadBlob('script.fdx', new Blob([xml], { type: 'application/xml;charset=utf-8' }));
+    } catch (err) {
+      console.error('Export FDX failed:', err);
+      alert('Failed to export Final Draft file');
+    }
+  }
+
   function exportFountain() {
     try {
       const filename = 'script.fountain';
@@ -449,6 +413,13 @@ export default function WriterPage() {
             >
               Export .fountain
             </button>
+            <button
+              onClick={exportFdx}
+              className="px-3 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-sm font-medium"
+              title="Download current draft as Final Draft (.fdx)"
+            >
+              Export .fdx
+            </button>
             <button
               onClick={exportPdfFormatted}
               className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-sm font-medium"
@@ -5,29 +5,46 @@ import { formatTime } from '@/lib/time';
 import { parseScript } from '@/lib/scriptParser';
 import { importFountainToScenes } from '@/lib/importers/fountain';
 import { importFdxToScenes } from '@/lib/importers/fdx';
-import { extractPdfText } from '@/lib/importers/pdf';
+import { importPdfToScenes } from '@/lib/importers/pdf';
 import { extractDocxText } from '@/lib/importers/docx';
+import type { LineType, ScriptLine } from '@/lib/scriptTypes';
+import { classifyLines } from '@/lib/scriptClassifier';
+import { scenesToFountain } from '@/lib/format/fountain';
+import { scenesToFdx } from '@/lib/format/fdx';
+import { scenesToPdf } from '@/lib/format/pdf';
+import { DEFAULT_SECONDS_PER_PAGE, eighthsToSeconds, formatEighths, sceneEighths } from '@/lib/pagination';
+import { DEFAULT_TIMING, estimateSeconds, speakingCharacters, type TimingModel } from '@/lib/timing';
+import { emptyHistory, jumpTo, recordChange, redoStep, undoStep, type HistoryStack } from '@/lib/history';
+import { DEFAULT_TRACKS, TRACK_MAX_H, TRACK_MIN_H, laneAt, layoutTracks, normalizeTracks, resolveTrackId, type Track } from '@/lib/tracks';
+import {
+  BUNDLE_EXT, assetIdOf, assetRef, buildBundle, bytesToDataUrl, dataUrlToBytes, isBundleBytes, matchesAsset, openBundle, packAsset,
+  type PackedAsset, type UnresolvedAsset,
+} from '@/lib/bundle';
+import RelinkModal from '@/components/RelinkModal';
+import ProjectLibraryModal from '@/components/ProjectLibraryModal';
+import {
+  activeProjectKey, addSnapshot, getProject, isSnapshotDue, listSnapshots, newProjectId, saveProject, storageErrorMessage,
+  type Snapshot,
+} from '@/lib/projectStore';
+import { startCollab, type CollabSession } from '@/lib/collab';
+import {
+  collabSocketUrl, createBroadcastTransport, createRelayTransport, createWebSocketTransport, type Presence, type TransportKind,
+} from '@/lib/syncTransport';
+import {
+  DEFAULT_NUMBERING, assignSceneNumbers, lockSceneNumbers, normalizeSceneNumber, numberedRows, omitScenes, renumberReport,
+  type SceneNumbering,
+} from '@/lib/sceneNumbering';
+import {
+  breakdownFacets, breakdownScenes, isFilterEmpty, matchesBreakdown, type BreakdownFilter, type SceneBreakdown,
+} from '@/lib/breakdown';
+import { castPresence, castPresenceCsv } from '@/lib/castPresence';
+import { EMPTY_SCHEDULE, type ShootingSchedule } from '@/lib/stripboard';
+import {
+  STRUCTURE_TEMPLATES, beatDrifts, pctToSec, runtimeOf, switchTemplate, type StoryStructure, type StructureTemplateId,
+} from '@/lib/storyStructure';
+import { diffProjects, ghostSceneIds, summarizeDiff, timelineNumbers, type NoteChange, type SceneChange } from '@/lib/projectDiff';
 
 /* ---------- Script types / helpers (single source) ---------- */
-type LineType = 'scene' | 'action' | 'character' | 'parenthetical' | 'dialogue' | 'transition' | 'lyric';
-type ScriptLine = { type: LineType; text: string };
-
-function isSceneHeading(t: string) {
-  // Allow optional leading scene numbers like "2", "12A.", "3)" before INT/EXT/EST/I/E
-  // Matches: 2 INT. ROOM – DAY, 12A. EXT. STREET – NIGHT, 3) I/E CAR – CONTINUOUS
-  return /^\s*(?:\d+[A-Z]?[.:)]?\s+)?(INT|EXT|EST|I\/E|INT\.\/EXT\.)\./i.test(t.trim());
-}
-function isParenthetical(t: string) { return /^\(.+\)$/.test(t.trim()); }
-function isTransition(t: string) { return /^[A-Z0-9 .']+TO:\s*$/.test(t.trim()); }
-function isLyric(t: string) { return /^~/.test(t.trim()); }
-function isCharacter(t: string) {
-  const s = t.trim();
-  if (!s || s.length > 40) return false;
-  if (/TO:\s*$/.test(s)) return false;
-  return /^[A-Z0-9() '\-.]+$/.test(s) && s === s.toUpperCase();
-}
-
-
 // Normalize scene headings: strip leading/trailing scene numbers
 function normalizeSceneHeading(s: string) {
   let t = (s || '').trim();
@@ -38,23 +55,9 @@ function normalizeSceneHeading(s: string) {
   return t;
 }
 
-// Fallback: make lines from description text
+// Fallback: make lines from description text (no title page inside a scene)
 function toScriptLinesFromText(text: string): ScriptLine[] {
-  const out: ScriptLine[] = [];
-  const rows = (text || '').replace(/\r\n/g, '\n').split('\n');
-  let prev: LineType = 'action';
-  for (const raw of rows) {
-    let t: LineType = 'action';
-    if (isSceneHeading(raw)) t = 'scene';
-    else if (isParenthetical(raw)) t = 'parenthetical';
-    else if (isTransition(raw)) t = 'transition';
-    else if (isLyric(raw)) t = 'lyric';
-    else if (isCharacter(raw)) t = 'character';
-    else if (prev === 'character' || prev === 'parenthetical') t = 'dialogue';
-    out.push({ type: t, text: raw });
-    prev = t;
-  }
-  return out;
+  return classifyLines(text, { titlePage: false });
 }
 
 // Compose a scene description that includes CHARACTER cues + dialogue
@@ -73,7 +76,7 @@ function composeDescription(lines: ScriptLine[] = []): string {
       flushBlank();
       continue;
     }
-    if (L.type === 'action' || L.type === 'lyric' || L.type === 'parenthetical') {
+    if (L.type === 'action' || L.type === 'lyric' || L.type === 'parenthetical' || L.type === 'centered') {
       out.push((L.text || '').trim()); flushBlank(); i++; continue;
     }
     i++;
@@ -86,6 +89,7 @@ function composeDescription(lines: ScriptLine[] = []): string {
 function ScriptFormattedView({ lines }: { lines: ScriptLine[] }) {
   const INDENT_CH: Record<LineType, number> = {
     scene: 0, action: 0, character: 22, parenthetical: 16, dialogue: 12, transition: 40, lyric: 10,
+    centered: 20, section: 0, synopsis: 0, note: 0, boneyard: 0, pagebreak: 0, title: 20, shot: 0, general: 0,
   };
   return (
     <div className="font-mono text-sm leading-5 text-neutral-100 bg-neutral-950 border border-neutral-800 rounded-lg p-3 max-h-[55vh] overflow-auto">
@@ -132,12 +136,26 @@ type ProjectFileV1 = {
   zoom: number;
   panX: number;
   playheadSec: number;
+  /** Screen seconds per script page used to time scenes (default 60). */
+  secondsPerPage?: number;
+  /** Words-per-minute model used by "Recompute lengths". */
+  timing?: TimingModel;
+  /** Timeline lanes, top to bottom; scenes refer to them by trackId. */
+  tracks?: Track[];
+  /** Production numbering: locked numbers and OMITTED placeholders. */
+  numbering?: SceneNumbering;
+  /** Shooting order (edited on the stripboard), kept apart from the story order. */
+  schedule?: ShootingSchedule;
+  /** Acts, sequences and beats from a structure template, with the scene each beat landed on. */
+  structure?: StoryStructure;
   scenes: Array<Scene & { imageUrl?: string | null }>;
   notes: Note[];
 };
 
+/** Single-slot autosave from before the project library; moved into it on first load. */
 const PROJECT_AUTOSAVE_KEY = 'dt:film:autosave:v1';
 const PROJECT_NAME_KEY = 'dt:film:projectName';
+const COLLAB_NAME_KEY = 'dt:collab:name';
 
 async function fileToDataUrl(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -162,10 +180,21 @@ export type Scene = {
   id: string;
   originalSceneNumber: number;
   newSceneNumber: number;
+  /** Production number frozen when scene numbers are locked ("12", "12A"). */
+  sceneNumber?: string;
   heading: string;
   description: string;
   positionSec: number;
   lengthSec: number;
+  /** Script length in 1/8 pages; lengthSec follows it at the project's seconds-per-page rate. */
+  lengthEighths?: number;
+  /** Pace multiplier applied by the dialogue-rate estimator (1 = as written). */
+  pace?: number;
+  /** Locked scenes keep their length when lengths are recomputed. */
+  locked?: boolean;
+  /** Lane the scene/clip sits on (first lane when unset). */
+  trackId?: string;
+  /** Vertical offset inside the lane. */
   yPx: number;
   color: string;
   collapsed?: boolean;
@@ -184,6 +213,11 @@ const ROW_HEIGHT = 40;
 const SCENE_MIN_SEC = 1;
 const HANDLE_W = 8;
 const COLLAPSED_H = 22;
+const STRUCTURE_ACT_H = 14;  // story structure ribbon along the bottom edge
+const STRUCTURE_SEQ_H = 12;
+const STRUCTURE_FLAG_H = 16;
+const CAST_LANE_H = 12;     // cast presence lanes (one per character)
+const CAST_MAX_LANES = 12;
 const FOOTER_H = 56; // taller footer preview for better readability
 const TOGGLE_SIZE = 12;
 const TOGGLE_PAD = 4;
@@ -201,7 +235,8 @@ const NOTE_DEFAULT_H = 110;
 const IMAGE_CARD_W = 180;
 const IMAGE_CARD_H = 110;
 
-type HistoryState = { scenes: Scene[]; notes: Note[] };
+/** The part of the project that undo/redo covers. */
+type FilmDoc = { scenes: Scene[]; notes: Note[]; tracks: Track[]; numbering: SceneNumbering; structure: StoryStructure | null };
 
 /* ---------- Component ---------- */
 export default function FilmTimelineCanvas() {
@@ -250,23 +285,82 @@ export default function FilmTimelineCanvas() {
   // data
   const [scenes, setScenes] = useState<Scene[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
-
-  // history (undo)
-  const [history, setHistory] = useState<HistoryState[]>([]);
-  const pushHistory = () => setHistory((h) => [...h, { scenes: structuredClone(scenes), notes: structuredClone(notes) }]);
-  const undo = () => setHistory((h) => {
-    if (h.length === 0) return h;
-    const prev = h[h.length - 1];
-    setScenes(prev.scenes); setNotes(prev.notes);
-    return h.slice(0, -1);
-  });
+  const [secondsPerPage, setSecondsPerPage] = useState<number>(DEFAULT_SECONDS_PER_PAGE);
+  const [timing, setTiming] = useState<TimingModel>(DEFAULT_TIMING);
+  const [timingOpen, setTimingOpen] = useState(false);
+
+  // lanes
+  const [tracks, setTracks] = useState<Track[]>(() => DEFAULT_TRACKS.map(t => ({ ...t })));
+  const [tracksOpen, setTracksOpen] = useState(false);
+  const [numbering, setNumbering] = useState<SceneNumbering>(DEFAULT_NUMBERING);
+  const [renumberOpen, setRenumberOpen] = useState(false);
+  // the stripboard edits this; the timeline only carries it along when saving
+  const [schedule, setSchedule] = useState<ShootingSchedule>(EMPTY_SCHEDULE);
+  // set when a file or snapshot brought its own schedule, which the next save must write
+  const scheduleLoadedRef = useRef(false);
+  const [structure, setStructure] = useState<StoryStructure | null>(null);
+  const [structureOpen, setStructureOpen] = useState(false);
+  const lanes = useMemo(() => layoutTracks(tracks), [tracks]);
+  const laneOf = (s: Scene) => lanes.find(l => l.track.id === resolveTrackId(tracks, s.trackId))!;
+  const sceneTop = (s: Scene) => laneOf(s).top + s.yPx;
+  const isSceneVisible = (s: Scene) => laneOf(s).visible;
+  const sameTrack = (a: Scene, b: Scene) => resolveTrackId(tracks, a.trackId) === resolveTrackId(tracks, b.trackId);
 
   // drag state
   const [dragMode, setDragMode] = useState<DragMode>('none');
   const [isMouseDown, setIsMouseDown] = useState(false);
+  const [touchGesture, setTouchGesture] = useState(false);
+
+  // history (patch-based undo/redo). Edits announce themselves with pushHistory(label);
+  // the change is recorded once the state settles, so a whole drag becomes one entry.
+  const [history, setHistory] = useState<HistoryStack>(emptyHistory);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const committedRef = useRef<FilmDoc>({ scenes, notes, tracks, numbering, structure });
+  const pendingRef = useRef<{ label: string; coalesceKey?: string } | null>(null);
+  const pushHistory = (label = 'Edit', coalesceKey?: string) => { pendingRef.current = { label, coalesceKey }; };
+  const sceneLabel = (id: string) => `scene ${scenes.find(s => s.id === id)?.originalSceneNumber ?? '?'}`;
+
+  useEffect(() => {
+    if (isMouseDown || touchGesture) return;
+    const before = committedRef.current;
+    const after: FilmDoc = { scenes, notes, tracks, numbering, structure };
+    const meta = pendingRef.current ?? { label: 'Edit' };
+    pendingRef.current = null;
+    committedRef.current = after;
+    setHistory(h => recordChange(h, before, after, meta));
+  }, [scenes, notes, tracks, numbering, structure, isMouseDown, touchGesture]);
+
+  const restoreDoc = (doc: FilmDoc) => {
+    committedRef.current = doc;
+    setScenes(doc.scenes); setNotes(doc.notes); setTracks(doc.tracks); setNumbering(doc.numbering);
+    setStructure(doc.structure);
+  };
+  const undo = () => {
+    const step = undoStep(history, committedRef.current);
+    if (!step) return;
+    restoreDoc(step.doc);
+    setHistory(step.history);
+  };
+  const redo = () => {
+    const step = redoStep(history, committedRef.current);
+    if (!step) return;
+    restoreDoc(step.doc);
+    setHistory(step.history);
+  };
+  const jumpToHistory = (entryId: number) => {
+    const step = jumpTo(history, committedRef.current, entryId);
+    restoreDoc(step.doc);
+    setHistory(step.history);
+  };
+  /** Start a fresh history from the given document (new/opened project). */
+  const resetHistory = (doc: FilmDoc) => {
+    committedRef.current = doc;
+    pendingRef.current = null;
+    setHistory(emptyHistory());
+  };
   const dragStartRef = useRef<{ cx: number; cy: number }>({ cx: 0, cy: 0 });
   const activeSceneIdRef = useRef<string | null>(null);
-  const sceneStartSnapshotRef = useRef<{ positionSec: number; lengthSec: number; yPx: number } | null>(null);
+  const sceneStartSnapshotRef = useRef<{ positionSec: number; lengthSec: number; yPx: number; trackId: string } | null>(null);
   const activeNoteIdRef = useRef<string | null>(null);
   const noteStartSnapshotRef = useRef<{ relX: number; relY: number } | null>(null);
   const activeImageSceneIdRef = useRef<string | null>(null);
@@ -304,14 +398,78 @@ export default function FilmTimelineCanvas() {
 const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   const [cropValues, setCropValues] = useState<ImageCrop>({ xPct: 0, yPct: 0, wPct: 100, hPct: 100 });
 
-  // computed order for scenes (used by search and rendering)
+  // bundle media that couldn't be restored, and the scenes waiting for each asset
+  const [relinkItems, setRelinkItems] = useState<UnresolvedAsset[]>([]);
+  const relinkScenesRef = useRef<Map<string, string[]>>(new Map());
+
+  // compare view: an earlier version whose scene positions are drawn as ghosts
+  const [compareBase, setCompareBase] = useState<{ label: string; project: ProjectFileV1 } | null>(null);
+  const [comparePickerOpen, setComparePickerOpen] = useState(false);
+  const [compareSnapshots, setCompareSnapshots] = useState<Snapshot[]>([]);
+  // live collaboration: scenes and notes are shared through a CRDT session (lib/collab)
+  const [collab, setCollab] = useState<{ room: string; kind: TransportKind; name: string } | null>(null);
+  const [collabOpen, setCollabOpen] = useState(false);
+  const [collabForm, setCollabForm] = useState<{ room: string; kind: TransportKind; name: string }>(
+    { room: '', kind: 'broadcast', name: '' },
+  );
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const collabRef = useRef<CollabSession<{ scenes: Scene[]; notes: Note[] }> | null>(null);
+  const siteRef = useRef<string>('');
+
+  const compareDiff = useMemo(
+    () => compareBase ? diffProjects(compareBase.project, { scenes, notes }) : null,
+    [compareBase, scenes, notes],
+  );
+
+  // computed order for scenes (used by search and rendering); sceneNo is the production
+  // number, which only differs from the timeline order once numbers are locked
   const scenesWithOrder = useMemo(() => {
     const sorted = [...scenes].sort((a, b) => a.positionSec - b.positionSec);
+    const numbers = assignSceneNumbers(scenes, numbering);
     return scenes.map((s) => ({
       ...s,
       newSceneNumber: sorted.findIndex((x) => x.id === s.id) + 1,
+      sceneNo: numbers.get(s.id)!,
     }));
+  }, [scenes, numbering]);
+  const renumber = useMemo(() => renumberOpen ? renumberReport(scenes, numbering) : null, [renumberOpen, scenes, numbering]);
+
+  const sceneLines = (s: Scene) => s.scriptLines?.length ? s.scriptLines : toScriptLinesFromText(s.description);
+
+  // breakdown (INT/EXT, location, time of day, cast) in timeline order, and the scenes the filter keeps
+  const [breakdownOpen, setBreakdownOpen] = useState(false);
+  const [breakdownFilter, setBreakdownFilter] = useState<BreakdownFilter>({});
+  const breakdown = useMemo(() => {
+    const sorted = [...scenes].sort((a, b) => a.positionSec - b.positionSec);
+    const list = breakdownScenes(sorted.map(s => ({ heading: s.heading, lines: sceneLines(s) })));
+    return new Map<string, SceneBreakdown>(sorted.map((s, i) => [s.id, list[i]]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [scenes]);
+  // cast presence lanes: who's in what scene, with per-character stats
+  const [castLanesOn, setCastLanesOn] = useState(false);
+  const cast = useMemo(
+    () => castLanesOn ? castPresence(scenes.map(s => ({ ...s, lines: sceneLines(s) }))) : [],
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [castLanesOn, scenes],
+  );
+  const breakdownFacetList = useMemo(() => breakdownFacets([...breakdown.values()]), [breakdown]);
+  const breakdownMatch = useMemo(() => {
+    if (isFilterEmpty(breakdownFilter)) return null;
+    return new Set([...breakdown].filter(([, b]) => matchesBreakdown(b, breakdownFilter)).map(([id]) => id));
+  }, [breakdown, breakdownFilter]);
+
+  // story structure: targets are percentages of the runtime (end of the last scene)
+  const runtimeSec = useMemo(() => runtimeOf(scenes), [scenes]);
+  const structureDrift = useMemo(
+    () => new Map(structure ? beatDrifts(structure, scenes).map(d => [d.beatId, d]) : []),
+    [structure, scenes],
+  );
+  const beatSceneOptions = useMemo(
+    () => structureOpen && [...scenesWithOrder].sort((a, b) => a.positionSec - b.positionSec).map(s => (
+      <option key={s.id} value={s.id}>#{s.sceneNo} {s.heading}</option>
+    )),
+    [structureOpen, scenesWithOrder],
+  );
 
   // --- Search (scene number or free text) ---
   const [searchQ, setSearchQ] = useState('');
@@ -356,15 +514,16 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     const q = searchQ.trim();
     if (!q) return [] as Array<{ id: string; label: string; sub: string }>;
 
-    // If numeric -> try exact match on original or new scene numbers
+    // If a scene number (12, 12A) -> try exact match on original, new or production numbers
     const asNum = Number(q);
+    const asNo = normalizeSceneNumber(q);
     const results: Array<{ id: string; label: string; sub: string }> = [];
-    if (!Number.isNaN(asNum) && q === String(Math.floor(asNum))) {
+    if (asNo) {
       for (const s of scenesWithOrder) {
-        if (s.originalSceneNumber === asNum || s.newSceneNumber === asNum) {
+        if (s.originalSceneNumber === asNum || s.newSceneNumber === asNum || s.sceneNo === asNo) {
           results.push({
             id: s.id,
-            label: `Scene #${s.originalSceneNumber} → new #${s.newSceneNumber}`,
+            label: `Scene #${s.originalSceneNumber} → new #${s.sceneNo}`,
             sub: `${formatTime(s.positionSec)} · ${s.heading}`,
           });
         }
@@ -477,12 +636,222 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     ctx.closePath(); ctx.fill();
   }
 
+  /** Dashed outlines where moved, resized and removed scenes were in the compared version. */
+  function drawCompareGhosts(ctx: CanvasRenderingContext2D, DPR: number) {
+    if (!compareBase || !compareDiff) return;
+    const ids = ghostSceneIds(compareDiff);
+    const removed = new Set(compareDiff.scenes.filter(c => c.kind === 'removed').map(c => c.id));
+    const oldNumbers = timelineNumbers(compareBase.project.scenes);
+    ctx.save();
+    ctx.setLineDash([6 * DPR, 4 * DPR]);
+    ctx.lineWidth = 1.5 * DPR;
+    ctx.font = `${11 * DPR}px ui-sans-serif, system-ui`;
+    for (const s of compareBase.project.scenes) {
+      if (!ids.has(s.id) || !isSceneVisible(s)) continue;
+      const x = secToCss(s.positionSec) * DPR;
+      const y = (sceneTop(s) + 4) * DPR;
+      const w = Math.max(s.lengthSec * zoom, 2) * DPR;
+      const h = (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H) * DPR;
+      const color = removed.has(s.id) ? '#f87171' : '#e5e7eb';
+      drawRoundedRect(ctx, x, y, w, h, 6 * DPR);
+      ctx.fillStyle = removed.has(s.id) ? 'rgba(248,113,113,0.08)' : 'rgba(229,231,235,0.06)';
+      ctx.fill();
+      ctx.strokeStyle = color;
+      ctx.stroke();
+      ctx.fillStyle = color;
+      ctx.fillText(`${removed.has(s.id) ? 'removed' : 'was'} #${oldNumbers.get(s.id)}`, x + 6 * DPR, y + 14 * DPR);
+    }
+    ctx.restore();
+  }
+
+  /** One thin lane per character under the scene lanes, with a bar wherever they speak (solid) or appear. */
+  function drawCastLanes(ctx: CanvasRenderingContext2D, w: number, h: number, DPR: number) {
+    if (!castLanesOn || !cast.length) return;
+    const rows = cast.slice(0, CAST_MAX_LANES);
+    const bandH = rows.length * CAST_LANE_H + 4;
+    const lanesBottom = Math.max(0, ...lanes.filter(l => l.visible).map(l => l.top + l.height));
+    // right under the lanes, or pinned to the bottom edge when the lanes fill the canvas
+    const top = Math.min(lanesBottom, h / DPR - structureRibbonH() - bandH);
+    ctx.save();
+    ctx.fillStyle = 'rgba(10,10,10,0.85)';
+    ctx.fillRect(0, top * DPR, w, bandH * DPR);
+    ctx.font = `500 ${9 * DPR}px ui-sans-serif, system-ui`;
+    rows.forEach((c, i) => {
+      const y = (top + 2 + i * CAST_LANE_H) * DPR;
+      const color = pickColor(i);
+      ctx.fillStyle = color;
+      for (const a of c.appearances) {
+        const x0 = secToCss(a.startSec) * DPR;
+        const x1 = secToCss(a.endSec) * DPR;
+        if (x1 < 0 || x0 > w) continue;
+        ctx.globalAlpha = a.speaking ? 0.9 : 0.35;
+        ctx.fillRect(x0, y + 2 * DPR, Math.max(DPR, x1 - x0), (CAST_LANE_H - 4) * DPR);
+      }
+      ctx.globalAlpha = 1;
+      // name tag fixed at the left edge
+      const tw = ctx.measureText(c.name).width;
+      ctx.fillStyle = 'rgba(10,10,10,0.8)';
+      ctx.fillRect(4 * DPR, y, tw + 8 * DPR, CAST_LANE_H * DPR);
+      ctx.fillStyle = color;
+      ctx.fillText(c.name, 8 * DPR, y + 9 * DPR);
+    });
+    ctx.restore();
+  }
+
+  const structureRibbonH = () => !structure ? 0
+    : STRUCTURE_ACT_H + STRUCTURE_FLAG_H + (structure.bands.some(b => b.kind === 'sequence') ? STRUCTURE_SEQ_H : 0);
+
+  /** Acts tinted across the whole height and dashed guides at each beat's target, under the scenes. */
+  function drawStructureBands(ctx: CanvasRenderingContext2D, h: number, DPR: number) {
+    if (!structure || runtimeSec <= 0) return;
+    ctx.save();
+    structure.bands.filter(b => b.kind === 'act').forEach((b, i) => {
+      const x0 = secToCss(pctToSec(b.startPct, runtimeSec)) * DPR;
+      const x1 = secToCss(pctToSec(b.endPct, runtimeSec)) * DPR;
+      ctx.fillStyle = pickColor(i);
+      ctx.globalAlpha = 0.05;
+      ctx.fillRect(x0, 0, x1 - x0, h);
+    });
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = 'rgba(229,231,235,0.25)';
+    ctx.lineWidth = DPR;
+    ctx.setLineDash([3 * DPR, 5 * DPR]);
+    for (const beat of structure.beats) {
+      const x = secToCss(pctToSec(beat.pct, runtimeSec)) * DPR;
+      ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, h); ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /**
+   * The structure ribbon pinned to the bottom: beat flags (red when the assigned scene is
+   * off target by more than the tolerance, with a line to where it really is), then
+   * sequences, then acts.
+   */
+  function drawStructureFlags(ctx: CanvasRenderingContext2D, w: number, h: number, DPR: number) {
+    if (!structure || runtimeSec <= 0) return;
+    const ribbonH = structureRibbonH();
+    const top = h / DPR - ribbonH;
+    const span = (startPct: number, endPct: number) => ({
+      x0: secToCss(pctToSec(startPct, runtimeSec)) * DPR,
+      x1: secToCss(pctToSec(endPct, runtimeSec)) * DPR,
+    });
+    ctx.save();
+    ctx.fillStyle = 'rgba(10,10,10,0.85)';
+    ctx.fillRect(0, top * DPR, w, ribbonH * DPR);
+
+    const drawRow = (kind: 'act' | 'sequence', y: number, rowH: number) => {
+      ctx.font = `500 ${(rowH - 4) * DPR}px ui-sans-serif, system-ui`;
+      structure.bands.filter(b => b.kind === kind).forEach((b, i) => {
+        const { x0, x1 } = span(b.startPct, b.endPct);
+        if (x1 < 0 || x0 > w) return;
+        ctx.fillStyle = pickColor(i);
+        ctx.globalAlpha = kind === 'act' ? 0.45 : 0.25;
+        ctx.fillRect(x0 + DPR, y * DPR, Math.max(DPR, x1 - x0 - 2 * DPR), (rowH - 2) * DPR);
+        ctx.globalAlpha = 1;
+        // keep the label readable when the band starts off screen
+        ctx.fillStyle = '#e5e7eb';
+        ctx.save();
+        ctx.beginPath(); ctx.rect(x0, y * DPR, x1 - x0, rowH * DPR); ctx.clip();
+        ctx.fillText(b.label, Math.max(x0, 0) + 4 * DPR, (y + rowH - 4) * DPR);
+        ctx.restore();
+      });
+    };
+    const hasSequences = structure.bands.some(b => b.kind === 'sequence');
+    if (hasSequences) drawRow('sequence', top + STRUCTURE_FLAG_H, STRUCTURE_SEQ_H);
+    drawRow('act', top + ribbonH - STRUCTURE_ACT_H, STRUCTURE_ACT_H);
+
+    ctx.font = `${10 * DPR}px ui-sans-serif, system-ui`;
+    const flagY = (top + 2) * DPR;
+    for (const beat of structure.beats) {
+      const x = secToCss(pctToSec(beat.pct, runtimeSec)) * DPR;
+      const drift = structureDrift.get(beat.id);
+      const color = !drift ? '#e5e7eb' : drift.warn ? '#f87171' : '#4ade80';
+      if (drift) {
+        const ax = secToCss(drift.actualSec) * DPR;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = DPR;
+        ctx.beginPath(); ctx.moveTo(x, flagY + 6 * DPR); ctx.lineTo(ax, flagY + 6 * DPR); ctx.stroke();
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(ax, flagY + 2 * DPR); ctx.lineTo(ax + 4 * DPR, flagY + 6 * DPR);
+        ctx.lineTo(ax, flagY + 10 * DPR); ctx.lineTo(ax - 4 * DPR, flagY + 6 * DPR);
+        ctx.closePath(); ctx.fill();
+      }
+      if (x < -200 * DPR || x > w) continue;
+      // pole with a pennant carrying the beat name
+      const tw = ctx.measureText(beat.label).width;
+      ctx.fillStyle = color;
+      ctx.fillRect(x, flagY, DPR, (STRUCTURE_FLAG_H - 2) * DPR);
+      ctx.globalAlpha = 0.9;
+      ctx.fillRect(x + DPR, flagY, tw + 8 * DPR, 12 * DPR);
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = '#0a0a0a';
+      ctx.fillText(beat.label, x + 5 * DPR, flagY + 9.5 * DPR);
+    }
+    ctx.restore();
+  }
+
+  /** Collaborators' selections (outlines in their color) and pointers with their names. */
+  function drawPeers(ctx: CanvasRenderingContext2D, DPR: number) {
+    if (!peers.length) return;
+    ctx.save();
+    ctx.font = `${11 * DPR}px ui-sans-serif, system-ui`;
+    for (const p of peers) {
+      ctx.strokeStyle = p.color;
+      ctx.lineWidth = 2 * DPR;
+      for (const id of p.selection) {
+        const s = scenes.find(x => x.id === id);
+        if (!s || !isSceneVisible(s)) continue;
+        const h = (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H) * DPR;
+        drawRoundedRect(ctx, secToCss(s.positionSec) * DPR - 3 * DPR, (sceneTop(s) + 1) * DPR, Math.max(s.lengthSec * zoom, 2) * DPR + 6 * DPR, h + 6 * DPR, 8 * DPR);
+        ctx.stroke();
+      }
+      if (!p.cursor) continue;
+      const x = secToCss(p.cursor.sec) * DPR;
+      const y = p.cursor.y * DPR;
+      ctx.fillStyle = p.color;
+      ctx.beginPath();
+      ctx.moveTo(x, y); ctx.lineTo(x + 10 * DPR, y + 12 * DPR); ctx.lineTo(x + 3 * DPR, y + 12 * DPR); ctx.lineTo(x, y + 17 * DPR);
+      ctx.closePath(); ctx.fill();
+      const label = p.name || 'Guest';
+      const tw = ctx.measureText(label).width;
+      ctx.fillRect(x + 12 * DPR, y + 12 * DPR, tw + 8 * DPR, 16 * DPR);
+      ctx.fillStyle = '#0a0a0a';
+      ctx.fillText(label, x + 16 * DPR, y + 24 * DPR);
+    }
+    ctx.restore();
+  }
+
+  function drawLanes(ctx: CanvasRenderingContext2D, w: number, DPR: number) {
+    lanes.forEach((lane, i) => {
+      if (!lane.visible) return;
+      const top = lane.top * DPR;
+      const h = lane.height * DPR;
+      ctx.fillStyle = i % 2 ? 'rgba(255,255,255,0.025)' : 'rgba(255,255,255,0)';
+      ctx.fillRect(0, top, w, h);
+      ctx.strokeStyle = '#1f2937';
+      ctx.lineWidth = 1;
+      ctx.beginPath(); ctx.moveTo(0, top + h); ctx.lineTo(w, top + h); ctx.stroke();
+
+      // lane tag (fixed at the left edge, bottom of the lane so it stays clear of scene text)
+      const flags = [lane.track.muted && 'M', lane.track.locked && 'L', lane.track.solo && 'S'].filter(Boolean).join(' ');
+      const label = flags ? `${lane.track.name}  ${flags}` : lane.track.name;
+      ctx.font = `500 ${10 * DPR}px ui-sans-serif, system-ui`;
+      const tw = ctx.measureText(label).width;
+      const ty = top + h - 18 * DPR;
+      ctx.fillStyle = 'rgba(10,10,10,0.8)';
+      ctx.fillRect(4 * DPR, ty, tw + 18 * DPR, 14 * DPR);
+      ctx.fillStyle = lane.track.color;
+      ctx.fillRect(6 * DPR, ty + 3 * DPR, 8 * DPR, 8 * DPR);
+      ctx.fillStyle = lane.track.muted ? '#6b7280' : '#d1d5db';
+      ctx.fillText(label, 18 * DPR, ty + 11 * DPR);
+    });
+  }
+
   function drawTimeGridAndLabels(ctx: CanvasRenderingContext2D, w: number, h: number, DPR: number) {
     ctx.strokeStyle = '#1f2937';
     ctx.lineWidth = 1;
-    for (let y = 0; y < h; y += ROW_HEIGHT * DPR) {
-      ctx.beginPath(); ctx.moveTo(0, y); ctx.lineTo(w, y); ctx.stroke();
-    }
 
     const secStep = pickGridStepSec(zoom);
     const startSec = Math.max(0, (-panX) / zoom);
@@ -522,7 +891,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   }, [notes]);
 
   function baseNotesY(scene: Scene) {
-    const scnTopCss = scene.yPx + 4;
+    const scnTopCss = sceneTop(scene) + 4;
     const scnHcss = (scene.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H);
     return scnTopCss + scnHcss + NOTE_GAP_Y;
   }
@@ -563,8 +932,10 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       ctx.fillStyle = '#0a0a0a';
       ctx.fillRect(0, 0, w, h);
 
-      // grid + labels
+      // lanes, grid + labels
+      drawLanes(ctx, w, DPR);
       drawTimeGridAndLabels(ctx, w, h, DPR);
+      drawStructureBands(ctx, h, DPR);
 
       // playhead
       ctx.strokeStyle = '#f43f5e';
@@ -572,13 +943,20 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       const phx = (playheadSec * zoom + panX) * DPR;
       ctx.beginPath(); ctx.moveTo(phx, 0); ctx.lineTo(phx, h); ctx.stroke();
 
+      // compare view ghosts sit under the current scenes
+      drawCompareGhosts(ctx, DPR);
+
       // scenes + images + notes
       for (const s of scenesWithOrder) {
+        if (!isSceneVisible(s)) continue;
         const leftCss = secToCss(s.positionSec);
         const widthCss = Math.max(s.lengthSec * zoom, 2);
         const height = (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H) * DPR;
         const x = leftCss * DPR;
-        const y = s.yPx * DPR + 4 * DPR;
+        const topCss = sceneTop(s);
+        const y = topCss * DPR + 4 * DPR;
+        // muted lanes are drawn dimmed, and so are scenes the breakdown filter leaves out
+        ctx.globalAlpha = (laneOf(s).track.muted ? 0.35 : 1) * (breakdownMatch && !breakdownMatch.has(s.id) ? 0.2 : 1);
 
         // scene block (rounded)
         const radius = 6 * DPR;
@@ -603,11 +981,11 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         ctx.fill();
         ctx.restore();
 
-        // selection border
-        if (s.id === selectedSceneId) {
+        // selection border (breakdown filter hits are outlined in amber)
+        if (s.id === selectedSceneId || breakdownMatch?.has(s.id)) {
           ctx.save();
           ctx.lineWidth = 2 * DPR;
-          ctx.strokeStyle = '#ffffff';
+          ctx.strokeStyle = s.id === selectedSceneId ? '#ffffff' : '#fbbf24';
           drawRoundedRect(ctx, bodyX - 1 * DPR, bodyY - 1 * DPR, bodyW + 2 * DPR, bodyH + 2 * DPR, radius + 1 * DPR);
           ctx.stroke();
           ctx.restore();
@@ -619,7 +997,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         ctx.fillRect(x + bodyW - HANDLE_W * DPR, y, HANDLE_W * DPR, height);
 
         // chevron
-        drawChevron(ctx, (leftCss + TOGGLE_PAD) * DPR, (s.yPx + 8) * DPR, TOGGLE_SIZE * DPR, !!s.collapsed);
+        drawChevron(ctx, (leftCss + TOGGLE_PAD) * DPR, (topCss + 8) * DPR, TOGGLE_SIZE * DPR, !!s.collapsed);
 
         // text labels (heavier weight + clipped to card to avoid bleeding)
         const textLeft = x + (TOGGLE_PAD + TOGGLE_SIZE + 8) * DPR;
@@ -631,10 +1009,12 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         drawRoundedRect(ctx, bodyX, bodyY, bodyW, bodyH, radius);
         ctx.clip();
 
-        const numbers = `#${s.originalSceneNumber} → new #${s.newSceneNumber}`;
+        const numbers = `#${s.originalSceneNumber} → new #${s.sceneNo}`;
         const title = s.heading || 'Untitled Scene';
-        const line1 = `[${formatTime(s.positionSec)}–${formatTime(s.positionSec + s.lengthSec)}]  ${numbers}`;
-        const line2 = s.collapsed ? title : `${title}  ·  ${Math.round(s.lengthSec)}s`;
+        const lock = s.locked ? '🔒 ' : '';
+        const line1 = `${lock}[${formatTime(s.positionSec)}–${formatTime(s.positionSec + s.lengthSec)}]  ${numbers}`;
+        const pages = s.lengthEighths ? `  ·  ${formatEighths(s.lengthEighths)} pg` : '';
+        const line2 = s.collapsed ? title : `${title}  ·  ${Math.round(s.lengthSec)}s${pages}`;
 
         function ellipsize(str: string, max = 180) {
           return str.length > max ? str.slice(0, max - 1) + '…' : str;
@@ -730,7 +1110,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           ctx.strokeStyle = '#9ca3af';
           ctx.lineWidth = 1;
           ctx.beginPath();
-          ctx.moveTo((leftCss + 4) * DPR, (s.yPx + 4 + (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H)) * DPR);
+          ctx.moveTo((leftCss + 4) * DPR, (topCss + 4 + (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H)) * DPR);
           ctx.lineTo(bx, by);
           ctx.stroke();
 
@@ -793,7 +1173,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           ctx.strokeStyle = '#9ca3af';
           ctx.lineWidth = 1;
           ctx.beginPath();
-          ctx.moveTo((leftCss + 4) * DPR, (s.yPx + 4 + (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H)) * DPR);
+          ctx.moveTo((leftCss + 4) * DPR, (topCss + 4 + (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H)) * DPR);
           ctx.lineTo(noteX, noteY);
           ctx.stroke();
 
@@ -805,6 +1185,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
             ctx.fillText(line.slice(0, 40), noteX + 8 * DPR, noteY + (16 + li * 12) * DPR)
           );
         }
+        ctx.globalAlpha = 1;
       }
 
       // marquee
@@ -819,12 +1200,16 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         ctx.setLineDash([]);
       }
 
+      drawStructureFlags(ctx, w, h, DPR);
+      drawCastLanes(ctx, w, h, DPR);
+      drawPeers(ctx, DPR);
+
       raf = requestAnimationFrame(draw);
     };
 
     raf = requestAnimationFrame(draw);
     return () => cancelAnimationFrame(raf);
-  }, [scenesWithOrder, zoom, panX, playheadSec, notesByScene, marquee, selectedNoteId, selectedSceneId, selectedImageSceneId]);
+  }, [scenesWithOrder, lanes, zoom, panX, playheadSec, notesByScene, marquee, selectedNoteId, selectedSceneId, selectedImageSceneId, compareDiff, peers, breakdownMatch, castLanesOn, cast, structure, structureDrift, runtimeSec]);
 
   // keep note overlay near selected note
   useEffect(() => {
@@ -864,12 +1249,25 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
 
     const dur = totalDurationSec();
 
+    // one row per visible lane
+    const rows = lanes.filter(l => l.visible);
+    const rowH = h / Math.max(1, rows.length);
+    rows.forEach((lane, r) => {
+      ctx.fillStyle = lane.track.color;
+      ctx.globalAlpha = 0.15;
+      ctx.fillRect(0, r * rowH, 3 * DPR, rowH);
+      ctx.globalAlpha = 1;
+    });
     for (const s of scenes) {
+      const r = rows.indexOf(laneOf(s));
+      if (r < 0) continue;
       const x0 = (s.positionSec / dur) * w;
       const x1 = ((s.positionSec + s.lengthSec) / dur) * w;
       ctx.fillStyle = s.color;
-      ctx.fillRect(x0, h * 0.25, Math.max(1, x1 - x0), h * 0.5);
+      ctx.globalAlpha = (laneOf(s).track.muted ? 0.35 : 1) * (breakdownMatch && !breakdownMatch.has(s.id) ? 0.2 : 1);
+      ctx.fillRect(x0, r * rowH + rowH * 0.2, Math.max(1, x1 - x0), Math.max(1, rowH * 0.6));
     }
+    ctx.globalAlpha = 1;
 
     const wCss = main.clientWidth;
     const startSec = Math.max(0, (-panX) / zoom);
@@ -887,7 +1285,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     ctx.strokeStyle = '#f43f5e';
     ctx.lineWidth = 2 * DPR;
     ctx.beginPath(); ctx.moveTo(phx, 0); ctx.lineTo(phx, h); ctx.stroke();
-  }, [scenes, panX, zoom, playheadSec]);
+  }, [scenes, lanes, panX, zoom, playheadSec, breakdownMatch]);
 
   function miniMetrics() {
     const mini = miniCanvasRef.current!;
@@ -997,6 +1395,8 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           startY: y,
           noteStart: { relX: nHit.note.relX, relY: nHit.note.relY },
         };
+        pushHistory('Moved note', `note:${nHit.note.id}`);
+        setTouchGesture(true);
         setSelectedNoteId(nHit.note.id);
         setSelectedImageSceneId(null);
         setSelectedSceneId(null);
@@ -1015,6 +1415,8 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           startY: y,
           imgStart: { relX: iHit.meta.relX, relY: iHit.meta.relY },
         };
+        pushHistory('Moved image', `image:${iHit.scene.id}`);
+        setTouchGesture(true);
         setSelectedImageSceneId(iHit.scene.id);
         setSelectedNoteId(null);
         setSelectedSceneId(null);
@@ -1097,6 +1499,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
 
   const onTouchEnd: React.TouchEventHandler<HTMLCanvasElement> = (e) => {
     // If all touches ended, clear modes
+    setTouchGesture(false);
     if (e.touches.length === 0) {
       touchModeRef.current = 'none';
       touchLastRef.current = null;
@@ -1139,7 +1542,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     // — try note first
     const hitN = hitNoteAt(x, y);
     if (hitN) {
-      pushHistory();
+      pushHistory('Moved note', `note:${hitN.note.id}`);
       setSelectedImageSceneId(null);
       setSelectedNoteId(hitN.note.id);
       activeNoteIdRef.current = hitN.note.id;
@@ -1152,7 +1555,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     // — then image card
     const hitImg = hitImageAt(x, y);
     if (hitImg) {
-      pushHistory();
+      pushHistory('Moved image', `image:${hitImg.scene.id}`);
       setSelectedNoteId(null);
       setSelectedImageSceneId(hitImg.scene.id);
       activeImageSceneIdRef.current = hitImg.scene.id;
@@ -1167,19 +1570,21 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     if (hit) {
       const { scene, region } = hit;
       if (hitChevron(scene, x, y)) {
-        pushHistory();
+        pushHistory(`${scene.collapsed ? 'Expanded' : 'Collapsed'} ${sceneLabel(scene.id)}`);
         setScenes(prev => prev.map(s => s.id === scene.id ? { ...s, collapsed: !s.collapsed } : s));
         setSelectedSceneId(scene.id);
         setIsMouseDown(false);
         setDragMode('none');
         return;
       }
-      pushHistory();
       setSelectedSceneId(scene.id);
       setSelectedNoteId(null);
       setSelectedImageSceneId(null);
+      // clips on a locked lane can be selected but not moved
+      if (laneOf(scene).track.locked) { setDragMode('none'); return; }
+      pushHistory(`${region === 'scene' ? 'Moved' : 'Resized'} ${sceneLabel(scene.id)}`);
       activeSceneIdRef.current = scene.id;
-      sceneStartSnapshotRef.current = { positionSec: scene.positionSec, lengthSec: scene.lengthSec, yPx: scene.yPx };
+      sceneStartSnapshotRef.current = { positionSec: scene.positionSec, lengthSec: scene.lengthSec, yPx: scene.yPx, trackId: laneOf(scene).track.id };
       setDragMode(region);
     } else {
       // start marquee
@@ -1193,6 +1598,10 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   };
 
   const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (collabRef.current) {
+      const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
+      collabRef.current.setPresence({ cursor: { sec: (e.clientX - rect.left - panX) / zoom, y: e.clientY - rect.top } });
+    }
     if (!isMouseDown) return;
 
     const dx = e.clientX - dragStartRef.current.cx;
@@ -1212,10 +1621,11 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       const [mx0, mx1] = [Math.min(marquee!.x0, x), Math.max(marquee!.x0, x)];
       const [my0, my1] = [Math.min(marquee!.y0, y), Math.max(marquee!.y0, y)];
       for (const s of scenes) {
+        if (!isSceneVisible(s) || laneOf(s).track.locked) continue;
         const left = secToCss(s.positionSec);
         const width = s.lengthSec * zoom;
         const height = (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6);
-        const top = s.yPx + 4;
+        const top = sceneTop(s) + 4;
         if (rectsOverlap(mx0, my0, mx1 - mx0, my1 - my0, left, top, width, height)) {
           sel.add(s.id);
         }
@@ -1250,15 +1660,20 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     if (dragMode === 'scene') {
       const newPos = roundToSnap(Math.max(0, snap.positionSec + dx / zoom));
       const lockedY = snap.yPx;
+      // Dragging vertically moves the clip to the lane under the pointer
+      const rect = (e.target as HTMLCanvasElement).getBoundingClientRect();
+      const target = laneAt(lanes, e.clientY - rect.top);
+      const trackId = target && !target.track.locked ? target.track.id : snap.trackId;
+      const onTrack = (s: Scene) => trackId !== snap.trackId ? trackId : s.trackId;
       if (multiSelIds.size > 0 && multiSelIds.has(sceneId)) {
         const deltaSec = newPos - snap.positionSec;
         setScenes(prev => prev.map(s =>
           multiSelIds.has(s.id)
-            ? { ...s, positionSec: Math.max(0, s.positionSec + deltaSec), yPx: lockedY }
+            ? { ...s, positionSec: Math.max(0, s.positionSec + deltaSec), yPx: lockedY, trackId: onTrack(s) }
             : s
         ));
       } else {
-        setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, positionSec: newPos, yPx: lockedY } : s));
+        setScenes(prev => prev.map(s => s.id === sceneId ? { ...s, positionSec: newPos, yPx: lockedY, trackId } : s));
       }
       return;
     }
@@ -1276,7 +1691,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       setScenes(prev => prev.map(s => {
         if (s.id === sceneId) return { ...s, positionSec: newPos, lengthSec: newLen };
         const resizedEndOld = snap.positionSec + snap.lengthSec;
-        if (deltaLen !== 0 && s.positionSec >= resizedEndOld) {
+        if (deltaLen !== 0 && s.positionSec >= resizedEndOld && resolveTrackId(tracks, s.trackId) === snap.trackId) {
           return { ...s, positionSec: Math.max(0, roundToSnap(s.positionSec + deltaLen)) };
         }
         return s;
@@ -1302,7 +1717,10 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     setMarquee(null);
   };
   const onMouseUp = endDrag;
-  const onMouseLeave = endDrag;
+  const onMouseLeave = () => {
+    collabRef.current?.setPresence({ cursor: null });
+    endDrag();
+  };
 
   const onClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (isMouseDown) return;
@@ -1315,7 +1733,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     if (reattachMode && selectedNoteId) {
       const hit = hitSceneAt(x, y);
       if (hit) {
-        pushHistory();
+        pushHistory('Reattached note');
         const newScene = hit.scene;
         setNotes(prev => {
           const sceneNotes = notesByScene.get(newScene.id) || [];
@@ -1359,7 +1777,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
 
   /* ---------- Scene ops ---------- */
   const addScene = () => {
-    pushHistory();
+    pushHistory('Added scene');
     const id = crypto.randomUUID();
     const yBase = 8; // linear lane
 
@@ -1376,6 +1794,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       description: 'Describe action in screenplay format...',
       positionSec: roundToSnap(playheadSec),
       lengthSec: 30,
+      trackId: tracks[0]?.id,
       yPx: yBase,
       color: pickColor(scenes.length),
       collapsed: false,
@@ -1383,14 +1802,17 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       imageMeta: null,
     };
 
-    const placed = autoPlaceByOriginalNumber(newScene, scenes);
-    setScenes(prev => prev.concat(placed));
+    const placed = autoPlaceByOriginalNumber(newScene, scenes.filter(s => sameTrack(s, newScene)));
+    // while numbers are locked the new scene gets its insert number (12A) for good
+    const sceneNumber = numbering.locked ? assignSceneNumbers(scenes.concat(placed), numbering).get(id) : undefined;
+    setScenes(prev => prev.concat({ ...placed, sceneNumber }));
     setSelectedSceneId(id);
   };
 
   const deleteSelectedScene = () => {
     if (!selectedSceneId) return;
-    pushHistory();
+    pushHistory(`Deleted ${sceneLabel(selectedSceneId)}`);
+    setNumbering(omitScenes(numbering, scenes, [selectedSceneId]));
     setNotes(prev => prev.filter(n => n.sceneId !== selectedSceneId));
     setScenes(prev => prev.filter(s => s.id !== selectedSceneId));
     setSelectedSceneId(null);
@@ -1399,21 +1821,160 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   const updateHeading = (e: React.ChangeEvent<HTMLInputElement>) => {
     const v = e.target.value;
     if (!selectedSceneId) return;
-    pushHistory();
+    pushHistory(`Edited heading of ${sceneLabel(selectedSceneId)}`, `heading:${selectedSceneId}`);
     setScenes(prev => prev.map(s => s.id === selectedSceneId ? { ...s, heading: v } : s));
   };
 
+  /* ---------- Page-count timing ---------- */
+  // A scene is page-timed while its lengthSec still matches its eighths at the current
+  // rate; a length typed or dragged by hand is left alone when the script or rate changes.
+  const isPageTimed = (s: Scene, rate = secondsPerPage) =>
+    !s.locked && s.lengthEighths != null && s.lengthSec === eighthsToSeconds(s.lengthEighths, rate);
+
+  /** Apply new lengths and ripple every later scene on the same lane by the accumulated change. */
+  function rippleLengths(list: Scene[], lengths: Map<string, number>): Scene[] {
+    const ordered = [...list].sort((a, b) => a.positionSec - b.positionSec);
+    const moved = new Map<string, Scene>();
+    const shift = new Map<string, number>();
+    for (const s of ordered) {
+      const track = resolveTrackId(tracks, s.trackId);
+      const by = shift.get(track) ?? 0;
+      const lengthSec = lengths.get(s.id) ?? s.lengthSec;
+      moved.set(s.id, { ...s, positionSec: Math.max(0, s.positionSec + by), lengthSec });
+      shift.set(track, by + lengthSec - s.lengthSec);
+    }
+    return list.map(s => moved.get(s.id)!);
+  }
+
+  const saveSceneText = (sceneId: string, text: string) => {
+    pushHistory(`Edited ${sceneLabel(sceneId)}`);
+    setScenes(prev => {
+      const lengths = new Map<string, number>();
+      const next = prev.map(s => {
+        if (s.id !== sceneId) return s;
+        const scriptLines = toScriptLinesFromText(text);
+        const lengthEighths = sceneEighths([{ type: 'scene', text: s.heading }, ...scriptLines]);
+        if (!s.locked && (s.lengthEighths == null || isPageTimed(s))) lengths.set(s.id, eighthsToSeconds(lengthEighths, secondsPerPage));
+        return { ...s, description: text, scriptLines, lengthEighths };
+      });
+      return rippleLengths(next, lengths);
+    });
+  };
+
+  const updateSecondsPerPage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const v = Math.max(1, Number(e.target.value) || DEFAULT_SECONDS_PER_PAGE);
+    if (v === secondsPerPage) return;
+    pushHistory('Changed seconds per page', 'secondsPerPage');
+    setScenes(prev => {
+      const lengths = new Map<string, number>();
+      for (const s of prev) {
+        if (isPageTimed(s)) lengths.set(s.id, eighthsToSeconds(s.lengthEighths!, v));
+      }
+      return rippleLengths(prev, lengths);
+    });
+    setSecondsPerPage(v);
+  };
+
+  /* ---------- Dialogue-rate timing ---------- */
+
+  /** Re-time every unlocked scene from word counts, speaking rates and its pace multiplier. */
+  const recomputeLengths = () => {
+    pushHistory('Recomputed lengths');
+    setScenes(prev => {
+      const lengths = new Map<string, number>();
+      for (const s of prev) {
+        if (!s.locked) lengths.set(s.id, estimateSeconds(sceneLines(s), timing, s.pace ?? 1));
+      }
+      return rippleLengths(prev, lengths);
+    });
+  };
+
+  const castNames = useMemo(() => {
+    const names = new Set<string>();
+    for (const s of scenes) speakingCharacters(sceneLines(s)).forEach(n => names.add(n));
+    return [...names].sort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scenes]);
+
+  const setCharacterWpm = (name: string, value: string) => {
+    setTiming(t => {
+      const characterWpm = { ...t.characterWpm };
+      const v = Number(value);
+      if (value === '' || !(v > 0)) delete characterWpm[name];
+      else characterWpm[name] = v;
+      return { ...t, characterWpm };
+    });
+  };
+
+  const updatePace = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!selectedSceneId) return;
+    const v = Math.max(0.1, Number(e.target.value) || 1);
+    pushHistory(`Changed pace of ${sceneLabel(selectedSceneId)}`, `pace:${selectedSceneId}`);
+    setScenes(prev => prev.map(s => s.id === selectedSceneId ? { ...s, pace: v } : s));
+  };
+
+  /* ---------- Lanes ---------- */
+  const moveSelectedToTrack = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!selectedSceneId) return;
+    const trackId = e.target.value;
+    pushHistory(`Moved ${sceneLabel(selectedSceneId)} to another track`);
+    setScenes(prev => prev.map(s => s.id === selectedSceneId ? { ...s, trackId } : s));
+  };
+
+  const updateTrack = (id: string, patch: Partial<Track>) => {
+    pushHistory(`Edited track ${tracks.find(t => t.id === id)?.name ?? ''}`.trim(), `track:${id}:${Object.keys(patch).join()}`);
+    setTracks(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
+
+  const addTrack = () => {
+    pushHistory('Added track');
+    setTracks(prev => prev.concat({
+      id: crypto.randomUUID(),
+      name: `Track ${prev.length + 1}`,
+      height: 110,
+      color: pickColor(prev.length),
+    }));
+  };
+
+  const moveTrack = (id: string, dir: -1 | 1) => {
+    pushHistory('Reordered tracks');
+    setTracks(prev => {
+      const i = prev.findIndex(t => t.id === id);
+      const j = i + dir;
+      if (i < 0 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  };
+
+  /** Remove a lane; its clips move to the first remaining lane. */
+  const deleteTrack = (id: string) => {
+    if (tracks.length <= 1) return;
+    const rest = tracks.filter(t => t.id !== id);
+    pushHistory('Deleted track');
+    setScenes(prev => prev.map(s => resolveTrackId(tracks, s.trackId) === id ? { ...s, trackId: rest[0].id } : s));
+    setTracks(rest);
+  };
+
+  const toggleLocked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!selectedSceneId) return;
+    const locked = e.target.checked;
+    pushHistory(`${locked ? 'Locked' : 'Unlocked'} ${sceneLabel(selectedSceneId)}`);
+    setScenes(prev => prev.map(s => s.id === selectedSceneId ? { ...s, locked } : s));
+  };
+
   const updateLength = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!selectedSceneId) return;
     const v = roundToSnap(Math.max(SCENE_MIN_SEC, Number(e.target.value) || SCENE_MIN_SEC));
-    pushHistory();
+    pushHistory(`Resized ${sceneLabel(selectedSceneId)}`, `length:${selectedSceneId}`);
     setScenes(prev => {
       const cur = prev.find(s => s.id === selectedSceneId)!;
       const delta = v - cur.lengthSec;
       return prev.map(s => {
         if (s.id === selectedSceneId) return { ...s, lengthSec: v };
         const curEnd = cur.positionSec + cur.lengthSec;
-        if (delta !== 0 && s.positionSec >= curEnd) {
+        if (delta !== 0 && s.positionSec >= curEnd && sameTrack(s, cur)) {
           return { ...s, positionSec: Math.max(0, roundToSnap(s.positionSec + delta)) };
         }
         return s;
@@ -1425,7 +1986,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     const vRaw = Math.max(1, Math.floor(Number(e.target.value) || 1));
     if (!selectedSceneId) return;
 
-    pushHistory();
+    pushHistory(`Renumbered ${sceneLabel(selectedSceneId)}`, `number:${selectedSceneId}`);
     setScenes(prev => {
       const cur = prev.find(s => s.id === selectedSceneId);
       if (!cur) return prev;
@@ -1439,10 +2000,67 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     });
   };
 
+  /* ---------- Story structure (acts, sequences, beats) ---------- */
+  function chooseStructureTemplate(template: StructureTemplateId | '') {
+    pushHistory(template ? `Structure: ${STRUCTURE_TEMPLATES[template].name}` : 'Remove structure');
+    setStructure(template ? switchTemplate(structure, template) : null);
+  }
+  function assignBeatScene(beatId: string, sceneId: string) {
+    if (!structure) return;
+    pushHistory(`Assign ${structure.beats.find(b => b.id === beatId)?.label ?? 'beat'}`);
+    setStructure({ ...structure, beats: structure.beats.map(b => b.id === beatId ? { ...b, sceneId: sceneId || undefined } : b) });
+  }
+  function setStructureTolerance(pct: number) {
+    if (!structure || !Number.isFinite(pct) || pct < 0) return;
+    pushHistory('Beat tolerance', 'structure-tolerance');
+    setStructure({ ...structure, tolerancePct: pct });
+  }
+  /** Scroll so a beat's target time is in the middle of the view. */
+  function centerOnSec(sec: number) {
+    const main = canvasRef.current;
+    if (!main) return;
+    setPanX(main.clientWidth / 2 - sec * zoom);
+  }
+
+  /* ---------- Production numbering (lock / A-B inserts / OMITTED) ---------- */
+  const lockNumbers = () => {
+    pushHistory('Locked scene numbers');
+    setScenes(prev => lockSceneNumbers(prev, numbering));
+    setNumbering({ ...numbering, locked: true });
+  };
+
+  /** Unlock: numbers follow the timeline again and OMITTED placeholders are dropped. */
+  const unlockAndRenumber = () => {
+    pushHistory('Renumbered scenes');
+    setScenes(prev => prev.map(s => s.sceneNumber == null ? s : { ...s, sceneNumber: undefined }));
+    setNumbering(DEFAULT_NUMBERING);
+    setRenumberOpen(false);
+  };
+
+  const updateSceneNumber = (input: HTMLInputElement) => {
+    const cur = scenesWithOrder.find(s => s.id === selectedSceneId);
+    if (!cur) return;
+    const v = normalizeSceneNumber(input.value);
+    if (v === cur.sceneNo) return;
+    if (!v) {
+      alert(`"${input.value}" is not a scene number. Use digits with optional letters, e.g. 12 or 12A.`);
+      input.value = cur.sceneNo;
+      return;
+    }
+    const omitted = numbering.omitted.some(o => o.number === v);
+    if (omitted || scenesWithOrder.some(s => s.id !== cur.id && s.sceneNo === v)) {
+      alert(`Scene number ${v} is already ${omitted ? 'omitted' : 'in use'}. Choose a unique number.`);
+      input.value = cur.sceneNo;
+      return;
+    }
+    pushHistory(`Renumbered ${sceneLabel(cur.id)}`);
+    setScenes(prev => prev.map(s => s.id === cur.id ? { ...s, sceneNumber: v } : s));
+  };
+
   /* ---------- Notes ---------- */
   const addNoteToSelectedScene = () => {
     if (!selectedSceneId) return;
-    pushHistory();
+    pushHistory('Added note');
     const sceneNotes = notesByScene.get(selectedSceneId) || [];
     const newNote: Note = {
       id: crypto.randomUUID(),
@@ -1460,14 +2078,14 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
 
   const deleteSelectedNote = () => {
     if (!selectedNoteId) return;
-    pushHistory();
+    pushHistory('Deleted note');
     setNotes(prev => prev.filter(n => n.id !== selectedNoteId));
     setSelectedNoteId(null);
   };
 
   const moveNoteUp = () => {
     if (!selectedNoteId) return;
-    pushHistory();
+    pushHistory('Reordered notes');
     setNotes(prev => {
       const note = prev.find(n => n.id === selectedNoteId);
       if (!note) return prev;
@@ -1485,7 +2103,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
 
   const moveNoteDown = () => {
     if (!selectedNoteId) return;
-    pushHistory();
+    pushHistory('Reordered notes');
     setNotes(prev => {
       const note = prev.find(n => n.id === selectedNoteId);
       if (!note) return prev;
@@ -1507,7 +2125,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   const onImageChosen: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
     const file = e.target.files?.[0];
     if (!file || !selectedSceneId) return;
-    pushHistory();
+    pushHistory('Added image');
     const dataUrl = await fileToDataUrl(file);
     setScenes(prev => prev.map(s => s.id === selectedSceneId
       ? {
@@ -1528,14 +2146,14 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
 
   const deleteSelectedImage = () => {
     if (!selectedImageSceneId) return;
-    pushHistory();
+    pushHistory('Deleted image');
     setScenes(prev => prev.map(s => s.id === selectedImageSceneId ? { ...s, imageUrl: null, imageMeta: null } : s));
     setSelectedImageSceneId(null);
   };
 
   const saveCrop = () => {
     if (!cropModalSceneId) return;
-    pushHistory();
+    pushHistory('Cropped image');
     setScenes(prev => prev.map(s => {
       if (s.id !== cropModalSceneId || !s.imageMeta) return s;
       return { ...s, imageMeta: { ...s.imageMeta, crop: { ...cropValues } } };
@@ -1566,8 +2184,8 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         const xml = await file.text();
         parsed = importFdxToScenes(xml);
       } else if (ext === 'pdf') {
-        const txt = await extractPdfText(file);
-        parsed = parseScript(txt);
+        // Layout-aware: classifies by indentation and keeps page numbers per scene
+        parsed = await importPdfToScenes(file);
       } else if (ext === 'docx') {
         const txt = await extractDocxText(file);
         parsed = parseScript(txt);
@@ -1585,24 +2203,44 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         return;
       }
 
-      const imported = parsed.scenes.map((s, i) => ({
-        id: crypto.randomUUID(),
-        originalSceneNumber: s.index,
-        newSceneNumber: s.index,
-        heading: normalizeSceneHeading(s.heading),
-        description: composeDescription((s as any).lines || []) || s.description || '',
-        positionSec: Math.max(0, s.positionSec),
-        lengthSec: Math.max(1, Math.round(s.estLengthSec)),
-        yPx: baseY,
-        color: palette[i % palette.length],
-        collapsed: false,
-        imageUrl: null,
-        imageMeta: null,
-        scriptLines: (s as any).lines || [],
-      }));
+      const importedNotes: Note[] = [];
+      let cursor = 0;
+      const imported = parsed.scenes.map((s, i) => {
+        const id = crypto.randomUUID();
+        const lines: ScriptLine[] = (s as any).lines || [];
+        // Stand-alone [[notes]] become sticky notes on the scene
+        lines.filter(l => l.type === 'note').forEach((l, order) => importedNotes.push({
+          id: crypto.randomUUID(), sceneId: id, text: l.text, order,
+          relX: 12, relY: 0, width: NOTE_DEFAULT_W, height: NOTE_DEFAULT_H,
+        }));
+        const lengthSec = s.lengthEighths
+          ? eighthsToSeconds(s.lengthEighths, secondsPerPage)
+          : Math.max(1, Math.round(s.estLengthSec));
+        const positionSec = cursor;
+        cursor += lengthSec + 1;
+        return {
+          id,
+          originalSceneNumber: s.sceneNumber && /^\d+$/.test(s.sceneNumber) ? Number(s.sceneNumber) : s.index,
+          newSceneNumber: s.index,
+          heading: normalizeSceneHeading(s.heading),
+          description: composeDescription(lines) || s.description || '',
+          positionSec,
+          lengthSec,
+          lengthEighths: s.lengthEighths,
+          trackId: tracks[0]?.id,
+          yPx: baseY,
+          color: s.color || palette[i % palette.length],
+          collapsed: false,
+          imageUrl: null,
+          imageMeta: null,
+          scriptLines: lines.filter(l => l.type !== 'note'),
+        };
+      });
 
+      pushHistory(`Imported ${file.name}`);
       setScenes(imported);
-      setNotes([]);
+      setNotes(importedNotes);
+      setNumbering(DEFAULT_NUMBERING);
     } catch (err: any) {
       console.error('[Importer] Failed to import script:', err);
       const msg = (err && err.message) ? err.message : String(err);
@@ -1621,6 +2259,12 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
       zoom,
       panX,
       playheadSec,
+      secondsPerPage,
+      timing,
+      tracks,
+      numbering,
+      schedule,
+      structure: structure ?? undefined,
       scenes,
       notes,
     };
@@ -1633,16 +2277,125 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     downloadBlob(`${name}.dtfilm.json`, blob);
   }
 
-  function loadProject(data: unknown) {
+  // ---- Bundle (.dtfilmz): project.json plus scene images stored as files ----
+  async function exportBundle() {
+    const packed: PackedAsset[] = [];
+    const bundled: ProjectFileV1['scenes'] = [];
+    for (const s of scenes) {
+      const data = s.imageUrl ? dataUrlToBytes(s.imageUrl) : null;
+      if (!data) { bundled.push(s); continue; }
+      const p = await packAsset(data.bytes, `scene-${s.originalSceneNumber}`, data.mime, 'images');
+      packed.push(p);
+      bundled.push({ ...s, imageUrl: assetRef(p.asset.id) });
+    }
+    const bytes = buildBundle('dtfilm', projectName, { ...makeProject(), scenes: bundled }, packed);
+    const name = (projectName || 'Untitled Project').replace(/[\/\\?%*:|"<>]/g, '_');
+    downloadBlob(`${name}${BUNDLE_EXT.dtfilm}`, new Blob([bytes], { type: 'application/zip' }));
+  }
+
+  async function openFilmBundle(bytes: Uint8Array) {
+    const bundle = await openBundle(bytes, 'dtfilm');
+    const p = bundle.project as Partial<ProjectFileV1>;
+    const mimeOf = new Map(bundle.manifest.assets.map(a => [a.id, a.mime]));
+    const waiting = new Map<string, string[]>();
+    const scenes = Array.isArray(p?.scenes)
+      ? p.scenes.map(s => {
+          const id = assetIdOf(s.imageUrl);
+          if (!id) return s;
+          const data = bundle.assets.get(id);
+          if (data) return { ...s, imageUrl: bytesToDataUrl(data, mimeOf.get(id) ?? 'image/png') };
+          waiting.set(id, [...(waiting.get(id) ?? []), s.id]);
+          return { ...s, imageUrl: null };
+        })
+      : p?.scenes;
+    loadProject({ ...p, scenes });
+    relinkScenesRef.current = waiting;
+    setRelinkItems(bundle.unresolved.filter(u => waiting.has(u.asset.id)));
+  }
+
+  async function relinkAsset(assetId: string, file: File) {
+    const item = relinkItems.find(u => u.asset.id === assetId);
+    if (!item) return;
+    const same = await matchesAsset(item.asset, new Uint8Array(await file.arrayBuffer()));
+    if (!same && !confirm(`"${file.name}" is not the same file as the original "${item.asset.name}". Use it anyway?`)) return;
+    const dataUrl = await fileToDataUrl(file);
+    const ids = relinkScenesRef.current.get(assetId) ?? [];
+    pushHistory('Relinked image');
+    setScenes(prev => prev.map(s => ids.includes(s.id) ? { ...s, imageUrl: dataUrl } : s));
+    setRelinkItems(prev => prev.filter(u => u.asset.id !== assetId));
+  }
+
+  /** Unmuted scenes in timeline order with production numbers, plus OMITTED placeholders. */
+  function exportRows() {
+    return numberedRows(scenes, numbering)
+      .filter(r => r.kind === 'omitted' || !laneOf(r.scene).track.muted)
+      .map(r => r.kind === 'scene'
+        ? { ...r.scene, sceneNumber: r.number }
+        : { id: `omitted:${r.number}`, heading: r.heading, description: '', sceneNumber: r.number, omitted: true });
+  }
+
+  // ---- Export script (.fountain) in timeline order ----
+  function exportFountain() {
+    const txt = scenesToFountain(exportRows(), notes, { titlePage: [{ key: 'Title', value: projectName || 'Untitled Project' }] });
+    const blob = new Blob([txt], { type: 'text/plain;charset=utf-8' });
+    const name = (projectName || 'Untitled Project').replace(/[\/\\?%*:|"<>]/g, '_');
+    downloadBlob(`${name}.fountain`, blob);
+  }
+
+  // ---- Export Final Draft (.fdx): timeline order, original + production numbers, scene colors ----
+  function exportFdx() {
+    const rows = exportRows().map(r => ({ ...r, newSceneNumber: r.sceneNumber }));
+    const xml = scenesToFdx(rows, { titlePage: [{ key: 'Title', value: projectName || 'Untitled Project' }] });
+    const blob = new Blob([xml], { type: 'application/xml;charset=utf-8' });
+    const name = (projectName || 'Untitled Project').replace(/[\/\\?%*:|"<>]/g, '_');
+    downloadBlob(`${name}.fdx`, blob);
+  }
+
+  // ---- Export cast presence (.csv): one row per character ----
+  function exportCastCsv() {
+    const blob = new Blob([castPresenceCsv(cast)], { type: 'text/csv;charset=utf-8' });
+    const name = (projectName || 'Untitled Project').replace(/[\/\\?%*:|"<>]/g, '_');
+    downloadBlob(`${name} - cast.csv`, blob);
+  }
+
+  // ---- Export PDF: screenplay pages with production numbers in both margins ----
+  async function exportPdf() {
+    try {
+      const blob = await scenesToPdf(exportRows(), { title: projectName || 'Untitled Project' });
+      const name = (projectName || 'Untitled Project').replace(/[\/\\?%*:|"<>]/g, '_');
+      downloadBlob(`${name}.pdf`, blob);
+    } catch (err) {
+      console.error('[Export PDF] Failed:', err);
+      alert('Failed to export PDF');
+    }
+  }
+
+  /** fromLibrary: the data is the stored record itself, so its schedule isn't news to the store. */
+  function loadProject(data: unknown, fromLibrary = false) {
     const p = data as Partial<ProjectFileV1>;
     if (!p || p.kind !== 'dtfilm' || p.version !== 1 || !Array.isArray(p.scenes) || !Array.isArray(p.notes)) {
       throw new Error('Invalid project file');
     }
-    setScenes(p.scenes);
-    setNotes(p.notes);
+    const doc: FilmDoc = {
+      scenes: p.scenes,
+      notes: p.notes,
+      tracks: normalizeTracks(p.tracks),
+      numbering: { ...DEFAULT_NUMBERING, ...p.numbering },
+      structure: p.structure ?? null,
+    };
+    setScenes(doc.scenes);
+    setNotes(doc.notes);
+    setTracks(doc.tracks);
+    setNumbering(doc.numbering);
+    setStructure(doc.structure);
+    setSchedule(p.schedule ?? EMPTY_SCHEDULE);
+    scheduleLoadedRef.current = !fromLibrary;
+    resetHistory(doc);
     setZoom(clampZoom(p.zoom ?? zoom));
     setPanX(p.panX ?? 0);
     setPlayheadSec(p.playheadSec ?? 0);
+    setSecondsPerPage(p.secondsPerPage ?? DEFAULT_SECONDS_PER_PAGE);
+    setTiming({ ...DEFAULT_TIMING, ...p.timing, characterWpm: { ...p.timing?.characterWpm } });
     setProjectName(p.projectName || 'Untitled Project');
   }
 
@@ -1653,9 +2406,15 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const text = await file.text();
-      const json = JSON.parse(text);
-      loadProject(json);
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      await flushLibrarySave();
+      if (isBundleBytes(bytes)) await openFilmBundle(bytes);
+      else loadProject(JSON.parse(new TextDecoder().decode(bytes)));
+      // an opened file becomes a new project in the library
+      lastSnapshotRef.current = null;
+      setProjectId(newProjectId());
+      setCompareBase(null);
+      setCollab(null);
     } catch (err: any) {
       console.error('[Open Project] Failed:', err);
       alert(`Failed to open project: ${err?.message || String(err)}`);
@@ -1669,29 +2428,262 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     try { localStorage.setItem(PROJECT_NAME_KEY, projectName); } catch {}
   }, [projectName]);
 
+  // ---- Project library (IndexedDB): autosave, snapshots, multiple projects ----
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const lastSnapshotRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    try { localStorage.setItem(activeProjectKey('dtfilm'), projectId); } catch {}
+  }, [projectId]);
+
+  async function saveToLibrary(id: string) {
+    const data = makeProject();
+    // re-read the schedule so a stripboard open in another tab keeps its shooting order
+    if (!scheduleLoadedRef.current) {
+      const stored = (await getProject(id))?.data as Partial<ProjectFileV1> | undefined;
+      if (stored?.schedule) {
+        data.schedule = stored.schedule;
+        setSchedule(stored.schedule);
+      }
+    }
+    await saveProject({ id, kind: 'dtfilm', name: projectName, data });
+    scheduleLoadedRef.current = false;
+    if (isSnapshotDue(lastSnapshotRef.current, Date.now())) {
+      await addSnapshot(id, data);
+      lastSnapshotRef.current = Date.now();
+    }
+  }
+
   // Autosave (debounced)
   useEffect(() => {
-    const handle = setTimeout(() => {
+    if (!projectId) return;
+    const handle = setTimeout(async () => {
       try {
-        const payload = makeProject();
-        localStorage.setItem(PROJECT_AUTOSAVE_KEY, JSON.stringify(payload));
-      } catch {}
+        await saveToLibrary(projectId);
+        setSaveError(null);
+        try { localStorage.removeItem(PROJECT_AUTOSAVE_KEY); } catch {}
+      } catch (err) {
+        console.error('[Autosave] Failed:', err);
+        setSaveError(storageErrorMessage(err));
+      }
     }, 500);
     return () => clearTimeout(handle);
-  }, [projectName, scenes, notes, zoom, panX, playheadSec]);
+  }, [projectId, projectName, scenes, notes, zoom, panX, playheadSec, secondsPerPage, timing, tracks, numbering, structure]);
 
-  // Load autosave on mount if present and no scenes yet
+  // On mount: open ?project=<id>, else the last open project, else the old localStorage autosave
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(PROJECT_AUTOSAVE_KEY);
-      if (raw && scenes.length === 0) {
-        const data = JSON.parse(raw);
-        loadProject(data);
+    (async () => {
+      let id: string | null = null;
+      try {
+        const wanted = new URLSearchParams(window.location.search).get('project')
+          ?? localStorage.getItem(activeProjectKey('dtfilm'));
+        const rec = wanted ? await getProject(wanted) : undefined;
+        if (rec?.kind === 'dtfilm') {
+          loadProject(rec.data, true);
+          id = rec.id;
+        } else {
+          const raw = localStorage.getItem(PROJECT_AUTOSAVE_KEY);
+          if (raw && scenes.length === 0) loadProject(JSON.parse(raw));
+        }
+      } catch (err) {
+        console.error('[Project Library] Could not restore the last project:', err);
       }
-    } catch {}
+      setProjectId(id ?? newProjectId());
+    })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  /** Save the open project now; the debounced autosave is dropped when the project changes. */
+  async function flushLibrarySave() {
+    if (!projectId) return;
+    try {
+      await saveToLibrary(projectId);
+    } catch (err) {
+      console.error('[Autosave] Failed:', err);
+    }
+  }
+
+  async function switchProject(next: () => Promise<string> | string) {
+    try {
+      await flushLibrarySave();
+      const id = await next();
+      lastSnapshotRef.current = null;
+      setProjectId(id);
+      setLibraryOpen(false);
+      setCompareBase(null);
+      setCollab(null);
+    } catch (err: any) {
+      console.error('[Project Library] Failed:', err);
+      alert(`Failed to open project: ${storageErrorMessage(err)}`);
+    }
+  }
+
+  const openFromLibrary = (id: string) => switchProject(async () => {
+    const rec = await getProject(id);
+    if (!rec) throw new Error('That project is no longer in the library');
+    loadProject(rec.data, true);
+    return rec.id;
+  });
+
+  const newLibraryProject = () => switchProject(() => {
+    loadProject({ version: 1, kind: 'dtfilm', projectName: 'Untitled Project', zoom, panX: 0, playheadSec: 0, scenes: [], notes: [] });
+    return newProjectId();
+  });
+
+  async function restoreSnapshot(snap: Snapshot) {
+    if (!projectId) return;
+    if (!confirm(`Restore the snapshot from ${new Date(snap.createdAt).toLocaleString()}?\n\nThe current state is kept as a snapshot.`)) return;
+    try {
+      await addSnapshot(projectId, makeProject(), 'Before restore');
+      loadProject(snap.data);
+      setLibraryOpen(false);
+    } catch (err: any) {
+      console.error('[Project Library] Restore failed:', err);
+      alert(`Failed to restore snapshot: ${storageErrorMessage(err)}`);
+    }
+  }
+
+  // ---- Compare with an earlier version ----
+  async function openComparePicker() {
+    setComparePickerOpen(true);
+    try {
+      setCompareSnapshots(projectId ? await listSnapshots(projectId) : []);
+    } catch (err) {
+      console.error('[Compare] Failed to list snapshots:', err);
+    }
+  }
+
+  function startCompare(label: string, data: unknown) {
+    const p = data as Partial<ProjectFileV1>;
+    if (!p || p.kind !== 'dtfilm' || !Array.isArray(p.scenes) || !Array.isArray(p.notes)) {
+      throw new Error('Not a film project');
+    }
+    setCompareBase({ label, project: p as ProjectFileV1 });
+    setComparePickerOpen(false);
+  }
+
+  async function saveVersion() {
+    if (!projectId) return;
+    const label = prompt('Name this version', `Version ${new Date().toLocaleString()}`);
+    if (label == null) return;
+    try {
+      await addSnapshot(projectId, makeProject(), label.trim() || 'Version');
+      setCompareSnapshots(await listSnapshots(projectId));
+    } catch (err: any) {
+      console.error('[Compare] Failed to save version:', err);
+      alert(`Failed to save version: ${storageErrorMessage(err)}`);
+    }
+  }
+
+  const onCompareFileChosen: React.ChangeEventHandler<HTMLInputElement> = async (e) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const data = isBundleBytes(bytes)
+        ? (await openBundle(bytes, 'dtfilm')).project
+        : JSON.parse(new TextDecoder().decode(bytes));
+      startCompare(file.name, data);
+    } catch (err: any) {
+      console.error('[Compare] Failed:', err);
+      alert(`Failed to compare: ${err?.message || String(err)}`);
+    } finally {
+      if (e.currentTarget) e.currentTarget.value = '';
+    }
+  };
+
+  function describeSceneChange(c: SceneChange): string {
+    switch (c.kind) {
+      case 'added': return `Added #${c.number} ${c.heading}`;
+      case 'removed': return `Removed #${c.number} ${c.heading}`;
+      case 'moved': {
+        const lane = c.toTrack !== undefined || c.fromTrack !== undefined
+          ? ` to ${tracks.find(t => t.id === resolveTrackId(tracks, c.toTrack))?.name ?? 'another lane'}`
+          : '';
+        return `Moved ${c.heading}: ${formatTime(c.fromSec)} → ${formatTime(c.toSec)}${lane}`;
+      }
+      case 'resized': return `Resized ${c.heading}: ${formatTime(c.fromSec)} → ${formatTime(c.toSec)}`;
+      case 'retitled': return `Retitled "${c.from}" → "${c.to}"`;
+      case 'renumbered': {
+        const what = c.numbering === 'script' ? 'script number' : c.numbering === 'production' ? 'production number' : 'order';
+        return `Renumbered ${c.heading} (${what}): #${c.from || '—'} → #${c.to || '—'}`;
+      }
+    }
+  }
+
+  function describeNoteChange(c: NoteChange): string {
+    const clip = (t: string) => (t.length > 40 ? `${t.slice(0, 40)}…` : t);
+    if (c.kind === 'added') return `Note added: ${clip(c.text)}`;
+    if (c.kind === 'removed') return `Note removed: ${clip(c.text)}`;
+    return c.from !== c.to ? `Note edited: ${clip(c.from)} → ${clip(c.to)}` : `Note moved to another scene: ${clip(c.to)}`;
+  }
+
+  // ---- Live collaboration ----
+  useEffect(() => {
+    if (!collab) return;
+    if (!siteRef.current) siteRef.current = crypto.randomUUID();
+    let session: CollabSession<{ scenes: Scene[]; notes: Note[] }>;
+    try {
+      const transport =
+        collab.kind === 'broadcast' ? createBroadcastTransport(collab.room)
+        : collab.kind === 'relay' ? createRelayTransport(collab.room)
+        : createWebSocketTransport(collabSocketUrl(collab.room));
+      session = startCollab({
+        transport,
+        site: siteRef.current,
+        name: collab.name,
+        initial: { scenes, notes },
+        onRemoteChange: doc => {
+          // remote edits aren't part of this user's undo history
+          committedRef.current = { ...committedRef.current, scenes: doc.scenes, notes: doc.notes };
+          setScenes(doc.scenes);
+          setNotes(doc.notes);
+        },
+        onPeers: setPeers,
+      });
+    } catch (err: any) {
+      console.error('[Collab] Failed to connect:', err);
+      alert(`Failed to start live session: ${err?.message || String(err)}`);
+      setCollab(null);
+      return;
+    }
+    collabRef.current = session;
+    return () => {
+      session.close();
+      collabRef.current = null;
+      setPeers([]);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [collab]);
+
+  useEffect(() => {
+    collabRef.current?.commit({ scenes, notes });
+  }, [scenes, notes]);
+
+  useEffect(() => {
+    const selection = [...multiSelIds];
+    if (selectedSceneId && !multiSelIds.has(selectedSceneId)) selection.push(selectedSceneId);
+    collabRef.current?.setPresence({ selection });
+  }, [selectedSceneId, multiSelIds, collab]);
+
+  function openCollabDialog() {
+    let name = collabForm.name;
+    try { name ||= localStorage.getItem(COLLAB_NAME_KEY) || ''; } catch {}
+    setCollabForm(f => ({ ...f, name, room: f.room || projectId || 'film' }));
+    setCollabOpen(true);
+  }
+
+  function joinCollab() {
+    const room = collabForm.room.trim();
+    if (!room) return;
+    try { localStorage.setItem(COLLAB_NAME_KEY, collabForm.name); } catch {}
+    setCollab({ ...collabForm, room, name: collabForm.name.trim() || 'Guest' });
+    setCollabOpen(false);
+  }
+
   /* ---------- Zoom to fit ---------- */
   function fitAll() {
     const main = canvasRef.current; if (!main) return;
@@ -1715,7 +2707,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
     setPanX(pad - s.positionSec * z);
   }
 
-  /* ---------- Keyboard (Delete only, ignore when typing) ---------- */
+  /* ---------- Keyboard (Delete, undo/redo; ignore when typing) ---------- */
   return (
     <div
       className="h-full flex flex-col bg-neutral-950 text-neutral-100"
@@ -1725,6 +2717,14 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         const tag = (target?.tagName || '').toLowerCase();
         const typing = tag === 'input' || tag === 'textarea' || (target as any).isContentEditable;
         const modalOpen = !!modalSceneId || !!noteModalId || !!cropModalSceneId;
+        const mod = e.metaKey || e.ctrlKey;
+        const key = e.key.toLowerCase();
+        if (!typing && !modalOpen && mod && (key === 'y' || (key === 'z' && e.shiftKey))) {
+          e.preventDefault(); redo(); return;
+        }
+        if (!typing && !modalOpen && mod && key === 'z') {
+          e.preventDefault(); undo(); return;
+        }
         if (!typing && !modalOpen && e.key === 'Delete') {
           if (selectedNoteId) { e.preventDefault(); deleteSelectedNote(); }
           else if (selectedImageSceneId) { e.preventDefault(); deleteSelectedImage(); }
@@ -1794,20 +2794,75 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
         >
           Save Project
         </button>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => exportBundle().catch(err => {
+            console.error('[Save Bundle] Failed:', err);
+            alert(`Failed to save bundle: ${err?.message || String(err)}`);
+          })}
+          title="Save to .dtfilmz with scene images included"
+        >
+          Save Bundle
+        </button>
         <input
           ref={openProjectInputRef}
           type="file"
-          accept=".json,.dtfilm.json"
+          accept=".json,.dtfilm.json,.dtfilmz"
           className="hidden"
           onChange={onOpenProjectChosen}
         />
         <button
           className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
           onClick={onOpenProjectClick}
-          title="Open a saved .dtfilm.json project"
+          title="Open a saved .dtfilm.json project or .dtfilmz bundle"
         >
           Open Project
         </button>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => setLibraryOpen(true)}
+          title="Projects saved in this browser, and snapshots of this one"
+        >
+          Projects…
+        </button>
+        <button
+          className={`px-3 py-1.5 rounded ${compareBase ? 'bg-blue-600 hover:bg-blue-500' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+          onClick={() => compareBase ? setCompareBase(null) : openComparePicker()}
+          title={compareBase ? 'Leave the compare view' : 'Compare with a saved version or file'}
+        >
+          {compareBase ? 'Exit compare' : 'Compare…'}
+        </button>
+        <button
+          className={`px-3 py-1.5 rounded ${collab ? 'bg-emerald-700 hover:bg-emerald-600' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+          onClick={openCollabDialog}
+          title={collab ? `Live in room "${collab.room}"` : 'Edit this timeline together with others'}
+        >
+          {collab ? `Live · ${peers.length + 1}` : 'Live…'}
+        </button>
+        {saveError && (
+          <span className="text-xs text-red-400" title={saveError}>Autosave failed</span>
+        )}
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={exportFountain}
+          title="Export scenes, scene numbers and notes as .fountain"
+        >
+          Export .fountain
+        </button>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={exportFdx}
+          title="Export scenes in timeline order as Final Draft (.fdx)"
+        >
+          Export .fdx
+        </button>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={exportPdf}
+          title="Export scenes in timeline order as a screenplay PDF with scene numbers"
+        >
+          Export PDF
+        </button>
 
         {/* Search */}
         <form
@@ -1832,9 +2887,49 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           />
         </form>
 
-        <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={undo} disabled={history.length === 0}>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40"
+          onClick={undo}
+          disabled={history.past.length === 0}
+          title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl/⌘+Z)` : 'Nothing to undo'}
+        >
           Undo
         </button>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40"
+          onClick={redo}
+          disabled={history.future.length === 0}
+          title={history.future.length ? `Redo ${history.future[0].label} (Ctrl/⌘+Shift+Z)` : 'Nothing to redo'}
+        >
+          Redo
+        </button>
+        <button
+          className={`px-3 py-1.5 rounded border ${historyOpen ? 'bg-blue-600 border-blue-500' : 'bg-neutral-800 hover:bg-neutral-700 border-neutral-700'}`}
+          onClick={() => setHistoryOpen(v => !v)}
+        >
+          History
+        </button>
+        <button
+          className={`px-3 py-1.5 rounded border ${breakdownOpen || breakdownMatch ? 'bg-blue-600 border-blue-500' : 'bg-neutral-800 hover:bg-neutral-700 border-neutral-700'}`}
+          onClick={() => setBreakdownOpen(v => !v)}
+          title="Filter scenes by character, location or day/night"
+        >
+          Breakdown
+        </button>
+        <button
+          className={`px-3 py-1.5 rounded border ${castLanesOn ? 'bg-blue-600 border-blue-500' : 'bg-neutral-800 hover:bg-neutral-700 border-neutral-700'}`}
+          onClick={() => setCastLanesOn(v => !v)}
+          title="Show one lane per character under the scenes, with screen time and line counts"
+        >
+          Cast lanes
+        </button>
+        <button
+          className={`px-3 py-1.5 rounded border ${structureOpen || structure ? 'bg-blue-600 border-blue-500' : 'bg-neutral-800 hover:bg-neutral-700 border-neutral-700'}`}
+          onClick={() => setStructureOpen(v => !v)}
+          title="Acts, sequences and beats from a structure template, and how far the scenes drift from them"
+        >
+          Structure
+        </button>
 
         {selectedSceneId && (
           <>
@@ -1849,6 +2944,34 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
               />
             </label>
 
+            <label className="text-sm text-neutral-300 flex items-center gap-2">
+              Prod #
+              {numbering.locked ? (
+                <input
+                  key={`${selectedSceneId}:${scenesWithOrder.find(s => s.id === selectedSceneId)?.sceneNo}`}
+                  type="text"
+                  defaultValue={scenesWithOrder.find(s => s.id === selectedSceneId)?.sceneNo ?? ''}
+                  onBlur={(e) => updateSceneNumber(e.currentTarget)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="px-2 py-1 rounded bg-neutral-900 border border-neutral-700 w-20"
+                  title="Locked production number"
+                />
+              ) : (
+                <span className="px-2 py-1 rounded bg-neutral-900 border border-neutral-800 text-neutral-400" title="Follows timeline order until numbers are locked">
+                  {scenesWithOrder.find(s => s.id === selectedSceneId)?.sceneNo}
+                </span>
+              )}
+            </label>
+            <button
+              className={`px-3 py-1.5 rounded ${numbering.locked ? 'bg-amber-700 hover:bg-amber-600' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+              onClick={numbering.locked ? () => setRenumberOpen(true) : lockNumbers}
+              title={numbering.locked
+                ? 'Numbers are locked: new scenes get A/B inserts, deleted ones stay OMITTED. Click to review a renumber.'
+                : 'Freeze the current scene numbers for production'}
+            >
+              {numbering.locked ? '🔒 Numbers locked' : 'Lock numbers'}
+            </button>
+
             <label className="text-sm text-neutral-300 flex items-center gap-2">
               Heading
               <input
@@ -1872,6 +2995,39 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
               />
             </label>
 
+            <label className="text-sm text-neutral-300 flex items-center gap-2" title="Pace multiplier used when lengths are recomputed">
+              Pace ×
+              <input
+                type="number"
+                min={0.1}
+                step={0.05}
+                value={scenes.find(s => s.id === selectedSceneId)?.pace ?? 1}
+                onChange={updatePace}
+                className="px-2 py-1 rounded bg-neutral-900 border border-neutral-700 w-20"
+              />
+            </label>
+            <label className="text-sm text-neutral-300 flex items-center gap-2" title="Keep this length when lengths are recomputed">
+              <input
+                type="checkbox"
+                checked={!!scenes.find(s => s.id === selectedSceneId)?.locked}
+                onChange={toggleLocked}
+              />
+              Lock length
+            </label>
+
+            <label className="text-sm text-neutral-300 flex items-center gap-2">
+              Track
+              <select
+                value={resolveTrackId(tracks, scenes.find(s => s.id === selectedSceneId)?.trackId)}
+                onChange={moveSelectedToTrack}
+                className="px-2 py-1 rounded bg-neutral-900 border border-neutral-700"
+              >
+                {tracks.map(t => (
+                  <option key={t.id} value={t.id} disabled={!!t.locked}>{t.name}</option>
+                ))}
+              </select>
+            </label>
+
             {/* Notes controls */}
             <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={addNoteToSelectedScene}>
               Add Note
@@ -1943,6 +3099,31 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
             className="px-2 py-1 rounded bg-neutral-900 border border-neutral-700 w-24"
           />
         </label>
+        <label className="text-sm text-neutral-300 flex items-center gap-2" title="Screen time per script page; scenes are timed by their length in 1/8 pages">
+          Sec/page
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={secondsPerPage}
+            onChange={updateSecondsPerPage}
+            className="px-2 py-1 rounded bg-neutral-900 border border-neutral-700 w-20"
+          />
+        </label>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => setTimingOpen(true)}
+          title="Time scenes from dialogue word counts and speaking rates"
+        >
+          Timing…
+        </button>
+        <button
+          className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+          onClick={() => setTracksOpen(true)}
+          title="Lanes: name, height, color, mute, lock and solo"
+        >
+          Tracks…
+        </button>
 
         {/* Zoom */}
         <label className="text-sm text-neutral-300 flex items-center gap-2">
@@ -1987,7 +3168,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
               >
                 <span className="text-xs text-neutral-400">{(() => {
                   const s = scenesWithOrder.find(x => x.id === r.id);
-                  return s ? `#${s.originalSceneNumber} → ${s.newSceneNumber} · ${formatTime(s.positionSec)}` : '';
+                  return s ? `#${s.originalSceneNumber} → ${s.sceneNo} · ${formatTime(s.positionSec)}` : '';
                 })()}</span>
                 <span className="flex-1 font-medium text-neutral-100 truncate">{r.label}</span>
                 <span className="hidden sm:block text-xs text-neutral-400 truncate">{r.sub}</span>
@@ -2015,6 +3196,270 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           className="w-full h-full cursor-crosshair"
         />
 
+        {/* Breakdown panel: filter and highlight scenes by character, location or DAY/NIGHT */}
+        {breakdownOpen && (
+          <div className="absolute left-3 top-3 z-40 w-72 max-h-[70%] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded-lg shadow-xl text-sm">
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center justify-between">
+              <span className="font-medium">Breakdown</span>
+              <button className="text-neutral-400 hover:text-neutral-100" onClick={() => setBreakdownOpen(false)}>✕</button>
+            </div>
+            <div className="px-3 py-2 space-y-2 border-b border-neutral-800">
+              <div className="flex gap-1">
+                {([undefined, 'DAY', 'NIGHT'] as const).map(v => (
+                  <button
+                    key={v ?? 'all'}
+                    className={`px-2 py-1 rounded ${breakdownFilter.dayNight === v ? 'bg-blue-600' : 'bg-neutral-800 hover:bg-neutral-700'}`}
+                    onClick={() => setBreakdownFilter(f => ({ ...f, dayNight: v }))}
+                  >
+                    {v ?? 'Day & night'}
+                  </button>
+                ))}
+              </div>
+              {([['character', 'characters', 'Any character'], ['location', 'locations', 'Any location']] as const).map(([key, facet, any]) => (
+                <select
+                  key={key}
+                  value={breakdownFilter[key] ?? ''}
+                  onChange={(e) => setBreakdownFilter(f => ({ ...f, [key]: e.target.value || undefined }))}
+                  className="w-full px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                >
+                  <option value="">{any}</option>
+                  {breakdownFacetList[facet].map(({ value, scenes: n }) => (
+                    <option key={value} value={value}>{value} ({n})</option>
+                  ))}
+                </select>
+              ))}
+            </div>
+            <div className="px-3 py-1.5 text-xs text-neutral-400 border-b border-neutral-800 flex items-center justify-between">
+              <span>{breakdownMatch ? `${breakdownMatch.size} of ${scenes.length} scenes` : `${scenes.length} scenes`}</span>
+              {breakdownMatch && (
+                <button className="text-neutral-300 hover:text-neutral-100" onClick={() => setBreakdownFilter({})}>Clear</button>
+              )}
+            </div>
+            <div className="overflow-auto py-1">
+              {scenesWithOrder
+                .filter(s => !breakdownMatch || breakdownMatch.has(s.id))
+                .sort((a, b) => a.positionSec - b.positionSec)
+                .map(s => {
+                  const b = breakdown.get(s.id);
+                  return (
+                    <button
+                      key={s.id}
+                      className={`w-full text-left px-3 py-1 hover:bg-neutral-800 ${s.id === selectedSceneId ? 'text-blue-400' : 'text-neutral-200'}`}
+                      onClick={() => { setSelectedSceneId(s.id); centerOnSceneId(s.id); }}
+                    >
+                      <div className="truncate">#{s.sceneNo} {s.heading}</div>
+                      {b && (b.speaking.length > 0 || b.mentioned.length > 0) && (
+                        <div className="truncate text-xs text-neutral-500">
+                          {[...b.speaking, ...b.mentioned.map(m => `(${m})`)].join(', ')}
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+            </div>
+          </div>
+        )}
+
+        {/* Cast presence stats (the lanes themselves are drawn on the canvas) */}
+        {castLanesOn && (
+          <div className="absolute left-3 bottom-3 z-40 max-w-[calc(100%-1.5rem)] max-h-[40%] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded-lg shadow-xl text-sm">
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center justify-between gap-3">
+              <span className="font-medium">Cast</span>
+              <span className="text-xs text-neutral-500 flex-1">
+                {cast.length > CAST_MAX_LANES ? `Top ${CAST_MAX_LANES} of ${cast.length} shown as lanes` : ''}
+              </span>
+              <button className="px-2 py-0.5 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50" disabled={!cast.length} onClick={exportCastCsv}>
+                Export CSV
+              </button>
+              <button className="text-neutral-400 hover:text-neutral-100" onClick={() => setCastLanesOn(false)}>✕</button>
+            </div>
+            {cast.length === 0 ? (
+              <div className="px-3 py-2 text-neutral-500">No characters found in the scenes yet.</div>
+            ) : (
+              <div className="overflow-auto">
+                <table className="text-xs tabular-nums">
+                  <thead className="text-neutral-400">
+                    <tr>
+                      {['Character', 'Scenes', 'Lines', 'Screen time', 'First', 'Last', 'Longest absence'].map(h => (
+                        <th key={h} className="px-3 py-1 text-left font-normal whitespace-nowrap">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cast.map((c, i) => (
+                      <tr
+                        key={c.name}
+                        className="hover:bg-neutral-800 cursor-pointer"
+                        onClick={() => { setSelectedSceneId(c.appearances[0].sceneId); centerOnSceneId(c.appearances[0].sceneId); }}
+                        title="Go to the first appearance"
+                      >
+                        <td className="px-3 py-1 whitespace-nowrap">
+                          <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: i < CAST_MAX_LANES ? pickColor(i) : 'transparent' }} />
+                          {c.name}
+                        </td>
+                        <td className="px-3 py-1">{new Set(c.appearances.map(a => a.sceneId)).size}</td>
+                        <td className="px-3 py-1">{c.lines}</td>
+                        <td className="px-3 py-1">{formatTime(c.screenTimeSec)}</td>
+                        <td className="px-3 py-1">{formatTime(c.firstSec)}</td>
+                        <td className="px-3 py-1">{formatTime(c.lastSec)}</td>
+                        <td className="px-3 py-1">{formatTime(c.longestGapSec)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Story structure: template, beat → scene assignments and drift from the targets */}
+        {structureOpen && (
+          <div className="absolute left-1/2 -translate-x-1/2 top-3 z-40 w-96 max-h-[70%] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded-lg shadow-xl text-sm">
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center justify-between">
+              <span className="font-medium">Structure</span>
+              <button className="text-neutral-400 hover:text-neutral-100" onClick={() => setStructureOpen(false)}>✕</button>
+            </div>
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center gap-2">
+              <select
+                value={structure?.template ?? ''}
+                onChange={(e) => chooseStructureTemplate(e.target.value as StructureTemplateId | '')}
+                className="flex-1 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+              >
+                <option value="">None</option>
+                {(Object.keys(STRUCTURE_TEMPLATES) as StructureTemplateId[]).map(id => (
+                  <option key={id} value={id}>{STRUCTURE_TEMPLATES[id].name}</option>
+                ))}
+              </select>
+              {structure && (
+                <label className="flex items-center gap-1 text-xs text-neutral-400" title="Flag beats whose scene is further than this from the target">
+                  ±
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={structure.tolerancePct}
+                    onChange={(e) => setStructureTolerance(Number(e.target.value))}
+                    className="w-12 px-1 py-0.5 rounded bg-neutral-950 border border-neutral-700"
+                  />
+                  %
+                </label>
+              )}
+            </div>
+            {!structure ? (
+              <div className="px-3 py-2 text-neutral-500">Pick a template to place acts and beats at their usual share of the runtime.</div>
+            ) : runtimeSec <= 0 ? (
+              <div className="px-3 py-2 text-neutral-500">Add scenes to the timeline to place the beats.</div>
+            ) : (
+              <>
+                <div className="px-3 py-1.5 text-xs text-neutral-400 border-b border-neutral-800">
+                  Runtime {formatTime(runtimeSec)}
+                  {[...structureDrift.values()].some(d => d.warn) && (
+                    <span className="text-red-400"> · {[...structureDrift.values()].filter(d => d.warn).length} beat(s) off target</span>
+                  )}
+                </div>
+                <div className="overflow-auto">
+                  {structure.beats.map(b => {
+                    const drift = structureDrift.get(b.id);
+                    const targetSec = pctToSec(b.pct, runtimeSec);
+                    return (
+                      <div key={b.id} className="px-3 py-1 flex items-center gap-2 hover:bg-neutral-800">
+                        <button
+                          className="flex-1 min-w-0 text-left truncate"
+                          onClick={() => drift?.assigned ? centerOnSceneId(drift.sceneId) : centerOnSec(targetSec)}
+                          title={`${b.label}: target ${formatTime(targetSec)} (${b.pct}%)`}
+                        >
+                          {b.label}
+                          <span className="ml-1 text-xs text-neutral-500 tabular-nums">{formatTime(targetSec)}</span>
+                        </button>
+                        {drift && (
+                          <span
+                            className={`text-xs tabular-nums ${drift.warn ? 'text-red-400' : 'text-green-400'}`}
+                            title={drift.assigned
+                              ? `Scene starts at ${formatTime(drift.actualSec)}`
+                              : `No scene assigned; the nearest scene starts at ${formatTime(drift.actualSec)}`}
+                          >
+                            {drift.driftPct >= 0 ? '+' : ''}{drift.driftPct.toFixed(1)}%
+                          </span>
+                        )}
+                        <select
+                          value={drift?.assigned ? b.sceneId : ''}
+                          onChange={(e) => assignBeatScene(b.id, e.target.value)}
+                          className="w-28 px-1 py-0.5 rounded bg-neutral-950 border border-neutral-700 text-xs"
+                        >
+                          <option value="">—</option>
+                          {beatSceneOptions}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* History panel: click an entry to jump to the state after it */}
+        {historyOpen && (
+          <div className="absolute right-3 top-3 z-40 w-72 max-h-[70%] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded-lg shadow-xl text-sm">
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center justify-between">
+              <span className="font-medium">History</span>
+              <button className="text-neutral-400 hover:text-neutral-100" onClick={() => setHistoryOpen(false)}>✕</button>
+            </div>
+            <div className="overflow-auto py-1">
+              <button
+                className={`w-full text-left px-3 py-1 hover:bg-neutral-800 ${history.past.length === 0 ? 'text-blue-400' : 'text-neutral-400'}`}
+                onClick={() => jumpToHistory(0)}
+              >
+                Initial state
+              </button>
+              {history.past.map((h, i) => (
+                <button
+                  key={h.id}
+                  className={`w-full text-left px-3 py-1 hover:bg-neutral-800 ${i === history.past.length - 1 ? 'text-blue-400 font-medium' : 'text-neutral-200'}`}
+                  onClick={() => jumpToHistory(h.id)}
+                >
+                  {h.label}
+                </button>
+              ))}
+              {history.future.map(h => (
+                <button
+                  key={h.id}
+                  className="w-full text-left px-3 py-1 hover:bg-neutral-800 text-neutral-500 italic"
+                  onClick={() => jumpToHistory(h.id)}
+                >
+                  {h.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {compareBase && compareDiff && (
+          <div className="absolute right-3 bottom-3 z-40 w-80 max-h-[50%] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded-lg shadow-xl text-sm">
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center justify-between gap-2">
+              <span className="font-medium truncate" title={compareBase.label}>Compared with {compareBase.label}</span>
+              <button className="text-neutral-400 hover:text-neutral-100" onClick={() => setCompareBase(null)}>✕</button>
+            </div>
+            <div className="px-3 py-1.5 text-xs text-neutral-400 border-b border-neutral-800">
+              {Object.entries(summarizeDiff(compareDiff)).map(([k, n]) => `${n} ${k}`).join(' · ') || 'No differences'}
+            </div>
+            <div className="overflow-auto py-1">
+              {compareDiff.scenes.map((c, i) => (
+                <button
+                  key={`${c.kind}:${c.id}:${i}`}
+                  className={`w-full text-left px-3 py-1 hover:bg-neutral-800 ${c.kind === 'removed' ? 'text-red-300' : c.kind === 'added' ? 'text-emerald-300' : 'text-neutral-200'}`}
+                  onClick={() => c.kind !== 'removed' && setSelectedSceneId(c.id)}
+                >
+                  {describeSceneChange(c)}
+                </button>
+              ))}
+              {compareDiff.notes.map((c, i) => (
+                <div key={`note:${c.id}:${i}`} className="px-3 py-1 text-neutral-400">{describeNoteChange(c)}</div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Per-note toolbar (appears near selected note) */}
         {noteOverlay && selectedNoteId && (
           <div
@@ -2057,7 +3502,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                   {(() => {
                     const s = scenesWithOrder.find(x => x.id === modalSceneId);
                     if (!s) return 'Scene';
-                    return `Scene #${s.originalSceneNumber} → new #${s.newSceneNumber} @ ${formatTime(s.positionSec)}`;
+                    return `Scene #${s.originalSceneNumber} → new #${s.sceneNo} @ ${formatTime(s.positionSec)}`;
                   })()}
                 </div>
                 <div className="flex items-center gap-2">
@@ -2066,12 +3511,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                     className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500"
                     onClick={() => {
                       if (!modalSceneId) return;
-                      pushHistory();
-                      setScenes(prev => prev.map(s =>
-                        s.id === modalSceneId
-                          ? { ...s, description: modalText, scriptLines: toScriptLinesFromText(modalText) }
-                          : s
-                      ));
+                      saveSceneText(modalSceneId, modalText);
                       setModalSceneId(null);
                     }}
                   >
@@ -2099,7 +3539,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                     value={scenes.find(s => s.id === modalSceneId)?.originalSceneNumber ?? 1}
                     onChange={(e) => {
                       const vRaw = Math.max(1, Math.floor(Number(e.target.value) || 1));
-                      pushHistory();
+                      pushHistory(`Renumbered ${sceneLabel(modalSceneId!)}`, `number:${modalSceneId}`);
                       setScenes(prev => {
                         const cur = prev.find(s => s.id === modalSceneId);
                         if (!cur) return prev;
@@ -2124,14 +3564,14 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                       value={scenes.find(s => s.id === modalSceneId)?.lengthSec ?? SCENE_MIN_SEC}
                       onChange={(e) => {
                         const v = roundToSnap(Math.max(SCENE_MIN_SEC, Number(e.target.value) || SCENE_MIN_SEC));
-                        pushHistory();
+                        pushHistory(`Resized ${sceneLabel(modalSceneId!)}`, `length:${modalSceneId}`);
                         setScenes(prev => {
                           const cur = prev.find(s => s.id === modalSceneId)!;
                           const delta = v - cur.lengthSec;
                           return prev.map(s => {
                             if (s.id === modalSceneId) return { ...s, lengthSec: v };
                             const curEnd = cur.positionSec + cur.lengthSec;
-                            if (delta !== 0 && s.positionSec >= curEnd) {
+                            if (delta !== 0 && s.positionSec >= curEnd && sameTrack(s, cur)) {
                               return { ...s, positionSec: Math.max(0, roundToSnap(s.positionSec + delta)) };
                             }
                             return s;
@@ -2151,12 +3591,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                     if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
                       e.preventDefault();
                       if (!modalSceneId) return;
-                      pushHistory();
-                      setScenes(prev => prev.map(s =>
-                        s.id === modalSceneId
-                          ? { ...s, description: modalText, scriptLines: toScriptLinesFromText(modalText) }
-                          : s
-                      ));
+                      saveSceneText(modalSceneId, modalText);
                       setModalSceneId(null);
                     }
                   }}
@@ -2201,7 +3636,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                     className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500"
                     onClick={() => {
                       if (!noteModalId) return;
-                      pushHistory();
+                      pushHistory('Edited note');
                       setNotes(prev => prev.map(n => n.id === noteModalId ? { ...n, text: noteModalText } : n));
                       setNoteModalId(null);
                     }}
@@ -2220,7 +3655,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
                     if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
                       e.preventDefault();
                       if (!noteModalId) return;
-                      pushHistory();
+                      pushHistory('Edited note');
                       setNotes(prev => prev.map(n => n.id === noteModalId ? { ...n, text: noteModalText } : n));
                       setNoteModalId(null);
                     }
@@ -2238,6 +3673,293 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
           </div>
         )}
 
+        {/* Dialogue-rate Timing Modal */}
+        {timingOpen && (
+          <div
+            className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+            onMouseDown={(e) => { if (e.target === e.currentTarget) setTimingOpen(false); }}
+          >
+            <div className="w-full max-w-md bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden">
+              <div className="px-4 py-3 border-b border-neutral-800 font-medium">Timing (words per minute)</div>
+              <div className="p-4 space-y-3 max-h-[60vh] overflow-auto">
+                <div className="grid grid-cols-3 gap-3">
+                  {([['dialogueWpm', 'Dialogue'], ['actionWpm', 'Action'], ['lyricWpm', 'Lyrics']] as const).map(([key, label]) => (
+                    <label key={key} className="text-sm text-neutral-300">
+                      {label}
+                      <input
+                        type="number" min={1}
+                        value={timing[key]}
+                        onChange={(e) => setTiming(t => ({ ...t, [key]: Math.max(1, Number(e.target.value) || DEFAULT_TIMING[key]) }))}
+                        className="w-full mt-1 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="text-sm text-neutral-400">Per-character rates (blank = dialogue rate)</div>
+                {castNames.length === 0 && <div className="text-sm text-neutral-500">No speaking characters in the scenes yet.</div>}
+                {castNames.map(name => (
+                  <label key={name} className="text-sm text-neutral-300 flex items-center justify-between gap-3">
+                    <span className="truncate">{name}</span>
+                    <input
+                      type="number" min={1}
+                      value={timing.characterWpm[name] ?? ''}
+                      placeholder={String(timing.dialogueWpm)}
+                      onChange={(e) => setCharacterWpm(name, e.target.value)}
+                      className="w-24 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-end gap-2">
+                <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={() => setTimingOpen(false)}>
+                  Close
+                </button>
+                <button
+                  className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500"
+                  onClick={() => { recomputeLengths(); setTimingOpen(false); }}
+                  title="Locked scenes keep their length"
+                >
+                  Recompute lengths
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Tracks Modal */}
+        {tracksOpen && (
+          <div
+            className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+            onMouseDown={(e) => { if (e.target === e.currentTarget) setTracksOpen(false); }}
+          >
+            <div className="w-full max-w-2xl bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden">
+              <div className="px-4 py-3 border-b border-neutral-800 font-medium">Tracks</div>
+              <div className="p-4 space-y-2 max-h-[60vh] overflow-auto">
+                {tracks.map((t, i) => (
+                  <div key={t.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="color"
+                      value={t.color}
+                      onChange={(e) => updateTrack(t.id, { color: e.target.value })}
+                      className="w-8 h-8 rounded bg-transparent"
+                      title="Lane color"
+                    />
+                    <input
+                      type="text"
+                      value={t.name}
+                      onChange={(e) => updateTrack(t.id, { name: e.target.value })}
+                      className="flex-1 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                    />
+                    <input
+                      type="number" min={TRACK_MIN_H} max={TRACK_MAX_H} step={10}
+                      value={t.height}
+                      onChange={(e) => updateTrack(t.id, { height: Math.min(TRACK_MAX_H, Math.max(TRACK_MIN_H, Number(e.target.value) || TRACK_MIN_H)) })}
+                      className="w-20 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                      title="Height (px)"
+                    />
+                    {([['muted', 'M', 'Mute: dim and leave out of script exports'], ['locked', 'L', 'Lock: clips cannot be moved'], ['solo', 'S', 'Solo: show only soloed lanes']] as const).map(([key, label, title]) => (
+                      <button
+                        key={key}
+                        className={`w-8 py-1 rounded border ${t[key] ? 'bg-blue-600 border-blue-500' : 'bg-neutral-800 hover:bg-neutral-700 border-neutral-700'}`}
+                        onClick={() => updateTrack(t.id, { [key]: !t[key] })}
+                        title={title}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <button className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40" onClick={() => moveTrack(t.id, -1)} disabled={i === 0} title="Move up">↑</button>
+                    <button className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-40" onClick={() => moveTrack(t.id, 1)} disabled={i === tracks.length - 1} title="Move down">↓</button>
+                    <button className="px-2 py-1 rounded bg-red-600 hover:bg-red-500 disabled:opacity-40" onClick={() => deleteTrack(t.id)} disabled={tracks.length <= 1} title="Delete lane (its clips move to the first lane)">✕</button>
+                  </div>
+                ))}
+              </div>
+              <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-between gap-2">
+                <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={addTrack}>
+                  Add Track
+                </button>
+                <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={() => setTracksOpen(false)}>
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {collabOpen && (
+          <div
+            className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+            onMouseDown={(e) => { if (e.target === e.currentTarget) setCollabOpen(false); }}
+          >
+            <div className="w-full max-w-md bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden">
+              <div className="px-4 py-3 border-b border-neutral-800 font-medium">Live collaboration</div>
+              <div className="p-4 space-y-3 text-sm">
+                {collab ? (
+                  <>
+                    <div>Room <span className="font-medium">{collab.room}</span> · {collab.kind === 'broadcast' ? 'this browser' : collab.kind === 'relay' ? 'app relay' : 'app WebSocket relay'}</div>
+                    <ul className="space-y-1">
+                      <li className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-full bg-neutral-300" />{collab.name} (you)</li>
+                      {peers.map(p => (
+                        <li key={p.site} className="flex items-center gap-2">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ background: p.color }} />{p.name || 'Guest'}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                ) : (
+                  <>
+                    <label className="flex items-center gap-2">
+                      <span className="w-24 text-neutral-400">Your name</span>
+                      <input
+                        className="flex-1 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                        value={collabForm.name}
+                        onChange={(e) => setCollabForm(f => ({ ...f, name: e.target.value }))}
+                        placeholder="Guest"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <span className="w-24 text-neutral-400">Room</span>
+                      <input
+                        className="flex-1 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                        value={collabForm.room}
+                        onChange={(e) => setCollabForm(f => ({ ...f, room: e.target.value }))}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <span className="w-24 text-neutral-400">Connect via</span>
+                      <select
+                        className="flex-1 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                        value={collabForm.kind}
+                        onChange={(e) => setCollabForm(f => ({ ...f, kind: e.target.value as TransportKind }))}
+                      >
+                        <option value="broadcast">Tabs in this browser</option>
+                        <option value="relay">This app&apos;s relay server</option>
+                        <option value="websocket">This app&apos;s WebSocket relay (npm run dev:ws)</option>
+                      </select>
+                    </label>
+                    <p className="text-xs text-neutral-500">
+                      Everyone in the room shares scenes and notes; joining merges your timeline with theirs.
+                    </p>
+                  </>
+                )}
+              </div>
+              <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-end gap-2">
+                <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={() => setCollabOpen(false)}>
+                  Close
+                </button>
+                {collab ? (
+                  <button className="px-3 py-1.5 rounded bg-red-700 hover:bg-red-600" onClick={() => { setCollab(null); setCollabOpen(false); }}>
+                    Leave
+                  </button>
+                ) : (
+                  <button className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500" onClick={joinCollab}>
+                    Join
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {renumber && (
+          <div
+            className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+            onMouseDown={(e) => { if (e.target === e.currentTarget) setRenumberOpen(false); }}
+          >
+            <div className="w-full max-w-lg max-h-[80vh] bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden flex flex-col">
+              <div className="px-4 py-3 border-b border-neutral-800 font-medium">Unlock &amp; renumber scenes</div>
+              <div className="p-4 overflow-auto space-y-3 text-sm">
+                <p className="text-neutral-400">Unlocked, scenes are numbered 1, 2, 3… in timeline order.</p>
+                {renumber.changes.length === 0 && <p className="text-neutral-500">No scene numbers change.</p>}
+                {renumber.changes.length > 0 && (
+                  <ul className="space-y-1">
+                    {renumber.changes.map(c => (
+                      <li key={c.id} className="flex gap-2">
+                        <span className="w-24 shrink-0 tabular-nums">#{c.from} → #{c.to}</span>
+                        <span className="truncate text-neutral-400">{c.heading}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {renumber.omitted.length > 0 && (
+                  <p className="text-neutral-400">
+                    Drops {renumber.omitted.length} OMITTED placeholder{renumber.omitted.length === 1 ? '' : 's'}: {renumber.omitted.map(o => o.number).join(', ')}
+                  </p>
+                )}
+              </div>
+              <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-end gap-2">
+                <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={() => setRenumberOpen(false)}>
+                  Keep locked
+                </button>
+                <button className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500" onClick={unlockAndRenumber}>
+                  Unlock &amp; renumber
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {comparePickerOpen && (
+          <div
+            className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+            onMouseDown={(e) => { if (e.target === e.currentTarget) setComparePickerOpen(false); }}
+          >
+            <div className="w-full max-w-lg max-h-[80vh] bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden flex flex-col">
+              <div className="px-4 py-3 border-b border-neutral-800 font-medium">Compare with…</div>
+              <div className="p-4 overflow-auto space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={saveVersion}>
+                    Save current as version…
+                  </button>
+                  <label className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 cursor-pointer">
+                    Compare with a file…
+                    <input type="file" accept=".json,.dtfilm.json,.dtfilmz" className="hidden" onChange={onCompareFileChosen} />
+                  </label>
+                </div>
+                <ul className="space-y-1">
+                  {compareSnapshots.length === 0 && <li className="text-neutral-500">No saved versions of this project yet.</li>}
+                  {compareSnapshots.map(snap => (
+                    <li key={snap.id}>
+                      <button
+                        className="w-full text-left rounded px-2 py-1.5 hover:bg-neutral-800"
+                        onClick={() => {
+                          try { startCompare(snap.label, snap.data); } catch (err: any) { alert(`Failed to compare: ${err?.message || String(err)}`); }
+                        }}
+                      >
+                        {new Date(snap.createdAt).toLocaleString()} <span className="text-neutral-500">· {snap.label}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-end gap-2">
+                <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={() => setComparePickerOpen(false)}>
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {libraryOpen && (
+          <ProjectLibraryModal
+            kind="dtfilm"
+            currentId={projectId}
+            onOpen={openFromLibrary}
+            onNew={newLibraryProject}
+            onRestore={restoreSnapshot}
+            onClose={() => setLibraryOpen(false)}
+          />
+        )}
+
+        <RelinkModal
+          items={relinkItems}
+          onChoose={(id, file) => relinkAsset(id, file).catch(err => {
+            console.error('[Relink] Failed:', err);
+            alert(`Failed to relink: ${err?.message || String(err)}`);
+          })}
+          onClose={() => setRelinkItems([])}
+        />
+
         {/* Image Crop Modal */}
         {cropModalSceneId && (
           <div
@@ -2303,10 +4025,11 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   function hitSceneAt(xCss: number, yCss: number): { scene: Scene; region: DragMode } | null {
     for (let i = scenes.length - 1; i >= 0; i--) {
       const s = scenes[i];
+      if (!isSceneVisible(s)) continue;
       const left = secToCss(s.positionSec);
       const width = s.lengthSec * zoom;
       const height = (s.collapsed ? COLLAPSED_H : ROW_HEIGHT - 6 + FOOTER_H);
-      const top = s.yPx + 4;
+      const top = sceneTop(s) + 4;
 
       if (xCss >= left && xCss <= left + width && yCss >= top && yCss <= top + height) {
         if (xCss <= left + HANDLE_W) return { scene: s, region: 'resizeL' };
@@ -2318,7 +4041,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   }
   function hitChevron(s: Scene, xCss: number, yCss: number) {
     const left = secToCss(s.positionSec);
-    const top = s.yPx + 4;
+    const top = sceneTop(s) + 4;
     const x0 = left + TOGGLE_PAD;
     const y0 = top + 6;
     return (xCss >= x0 && xCss <= x0 + TOGGLE_SIZE && yCss >= y0 && yCss <= y0 + TOGGLE_SIZE);
@@ -2326,6 +4049,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   function hitNoteAt(xCss: number, yCss: number): { scene: Scene; note: Note } | null {
     for (let i = scenes.length - 1; i >= 0; i--) {
       const s = scenes[i];
+      if (!isSceneVisible(s)) continue;
       const stack = getSceneNotesStack(s.id).slice().reverse();
       for (const item of stack) {
         if (xCss >= item.x && xCss <= item.x + item.w && yCss >= item.y && yCss <= item.y + item.h) {
@@ -2338,7 +4062,7 @@ const [cropModalSceneId, setCropModalSceneId] = useState<string | null>(null);
   function hitImageAt(xCss: number, yCss: number): { scene: Scene; meta: NonNullable<Scene['imageMeta']> } | null {
     for (let i = scenes.length - 1; i >= 0; i--) {
       const s = scenes[i];
-      if (!s.imageUrl || !s.imageMeta || s.collapsed) continue;
+      if (!s.imageUrl || !s.imageMeta || s.collapsed || !isSceneVisible(s)) continue;
       const r = getImageRectCss(s)!;
       if (xCss >= r.x && xCss <= r.x + r.w && yCss >= r.y && yCss <= r.y + r.h) {
         return { scene: s, meta: s.imageMeta };
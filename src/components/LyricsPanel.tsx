@@ -4,14 +4,17 @@
 import React, { useRef, useState } from 'react';
 import { parseLyricsSmart, distributeAcrossDuration, AlignedLine } from '@/lib/lyrics';
 import { transliterateIfNeeded, LyricsLang } from '@/lib/transliteration';
+import { alignProvidedLyricsToWords, type Word } from '@/lib/align';
 
 type Props = {
   audioDurationSec: number;
+  /** Transcript of the track (from Analyze); enables matching the lyrics to its words. */
+  words?: Word[];
   onClose: () => void;
   onAligned: (lines: AlignedLine[]) => void;
 };
 
-export default function LyricsPanel({ audioDurationSec, onClose, onAligned }: Props) {
+export default function LyricsPanel({ audioDurationSec, words, onClose, onAligned }: Props) {
   const [language, setLanguage] = useState<LyricsLang>('en');
   const [normalizeScript, setNormalizeScript] = useState<boolean>(false);
   const [text, setText] = useState<string>('');
@@ -49,6 +52,24 @@ export default function LyricsPanel({ audioDurationSec, onClose, onAligned }: Pr
     }
   };
 
+  const alignToTranscript = () => {
+    setError(null);
+    if (!words?.length) return;
+    try {
+      const input = transliterateIfNeeded(text, language, normalizeScript);
+      const lines = parseLyricsSmart(input).map(l => l.text).filter(t => t.trim());
+      const aligned = alignProvidedLyricsToWords(lines, words);
+      if (!aligned.some(l => l.confidence > 0)) {
+        setError('None of the lines matched the transcript. Check the language, or use "Align to audio".');
+        return;
+      }
+      onAligned(aligned);
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  };
+
   return (
     <div
       className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
@@ -69,6 +90,16 @@ export default function LyricsPanel({ audioDurationSec, onClose, onAligned }: Pr
             >
               Align to audio
             </button>
+            {!!words?.length && (
+              <button
+                className="px-3 py-1.5 rounded bg-fuchsia-600 hover:bg-fuchsia-500 disabled:opacity-50"
+                onClick={alignToTranscript}
+                disabled={!text.trim()}
+                title="Time each line by the words recognized in the track"
+              >
+                Align to transcript
+              </button>
+            )}
           </div>
         </div>
 
@@ -121,7 +152,7 @@ export default function LyricsPanel({ audioDurationSec, onClose, onAligned }: Pr
           <textarea
             value={text}
             onChange={(e) => setText(e.target.value)}
-            placeholder="Paste lyrics here...\n\n• For LRC: [00:31.20] Never gonna give you up...\n• For SRT: timecoded blocks\n• For TXT: one line per lyric"
+            placeholder="Paste lyrics here...\n\n• For LRC: [00:31.20] Never gonna give you up...\n• Word timing (enhanced LRC): [00:31.20] <00:31.20>Never <00:31.60>gonna...\n• For SRT: timecoded blocks\n• For TXT: one line per lyric"
             className="w-full min-h-[40vh] p-3 rounded-md bg-neutral-950 text-neutral-100 border border-neutral-700 outline-none"
           />
 
@@ -132,7 +163,8 @@ export default function LyricsPanel({ audioDurationSec, onClose, onAligned }: Pr
           )}
 
           <p className="text-xs text-neutral-500">
-            Tip: We’ll place each line at its timestamp. If no timestamps are present, lines are evenly spaced across the song. You can nudge later.
+            Tip: We’ll place each line at its timestamp. If no timestamps are present, lines are evenly spaced across the song
+            {words?.length ? ', or matched to the transcript from Analyze' : ''}. You can nudge later.
           </p>
         </div>
       </div>
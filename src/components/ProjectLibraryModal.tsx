@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  deleteProject, listProjects, listSnapshots, storageErrorMessage,
+  type ProjectKind, type ProjectSummary, type Snapshot,
+} from '@/lib/projectStore';
+
+const fmtWhen = (t: number) => new Date(t).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/** Saved projects of one workspace plus the snapshots of the open project. */
+export default function ProjectLibraryModal({
+  kind,
+  currentId,
+  onOpen,
+  onNew,
+  onRestore,
+  onClose,
+}: {
+  kind: ProjectKind;
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}) {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects(kind));
+      setSnapshots(currentId ? await listSnapshots(currentId) : []);
+    } catch (err) {
+      console.error('[Project Library] Failed to list projects:', err);
+      setError(storageErrorMessage(err));
+    }
+  };
+  useEffect(() => { refresh(); }, [kind, currentId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const remove = async (p: ProjectSummary) => {
+    if (!confirm(`Delete "${p.name}" and its snapshots? This can't be undone.`)) return;
+    try {
+      await deleteProject(p.id);
+      await refresh();
+    } catch (err) {
+      console.error('[Project Library] Delete failed:', err);
+      alert(`Failed to delete project: ${storageErrorMessage(err)}`);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+      onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="w-full max-w-2xl max-h-[80vh] bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-neutral-800 font-medium flex items-center">
+          Projects
+          <button className="ml-auto px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-sm" onClick={onNew}>
+            New project
+          </button>
+        </div>
+        <div className="p-4 overflow-auto space-y-5 text-sm">
+          {error && <div className="text-red-400">{error}</div>}
+
+          <ul className="space-y-1">
+            {projects.length === 0 && <li className="text-neutral-500">No saved projects yet.</li>}
+            {projects.map(p => (
+              <li key={p.id} className="flex items-center gap-3 rounded px-2 py-1.5 hover:bg-neutral-800/60">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">
+                    {p.name}
+                    {p.id === currentId && <span className="ml-2 text-xs text-emerald-400">open</span>}
+                  </div>
+                  <div className="text-xs text-neutral-500">Edited {fmtWhen(p.updatedAt)}</div>
+                </div>
+                <button
+                  className="px-3 py-1 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+                  disabled={p.id === currentId}
+                  onClick={() => onOpen(p.id)}
+                >
+                  Open
+                </button>
+                <button
+                  className="px-2 py-1 rounded bg-neutral-800 hover:bg-red-700 disabled:opacity-50"
+                  disabled={p.id === currentId}
+                  title={p.id === currentId ? 'Open another project to delete this one' : 'Delete project'}
+                  onClick={() => remove(p)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {currentId && (
+            <div>
+              <div className="text-neutral-400 mb-2">Snapshots of this project</div>
+              <ul className="space-y-1">
+                {snapshots.length === 0 && <li className="text-neutral-500">Snapshots are taken every few minutes while you work.</li>}
+                {snapshots.map(s => (
+                  <li key={s.id} className="flex items-center gap-3 rounded px-2 py-1.5 hover:bg-neutral-800/60">
+                    <div className="flex-1">
+                      {fmtWhen(s.createdAt)} <span className="text-neutral-500">· {s.label}</span>
+                    </div>
+                    <button className="px-3 py-1 rounded bg-neutral-800 hover:bg-neutral-700" onClick={() => onRestore(s)}>
+                      Restore
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-end gap-2">
+          <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
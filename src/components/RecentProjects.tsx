@@ -0,0 +1,46 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { listProjects, type ProjectSummary } from '@/lib/projectStore';
+
+const RECENT_COUNT = 8;
+
+/** Recently edited projects from the browser's project library (welcome page). */
+export default function RecentProjects() {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+
+  useEffect(() => {
+    listProjects()
+      .then(all => setProjects(all.slice(0, RECENT_COUNT)))
+      .catch(err => {
+        console.error('[Recent Projects] Failed to list projects:', err);
+        setProjects([]);
+      });
+  }, []);
+
+  if (!projects?.length) return null;
+  return (
+    <div className="mt-10">
+      <h2 className="text-sm font-medium text-neutral-300 mb-3">Recent projects</h2>
+      <ul className="grid gap-2 md:grid-cols-2">
+        {projects.map(p => (
+          <li key={p.id}>
+            <Link
+              href={`/${p.kind === 'dtfilm' ? 'film' : 'music'}?project=${encodeURIComponent(p.id)}`}
+              className="flex items-center gap-3 rounded-xl border border-neutral-800 bg-neutral-900/40 px-4 py-3 hover:border-neutral-600 hover:bg-neutral-900"
+            >
+              <span className={`text-xs rounded px-1.5 py-0.5 ${p.kind === 'dtfilm' ? 'bg-emerald-600/20 text-emerald-300' : 'bg-blue-600/20 text-blue-300'}`}>
+                {p.kind === 'dtfilm' ? 'Film' : 'Music'}
+              </span>
+              <span className="truncate flex-1">{p.name}</span>
+              <span className="text-xs text-neutral-500 shrink-0">
+                {new Date(p.updatedAt).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import type { UnresolvedAsset } from '@/lib/bundle';
+
+function formatSize(bytes: number) {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/** Lists bundle media that was missing or failed its hash check, with a file picker per item. */
+export default function RelinkModal({
+  items,
+  onChoose,
+  onClose,
+}: {
+  items: UnresolvedAsset[];
+  onChoose: (assetId: string, file: File) => void;
+  onClose: () => void;
+}) {
+  if (!items.length) return null;
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+      <div className="w-full max-w-lg bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden">
+        <div className="px-4 py-3 border-b border-neutral-800 font-medium">Relink media</div>
+        <div className="p-4 space-y-3 text-sm">
+          <p className="text-neutral-400">
+            Some media in this bundle could not be used. Choose the original files to relink them, or close to continue without them.
+          </p>
+          <ul className="space-y-2">
+            {items.map(({ asset, reason }) => (
+              <li key={asset.id} className="flex items-center gap-3 rounded border border-neutral-800 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">{asset.name}</div>
+                  <div className="text-xs text-neutral-500">
+                    {asset.mime} · {formatSize(asset.size)} ·{' '}
+                    <span className="text-amber-400">{reason === 'missing' ? 'missing from the bundle' : 'content hash does not match'}</span>
+                  </div>
+                </div>
+                <label className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 cursor-pointer shrink-0">
+                  Choose file…
+                  <input
+                    type="file"
+                    accept={asset.mime.startsWith('audio/') ? 'audio/*' : asset.mime.startsWith('image/') ? 'image/*' : undefined}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) onChoose(asset.id, file);
+                      e.currentTarget.value = '';
+                    }}
+                  />
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="px-4 py-3 border-t border-neutral-800 flex items-center justify-end gap-2">
+          <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { classifyLines } from '@/lib/scriptClassifier';
+import type { ScriptLine } from '@/lib/scriptTypes';
+import { formatEighths } from '@/lib/pagination';
+import { formatTime } from '@/lib/time';
+import { downloadBlob } from '@/lib/download';
+import { stripboardToPdf } from '@/lib/format/pdf';
+import { DEFAULT_NUMBERING, assignSceneNumbers, type SceneNumbering } from '@/lib/sceneNumbering';
+import {
+  EMPTY_SCHEDULE, addShootDay, buildStrips, dayLabel, dayTotals, moveStrip, normalizeSchedule, removeShootDay, stripColor,
+  type ShootingSchedule, type Strip,
+} from '@/lib/stripboard';
+import { activeProjectKey, getProject, saveProject, storageErrorMessage, type ProjectRecord } from '@/lib/projectStore';
+
+/** The parts of a saved film project (the timeline's ProjectFileV1) the stripboard reads. */
+type FilmData = {
+  scenes: Array<{
+    id: string;
+    heading: string;
+    description: string;
+    positionSec: number;
+    lengthSec: number;
+    lengthEighths?: number;
+    sceneNumber?: string;
+    scriptLines?: ScriptLine[];
+  }>;
+  numbering?: SceneNumbering;
+  schedule?: ShootingSchedule;
+};
+
+const GRID = 'grid grid-cols-[3.5rem_4rem_3.5rem_1fr_4.5rem_6rem] gap-2 items-center';
+
+/** Shooting schedule of the film project open in the timeline: strips dragged into shoot days. */
+export default function Stripboard() {
+  const [record, setRecord] = useState<ProjectRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<ShootingSchedule>(EMPTY_SCHEDULE);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const dragIdRef = useRef<string | null>(null);
+  const loadedRef = useRef(false);
+
+  // Open ?project=<id>, else the project the timeline had open
+  useEffect(() => {
+    (async () => {
+      try {
+        const id = new URLSearchParams(window.location.search).get('project')
+          ?? localStorage.getItem(activeProjectKey('dtfilm'));
+        const rec = id ? await getProject(id) : undefined;
+        if (!rec || rec.kind !== 'dtfilm' || !Array.isArray((rec.data as FilmData)?.scenes)) {
+          setError('No film project is open. Open or create one in the Film workspace first.');
+          return;
+        }
+        setRecord(rec);
+        setSchedule((rec.data as FilmData).schedule ?? EMPTY_SCHEDULE);
+      } catch (err) {
+        console.error('[Stripboard] Failed to load project:', err);
+        setError(storageErrorMessage(err));
+      }
+    })();
+  }, []);
+
+  // Save the schedule into the project (re-read first so timeline edits aren't lost)
+  useEffect(() => {
+    if (!record) return;
+    if (!loadedRef.current) { loadedRef.current = true; return; }
+    const handle = setTimeout(async () => {
+      try {
+        const latest = await getProject(record.id);
+        const data = { ...(latest ?? record).data as FilmData, schedule };
+        await saveProject({ id: record.id, kind: 'dtfilm', name: latest?.name ?? record.name, data });
+        setSaveError(null);
+      } catch (err) {
+        console.error('[Stripboard] Save failed:', err);
+        setSaveError(storageErrorMessage(err));
+      }
+    }, 300);
+    return () => clearTimeout(handle);
+  }, [schedule, record]);
+
+  const data = record?.data as FilmData | undefined;
+  const board = useMemo(() => {
+    if (!data) return null;
+    const numbers = assignSceneNumbers(data.scenes, data.numbering ?? DEFAULT_NUMBERING);
+    const { strips, cast } = buildStrips(
+      data.scenes.map(s => ({
+        ...s,
+        lines: s.scriptLines?.length ? s.scriptLines : classifyLines(s.description || '', { titlePage: false }),
+      })),
+      numbers,
+    );
+    const byId = new Map(strips.map(s => [s.id, s]));
+    const { schedule: clean, unscheduled } = normalizeSchedule(schedule, strips.map(s => s.id));
+    return { byId, cast, days: clean.days, unscheduled };
+  }, [data, schedule]);
+
+  const drop = (dayId: string | null, index: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const id = dragIdRef.current;
+    dragIdRef.current = null;
+    if (id) setSchedule(prev => moveStrip(prev, id, dayId, index));
+  };
+  const allowDrop = (e: React.DragEvent) => { if (dragIdRef.current) e.preventDefault(); };
+
+  const renameDay = (dayId: string, label: string) =>
+    setSchedule(prev => ({ days: prev.days.map(d => d.id === dayId ? { ...d, label } : d) }));
+
+  async function exportPdf() {
+    if (!board || !record) return;
+    try {
+      const blob = await stripboardToPdf({
+        days: board.days.map((d, i) => ({
+          label: dayLabel(d, i),
+          strips: d.sceneIds.map(id => board.byId.get(id)!),
+          ...dayTotals(d, board.byId),
+        })),
+        unscheduled: board.unscheduled.map(id => board.byId.get(id)!),
+        cast: board.cast,
+      }, { title: record.name });
+      const name = (record.name || 'Untitled Project').replace(/[\/\\?%*:|"<>]/g, '_');
+      downloadBlob(`${name} - stripboard.pdf`, blob);
+    } catch (err) {
+      console.error('[Stripboard] Export PDF failed:', err);
+      alert('Failed to export stripboard PDF');
+    }
+  }
+
+  if (error) return <div className="p-6 text-neutral-400">{error}</div>;
+  if (!record || !board) return <div className="p-6 text-neutral-500">Loading…</div>;
+
+  const stripRow = (s: Strip, dayId: string | null, index: number) => {
+    const { bg, text } = stripColor(s);
+    return (
+      <div
+        key={s.id}
+        draggable
+        onDragStart={(e) => { dragIdRef.current = s.id; e.dataTransfer.setData('text/plain', s.id); e.dataTransfer.effectAllowed = 'move'; }}
+        onDragOver={allowDrop}
+        onDrop={drop(dayId, index)}
+        className={`${GRID} px-2 py-1 text-xs border-b border-black/20 cursor-grab active:cursor-grabbing`}
+        style={{ background: bg, color: text }}
+        title={s.timeOfDay ?? undefined}
+      >
+        <span className="font-semibold tabular-nums">{s.number}</span>
+        <span>{s.intExt ?? '—'}</span>
+        <span>{s.dayNight ?? '—'}</span>
+        <span className="truncate">{[s.location, s.sublocation].filter(Boolean).join(' - ')}</span>
+        <span className="tabular-nums">{formatEighths(s.eighths)} pg</span>
+        <span className="truncate tabular-nums">{s.cast.join(', ')}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 border-b border-neutral-800 flex items-center gap-2 text-sm">
+        <span className="font-medium truncate">{record.name}</span>
+        <span className="text-neutral-500">
+          {board.byId.size} scenes · {board.days.length} shoot day{board.days.length === 1 ? '' : 's'} · {board.unscheduled.length} unscheduled
+        </span>
+        {saveError && <span className="text-xs text-red-400" title={saveError}>Save failed</span>}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+            onClick={() => setSchedule(prev => addShootDay(prev, crypto.randomUUID()))}
+          >
+            Add day
+          </button>
+          <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={exportPdf}>
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {board.days.length === 0 && (
+            <div className="text-neutral-500 text-sm">Add a shoot day, then drag strips into it.</div>
+          )}
+          {board.days.map((d, i) => {
+            const totals = dayTotals(d, board.byId);
+            return (
+              <div key={d.id} onDragOver={allowDrop} onDrop={drop(d.id, d.sceneIds.length)} className="rounded border border-neutral-800 overflow-hidden">
+                <div className="px-2 py-1 flex items-center gap-2 bg-neutral-900 text-sm">
+                  <input
+                    value={d.label ?? ''}
+                    placeholder={`Day ${i + 1}`}
+                    onChange={(e) => renameDay(d.id, e.target.value)}
+                    className="px-2 py-0.5 rounded bg-neutral-950 border border-neutral-700 w-48"
+                  />
+                  <button
+                    className="ml-auto text-neutral-400 hover:text-neutral-100"
+                    onClick={() => setSchedule(prev => removeShootDay(prev, d.id))}
+                    title="Remove the day; its strips go back to unscheduled"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {d.sceneIds.map((id, k) => stripRow(board.byId.get(id)!, d.id, k))}
+                {d.sceneIds.length === 0 && <div className="px-2 py-3 text-xs text-neutral-500">Drop strips here</div>}
+                <div className="px-2 py-1.5 bg-neutral-950 text-neutral-200 text-xs font-semibold tracking-wide flex gap-4">
+                  <span>END OF {dayLabel(d, i).toUpperCase()}</span>
+                  <span className="tabular-nums">{formatEighths(totals.eighths)} pages</span>
+                  <span className="tabular-nums">{formatTime(totals.sec)} screen time</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="w-[28rem] border-l border-neutral-800 flex flex-col min-h-0">
+          <div className="px-3 py-2 border-b border-neutral-800 text-sm font-medium">Unscheduled</div>
+          <div className="flex-1 overflow-auto" onDragOver={allowDrop} onDrop={drop(null, 0)}>
+            {board.unscheduled.map((id, k) => stripRow(board.byId.get(id)!, null, k))}
+            {board.unscheduled.length === 0 && <div className="px-3 py-3 text-xs text-neutral-500">Every scene is scheduled.</div>}
+          </div>
+          {board.cast.length > 0 && (
+            <div className="px-3 py-2 border-t border-neutral-800 text-xs text-neutral-400 max-h-40 overflow-auto">
+              <div className="font-medium text-neutral-300 mb-1">Cast</div>
+              {board.cast.map((name, i) => <div key={name}>{i + 1}. {name}</div>)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
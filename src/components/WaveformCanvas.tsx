@@ -4,9 +4,14 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { formatTime } from '@/lib/time';
 import LyricsPanel from '@/components/LyricsPanel';
 import type { AlignedLine } from '@/lib/lyrics';
-import type { Word as ASRWord } from '@/lib/align';
-import { wordsToClipsByPause, alignProvidedLyricsToWords } from '@/lib/align';
-import { Note, LyricsClip, Marker, AudioProjectV1 } from '@/types/music';
+import { wordsToClipsByPause } from '@/lib/align';
+import { clampWordsToClip, moveWordEdge, retextWords, shiftWords } from '@/lib/lyricWords';
+import {
+  followTranscription, loadPendingTranscription, savePendingTranscription, startTranscription, type Transcript,
+} from '@/lib/transcribe';
+import { contentHash } from '@/lib/transcription/types';
+import { Note, LyricsClip, Marker, AudioProject } from '@/types/music';
+import { migrateMusicProject } from '@/lib/musicProject';
 import { fmtLrcTime, fmtSrtTime } from '@/lib/subtitle';
 import { downloadBlob } from '@/lib/download';
 import Minimap from '@/components/Minimap';
@@ -14,20 +19,42 @@ import VerticalMinimap from '@/components/VerticalMinimap';
 import WaveformToolbar from '@/components/music/WaveformToolbar';
 import NoteModal from '@/components/music/NoteModal';
 import LyricModal from '@/components/music/LyricModal';
-
-
-type DragMode = 'none' | 'pan' | 'note' | 'lyric';
+import TranscribeModal, { type TranscribeStatus } from '@/components/music/TranscribeModal';
+import { emptyHistory, jumpTo, recordChange, redoStep, undoStep, type HistoryStack } from '@/lib/history';
+import { BUNDLE_EXT, buildBundle, isBundleBytes, matchesAsset, openBundle, packAsset, type PackedAsset, type UnresolvedAsset } from '@/lib/bundle';
+import { decodeAudioFile } from '@/lib/audio';
+import RelinkModal from '@/components/RelinkModal';
+import ProjectLibraryModal from '@/components/ProjectLibraryModal';
+import {
+  activeProjectKey, addSnapshot, cacheTranscript, getProject, getProjectBlob, isSnapshotDue, newProjectId, putProjectBlob, saveProject,
+  storageErrorMessage, type Snapshot,
+} from '@/lib/projectStore';
+
+
+type DragMode = 'none' | 'pan' | 'note' | 'lyric' | 'word';
+/** The part of the music canvas that undo/redo covers. */
+type MusicDoc = {
+  notes: Note[];
+  lyricsClips: LyricsClip[];
+  markers: Marker[];
+  loopA: number | null;
+  loopB: number | null;
+  lyricsOffsetSec: number;
+};
 const COLLAPSED_H = 18;      // px
 const TOGGLE_SIZE = 12;      // px chevron hit area
 const TOGGLE_PAD = 4;        // padding inside note
+const LOW_CONFIDENCE = 0.6;  // lyric clips below this get a dashed outline
+const WORD_EDGE_TOL = 4;     // px either side of a word edge that grabs it
 
 
+/** Single-slot autosave from before the project library; moved into it on first load. */
 const MUSIC_AUTOSAVE_KEY = 'dt:music:autosave:v1';
 const MUSIC_PROJECT_NAME_KEY = 'dt:music:projectName';
 
 
 
-export default function WaveformCanvas({ audioBuffer, setAudioBuffer }: { audioBuffer: AudioBuffer | null, setAudioBuffer?: (ab: AudioBuffer) => void }) {
+export default function WaveformCanvas({ audioBuffer, setAudioBuffer }: { audioBuffer: AudioBuffer | null, setAudioBuffer?: (ab: AudioBuffer | null) => void }) {
   // Drag-and-drop area state
   const [dragOver, setDragOver] = useState(false);
 
@@ -47,8 +74,9 @@ export default function WaveformCanvas({ audioBuffer, setAudioBuffer }: { audioB
       const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
       ctx.decodeAudioData(arrayBuffer, (decoded) => {
         if (setAudioBuffer) {
-          // Attach filename for project export
+          // Attach filename (and the file itself, for bundles) for project export
           (decoded as any)._fileName = file.name;
+          (decoded as any)._file = file;
           setAudioBuffer(decoded);
         }
       }, (err) => {
@@ -178,6 +206,8 @@ const [dragMovesTimestamp, setDragMovesTimestamp] = useState<boolean>(false);
   const [lyricsClips, setLyricsClips] = useState<LyricsClip[]>([]);
   const [selectedLyricId, setSelectedLyricId] = useState<string | null>(null);
   const lyricStartRef = useRef<{ timestampSec: number } | null>(null);
+  // word edge being dragged inside the selected clip
+  const wordDragRef = useRef<{ clipId: string; index: number; edge: 'start' | 'end' } | null>(null);
 
   const [snappingEnabled, setSnappingEnabled] = useState<boolean>(false);
 
@@ -186,6 +216,54 @@ const [dragMovesTimestamp, setDragMovesTimestamp] = useState<boolean>(false);
   const [modalLyricText, setModalLyricText] = useState<string>('');
   const [lyricsOffsetSec, setLyricsOffsetSec] = useState<number>(0);
 
+  // History (patch-based undo/redo). Edits announce themselves with pushHistory(label);
+  // the change is recorded once no pointer gesture is active, so a drag is one entry.
+  const [history, setHistory] = useState<HistoryStack>(emptyHistory);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [gesture, setGesture] = useState(false);
+  const committedRef = useRef<MusicDoc>({ notes, lyricsClips, markers, loopA, loopB, lyricsOffsetSec });
+  const pendingRef = useRef<{ label: string; coalesceKey?: string } | null>(null);
+  const pushHistory = (label: string, coalesceKey?: string) => { pendingRef.current = { label, coalesceKey }; };
+
+  useEffect(() => {
+    if (gesture) return;
+    const before = committedRef.current;
+    const after: MusicDoc = { notes, lyricsClips, markers, loopA, loopB, lyricsOffsetSec };
+    const meta = pendingRef.current ?? { label: 'Edit' };
+    pendingRef.current = null;
+    committedRef.current = after;
+    setHistory(h => recordChange(h, before, after, meta));
+  }, [notes, lyricsClips, markers, loopA, loopB, lyricsOffsetSec, gesture]);
+
+  const restoreDoc = (doc: MusicDoc) => {
+    committedRef.current = doc;
+    setNotes(doc.notes); setLyricsClips(doc.lyricsClips); setMarkers(doc.markers);
+    setLoopA(doc.loopA); setLoopB(doc.loopB); setLyricsOffsetSec(doc.lyricsOffsetSec);
+  };
+  const applyStep = (step: { history: HistoryStack; doc: MusicDoc } | null) => {
+    if (!step) return;
+    restoreDoc(step.doc);
+    setHistory(step.history);
+  };
+  const undo = () => applyStep(undoStep(history, committedRef.current));
+  const redo = () => applyStep(redoStep(history, committedRef.current));
+  const jumpToHistory = (entryId: number) => applyStep(jumpTo(history, committedRef.current, entryId));
+
+  // Ctrl/⌘+Z undo, Ctrl/⌘+Shift+Z or Ctrl+Y redo (not while typing)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const t = e.target as HTMLElement | null;
+      const tag = (t?.tagName || '').toLowerCase();
+      if (tag === 'input' || tag === 'textarea' || t?.isContentEditable) return;
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); redo(); }
+      else if (key === 'z') { e.preventDefault(); undo(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
   // Audio graph
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
@@ -198,6 +276,88 @@ const [dragMovesTimestamp, setDragMovesTimestamp] = useState<boolean>(false);
     }
   }, [audioBuffer]);
 
+  // Analyze (AI): transcript with word timings of the loaded track. A running job is kept in
+  // localStorage so a reload picks it up again; the transcript is dropped when another track loads.
+  const [transcript, setTranscript] = useState<(Transcript & { hash: string }) | null>(null);
+  const [transcribeStatus, setTranscribeStatus] = useState<TranscribeStatus | null>(null);
+  const transcribeAbortRef = useRef<AbortController | null>(null);
+
+  async function runTranscription(ac: AbortController, steps: () => Promise<Transcript & { hash: string }>) {
+    transcribeAbortRef.current?.abort();
+    transcribeAbortRef.current = ac;
+    try {
+      const result = await steps();
+      const { hash, ...heard } = result;
+      let cacheError: string | undefined;
+      try {
+        await cacheTranscript(hash, heard);
+      } catch (err) {
+        console.error('[Analyze] Could not cache the transcript:', err);
+        cacheError = storageErrorMessage(err);
+      }
+      setTranscript(result);
+      setTranscribeStatus({ phase: 'done', transcript: result, cacheError });
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return;
+      console.error('[Analyze] Transcription failed:', err);
+      setTranscribeStatus({ phase: 'error', message: err?.message || String(err) });
+    } finally {
+      if (transcribeAbortRef.current === ac) {
+        transcribeAbortRef.current = null;
+        // cancelled: the job runs on, and the next Analyze of this track collects it
+        if (!ac.signal.aborted) savePendingTranscription(null);
+      }
+    }
+  }
+
+  async function analyzeAudio() {
+    const file: File | undefined = (audioBuffer as any)?._file;
+    if (!audioBuffer) { document.getElementById('ai-audio-input')?.click(); return; }
+    if (!file) { alert('The audio file for this track is not available. Load it again to analyze it.'); return; }
+    if (transcript) { setTranscribeStatus({ phase: 'done', transcript }); return; }
+    const ac = new AbortController();
+    await runTranscription(ac, async () => {
+      const job = await startTranscription(file, { fileName: file.name, signal: ac.signal, onProgress: setTranscribeStatus });
+      if (job.status === 'running') savePendingTranscription({ jobId: job.id, hash: job.hash, fileName: file.name });
+      return { ...await followTranscription(job, { signal: ac.signal, onProgress: setTranscribeStatus }), hash: job.hash };
+    });
+  }
+
+  // Pick up the job that was running when the page was left
+  useEffect(() => {
+    const pending = loadPendingTranscription();
+    if (!pending) return;
+    setTranscribeStatus({ phase: 'queued' });
+    const ac = new AbortController();
+    runTranscription(ac, async () => ({
+      ...await followTranscription({ id: pending.jobId }, { signal: ac.signal, onProgress: setTranscribeStatus }),
+      hash: pending.hash,
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // A different track: forget its transcript and stop waiting for its job
+  useEffect(() => {
+    const file: File | undefined = (audioBuffer as any)?._file;
+    if (!file) return;
+    let stale = false;
+    contentHash(file).then(hash => {
+      if (stale) return;
+      if (transcript && transcript.hash !== hash) {
+        setTranscript(null);
+        setTranscribeStatus(st => st?.phase === 'done' ? null : st);
+      }
+      const pending = loadPendingTranscription();
+      if (pending && pending.hash !== hash) {
+        transcribeAbortRef.current?.abort();
+        savePendingTranscription(null);
+        setTranscribeStatus(null);
+      }
+    }).catch(err => console.error('[Analyze] Could not hash the track:', err));
+    return () => { stale = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioBuffer]);
+
   // Dragging state
   const dragModeRef = useRef<DragMode>('none');
   const isMouseDownRef = useRef<boolean>(false);
@@ -284,6 +444,23 @@ function hitTestLyric(xCss: number, yCss: number, DPR: number, canvasH: number):
   return null;
 }
 
+/** The word edge of the selected clip under the pointer; handles are only shown there. */
+function hitTestWordEdge(xCss: number, yCss: number, DPR: number, canvasH: number) {
+  const clip = lyricsClips.find(c => c.id === selectedLyricId);
+  if (!clip?.words?.length) return null;
+  const r = lyricRect(clip, zoom, DPR, canvasH);
+  if (yCss < r.top || yCss > r.top + r.h) return null;
+  let best: { clipId: string; index: number; edge: 'start' | 'end' } | null = null;
+  let bestD = WORD_EDGE_TOL;
+  for (const [index, w] of clip.words.entries()) {
+    for (const edge of ['start', 'end'] as const) {
+      const d = Math.abs(worldTimeToCss((edge === 'start' ? w.startSec : w.endSec) + lyricsOffsetSec) - xCss);
+      if (d <= bestD) { bestD = d; best = { clipId: clip.id, index, edge }; }
+    }
+  }
+  return best;
+}
+
 function normalizeAlignedLines(lines: AlignedLine[], audioDur: number | undefined): AlignedLine[] {
   if (!lines?.length) return lines;
   const maxStart = Math.max(...lines.map(l => typeof l.startSec === 'number' ? l.startSec : 0));
@@ -297,6 +474,7 @@ function normalizeAlignedLines(lines: AlignedLine[], audioDur: number | undefine
     ...l,
     startSec: Math.max(0, (l.startSec ?? 0) * scale),
     endSec: typeof l.endSec === 'number' ? Math.max(0, (l.endSec as number) * scale) : undefined,
+    words: l.words?.map(w => ({ ...w, startSec: Math.max(0, w.startSec * scale), endSec: Math.max(0, w.endSec * scale) })),
   }));
 }
 
@@ -341,16 +519,20 @@ function addAlignedLyricsAsClips(lines: AlignedLine[]) {
       end = start + 0.5;
     }
 
+    const words = cur.words?.length ? clampWordsToClip(cur.words, start, end) : [];
     out.push({
       id: crypto.randomUUID(),
       text: cur.text,
       timestampSec: start,
       endSec: end,
+      ...(typeof cur.confidence === 'number' ? { confidence: Math.max(0, Math.min(1, cur.confidence)) } : {}),
+      ...(words.length ? { words } : {}),
       color: colors[i % colors.length],
       h: 40,
     });
   }
 
+  pushHistory(`Aligned ${out.length} lyric clip${out.length === 1 ? '' : 's'}`);
   setLyricsClips(prev => prev.concat(out));
   setSelectedLyricId(out[0]?.id ?? null);
 }
@@ -531,6 +713,7 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
   }
   function saveModal() {
     if (!modalNoteId) return;
+    pushHistory('Edited note');
     setNotes(prev => prev.map(n => (n.id === modalNoteId ? { ...n, text: modalText } : n)));
     setModalNoteId(null);
   }
@@ -539,9 +722,9 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
   }
 
   // ---- Save / Open (export/import project) ----
-  function makeProject(): AudioProjectV1 {
+  function makeProject(): AudioProject {
     return {
-      version: 1,
+      version: 2,
       kind: 'dtmusic',
       projectName,
       zoom,
@@ -549,6 +732,12 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
       playheadSec,
       waveAmp,
       notes,
+      lyricsClips,
+      markers,
+      loop: { enabled: loopEnabled, a: loopA, b: loopB },
+      lyricsOffsetSec,
+      snappingEnabled,
+      dragMovesTimestamp,
       audioMeta: audioBuffer ? { fileName: (audioBuffer as any)._fileName, duration: audioBuffer.duration } : null,
     };
   }
@@ -560,18 +749,76 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
     downloadBlob(`${safe}.dtmusic.json`, blob);
   }
 
-  function loadProject(data: unknown) {
-    const p = data as Partial<AudioProjectV1>;
-    if (!p || p.kind !== 'dtmusic' || p.version !== 1 || !Array.isArray(p.notes)) {
-      throw new Error('Invalid music project file');
-    }
+  function loadProject(data: unknown): AudioProject {
+    // Validates and upgrades V1 files; throws with the specific problems otherwise
+    const p = migrateMusicProject(data);
     setNotes(p.notes);
-    setZoom(typeof p.zoom === 'number' ? p.zoom : zoom);
-    setPanX(typeof p.panX === 'number' ? p.panX : 0);
-    setPlayheadSec(typeof p.playheadSec === 'number' ? p.playheadSec : 0);
-    setWaveAmp(typeof p.waveAmp === 'number' ? p.waveAmp : waveAmp);
-    setProjectName(p.projectName || 'Untitled Audio Project');
-    // Note: audio is not embedded; user may re-upload the same file if desired.
+    setLyricsClips(p.lyricsClips);
+    setMarkers(p.markers);
+    setLoopEnabled(p.loop.enabled);
+    setLoopA(p.loop.a);
+    setLoopB(p.loop.b);
+    setLyricsOffsetSec(p.lyricsOffsetSec);
+    committedRef.current = {
+      notes: p.notes, lyricsClips: p.lyricsClips, markers: p.markers,
+      loopA: p.loop.a, loopB: p.loop.b, lyricsOffsetSec: p.lyricsOffsetSec,
+    };
+    pendingRef.current = null;
+    setHistory(emptyHistory());
+    setSnappingEnabled(p.snappingEnabled);
+    setDragMovesTimestamp(p.dragMovesTimestamp);
+    setZoom(p.zoom);
+    setPanX(p.panX);
+    setPlayheadSec(p.playheadSec);
+    setWaveAmp(p.waveAmp);
+    setProjectName(p.projectName);
+    // Note: .dtmusic files don't embed audio; bundles (.dtmusicz) restore it in openMusicBundle.
+    return p;
+  }
+
+  // ---- Bundle (.dtmusicz): project.json plus the original audio file ----
+  const [relinkItems, setRelinkItems] = useState<UnresolvedAsset[]>([]);
+
+  async function exportBundle() {
+    const project = makeProject();
+    const packed: PackedAsset[] = [];
+    const source: File | undefined = (audioBuffer as any)?._file;
+    if (source) {
+      const p = await packAsset(new Uint8Array(await source.arrayBuffer()), source.name, source.type, 'audio');
+      packed.push(p);
+      project.audioMeta = { ...project.audioMeta, assetId: p.asset.id };
+    }
+    const bytes = buildBundle('dtmusic', projectName, project, packed);
+    const safe = (projectName || 'Untitled Audio Project').replace(/[\/\\?%*:|"<>]/g, '_');
+    downloadBlob(`${safe}${BUNDLE_EXT.dtmusic}`, new Blob([bytes], { type: 'application/zip' }));
+  }
+
+  async function loadAudioFile(file: File) {
+    if (!setAudioBuffer) return;
+    const decoded = await decodeAudioFile(file);
+    (decoded as any)._fileName = file.name;
+    (decoded as any)._file = file;
+    setAudioBuffer(decoded);
+  }
+
+  async function openMusicBundle(bytes: Uint8Array) {
+    const bundle = await openBundle(bytes, 'dtmusic');
+    const p = loadProject(bundle.project);
+    const id = p.audioMeta?.assetId;
+    if (!id) return;
+    const asset = bundle.manifest.assets.find(a => a.id === id);
+    const data = bundle.assets.get(id);
+    if (asset && data) await loadAudioFile(new File([data], asset.name, { type: asset.mime }));
+    else setRelinkItems(bundle.unresolved.filter(u => u.asset.id === id));
+  }
+
+  async function relinkAsset(assetId: string, file: File) {
+    const item = relinkItems.find(u => u.asset.id === assetId);
+    if (!item) return;
+    const same = await matchesAsset(item.asset, new Uint8Array(await file.arrayBuffer()));
+    if (!same && !confirm(`"${file.name}" is not the same file as the original "${item.asset.name}". Use it anyway?`)) return;
+    await loadAudioFile(file);
+    setRelinkItems(prev => prev.filter(u => u.asset.id !== assetId));
   }
 
   const openProjectInputRef = useRef<HTMLInputElement | null>(null);
@@ -580,9 +827,13 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
-      const text = await file.text();
-      const json = JSON.parse(text);
-      loadProject(json);
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      await flushLibrarySave();
+      if (isBundleBytes(bytes)) await openMusicBundle(bytes);
+      else loadProject(JSON.parse(new TextDecoder().decode(bytes)));
+      // an opened file becomes a new project in the library
+      lastSnapshotRef.current = null;
+      setProjectId(newProjectId());
     } catch (err: any) {
       console.error('[Open Music Project] Failed:', err);
       alert(`Failed to open project: ${err?.message || String(err)}`);
@@ -592,25 +843,135 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
   };
 
   // ---------- Main canvas drawing ----------
+  // ---- Project library (IndexedDB): autosave, snapshots, audio files, multiple projects ----
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const lastSnapshotRef = useRef<number | null>(null);
+  // audio file already stored for a project, so it is written once rather than on every autosave
+  const storedAudioRef = useRef<{ projectId: string; file: File } | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    try { localStorage.setItem(activeProjectKey('dtmusic'), projectId); } catch {}
+  }, [projectId]);
+
+  async function saveToLibrary(id: string) {
+    const data = makeProject();
+    const source: File | undefined = (audioBuffer as any)?._file;
+    let audioBlobId: string | undefined;
+    if (source && (storedAudioRef.current?.projectId !== id || storedAudioRef.current.file !== source)) {
+      audioBlobId = await putProjectBlob(id, 'audio', source);
+      storedAudioRef.current = { projectId: id, file: source };
+    }
+    await saveProject({ id, kind: 'dtmusic', name: projectName, data, audioBlobId });
+    if (isSnapshotDue(lastSnapshotRef.current, Date.now())) {
+      await addSnapshot(id, data);
+      lastSnapshotRef.current = Date.now();
+    }
+  }
+
+  /** Save the open project now; the debounced autosave is dropped when the project changes. */
+  async function flushLibrarySave() {
+    if (!projectId) return;
+    try {
+      await saveToLibrary(projectId);
+    } catch (err) {
+      console.error('[Music Autosave] Failed:', err);
+    }
+  }
+
   // Autosave (debounced)
   useEffect(() => {
-    const h = setTimeout(() => {
-      try { localStorage.setItem(MUSIC_AUTOSAVE_KEY, JSON.stringify(makeProject())); } catch {}
+    if (!projectId) return;
+    const h = setTimeout(async () => {
+      try {
+        await saveToLibrary(projectId);
+        setSaveError(null);
+        try { localStorage.removeItem(MUSIC_AUTOSAVE_KEY); } catch {}
+      } catch (err) {
+        console.error('[Music Autosave] Failed:', err);
+        setSaveError(storageErrorMessage(err));
+      }
     }, 400);
     return () => clearTimeout(h);
-  }, [projectName, zoom, panX, playheadSec, waveAmp, notes]);
+  }, [projectId, audioBuffer, projectName, zoom, panX, playheadSec, waveAmp, notes, lyricsClips, markers, loopEnabled, loopA, loopB,
+      lyricsOffsetSec, snappingEnabled, dragMovesTimestamp]);
+
+  /** Load a library project and its stored audio file. */
+  async function loadLibraryProject(id: string) {
+    const rec = await getProject(id);
+    if (!rec || rec.kind !== 'dtmusic') throw new Error('That project is no longer in the library');
+    loadProject(rec.data);
+    const stored = rec.audioBlobId ? await getProjectBlob(rec.audioBlobId) : undefined;
+    if (stored) {
+      const file = new File([stored.blob], stored.name, { type: stored.type });
+      storedAudioRef.current = { projectId: id, file };
+      await loadAudioFile(file);
+    } else {
+      setAudioBuffer?.(null);
+    }
+  }
 
-  // Load autosave on mount (if present and nothing yet)
+  // On mount: open ?project=<id>, else the last open project, else the old localStorage autosave
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(MUSIC_AUTOSAVE_KEY);
-      if (raw) {
-        const data = JSON.parse(raw);
-        if (data?.kind === 'dtmusic') loadProject(data);
+    (async () => {
+      let id: string | null = null;
+      try {
+        const wanted = new URLSearchParams(window.location.search).get('project')
+          ?? localStorage.getItem(activeProjectKey('dtmusic'));
+        if (wanted && (await getProject(wanted))?.kind === 'dtmusic') {
+          await loadLibraryProject(wanted);
+          id = wanted;
+        } else {
+          const raw = localStorage.getItem(MUSIC_AUTOSAVE_KEY);
+          const data = raw ? JSON.parse(raw) : null;
+          if (data?.kind === 'dtmusic') loadProject(data);
+        }
+      } catch (err) {
+        console.error('[Music Autosave] Could not restore:', err);
       }
-    } catch {}
+      setProjectId(id ?? newProjectId());
+    })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
+
+  async function switchProject(next: () => Promise<string> | string) {
+    try {
+      await flushLibrarySave();
+      const id = await next();
+      lastSnapshotRef.current = null;
+      setProjectId(id);
+      setLibraryOpen(false);
+    } catch (err: any) {
+      console.error('[Project Library] Failed:', err);
+      alert(`Failed to open project: ${storageErrorMessage(err)}`);
+    }
+  }
+
+  const openFromLibrary = (id: string) => switchProject(async () => {
+    await loadLibraryProject(id);
+    return id;
+  });
+
+  const newLibraryProject = () => switchProject(() => {
+    loadProject({ version: 2, kind: 'dtmusic', projectName: 'Untitled Audio Project', notes: [] });
+    setAudioBuffer?.(null);
+    return newProjectId();
+  });
+
+  async function restoreSnapshot(snap: Snapshot) {
+    if (!projectId) return;
+    if (!confirm(`Restore the snapshot from ${new Date(snap.createdAt).toLocaleString()}?\n\nThe current state is kept as a snapshot.`)) return;
+    try {
+      await addSnapshot(projectId, makeProject(), 'Before restore');
+      loadProject(snap.data);
+      setLibraryOpen(false);
+    } catch (err: any) {
+      console.error('[Project Library] Restore failed:', err);
+      alert(`Failed to restore snapshot: ${storageErrorMessage(err)}`);
+    }
+  }
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -670,10 +1031,41 @@ function hitTestLoopHandle(xCss: number): 'A' | 'B' | null {
             ctx.lineWidth = 2 * DPRv;
             ctx.strokeRect(x - 1 * DPRv, y - 1 * DPRv, wCss * DPRv + 2 * DPRv, hCss * DPRv + 2 * DPRv);
           }
+          // unsure transcription/alignment: dashed amber outline
+          if (c.confidence != null && c.confidence < LOW_CONFIDENCE && c.id !== selectedLyricId) {
+            ctx.save();
+            ctx.strokeStyle = '#f59e0b';
+            ctx.lineWidth = 2 * DPRv;
+            ctx.setLineDash([4 * DPRv, 3 * DPRv]);
+            ctx.strokeRect(x + 1 * DPRv, y + 1 * DPRv, wCss * DPRv - 2 * DPRv, hCss * DPRv - 2 * DPRv);
+            ctx.restore();
+          }
+          // word spans: alternate shading with a tick at each boundary, handles when selected
+          if (c.words?.length) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(x, y, wCss * DPRv, hCss * DPRv);
+            ctx.clip();
+            c.words.forEach((wd, i) => {
+              const wx0 = worldTimeToCss(wd.startSec + lyricsOffsetSec) * DPRv;
+              const wx1 = worldTimeToCss(wd.endSec + lyricsOffsetSec) * DPRv;
+              ctx.fillStyle = i % 2 ? 'rgba(0,0,0,0.14)' : 'rgba(255,255,255,0.14)';
+              ctx.fillRect(wx0, y + 20 * DPRv, Math.max(1, wx1 - wx0), hCss * DPRv - 20 * DPRv);
+              ctx.fillStyle = c.id === selectedLyricId ? '#ffffff' : 'rgba(0,0,0,0.45)';
+              const edgeW = (c.id === selectedLyricId ? 3 : 1) * DPRv;
+              ctx.fillRect(wx0 - edgeW / 2, y + 20 * DPRv, edgeW, hCss * DPRv - 20 * DPRv);
+              ctx.fillRect(wx1 - edgeW / 2, y + 20 * DPRv, edgeW, hCss * DPRv - 20 * DPRv);
+            });
+            ctx.restore();
+          }
           // text
           ctx.fillStyle = '#0a0a0a';
           ctx.font = `${12 * DPRv}px ui-sans-serif, system-ui`;
           ctx.fillText(c.text.slice(0, 100), x + 6 * DPRv, y + 16 * DPRv);
+          if (c.confidence != null) {
+            ctx.font = `${10 * DPRv}px ui-sans-serif, system-ui`;
+            ctx.fillText(`${Math.round(c.confidence * 100)}%`, x + 6 * DPRv, y + (hCss - 6) * DPRv);
+          }
         }
       }
 
@@ -833,11 +1225,12 @@ function seekTo(sec: number) {
   // New Canvas helper
   function newCanvas() {
     const ok = window.confirm(
-      'Create a new canvas?\n\nThis will CLEAR all notes, lyrics, markers, loop settings, selections, and view position. Your current autosave for this project will also be cleared.'
+      'Create a new canvas?\n\nThis will CLEAR all notes, lyrics, markers, loop settings, selections, and view position. Earlier versions stay available as snapshots under Projects….'
     );
     if (!ok) return;
 
-    // Clear timeline entities
+    // Clear timeline entities (undoable)
+    pushHistory('New canvas');
     setNotes([]);
     setLyricsClips([]);
     setMarkers([]);
@@ -860,9 +1253,6 @@ function seekTo(sec: number) {
     setPanY(0);
     setZoom(100);
     setPlayheadSec(0);
-
-    // Clear autosave for music canvas
-    try { localStorage.removeItem(MUSIC_AUTOSAVE_KEY); } catch {}
   }
 
   useEffect(() => {
@@ -903,6 +1293,7 @@ raf = requestAnimationFrame(tick);
       if (hit) {
         if (hitToggleZone(hit, x, y)) {
           // tap on toggle chevron: collapse/expand, no drag
+          pushHistory(hit.collapsed ? 'Expanded note' : 'Collapsed note');
           setNotes(prev => prev.map(n => n.id === hit.id ? ({ ...n, collapsed: !n.collapsed }) : n));
           setSelectedNoteId(hit.id);
           touchDragRef.current = { mode: 'none', startX: 0, startY: 0 };
@@ -916,6 +1307,8 @@ raf = requestAnimationFrame(tick);
           startY: y,
           noteStart: { timestampSec: hit.timestampSec, xOffsetPx: hit.xOffsetPx, yPx: hit.yPx },
         };
+        pushHistory('Moved note', `note:${hit.id}`);
+        setGesture(true);
         setSelectedNoteId(hit.id);
         // scrub playhead on touch-down too
         setPlayheadSec(Math.max(0, cssToWorldTime(x)));
@@ -1009,6 +1402,7 @@ raf = requestAnimationFrame(tick);
     }
   };
   const onTouchEnd: React.TouchEventHandler<HTMLCanvasElement> = (e) => {
+    setGesture(false);
     if (e.touches.length === 0) {
       touchModeRef.current = 'none';
       touchLastRef.current = null;
@@ -1067,6 +1461,8 @@ raf = requestAnimationFrame(tick);
     // Loop handle hit
     const handle = hitTestLoopHandle(x);
     if (handle) {
+      pushHistory(`Moved loop ${handle}`);
+      setGesture(true);
       loopDragRef.current = handle;
       isMouseDownRef.current = true;
       return;
@@ -1075,6 +1471,8 @@ raf = requestAnimationFrame(tick);
     // Marker hit
     const mHit = hitTestMarker(x);
     if (mHit) {
+      pushHistory(`Moved marker ${mHit.label}`);
+      setGesture(true);
       draggingMarkerIdRef.current = mHit.id;
       setSelectedMarkerId(mHit.id);
       isMouseDownRef.current = true;
@@ -1082,8 +1480,19 @@ raf = requestAnimationFrame(tick);
       return;
     }
 
+    const wordEdge = hitTestWordEdge(x, y, DPR, (e.target as HTMLCanvasElement).height);
+    if (wordEdge) {
+      pushHistory('Retimed lyric word');
+      setGesture(true);
+      dragModeRef.current = 'word';
+      wordDragRef.current = wordEdge;
+      return;
+    }
+
     const hitLyric = hitTestLyric(x, y, DPR, (e.target as HTMLCanvasElement).height);
     if (hitLyric) {
+      pushHistory('Moved lyric clip');
+      setGesture(true);
       dragModeRef.current = 'lyric';
       lyricStartRef.current = { timestampSec: hitLyric.timestampSec };
       setSelectedLyricId(hitLyric.id);
@@ -1094,6 +1503,7 @@ raf = requestAnimationFrame(tick);
     const hit = hitTestNote(x, y);
     if (hit) {
       if (hitToggleZone(hit, x, y)) {
+        pushHistory(hit.collapsed ? 'Expanded note' : 'Collapsed note');
         setNotes(prev => prev.map(n => n.id === hit.id ? ({ ...n, collapsed: !n.collapsed }) : n));
         isMouseDownRef.current = false;
         dragModeRef.current = 'none';
@@ -1101,6 +1511,8 @@ raf = requestAnimationFrame(tick);
         setSelectedLyricId(null);
         return;
       }
+      pushHistory('Moved note', `note:${hit.id}`);
+      setGesture(true);
       dragModeRef.current = 'note';
       activeNoteIdRef.current = hit.id;
       noteStartRef.current = { timestampSec: hit.timestampSec, xOffsetPx: hit.xOffsetPx, yPx: hit.yPx };
@@ -1169,7 +1581,27 @@ raf = requestAnimationFrame(tick);
       const rawClipTime = newTimeWithOffset - lyricsOffsetSec;
 
       const snapped = snapTime(rawClipTime);
-      setLyricsClips(prev => prev.map(c => c.id === selectedLyricId ? { ...c, timestampSec: snapped } : c));
+      // the end and the word timings travel with the clip
+      setLyricsClips(prev => prev.map(c => {
+        if (c.id !== selectedLyricId) return c;
+        const delta = snapped - c.timestampSec;
+        return {
+          ...c,
+          timestampSec: snapped,
+          ...(typeof c.endSec === 'number' ? { endSec: c.endSec + delta } : {}),
+          ...(c.words ? { words: shiftWords(c.words, delta) } : {}),
+        };
+      }));
+      return;
+    }
+
+    if (dragModeRef.current === 'word' && wordDragRef.current) {
+      const { clipId, index, edge } = wordDragRef.current;
+      // not snapped: word edges are finer than the grid
+      const t = sec - lyricsOffsetSec;
+      setLyricsClips(prev => prev.map(c => c.id === clipId && c.words
+        ? { ...c, words: moveWordEdge(c.words, index, edge, t, c.timestampSec, c.endSec ?? Infinity) }
+        : c));
       return;
     }
 
@@ -1212,12 +1644,14 @@ raf = requestAnimationFrame(tick);
   };
 
 const endDrag = () => {
+  setGesture(false);
   isMouseDownRef.current = false;
   dragModeRef.current = 'none';
   activeNoteIdRef.current = null;
   noteStartRef.current = null;
   loopDragRef.current = 'none';
   draggingMarkerIdRef.current = null;
+  wordDragRef.current = null;
 };
 const onMouseUp = () => endDrag();
   const onMouseLeave = () => endDrag();
@@ -1276,6 +1710,7 @@ const onMouseUp = () => endDrag();
       h: 26,
       collapsed: false
     };
+    pushHistory('Added note');
     setNotes((ns) => ns.concat(newNote));
     setSelectedNoteId(id);
   };
@@ -1283,6 +1718,7 @@ const onMouseUp = () => endDrag();
   // ---------- Inline editor overlay (kept for future triggers) ----------
   const saveEditor = () => {
     if (!editingNoteId) return;
+    pushHistory('Edited note');
     setNotes((prev) => prev.map((n) => (n.id === editingNoteId ? { ...n, text: editorText } : n)));
     setEditingNoteId(null);
   };
@@ -1329,6 +1765,7 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
         (decoded) => {
           if (setAudioBuffer) {
             (decoded as any)._fileName = file.name;
+            (decoded as any)._file = file;
             setAudioBuffer(decoded);
           }
         },
@@ -1407,33 +1844,43 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
     onProjectNameChange={setProjectName}
 
     onExportProject={exportProject}
+    onProjectsOpen={() => setLibraryOpen(true)}
+    saveError={saveError}
+    onExportBundle={() => exportBundle().catch(err => {
+      console.error('[Save Music Bundle] Failed:', err);
+      alert(`Failed to save bundle: ${err?.message || String(err)}`);
+    })}
     openProjectInputRef={openProjectInputRef}
     onOpenProjectChosen={onOpenProjectChosen}
     onOpenProjectClick={onOpenProjectClick}
 
-    onAnalyzeClick={() => document.getElementById('ai-audio-input')?.click()}
+    onAnalyzeClick={analyzeAudio}
     onLyricsOpen={() => setLyricsOpen(true)}
 
     onAddMarkerAtPlayhead={() => {
       const id = crypto.randomUUID();
       const color = '#22c55e';
       const label = `${markers.length + 1}`;
+      pushHistory(`Added marker ${label}`);
       setMarkers(prev => prev.concat({ id, sec: playheadSec, label, color }));
       setSelectedMarkerId(id);
     }}
 
     onDeleteSelected={() => {
       if (selectedMarkerId) {
+        pushHistory('Deleted marker');
         setMarkers(prev => prev.filter(m => m.id !== selectedMarkerId));
         setSelectedMarkerId(null);
         return;
       }
       if (selectedNoteId) {
+        pushHistory('Deleted note');
         setNotes(prev => prev.filter(n => n.id !== selectedNoteId));
         setSelectedNoteId(null);
         return;
       }
       if (selectedLyricId) {
+        pushHistory('Deleted lyric clip');
         setLyricsClips(prev => prev.filter(c => c.id !== selectedLyricId));
         setSelectedLyricId(null);
       }
@@ -1442,15 +1889,22 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
 
     loopEnabled={loopEnabled}
     setLoopEnabled={setLoopEnabled}
-    onSetLoopA={() => setLoopA(playheadSec)}
-    onSetLoopB={() => { if (loopA != null && playheadSec <= loopA) { alert('Loop B must be after A'); return; } setLoopB(playheadSec); }}
-    onClearLoop={() => { setLoopA(null); setLoopB(null); }}
+    onSetLoopA={() => { pushHistory('Set loop A'); setLoopA(playheadSec); }}
+    onSetLoopB={() => { if (loopA != null && playheadSec <= loopA) { alert('Loop B must be after A'); return; } pushHistory('Set loop B'); setLoopB(playheadSec); }}
+    onClearLoop={() => { pushHistory('Cleared loop'); setLoopA(null); setLoopB(null); }}
 
     snappingEnabled={snappingEnabled}
     setSnappingEnabled={setSnappingEnabled}
 
     lyricsOffsetSec={lyricsOffsetSec}
-    setLyricsOffsetSec={setLyricsOffsetSec}
+    setLyricsOffsetSec={(v) => { pushHistory('Changed lyrics offset', 'lyricsOffset'); setLyricsOffsetSec(v); }}
+
+    onUndo={undo}
+    onRedo={redo}
+    undoLabel={history.past[history.past.length - 1]?.label ?? null}
+    redoLabel={history.future[0]?.label ?? null}
+    historyOpen={historyOpen}
+    onHistoryToggle={() => setHistoryOpen(v => !v)}
 
     waveAmp={waveAmp}
     setWaveAmp={setWaveAmp}
@@ -1509,6 +1963,42 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
           className="w-full h-full cursor-crosshair"
         />
 
+        {/* History list: click an entry to jump to the state after it */}
+        {historyOpen && (
+          <div className="absolute left-3 top-3 z-40 w-64 max-h-[70%] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded-lg shadow-xl text-sm">
+            <div className="px-3 py-2 border-b border-neutral-800 flex items-center justify-between">
+              <span className="font-medium">History</span>
+              <button className="text-neutral-400 hover:text-neutral-100" onClick={() => setHistoryOpen(false)}>✕</button>
+            </div>
+            <div className="overflow-auto py-1">
+              <button
+                className={`w-full text-left px-3 py-1 hover:bg-neutral-800 ${history.past.length === 0 ? 'text-blue-400' : 'text-neutral-400'}`}
+                onClick={() => jumpToHistory(0)}
+              >
+                Initial state
+              </button>
+              {history.past.map((h, i) => (
+                <button
+                  key={h.id}
+                  className={`w-full text-left px-3 py-1 hover:bg-neutral-800 ${i === history.past.length - 1 ? 'text-blue-400 font-medium' : 'text-neutral-200'}`}
+                  onClick={() => jumpToHistory(h.id)}
+                >
+                  {h.label}
+                </button>
+              ))}
+              {history.future.map(h => (
+                <button
+                  key={h.id}
+                  className="w-full text-left px-3 py-1 hover:bg-neutral-800 text-neutral-500 italic"
+                  onClick={() => jumpToHistory(h.id)}
+                >
+                  {h.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Vertical minimap (always visible for vertical navigation) */}
         <VerticalMinimap
           contentHeightPx={contentHeightPx}
@@ -1546,6 +2036,26 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
           />
         )}
 
+        {libraryOpen && (
+          <ProjectLibraryModal
+            kind="dtmusic"
+            currentId={projectId}
+            onOpen={openFromLibrary}
+            onNew={newLibraryProject}
+            onRestore={restoreSnapshot}
+            onClose={() => setLibraryOpen(false)}
+          />
+        )}
+
+        <RelinkModal
+          items={relinkItems}
+          onChoose={(id, file) => relinkAsset(id, file).catch(err => {
+            console.error('[Relink Audio] Failed:', err);
+            alert(`Failed to relink: ${err?.message || String(err)}`);
+          })}
+          onClose={() => setRelinkItems([])}
+        />
+
         {/* Full-screen Note Modal (large) */}
         <NoteModal
   open={!!modalNoteId}
@@ -1558,6 +2068,7 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
   onClose={() => setModalNoteId(null)}
   onSave={() => {
     if (!modalNoteId) return;
+    pushHistory('Edited note');
     setNotes(prev => prev.map(n => (n.id === modalNoteId ? { ...n, text: modalText } : n)));
     setModalNoteId(null);
   }}
@@ -1571,14 +2082,31 @@ accept="audio/*,video/*,application/octet-stream,.mp3,.wav,.m4a,.aac,.ogg,.flac,
   onClose={() => setModalLyricId(null)}
   onSave={() => {
     if (!modalLyricId) return;
-    setLyricsClips(prev => prev.map(c => c.id === modalLyricId ? { ...c, text: modalLyricText } : c));
+    pushHistory('Edited lyric clip');
+    // the text is now the user's, so the recognizer's confidence no longer applies
+    setLyricsClips(prev => prev.map(c => c.id === modalLyricId
+      ? { ...c, text: modalLyricText, confidence: undefined, words: c.words && retextWords(c.words, modalLyricText) }
+      : c));
     setModalLyricId(null);
   }}
 />
+        <TranscribeModal
+          status={transcribeStatus}
+          fileName={(audioBuffer as any)?._fileName}
+          onCancel={() => { transcribeAbortRef.current?.abort(); setTranscribeStatus(null); }}
+          onClose={() => setTranscribeStatus(null)}
+          onRetry={() => { setTranscribeStatus(null); analyzeAudio(); }}
+          onSegment={(pauseSec) => {
+            if (transcript) addAlignedLyricsAsClips(wordsToClipsByPause(transcript.words, pauseSec));
+            setTranscribeStatus(null);
+          }}
+          onAlignLyrics={() => { setTranscribeStatus(null); setLyricsOpen(true); }}
+        />
         {/* Lyrics Panel Overlay */}
         {lyricsOpen && (
           <LyricsPanel
             audioDurationSec={audioBuffer?.duration || 0}
+            words={transcript?.words}
             onClose={() => setLyricsOpen(false)}
             onAligned={(lines) => {
               addAlignedLyricsAsClips(lines);
@@ -0,0 +1,133 @@
+'use client';
+import React, { useState } from 'react';
+import type { Transcript, TranscribeProgress } from '@/lib/transcribe';
+
+export type TranscribeStatus =
+  | TranscribeProgress
+  | { phase: 'done'; transcript: Transcript; /** Why the transcript couldn't be kept for next time. */ cacheError?: string }
+  | { phase: 'error'; message: string };
+
+const PHASE_TEXT: Record<TranscribeProgress['phase'], (s: TranscribeProgress) => string> = {
+  hashing: () => 'Checking for an earlier transcript of this track…',
+  uploading: (s) => `Uploading… ${Math.round(s.phase === 'uploading' ? s.pct : 0)}%`,
+  queued: () => 'Waiting for the transcription service…',
+  processing: () => 'Transcribing… this can take a minute for a full song.',
+};
+
+export default function TranscribeModal({
+  status,
+  fileName,
+  onCancel,
+  onClose,
+  onRetry,
+  onSegment,
+  onAlignLyrics,
+}: {
+  status: TranscribeStatus | null;
+  fileName?: string;
+  onCancel: () => void;
+  onClose: () => void;
+  onRetry: () => void;
+  /** Turn the transcript into lyric clips, splitting at pauses of at least `pauseSec`. */
+  onSegment: (pauseSec: number) => void;
+  /** Open the lyrics panel to match pasted lyrics against the transcript. */
+  onAlignLyrics: () => void;
+}) {
+  const [pauseSec, setPauseSec] = useState(0.6);
+  if (!status) return null;
+  const busy = status.phase !== 'done' && status.phase !== 'error';
+  const words = status.phase === 'done' ? status.transcript.words : [];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+      onMouseDown={(e) => { if (e.target === e.currentTarget && !busy) onClose(); }}
+    >
+      <div className="w-full max-w-lg max-h-[80vh] bg-neutral-900 text-neutral-100 rounded-xl shadow-2xl border border-neutral-700 overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-neutral-800 font-medium">
+          Analyze audio{fileName ? ` — ${fileName}` : ''}
+        </div>
+
+        <div className="p-4 flex flex-col gap-3 overflow-auto text-sm">
+          {busy && (
+            <>
+              <div className="text-neutral-300">{PHASE_TEXT[status.phase](status)}</div>
+              <div className="h-2 rounded bg-neutral-800 overflow-hidden">
+                {status.phase === 'uploading'
+                  ? <div className="h-full bg-fuchsia-500 transition-[width]" style={{ width: `${status.pct}%` }} />
+                  : <div className="h-full w-1/3 bg-fuchsia-500 animate-pulse" />}
+              </div>
+            </>
+          )}
+
+          {status.phase === 'error' && <div className="text-rose-400">{status.message}</div>}
+
+          {status.phase === 'done' && status.cacheError && (
+            <div className="text-amber-400 text-xs">Not kept for next time: {status.cacheError}</div>
+          )}
+
+          {status.phase === 'done' && (
+            words.length === 0 ? (
+              <div className="text-neutral-400">No words were recognized in this track.</div>
+            ) : (
+              <>
+                <div className="text-neutral-300">
+                  {words.length} words recognized
+                  {status.transcript.language_code ? ` (${status.transcript.language_code})` : ''}.
+                </div>
+                <div className="max-h-40 overflow-auto p-2 rounded bg-neutral-950 border border-neutral-800 text-neutral-400 text-xs">
+                  {status.transcript.text || words.map(w => w.text).join(' ')}
+                </div>
+                <label className="text-neutral-300 flex items-center gap-2">
+                  New line after a pause of
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={pauseSec}
+                    onChange={(e) => setPauseSec(Math.max(0.1, Number(e.target.value) || 0.6))}
+                    className="w-16 px-2 py-1 rounded bg-neutral-950 border border-neutral-700"
+                  />
+                  s
+                </label>
+              </>
+            )
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-neutral-800 flex justify-end gap-2">
+          {busy ? (
+            <button
+              className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+              onClick={onCancel}
+              title="Stop waiting; a transcription already running keeps going, and analyzing this track again picks up its result"
+            >
+              Cancel
+            </button>
+          ) : (
+            <>
+              <button className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700" onClick={onClose}>Close</button>
+              {status.phase === 'error' && (
+                <button className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500" onClick={onRetry}>Retry</button>
+              )}
+              {words.length > 0 && (
+                <>
+                  <button
+                    className="px-3 py-1.5 rounded bg-purple-600 hover:bg-purple-500"
+                    onClick={onAlignLyrics}
+                    title="Paste the lyrics and match them to the recognized words"
+                  >
+                    Align my lyrics…
+                  </button>
+                  <button className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500" onClick={() => onSegment(pauseSec)}>
+                    Create clips
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
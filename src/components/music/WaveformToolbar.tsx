@@ -12,9 +12,14 @@ type Props = {
   onProjectNameChange: (s: string) => void;
 
   onExportProject: () => void;
+  /** Save a .dtmusicz bundle that includes the audio file. */
+  onExportBundle: () => void;
   openProjectInputRef: React.RefObject<HTMLInputElement>;
   onOpenProjectChosen: React.ChangeEventHandler<HTMLInputElement>;
   onOpenProjectClick: () => void;
+  onProjectsOpen: () => void;
+  /** Last autosave error, shown next to the project buttons. */
+  saveError: string | null;
 
   onAnalyzeClick: () => void;
   onLyricsOpen: () => void;
@@ -45,6 +50,14 @@ type Props = {
   dragMovesTimestamp: boolean;
   setDragMovesTimestamp: (b: boolean) => void;
 
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Label of the entry undo/redo would revert/reapply; null when there is none. */
+  undoLabel: string | null;
+  redoLabel: string | null;
+  historyOpen: boolean;
+  onHistoryToggle: () => void;
+
   playheadLabel: string;
 };
 
@@ -52,7 +65,8 @@ export default function WaveformToolbar(props: Props) {
   const {
     isPlaying, onPlay, onPause, onStep, onAddNote,
     projectName, onProjectNameChange,
-    onExportProject, openProjectInputRef, onOpenProjectChosen, onOpenProjectClick,
+    onExportProject, onExportBundle, openProjectInputRef, onOpenProjectChosen, onOpenProjectClick,
+    onProjectsOpen, saveError,
     onAnalyzeClick, onLyricsOpen,
     onAddMarkerAtPlayhead,
     onDeleteSelected, deleteDisabled,
@@ -62,6 +76,7 @@ export default function WaveformToolbar(props: Props) {
     waveAmp, setWaveAmp,
     zoom, setZoom,
     dragMovesTimestamp, setDragMovesTimestamp,
+    onUndo, onRedo, undoLabel, redoLabel, historyOpen, onHistoryToggle,
     playheadLabel,
   } = props;
 
@@ -92,20 +107,60 @@ export default function WaveformToolbar(props: Props) {
       >
         Save Project
       </button>
+      <button
+        className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+        onClick={onExportBundle}
+        title="Save to .dtmusicz with the audio file included"
+      >
+        Save Bundle
+      </button>
       <input
         ref={openProjectInputRef}
         type="file"
-        accept=".json,.dtmusic.json"
+        accept=".json,.dtmusic.json,.dtmusicz"
         className="hidden"
         onChange={onOpenProjectChosen}
       />
       <button
         className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
         onClick={onOpenProjectClick}
-        title="Open a saved .dtmusic.json project"
+        title="Open a saved .dtmusic.json project or .dtmusicz bundle"
       >
         Open Project
       </button>
+      <button
+        className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700"
+        onClick={onProjectsOpen}
+        title="Projects saved in this browser, and snapshots of this one"
+      >
+        Projects…
+      </button>
+      {saveError && (
+        <span className="text-xs text-red-400" title={saveError}>Autosave failed</span>
+      )}
+
+      <button
+        className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+        onClick={onUndo}
+        disabled={!undoLabel}
+        title={undoLabel ? `Undo ${undoLabel} (Ctrl/⌘+Z)` : 'Nothing to undo'}
+      >
+        Undo
+      </button>
+      <button
+        className="px-3 py-1.5 rounded bg-neutral-800 hover:bg-neutral-700 disabled:opacity-50"
+        onClick={onRedo}
+        disabled={!redoLabel}
+        title={redoLabel ? `Redo ${redoLabel} (Ctrl/⌘+Shift+Z)` : 'Nothing to redo'}
+      >
+        Redo
+      </button>
+      <button
+        className={`px-3 py-1.5 rounded border ${historyOpen ? 'bg-blue-600 border-blue-500' : 'bg-neutral-800 hover:bg-neutral-700 border-neutral-700'}`}
+        onClick={onHistoryToggle}
+      >
+        History
+      </button>
 
       <button
         className="px-3 py-1.5 rounded bg-rose-600 hover:bg-rose-500 disabled:opacity-50"
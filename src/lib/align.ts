@@ -1,10 +1,23 @@
-export type Word = { text: string; start: number; end: number };
-export type AlignedLine = { text: string; startSec: number; endSec?: number };
+import type { LyricWord } from '@/types/music';
+import { spreadWords } from './lyricWords';
+
+/** A transcribed word; confidence (0–1) is the recognizer's, when it reports one. */
+export type Word = { text: string; start: number; end: number; confidence?: number };
+/** confidence: 0–1, how sure we are of the line's text and timing. */
+export type AlignedLine = { text: string; startSec: number; endSec?: number; confidence: number; words?: LyricWord[] };
+
+// Words without a recognizer score count as certain
+const meanConfidence = (words: Word[]) =>
+  words.length ? words.reduce((sum, w) => sum + (w.confidence ?? 1), 0) / words.length : 0;
+
+const toLyricWords = (words: Word[]): LyricWord[] => words.map(w => ({ text: w.text, startSec: w.start, endSec: w.end }));
 
 /**
  * Segment words into line-level clips by pauses:
  * - A new clip starts when there is a gap >= pauseThreshold (seconds)
  * - A clip’s end is the last word’s end time
+ * - A clip’s confidence is the mean confidence of its words
+ * - A clip keeps its words' own timings
  */
 export function wordsToClipsByPause(
   words: Word[],
@@ -17,6 +30,7 @@ export function wordsToClipsByPause(
   let curStart = words[0].start;
   let curEnd = words[0].end;
   let curText: string[] = [words[0].text];
+  let curWords: Word[] = [words[0]];
 
   for (let i = 1; i < words.length; i++) {
     const w = words[i];
@@ -27,51 +41,187 @@ export function wordsToClipsByPause(
     const tooLong = wouldBe > maxCharsPerClip;
 
     if (gap >= pauseThreshold || tooLong) {
-      out.push({ text: curText.join(' '), startSec: curStart, endSec: curEnd });
+      out.push({ text: curText.join(' '), startSec: curStart, endSec: curEnd, confidence: meanConfidence(curWords), words: toLyricWords(curWords) });
       curStart = w.start;
       curText = [w.text];
+      curWords = [w];
     } else {
       curText.push(w.text);
+      curWords.push(w);
     }
     curEnd = w.end;
   }
-  out.push({ text: curText.join(' '), startSec: curStart, endSec: curEnd });
+  out.push({ text: curText.join(' '), startSec: curStart, endSec: curEnd, confidence: meanConfidence(curWords), words: toLyricWords(curWords) });
   return out;
 }
 
+const norm = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/\s+/g, ' ').trim();
+
+/** 1 for equal words, down to 0 for nothing in common (edit distance over the longer length). */
+export function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+}
+
+/** Pairs below this similarity are substitutions, not (misheard) matches. */
+export const MATCH_SIMILARITY = 0.5;
+const GAP = -1;
+// exact 2, half-alike 0.5, nothing alike -1 (same as a gap)
+const pairScore = (sim: number) => 3 * sim - 1;
+
 /**
- * If user provides full lyrics lines, align by first/last word match per line.
- * Simple fuzzy strategy: case-insensitive, strip punctuation; match by sequence.
- * Returns only lines that matched at least one word.
+ * Global alignment (Needleman–Wunsch) of lyric tokens `a` against heard words `b`.
+ * Heard words before the first and after the last lyric are free (intros, outros);
+ * returns the matched pairs in order.
+ */
+function alignSequences(a: string[], b: string[]): Array<{ a: number; b: number; sim: number }> {
+  const n = a.length, m = b.length, W = m + 1;
+  const score = new Float64Array((n + 1) * W);
+  const move = new Uint8Array((n + 1) * W); // 0 diagonal, 1 skip a lyric token, 2 skip a heard word
+  const sims = new Float32Array((n + 1) * W);
+  for (let i = 1; i <= n; i++) { score[i * W] = i * GAP; move[i * W] = 1; }
+  for (let j = 1; j <= m; j++) move[j] = 2; // row 0 stays 0: leading heard words are free
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const sim = wordSimilarity(a[i - 1], b[j - 1]);
+      sims[i * W + j] = sim;
+      const diag = score[(i - 1) * W + j - 1] + pairScore(sim);
+      const up = score[(i - 1) * W + j] + GAP;
+      const left = score[i * W + j - 1] + (i === n ? 0 : GAP); // trailing heard words are free
+      const best = Math.max(diag, up, left);
+      score[i * W + j] = best;
+      move[i * W + j] = best === diag ? 0 : best === up ? 1 : 2;
+    }
+  }
+
+  const pairs: Array<{ a: number; b: number; sim: number }> = [];
+  let i = n, j = m;
+  while (i > 0 && j > 0) {
+    const mv = move[i * W + j];
+    if (mv === 0) {
+      const sim = sims[i * W + j];
+      if (sim >= MATCH_SIMILARITY) pairs.push({ a: i - 1, b: j - 1, sim });
+      i--; j--;
+    } else if (mv === 1) i--;
+    else j--;
+  }
+  return pairs.reverse();
+}
+
+// Rough singing pace for lines with nothing to go by
+const SEC_PER_TOKEN = 0.4;
+
+/**
+ * Time the words of a lyric line as written (punctuation kept) from the heard words its
+ * tokens matched; words with no match are spread over the gap around them.
+ */
+function timeLineWords(text: string, heard: Array<number | undefined>, words: Word[], startSec: number, endSec: number): LyricWord[] {
+  let t = 0;
+  const timed = text.trim().split(/\s+/).filter(Boolean).map((shown): { text: string; span?: [number, number] } => {
+    const hits = heard.slice(t, t += norm(shown).split(' ').filter(Boolean).length).filter((h): h is number => h !== undefined);
+    return hits.length ? { text: shown, span: [words[hits[0]].start, words[hits[hits.length - 1]].end] } : { text: shown };
+  });
+  const out: LyricWord[] = [];
+  for (let i = 0; i < timed.length;) {
+    const span = timed[i].span;
+    if (span) { out.push({ text: timed[i].text, startSec: span[0], endSec: span[1] }); i++; continue; }
+    let k = i;
+    while (k < timed.length && !timed[k].span) k++;
+    const lo = out.length ? out[out.length - 1].endSec : startSec;
+    const hi = timed[k]?.span?.[0] ?? endSec;
+    out.push(...spreadWords(timed.slice(i, k).map(x => x.text), lo, Math.max(lo, hi)));
+    i = k;
+  }
+  return out;
+}
+
+/**
+ * Time a lyric sheet by the transcript. The whole sheet is aligned against the whole word
+ * stream at once, so repeated choruses land on their own repeats and misheard words still
+ * match the lyric they sound like. Every line (with any words in it) gets a start, end and
+ * confidence: the share of its words heard, weighted by similarity and recognizer score.
+ * Lines with no match are spread over the unmatched words (or the gap) between their
+ * neighbours, with confidence 0. Each line's words are timed the same way within it.
  */
 export function alignProvidedLyricsToWords(lines: string[], words: Word[]): AlignedLine[] {
-  const norm = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/\s+/g, ' ').trim();
-  const wnorm = words.map(w => ({ ...w, n: norm(w.text) }));
+  const sheet: Array<{ text: string; tokens: string[] }> = lines
+    .map(text => ({ text, tokens: norm(text).split(' ').filter(Boolean) }))
+    .filter(l => l.tokens.length);
+  if (!sheet.length) return [];
 
-  const out: AlignedLine[] = [];
-  for (const line of lines) {
-    const tokens = norm(line).split(' ').filter(Boolean);
-    if (!tokens.length) continue;
+  const lineOf = sheet.flatMap((l, li) => l.tokens.map(() => li));
+  const pairs = alignSequences(sheet.flatMap(l => l.tokens), words.map(w => norm(w.text)));
+  const heardAt: Array<number | undefined> = lineOf.map(() => undefined);
+  for (const p of pairs) heardAt[p.a] = p.b;
 
-    // find first & last token positions
-    let firstIdx = -1;
-    let lastIdx = -1;
+  type Anchor = { first: number; last: number; score: number };
+  const anchors: Array<Anchor | null> = sheet.map(() => null);
+  for (const p of pairs) {
+    const li = lineOf[p.a];
+    const a = anchors[li] ?? (anchors[li] = { first: p.b, last: p.b, score: 0 });
+    a.last = p.b;
+    a.score += p.sim * (words[p.b].confidence ?? 1);
+  }
 
-    // first token
-    for (let i = 0; i < wnorm.length; i++) {
-      if (wnorm[i].n === tokens[0]) { firstIdx = i; break; }
-    }
-    if (firstIdx === -1) continue;
+  const out: AlignedLine[] = sheet.map((l, li) => {
+    const a = anchors[li];
+    return a
+      ? { text: l.text, startSec: words[a.first].start, endSec: Math.max(words[a.first].start, words[a.last].end), confidence: a.score / l.tokens.length }
+      : { text: l.text, startSec: 0, endSec: 0, confidence: 0 };
+  });
 
-    // last token — search forward to keep order
-    for (let j = firstIdx; j < wnorm.length; j++) {
-      if (wnorm[j].n === tokens[tokens.length - 1]) lastIdx = j;
+  // fill runs of unmatched lines
+  for (let i = 0; i < sheet.length; i++) {
+    if (anchors[i]) continue;
+    let k = i;
+    while (k < sheet.length && !anchors[k]) k++;
+    const prev = i > 0 ? anchors[i - 1] : null;
+    const next = k < sheet.length ? anchors[k] : null;
+    const tokens = sheet.slice(i, k).reduce((n, l) => n + l.tokens.length, 0);
+    // heard words between the neighbours that nothing matched; before the first or after
+    // the last match only about as many as the lines have words (not a whole intro)
+    let fromWord = prev ? prev.last + 1 : 0;
+    let toWord = next ? next.first - 1 : words.length - 1;
+    if (!prev) fromWord = Math.max(fromWord, toWord - 2 * tokens + 1);
+    if (!next) toWord = Math.min(toWord, fromWord + 2 * tokens - 1);
+    let lo: number, hi: number;
+    if (toWord >= fromWord) {
+      lo = words[fromWord].start;
+      hi = words[toWord].end;
+    } else if (prev && next) {
+      lo = words[prev.last].end;
+      hi = words[next.first].start;
+    } else if (next) {
+      hi = words[next.first].start;
+      lo = Math.max(0, hi - tokens * SEC_PER_TOKEN);
+    } else {
+      lo = prev ? words[prev.last].end : 0;
+      hi = lo + tokens * SEC_PER_TOKEN;
     }
-    if (lastIdx === -1) continue;
-
-    const start = Math.max(0, wnorm[firstIdx].start);
-    const end = Math.max(start, wnorm[lastIdx].end);
-    out.push({ text: line, startSec: start, endSec: end });
+    let at = 0;
+    for (let li = i; li < k; li++) {
+      const share = sheet[li].tokens.length / tokens;
+      out[li].startSec = lo + (hi - lo) * at;
+      at += share;
+      out[li].endSec = lo + (hi - lo) * at;
+    }
+    i = k;
   }
+
+  let firstToken = 0;
+  sheet.forEach((l, li) => {
+    const heard = heardAt.slice(firstToken, firstToken += l.tokens.length);
+    out[li].words = timeLineWords(l.text, heard, words, out[li].startSec, out[li].endSec!);
+  });
   return out;
-}
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+// src/lib/breakdown.ts
+// Script breakdown: each scene's INT/EXT, location, sublocation and time of day (from its
+// slug), who speaks in it and which known characters are only mentioned in the action.
+
+import type { ScriptLine } from './scriptTypes';
+import { speakingCharacters } from './timing';
+
+export type IntExt = 'INT' | 'EXT' | 'INT/EXT' | 'EST';
+export type DayNight = 'DAY' | 'NIGHT';
+
+export type Slug = {
+  intExt: IntExt | null;
+  location: string;
+  sublocation?: string;
+  /** As written: "NIGHT", "LATER", "CONTINUOUS"… */
+  timeOfDay: string | null;
+};
+
+export type SceneBreakdown = Slug & {
+  /** DAY or NIGHT; CONTINUOUS/LATER/SAME carry over from the previous scene. */
+  dayNight: DayNight | null;
+  /** Character cues, in order of first line. */
+  speaking: string[];
+  /** Characters who speak somewhere in the script, named in this scene's action but silent here. */
+  mentioned: string[];
+};
+
+export type BreakdownFilter = { character?: string; location?: string; dayNight?: DayNight };
+
+/** Minimal scene shape: a heading and its script lines (SceneBlock, film scenes). */
+export type BreakdownSource = { heading: string; lines: ScriptLine[] };
+
+const PREFIXES: Array<[RegExp, IntExt]> = [
+  [/^(?:INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\s*\/\s*E)\.?\s*/i, 'INT/EXT'],
+  [/^INT\.?\s*/i, 'INT'],
+  [/^EXT\.?\s*/i, 'EXT'],
+  [/^EST\.?\s*/i, 'EST'],
+];
+
+const DAY_WORDS = ['DAY', 'MORNING', 'AFTERNOON', 'NOON', 'DAWN', 'SUNRISE', 'DAYTIME'];
+const NIGHT_WORDS = ['NIGHT', 'EVENING', 'DUSK', 'SUNSET', 'MIDNIGHT', 'NIGHTTIME', 'TWILIGHT'];
+// Times that say "same as before" rather than naming a time
+const CARRY_WORDS = /^(?:CONTINUOUS|LATER|MOMENTS? LATER|SAME(?: TIME)?|CONT'?D|SIMULTANEOUS)\b/;
+const TIME_WORD = new RegExp(`^(?:(?:EARLY|LATE)\\s+)?(?:${[...DAY_WORDS, ...NIGHT_WORDS].join('|')})\\b|${CARRY_WORDS.source}`);
+
+/** "INT. HOUSE - KITCHEN - NIGHT" → { intExt: 'INT', location: 'HOUSE', sublocation: 'KITCHEN', timeOfDay: 'NIGHT' } */
+export function parseSlug(heading: string): Slug {
+  let rest = heading.replace(/\s+/g, ' ').trim().toUpperCase();
+  let intExt: IntExt | null = null;
+  for (const [re, kind] of PREFIXES) {
+    if (re.test(rest)) { intExt = kind; rest = rest.replace(re, ''); break; }
+  }
+  const parts = rest.split(/\s+[-–—]\s+|\s*[-–—]{2,}\s*/).map(p => p.trim()).filter(Boolean);
+  let timeOfDay: string | null = null;
+  if (parts.length > 1 && TIME_WORD.test(parts[parts.length - 1].replace(/^\(|\)$/g, ''))) {
+    timeOfDay = parts.pop()!.replace(/^\(|\)$/g, '');
+  }
+  const [location = '', ...sub] = parts;
+  return { intExt, location, ...(sub.length ? { sublocation: sub.join(' - ') } : {}), timeOfDay };
+}
+
+/** DAY/NIGHT group of a time of day; null for CONTINUOUS, LATER or anything unknown. */
+export function dayNightOf(timeOfDay: string | null): DayNight | null {
+  if (!timeOfDay) return null;
+  const word = timeOfDay.replace(/^(?:EARLY|LATE)\s+/, '').split(/\W/)[0];
+  if (DAY_WORDS.includes(word)) return 'DAY';
+  if (NIGHT_WORDS.includes(word)) return 'NIGHT';
+  return null;
+}
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const titleCase = (s: string) => s.toLowerCase().replace(/(^|[\s'-])\p{L}/gu, m => m.toUpperCase());
+
+/** Break down scenes in script order (the order matters for CONTINUOUS/LATER). */
+export function breakdownScenes(scenes: BreakdownSource[]): SceneBreakdown[] {
+  const cast = new Set(scenes.flatMap(s => speakingCharacters(s.lines)));
+  // "SAM" in caps (character intro) or "Sam" as written in prose; never lower case
+  const patterns = [...cast].map(name => ({
+    name,
+    re: new RegExp(`(?<![\\p{L}\\p{N}])(?:${escapeRe(name)}|${escapeRe(titleCase(name))})(?![\\p{L}\\p{N}])`, 'u'),
+  }));
+
+  let lastDayNight: DayNight | null = null;
+  return scenes.map(s => {
+    const slug = parseSlug(s.heading);
+    const speaking = speakingCharacters(s.lines);
+    const action = s.lines
+      .filter(l => l.type === 'action' || l.type === 'general' || l.type === 'shot')
+      .map(l => l.text)
+      .join('\n');
+    const mentioned = patterns
+      .filter(p => !speaking.includes(p.name) && p.re.test(action))
+      .map(p => p.name);
+
+    const named = dayNightOf(slug.timeOfDay);
+    const dayNight = named ?? (slug.timeOfDay && CARRY_WORDS.test(slug.timeOfDay) ? lastDayNight : null);
+    if (dayNight) lastDayNight = dayNight;
+    return { ...slug, dayNight, speaking, mentioned };
+  });
+}
+
+/** Values to filter by, most frequent first: characters (speaking or mentioned), locations, DAY/NIGHT. */
+export function breakdownFacets(list: SceneBreakdown[]) {
+  const count = (values: string[]) => {
+    const n = new Map<string, number>();
+    values.forEach(v => n.set(v, (n.get(v) ?? 0) + 1));
+    return [...n.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([value, scenes]) => ({ value, scenes }));
+  };
+  return {
+    characters: count(list.flatMap(b => [...b.speaking, ...b.mentioned])),
+    locations: count(list.map(b => b.location).filter(Boolean)),
+    dayNight: count(list.map(b => b.dayNight).filter((v): v is DayNight => !!v)),
+  };
+}
+
+/** Whether a scene passes every set field of the filter. */
+export function matchesBreakdown(b: SceneBreakdown, f: BreakdownFilter): boolean {
+  if (f.character && !b.speaking.includes(f.character) && !b.mentioned.includes(f.character)) return false;
+  if (f.location && b.location !== f.location) return false;
+  if (f.dayNight && b.dayNight !== f.dayNight) return false;
+  return true;
+}
+
+export const isFilterEmpty = (f: BreakdownFilter) => !f.character && !f.location && !f.dayNight;
@@ -0,0 +1,163 @@
+// src/lib/bundle.ts
+// Self-contained project bundles (.dtmusicz / .dtfilmz): a zip holding manifest.json,
+// project.json and the binary media (audio, scene images). Media is referenced from the
+// project as "asset:<id>" and verified against the SHA-256 stored in the manifest.
+
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+
+export type BundleKind = 'dtmusic' | 'dtfilm';
+
+export const BUNDLE_EXT: Record<BundleKind, string> = { dtmusic: '.dtmusicz', dtfilm: '.dtfilmz' };
+export const BUNDLE_VERSION = 1;
+
+export type BundleAsset = {
+  id: string;
+  path: string;          // inside the zip
+  name: string;          // original file name, shown when relinking
+  mime: string;
+  size: number;
+  sha256: string;        // hex
+};
+
+export type BundleManifest = {
+  format: 'dtbundle';
+  version: number;
+  kind: BundleKind;
+  projectName: string;
+  createdAt: string;
+  assets: BundleAsset[];
+};
+
+export type PackedAsset = { asset: BundleAsset; bytes: Uint8Array };
+
+/** An asset listed in the manifest that can't be used as stored. */
+export type UnresolvedAsset = { asset: BundleAsset; reason: 'missing' | 'hash' };
+
+export type OpenedBundle = {
+  manifest: BundleManifest;
+  project: unknown;
+  /** Verified asset bytes by id. */
+  assets: Map<string, Uint8Array>;
+  unresolved: UnresolvedAsset[];
+};
+
+const ASSET_REF = 'asset:';
+
+export const assetRef = (id: string) => `${ASSET_REF}${id}`;
+export const assetIdOf = (ref: string | null | undefined) =>
+  ref && ref.startsWith(ASSET_REF) ? ref.slice(ASSET_REF.length) : null;
+
+/** Zip files start with "PK". */
+export const isBundleBytes = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0x50 && bytes[1] === 0x4b;
+
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const EXT_BY_MIME: Record<string, string> = {
+  'image/png': '.png', 'image/jpeg': '.jpg', 'image/gif': '.gif', 'image/webp': '.webp', 'image/svg+xml': '.svg',
+  'audio/mpeg': '.mp3', 'audio/wav': '.wav', 'audio/x-wav': '.wav', 'audio/ogg': '.ogg', 'audio/flac': '.flac',
+  'audio/mp4': '.m4a', 'audio/x-m4a': '.m4a', 'audio/aac': '.aac', 'audio/aiff': '.aiff',
+};
+
+function extFor(mime: string, name: string) {
+  const fromName = /\.[a-z0-9]{1,5}$/i.exec(name)?.[0];
+  return (fromName ?? EXT_BY_MIME[mime] ?? '.bin').toLowerCase();
+}
+
+/** Hash media for a bundle. The id is derived from the content, so identical files are stored once. */
+export async function packAsset(bytes: Uint8Array, name: string, mime: string, folder: string): Promise<PackedAsset> {
+  const sha256 = await sha256Hex(bytes);
+  const id = sha256.slice(0, 16);
+  return {
+    asset: { id, path: `${folder}/${id}${extFor(mime, name)}`, name, mime: mime || 'application/octet-stream', size: bytes.length, sha256 },
+    bytes,
+  };
+}
+
+/** Zip a project (with media already replaced by asset refs) and its media. */
+export function buildBundle(kind: BundleKind, projectName: string, project: unknown, packed: PackedAsset[]): Uint8Array {
+  const unique = new Map(packed.map(p => [p.asset.id, p]));
+  const manifest: BundleManifest = {
+    format: 'dtbundle',
+    version: BUNDLE_VERSION,
+    kind,
+    projectName,
+    createdAt: new Date().toISOString(),
+    assets: [...unique.values()].map(p => p.asset),
+  };
+  const files: Zippable = {
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+    'project.json': strToU8(JSON.stringify(project, null, 2)),
+  };
+  // media is already compressed; storing it keeps saving fast
+  for (const p of unique.values()) files[p.asset.path] = [p.bytes, { level: 0 }];
+  return zipSync(files, { level: 6 });
+}
+
+function readJson(files: Record<string, Uint8Array>, path: string): unknown {
+  const raw = files[path];
+  if (!raw) throw new Error(`The bundle has no ${path}`);
+  try {
+    return JSON.parse(strFromU8(raw));
+  } catch {
+    throw new Error(`${path} in the bundle is not valid JSON`);
+  }
+}
+
+/** Unzip a bundle and verify every asset against its manifest hash. */
+export async function openBundle(bytes: Uint8Array, kind: BundleKind): Promise<OpenedBundle> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error('The file is not a project bundle (it could not be unzipped)');
+  }
+  const manifest = readJson(files, 'manifest.json') as BundleManifest;
+  if (manifest?.format !== 'dtbundle' || !Array.isArray(manifest.assets)) {
+    throw new Error('manifest.json is not a project bundle manifest');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${manifest.version} is newer than this app supports (${BUNDLE_VERSION})`);
+  }
+  if (manifest.kind !== kind) {
+    throw new Error(`This is a ${manifest.kind === 'dtfilm' ? 'film' : 'music'} bundle (${BUNDLE_EXT[manifest.kind] ?? manifest.kind})`);
+  }
+  const project = readJson(files, 'project.json');
+
+  const assets = new Map<string, Uint8Array>();
+  const unresolved: UnresolvedAsset[] = [];
+  for (const asset of manifest.assets) {
+    const data = files[asset.path];
+    if (!data) unresolved.push({ asset, reason: 'missing' });
+    else if (await sha256Hex(data) !== asset.sha256) unresolved.push({ asset, reason: 'hash' });
+    else assets.set(asset.id, data);
+  }
+  return { manifest, project, assets, unresolved };
+}
+
+/** Whether a replacement file chosen while relinking is byte-identical to the original. */
+export async function matchesAsset(asset: BundleAsset, bytes: Uint8Array) {
+  return (await sha256Hex(bytes)) === asset.sha256;
+}
+
+export function dataUrlToBytes(url: string): { bytes: Uint8Array; mime: string } | null {
+  const m = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(url);
+  if (!m) return null;
+  const mime = m[1] || 'application/octet-stream';
+  if (!m[2]) return { bytes: strToU8(decodeURIComponent(m[3])), mime };
+  const bin = atob(m[3]);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return { bytes, mime };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, mime: string): string {
+  let bin = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return `data:${mime};base64,${btoa(bin)}`;
+}
@@ -0,0 +1,96 @@
+// src/lib/castPresence.ts
+// Who's in what scene, on the timeline: each character's appearances (speaking or only
+// mentioned), total screen time, number of speeches, first/last appearance and the longest
+// stretch they're off screen. Feeds the film canvas' cast lanes and the CSV export.
+
+import type { ScriptLine } from './scriptTypes';
+import { breakdownScenes } from './breakdown';
+import { cueName } from './timing';
+import { formatTime } from './time';
+
+export type PresenceScene = {
+  id: string;
+  heading: string;
+  positionSec: number;
+  lengthSec: number;
+  lines: ScriptLine[];
+};
+
+export type Appearance = { sceneId: string; startSec: number; endSec: number; speaking: boolean };
+
+export type CastStats = {
+  name: string;
+  appearances: Appearance[];
+  /** Time covered by the character's scenes (overlapping scenes count once). */
+  screenTimeSec: number;
+  /** Speeches: character cues in their scenes. */
+  lines: number;
+  firstSec: number;
+  lastSec: number;
+  /** Longest stretch between two appearances. */
+  longestGapSec: number;
+};
+
+/** Per-character presence, most screen time first. */
+export function castPresence(scenes: PresenceScene[]): CastStats[] {
+  const sorted = [...scenes].sort((a, b) => a.positionSec - b.positionSec);
+  const breakdowns = breakdownScenes(sorted);
+  const byName = new Map<string, { appearances: Appearance[]; lines: number }>();
+  const entry = (name: string) => {
+    if (!byName.has(name)) byName.set(name, { appearances: [], lines: 0 });
+    return byName.get(name)!;
+  };
+
+  sorted.forEach((s, i) => {
+    const { speaking, mentioned } = breakdowns[i];
+    const span = { sceneId: s.id, startSec: s.positionSec, endSec: s.positionSec + s.lengthSec };
+    for (const name of speaking) entry(name).appearances.push({ ...span, speaking: true });
+    for (const name of mentioned) entry(name).appearances.push({ ...span, speaking: false });
+    for (const L of s.lines) {
+      if (L.type === 'character' && speaking.includes(cueName(L.text))) entry(cueName(L.text)).lines += 1;
+    }
+  });
+
+  const stats: CastStats[] = [];
+  for (const [name, { appearances, lines }] of byName) {
+    let screenTimeSec = 0;
+    let longestGapSec = 0;
+    let coveredTo = -Infinity;
+    for (const a of appearances) {
+      if (coveredTo > -Infinity) longestGapSec = Math.max(longestGapSec, a.startSec - coveredTo);
+      screenTimeSec += Math.max(0, a.endSec - Math.max(a.startSec, coveredTo));
+      coveredTo = Math.max(coveredTo, a.endSec);
+    }
+    stats.push({
+      name,
+      appearances,
+      screenTimeSec,
+      lines,
+      firstSec: appearances[0].startSec,
+      lastSec: Math.max(...appearances.map(a => a.endSec)),
+      longestGapSec,
+    });
+  }
+  return stats.sort((a, b) => b.screenTimeSec - a.screenTimeSec || a.name.localeCompare(b.name));
+}
+
+const csvField = (v: string | number) => {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** One row per character; times as m:ss (h:mm:ss past an hour). */
+export function castPresenceCsv(stats: CastStats[]): string {
+  const header = ['Character', 'Scenes', 'Speaking scenes', 'Lines', 'Screen time', 'First appearance', 'Last appearance', 'Longest absence'];
+  const rows = stats.map(c => [
+    c.name,
+    new Set(c.appearances.map(a => a.sceneId)).size,
+    c.appearances.filter(a => a.speaking).length,
+    c.lines,
+    formatTime(c.screenTimeSec),
+    formatTime(c.firstSec),
+    formatTime(c.lastSec),
+    formatTime(c.longestGapSec),
+  ]);
+  return [header, ...rows].map(r => r.map(csvField).join(',')).join('\n') + '\n';
+}
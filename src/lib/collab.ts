@@ -0,0 +1,139 @@
+// src/lib/collab.ts
+// Live collaboration session: keeps a CRDT replica of the shared collections (film scenes
+// and notes), turns local edits into deltas, merges remote ones and tracks peers' presence.
+
+import { applyRemote, createReplica, localEdit, materialize, mergeState, type CrdtState } from '@/lib/crdt';
+import { deepEqual } from '@/lib/history';
+import type { Presence, SyncTransport } from '@/lib/syncTransport';
+
+type Item = { id: string } & Record<string, unknown>;
+export type CollabDoc = Record<string, Item[]>;
+
+export const HEARTBEAT_MS = 5000;
+/** Peers not heard from for this long are dropped. */
+export const PRESENCE_TTL_MS = 15000;
+const PRESENCE_THROTTLE_MS = 50;
+
+export type CollabSession<D extends CollabDoc> = {
+  site: string;
+  /** Report the current local document; changes since the last call are sent to peers. */
+  commit(doc: D): void;
+  setPresence(p: Partial<Omit<Presence, 'site'>>): void;
+  close(): void;
+};
+
+const PEER_COLORS = ['#f472b6', '#38bdf8', '#facc15', '#4ade80', '#fb923c', '#c084fc'];
+
+/** Stable color for a site id. */
+export function peerColor(site: string): string {
+  let h = 0;
+  for (let i = 0; i < site.length; i++) h = (h * 31 + site.charCodeAt(i)) | 0;
+  return PEER_COLORS[Math.abs(h) % PEER_COLORS.length];
+}
+
+/** Same items regardless of order. */
+function sameItems(a: Item[], b: Item[]) {
+  if (a.length !== b.length) return false;
+  const byId = new Map(b.map(x => [x.id, x]));
+  return a.every(x => deepEqual(x, byId.get(x.id)));
+}
+
+export function startCollab<D extends CollabDoc>(opts: {
+  transport: SyncTransport;
+  site: string;
+  name: string;
+  initial: D;
+  /** Called with the merged document when remote edits change it. */
+  onRemoteChange: (doc: D) => void;
+  onPeers: (peers: Presence[]) => void;
+  heartbeatMs?: number;
+}): CollabSession<D> {
+  const { transport, site } = opts;
+  const cols = Object.keys(opts.initial);
+  let replica = createReplica(site);
+  for (const col of cols) replica = localEdit(replica, col, [], opts.initial[col]).replica;
+  let view: D = opts.initial;
+
+  let me: Presence = { site, name: opts.name, color: peerColor(site), cursor: null, selection: [] };
+  const peers = new Map<string, { presence: Presence; seen: number }>();
+  const emitPeers = () => opts.onPeers([...peers.values()].map(p => p.presence));
+
+  let lastPresenceAt = 0;
+  let presenceTimer: ReturnType<typeof setTimeout> | null = null;
+  const sendPresence = () => {
+    presenceTimer = null;
+    lastPresenceAt = Date.now();
+    transport.send({ type: 'presence', site, presence: me });
+  };
+
+  const receive = (delta: CrdtState) => {
+    replica = applyRemote(replica, delta);
+    const next = {} as D;
+    let changed = false;
+    for (const col of cols) {
+      (next as CollabDoc)[col] = materialize(replica.state, col);
+      if (!sameItems(next[col], view[col])) changed = true;
+    }
+    if (!changed) return;
+    view = next;
+    opts.onRemoteChange(next);
+  };
+
+  const unsubscribe = transport.subscribe(msg => {
+    if (msg.site === site) return;
+    switch (msg.type) {
+      case 'hello':
+        transport.send({ type: 'state', site, state: replica.state });
+        sendPresence();
+        break;
+      case 'state': receive(msg.state); break;
+      case 'delta': receive(msg.delta); break;
+      case 'presence':
+        peers.set(msg.site, { presence: msg.presence, seen: Date.now() });
+        emitPeers();
+        break;
+      case 'bye':
+        if (peers.delete(msg.site)) emitPeers();
+        break;
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const cutoff = Date.now() - PRESENCE_TTL_MS;
+    let dropped = false;
+    for (const [id, p] of peers) if (p.seen < cutoff) { peers.delete(id); dropped = true; }
+    if (dropped) emitPeers();
+  }, opts.heartbeatMs ?? HEARTBEAT_MS);
+
+  transport.send({ type: 'hello', site });
+  sendPresence();
+
+  return {
+    site,
+    commit(doc) {
+      let delta: CrdtState | null = null;
+      for (const col of cols) {
+        const res = localEdit(replica, col, view[col], doc[col]);
+        replica = res.replica;
+        if (res.delta) delta = delta ? mergeState(delta, res.delta) : res.delta;
+      }
+      view = doc;
+      if (delta) transport.send({ type: 'delta', site, delta });
+    },
+    setPresence(p) {
+      me = { ...me, ...p };
+      if (presenceTimer) return;
+      const wait = PRESENCE_THROTTLE_MS - (Date.now() - lastPresenceAt);
+      if (wait <= 0) sendPresence();
+      else presenceTimer = setTimeout(sendPresence, wait);
+    },
+    close() {
+      clearInterval(heartbeat);
+      if (presenceTimer) clearTimeout(presenceTimer);
+      transport.send({ type: 'bye', site });
+      unsubscribe();
+      transport.close();
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// src/lib/collabRelay.ts
+// In-memory rooms for the collaboration relay route (app/api/collab/[room]). Each message
+// is forwarded to every listener of the room, the sender included; sessions skip their own.
+
+type Listener = (data: string) => void;
+
+/** Scene images travel inline as data URLs, so messages can be large. */
+export const MAX_MESSAGE_BYTES = 16 * 1024 * 1024;
+
+// Kept on globalThis so dev-mode module reloads don't split a room in two
+const g = globalThis as typeof globalThis & { __dtCollabRooms?: Map<string, Set<Listener>> };
+const rooms = (g.__dtCollabRooms ??= new Map());
+
+export function joinRoom(room: string, listener: Listener): () => void {
+  let set = rooms.get(room);
+  if (!set) rooms.set(room, (set = new Set()));
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (!set!.size) rooms.delete(room);
+  };
+}
+
+/** Forward a message to the room; returns how many listeners got it. */
+export function publish(room: string, data: string): number {
+  const set = rooms.get(room);
+  if (!set) return 0;
+  for (const listener of set) {
+    try { listener(data); } catch (err) { console.error('[Collab Relay] Listener failed:', err); }
+  }
+  return set.size;
+}
+
+export const roomSize = (room: string) => rooms.get(room)?.size ?? 0;
@@ -0,0 +1,51 @@
+// src/lib/collabSocket.ts
+// WebSocket side of the collaboration relay (lib/syncTransport createWebSocketTransport).
+// Next route handlers can't accept WebSocket upgrades, so src/server.ts runs the app on
+// its own HTTP server and hands upgrades of /api/collab/<room> here. The rooms are the
+// ones of lib/collabRelay, so WebSocket and server-sent-event clients share a room.
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { MAX_MESSAGE_BYTES, joinRoom, publish } from './collabRelay';
+
+type UpgradeHandler = (req: IncomingMessage, socket: Duplex, head: Buffer) => void;
+
+/** The room of a relay URL, or null for any other path. */
+export function collabRoomOf(url: string | undefined): string | null {
+  const m = /^\/api\/collab\/([^/?#]+)\/?(?:[?#]|$)/.exec(url ?? '');
+  if (!m) return null;
+  try { return decodeURIComponent(m[1]); } catch { return null; }
+}
+
+function relay(ws: WebSocket, room: string) {
+  const leave = joinRoom(room, data => { if (ws.readyState === ws.OPEN) ws.send(data); });
+  ws.on('message', (raw, isBinary) => {
+    let msg: { type?: unknown; site?: unknown } | null = null;
+    try { msg = isBinary ? null : JSON.parse(raw.toString()); } catch {}
+    if (!msg || typeof msg.type !== 'string' || typeof msg.site !== 'string') {
+      ws.close(1003, 'Expected a JSON sync message with type and site');
+      return;
+    }
+    // re-serialized so server-sent-event clients in the room get it on a single line
+    publish(room, JSON.stringify(msg));
+  });
+  ws.on('close', leave);
+  ws.on('error', err => console.error('[Collab Socket] Connection failed:', err));
+}
+
+/**
+ * Accept WebSocket upgrades of /api/collab/<room> on `server`; other upgrades (Next's
+ * hot reload in dev) go to `fallback`, or are refused without one.
+ */
+export function attachCollabSocket(server: Server, fallback?: UpgradeHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  wss.on('connection', (ws: WebSocket, room: string) => relay(ws, room));
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const room = collabRoomOf(req.url);
+    if (room) wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, room));
+    else if (fallback) fallback(req, socket, head);
+    else socket.destroy();
+  });
+  return wss;
+}
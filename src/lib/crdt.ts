@@ -0,0 +1,118 @@
+// src/lib/crdt.ts
+// A small state-based CRDT for id'd collections (film scenes and notes). Every field of
+// every item is a last-writer-wins register stamped with a Lamport clock and the writing
+// site; deletions are a "_del" register, so merging is commutative, associative and idempotent.
+
+import { deepEqual } from '@/lib/history';
+
+export type Stamp = { c: number; site: string };
+export type Register = { v?: unknown; s: Stamp };
+export type CrdtItem = Record<string, Register>;
+/** collection name → item id → field registers */
+export type CrdtState = Record<string, Record<string, CrdtItem>>;
+
+export type Replica = { site: string; clock: number; state: CrdtState };
+
+type Item = { id: string } & Record<string, unknown>;
+
+const DELETED = '_del';
+const CREATED = '_created';
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  return a.c !== b.c ? a.c - b.c : a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+}
+
+export const createReplica = (site: string): Replica => ({ site, clock: 0, state: {} });
+
+function mergeItem(a: CrdtItem | undefined, b: CrdtItem): CrdtItem {
+  if (!a) return b;
+  const out: CrdtItem = { ...a };
+  for (const [k, r] of Object.entries(b)) {
+    if (!out[k] || compareStamps(r.s, out[k].s) > 0) out[k] = r;
+  }
+  return out;
+}
+
+/** Join of two states: per register, the higher stamp wins. */
+export function mergeState(a: CrdtState, b: CrdtState): CrdtState {
+  const out: CrdtState = { ...a };
+  for (const [col, items] of Object.entries(b)) {
+    const merged = { ...out[col] };
+    for (const [id, item] of Object.entries(items)) merged[id] = mergeItem(merged[id], item);
+    out[col] = merged;
+  }
+  return out;
+}
+
+function maxCounter(state: CrdtState): number {
+  let max = 0;
+  for (const items of Object.values(state)) {
+    for (const item of Object.values(items)) {
+      for (const r of Object.values(item)) max = Math.max(max, r.s.c);
+    }
+  }
+  return max;
+}
+
+/** Merge a remote state or delta into the replica (and advance its clock past everything seen). */
+export function applyRemote(r: Replica, delta: CrdtState): Replica {
+  return { site: r.site, clock: Math.max(r.clock, maxCounter(delta)), state: mergeState(r.state, delta) };
+}
+
+/**
+ * Record local edits of a collection from `before` to `after` (arrays of { id } items).
+ * Returns the new replica and the delta to send to peers (null when nothing changed).
+ */
+export function localEdit(
+  r: Replica,
+  collection: string,
+  before: Item[],
+  after: Item[],
+): { replica: Replica; delta: CrdtState | null } {
+  let clock = r.clock;
+  const stamp = (): Stamp => ({ c: ++clock, site: r.site });
+  const changed: Record<string, CrdtItem> = {};
+  const prevById = new Map(before.map(x => [x.id, x]));
+  const afterIds = new Set(after.map(x => x.id));
+
+  for (const item of after) {
+    const prev = prevById.get(item.id);
+    const regs: CrdtItem = {};
+    if (!prev) {
+      const s = stamp();
+      regs[DELETED] = { v: false, s };
+      // keep the original creation stamp when an item comes back
+      regs[CREATED] = r.state[collection]?.[item.id]?.[CREATED] ?? { v: s, s };
+    }
+    for (const k of new Set([...Object.keys(item), ...Object.keys(prev ?? {})])) {
+      if (k === 'id') continue;
+      if (!prev || !deepEqual(prev[k], item[k])) regs[k] = { v: item[k], s: stamp() };
+    }
+    if (Object.keys(regs).length) changed[item.id] = regs;
+  }
+  for (const prev of before) {
+    if (!afterIds.has(prev.id)) changed[prev.id] = { [DELETED]: { v: true, s: stamp() } };
+  }
+
+  if (!Object.keys(changed).length) return { replica: r, delta: null };
+  const delta: CrdtState = { [collection]: changed };
+  return { replica: { site: r.site, clock, state: mergeState(r.state, delta) }, delta };
+}
+
+/** Live items of a collection, in creation order (ties broken by site). */
+export function materialize<T extends Item>(state: CrdtState, collection: string): T[] {
+  const items = Object.entries(state[collection] ?? {})
+    .filter(([, regs]) => regs[DELETED]?.v !== true);
+  items.sort(([ia, a], [ib, b]) => {
+    const sa = (a[CREATED]?.v as Stamp | undefined) ?? { c: 0, site: ia };
+    const sb = (b[CREATED]?.v as Stamp | undefined) ?? { c: 0, site: ib };
+    return compareStamps(sa, sb) || (ia < ib ? -1 : 1);
+  });
+  return items.map(([id, regs]) => {
+    const out: Item = { id };
+    for (const [k, r] of Object.entries(regs)) {
+      if (k !== DELETED && k !== CREATED && r.v !== undefined) out[k] = r.v;
+    }
+    return out as T;
+  });
+}
@@ -0,0 +1,174 @@
+// src/lib/format/fdx.ts
+// Final Draft (.fdx) exporter for ScriptLine[] and film timeline scenes.
+// Written with fast-xml-parser's XMLBuilder so it mirrors lib/importers/fdx.ts.
+
+import { XMLBuilder } from 'fast-xml-parser';
+import type { LineType, ScriptLine, TitlePage } from '../scriptTypes';
+import { titlePageOf } from '../scriptClassifier';
+
+export type FdxExportOptions = {
+  /** Title page fields; defaults to the `title` lines found in the script lines. */
+  titlePage?: TitlePage;
+};
+
+/** Minimal scene shape needed to print a film timeline as FDX. */
+export type FdxScene = {
+  heading: string;
+  description: string;
+  originalSceneNumber?: number | string;
+  newSceneNumber?: number | string;
+  /** Placeholder for a scene cut after numbers were locked; printed as "OMITTED". */
+  omitted?: boolean;
+  color?: string;
+  scriptLines?: ScriptLine[];
+};
+
+type FdxParagraph = Record<string, unknown>;
+
+const FDX_TYPE: Partial<Record<LineType, string>> = {
+  scene: 'Scene Heading',
+  action: 'Action',
+  character: 'Character',
+  parenthetical: 'Parenthetical',
+  dialogue: 'Dialogue',
+  transition: 'Transition',
+  lyric: 'Lyrics',
+  centered: 'Action',
+  shot: 'Shot',
+  general: 'General',
+};
+
+/** "#a78bfa" → "#A7A78B8BFAFA" (Final Draft stores 16 bits per channel). */
+export function toFdxColor(hex?: string): string | undefined {
+  const m = /^#?([0-9a-f]{6})$/i.exec((hex || '').trim());
+  if (!m) return undefined;
+  const h = m[1].toUpperCase();
+  return `#${h.slice(0, 2).repeat(2)}${h.slice(2, 4).repeat(2)}${h.slice(4, 6).repeat(2)}`;
+}
+
+function paragraph(type: string, text: string, attrs: Record<string, string> = {}): FdxParagraph {
+  const p: FdxParagraph = { '@_Type': type };
+  for (const [k, v] of Object.entries(attrs)) p[`@_${k}`] = v;
+  p.Text = text;
+  return p;
+}
+
+function lineParagraph(L: ScriptLine): FdxParagraph | null {
+  const type = FDX_TYPE[L.type];
+  if (!type) return null; // sections, synopses, notes, boneyard and title lines are not printed
+  const attrs: Record<string, string> = {};
+  if (L.type === 'centered') attrs.Alignment = 'Center';
+  if (L.type === 'scene' && L.sceneNumber) attrs.Number = L.sceneNumber;
+  return paragraph(type, (L.text || '').trim(), attrs);
+}
+
+/** Index just past the character block that starts at `i` (cue + parentheticals + dialogue). */
+function blockEnd(lines: ScriptLine[], i: number): number {
+  let j = i + 1;
+  while (j < lines.length && (lines[j].type === 'parenthetical' || lines[j].type === 'dialogue' || lines[j].type === 'note')) j++;
+  return j;
+}
+
+/** Turn ScriptLine[] into FDX paragraphs (dual dialogue is wrapped in <DualDialogue>). */
+function linesToParagraphs(lines: ScriptLine[]): FdxParagraph[] {
+  const out: FdxParagraph[] = [];
+  let newPage = false;
+
+  const push = (p: FdxParagraph) => {
+    if (newPage) { p['@_StartsNewPage'] = 'Yes'; newPage = false; }
+    out.push(p);
+  };
+  const collect = (from: number, to: number) =>
+    lines.slice(from, to).map(lineParagraph).filter((p): p is FdxParagraph => !!p);
+
+  let i = 0;
+  while (i < lines.length) {
+    const L = lines[i];
+    if (L.type === 'pagebreak') { newPage = true; i++; continue; }
+    if (L.type === 'action' && !L.text.trim()) { i++; continue; }
+
+    if (L.type === 'character' && L.dual === 'left') {
+      const leftEnd = blockEnd(lines, i);
+      let r = leftEnd;
+      while (r < lines.length && lines[r].type === 'action' && !lines[r].text.trim()) r++;
+      if (lines[r]?.type === 'character' && lines[r].dual === 'right') {
+        const rightEnd = blockEnd(lines, r);
+        push({ DualDialogue: { Paragraph: [...collect(i, leftEnd), ...collect(r, rightEnd)] } });
+        i = rightEnd;
+        continue;
+      }
+    }
+
+    const p = lineParagraph(L);
+    if (p) push(p);
+    i++;
+  }
+  return out;
+}
+
+function titlePageParagraphs(tp: TitlePage): FdxParagraph[] {
+  const out: FdxParagraph[] = [];
+  for (const { key, value } of tp) {
+    const left = /^(contact|draft date|date|notes|copyright)$/i.test(key);
+    for (const row of value.split('\n')) {
+      out.push(paragraph('General', row, { Alignment: left ? 'Left' : 'Center' }));
+    }
+    out.push(paragraph('General', '', { Alignment: left ? 'Left' : 'Center' }));
+  }
+  return out;
+}
+
+function buildDocument(paragraphs: FdxParagraph[], titlePage: TitlePage): string {
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    format: true,
+    indentBy: '  ',
+    suppressEmptyNode: true,
+  });
+
+  const root: Record<string, unknown> = {
+    '@_DocumentType': 'Script',
+    '@_Template': 'No',
+    '@_Version': '5',
+    Content: { Paragraph: paragraphs },
+  };
+  if (titlePage.length) root.TitlePage = { Content: { Paragraph: titlePageParagraphs(titlePage) } };
+
+  const xml = builder.build({ FinalDraft: root }) as string;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>\n${xml}`;
+}
+
+/** Convert ScriptLine[] (writer / script editors) to a Final Draft document. */
+export function linesToFdx(lines: ScriptLine[], opts: FdxExportOptions = {}): string {
+  return buildDocument(linesToParagraphs(lines), opts.titlePage ?? titlePageOf(lines));
+}
+
+/**
+ * Convert film timeline scenes (already in the desired order) to a Final Draft document.
+ * The heading's Number is the production number (newSceneNumber); the script's own number
+ * is kept in OriginalNumber, and the scene color goes into <SceneProperties>.
+ */
+export function scenesToFdx(scenes: FdxScene[], opts: FdxExportOptions = {}): string {
+  const paragraphs: FdxParagraph[] = [];
+  for (const s of scenes) {
+    const attrs: Record<string, string> = {};
+    if (s.newSceneNumber != null && String(s.newSceneNumber) !== '') attrs.Number = String(s.newSceneNumber);
+    if (s.originalSceneNumber != null && String(s.originalSceneNumber) !== '') attrs.OriginalNumber = String(s.originalSceneNumber);
+    if (s.omitted) {
+      paragraphs.push(paragraph('Scene Heading', 'OMITTED', attrs));
+      continue;
+    }
+    const heading = paragraph('Scene Heading', (s.heading || '').trim(), attrs);
+    const color = toFdxColor(s.color);
+    if (color) heading.SceneProperties = { '@_Color': color };
+    paragraphs.push(heading);
+
+    const body = s.scriptLines?.length
+      ? s.scriptLines.filter(l => l.type !== 'scene' && l.type !== 'title')
+      : (s.description || '').split('\n').map<ScriptLine>(text => ({ type: 'action', text }));
+    paragraphs.push(...linesToParagraphs(body));
+  }
+  return buildDocument(paragraphs, opts.titlePage ?? []);
+}
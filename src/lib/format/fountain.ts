@@ -1,104 +1,226 @@
 // src/lib/format/fountain.ts
-// Minimal Fountain exporter for our ScriptLine[] structure.
+// Fountain 1.1 exporter for our ScriptLine[] structure.
+// Output is read back by lib/scriptClassifier without losing element types.
 
-export type LineType =
-  | 'scene'
-  | 'action'
-  | 'character'
-  | 'parenthetical'
-  | 'dialogue'
-  | 'transition'
-  | 'lyric';
+import type { LineType, ScriptLine, TitlePage } from '../scriptTypes';
+import { isSceneHeading, titlePageOf } from '../scriptClassifier';
 
-export type ScriptLine = { type: LineType; text: string };
+export type { LineType, ScriptLine };
+
+export type FountainExportOptions = {
+  /** Title page to print first; defaults to the `title` lines found in `lines`. */
+  titlePage?: TitlePage;
+};
+
+/** Minimal scene shape needed to print a film timeline as Fountain. */
+export type FountainScene = {
+  id: string;
+  heading: string;
+  description: string;
+  originalSceneNumber?: number | string;
+  /** Production number (#12A#); takes precedence over originalSceneNumber. */
+  sceneNumber?: string;
+  /** Placeholder for a scene cut after numbers were locked; printed as "OMITTED". */
+  omitted?: boolean;
+  scriptLines?: ScriptLine[];
+};
+
+/** Minimal note shape (film timeline sticky notes). */
+export type FountainNote = { sceneId: string; text: string; order: number };
+
+// Lines starting with these would be read back as a different element
+const FORCE_CHARS = /^[!@~.>#=]|^\[\[|^\/\*/;
+
+function formatTitlePage(tp: TitlePage): string[] {
+  const out: string[] = [];
+  for (const { key, value } of tp) {
+    const rows = (value || '').split('\n');
+    if (rows.length > 1) {
+      out.push(`${key}:`);
+      for (const r of rows) out.push(`   ${r}`);
+    } else {
+      out.push(`${key}: ${value}`);
+    }
+  }
+  return out;
+}
+
+/** [[note]] markup. Fountain has no escape, so doubled brackets in the text are made single. */
+function noteMarkup(text: string): string {
+  const safe = text.replace(/\[{2,}/g, '[').replace(/\]{2,}/g, ']');
+  // a closing "]" of the text would otherwise pair with the first "]" of "]]"
+  return `[[${safe}${safe.endsWith(']') ? ' ' : ''}]]`;
+}
+
+function withNotes(text: string, notes?: string[]): string {
+  if (!notes?.length) return text;
+  return [text, ...notes.map(noteMarkup)].filter(Boolean).join(' ');
+}
+
+function isUpperCue(text: string): boolean {
+  const name = text.replace(/(?:\s*\([^)]*\))+\s*$/, '');
+  return /\p{L}/u.test(name) && name === name.toUpperCase();
+}
+
+function sceneLine(L: ScriptLine): string {
+  const text = (L.text || '').trim();
+  const forced = L.forced || !isSceneHeading(text);
+  const heading = forced ? `.${text}` : text.toUpperCase();
+  return L.sceneNumber ? `${heading} #${L.sceneNumber}#` : heading;
+}
+
+function transitionLine(L: ScriptLine): string {
+  const t = (L.text || '').trim();
+  return !L.forced && t === t.toUpperCase() && /TO:$/.test(t) ? t : `> ${t}`;
+}
+
+// Block elements are always printed with a blank line before them
+const BLOCK_TYPES: LineType[] = ['scene', 'transition', 'character', 'section', 'pagebreak'];
+
+function endsParagraph(next?: ScriptLine): boolean {
+  return !next || BLOCK_TYPES.includes(next.type) || ((next.type === 'action' || next.type === 'shot' || next.type === 'general') && !next.text.trim());
+}
+
+function actionLine(text: string, lastInParagraph: boolean): string {
+  const t = text.trimEnd();
+  const trimmed = t.trim();
+  // Anything that looks like another element gets the ! forcing prefix
+  if (FORCE_CHARS.test(trimmed) || isSceneHeading(trimmed) || /^={3,}$/.test(trimmed)) return `!${t}`;
+  const upper = /\p{L}/u.test(trimmed) && trimmed === trimmed.toUpperCase();
+  // An all-caps line would become a character cue when text follows it, or a transition when it ends in TO:
+  if (upper && (!lastInParagraph || /TO:$/.test(trimmed))) return `!${t}`;
+  return t;
+}
 
 /**
  * Convert ScriptLine[] to Fountain text.
- * We keep things simple and readable:
- * - scene -> as-is (e.g., "INT. OFFICE - DAY")
- * - action -> paragraph
- * - character -> uppercase name line
- * - parenthetical -> "(...)" on its own line
- * - dialogue -> one or more lines under the character/parenthetical
- * - transition -> line ending with "TO:"
- * - lyric -> we prefix with "~" (common Fountain lyric convention)
+ * - title page first (Key: value, indented continuation lines)
+ * - blank lines are inserted around headings, transitions, sections and dialogue blocks
+ * - forcing prefixes (. @ ! >) are added whenever plain text would be misread
+ * - scene numbers become #12A#, inline notes become [[notes]]
+ * - dual dialogue: the right-hand cue gets a trailing ^
  */
-export function linesToFountain(lines: ScriptLine[]): string {
+export function linesToFountain(lines: ScriptLine[], opts: FountainExportOptions = {}): string {
   const out: string[] = [];
   let i = 0;
+  let inBoneyard = false;
 
   const pushBlankOnce = () => {
     if (out.length && out[out.length - 1] !== '') out.push('');
   };
+  const block = (text: string) => {
+    pushBlankOnce();
+    out.push(text);
+    out.push('');
+  };
+
+  const titlePage = opts.titlePage ?? titlePageOf(lines);
+  if (titlePage.length) {
+    out.push(...formatTitlePage(titlePage));
+    out.push('');
+  }
 
   while (i < lines.length) {
     const L = lines[i];
     if (!L) break;
 
     switch (L.type) {
+      case 'title': {
+        i++;
+        break;
+      }
       case 'scene': {
-        // Ensure uppercase for safety.
-        const slug = (L.text || '').trim().toUpperCase();
-        pushBlankOnce();
-        out.push(slug);
-        pushBlankOnce();
+        block(withNotes(sceneLine(L), L.notes));
         i++;
         break;
       }
-      case 'action': {
-        const txt = (L.text || '').trim();
-        if (txt) {
-          out.push(txt);
+      case 'action':
+      case 'shot':
+      case 'general': {
+        const txt = L.text || '';
+        if (txt.trim()) {
+          out.push(withNotes(L.forced ? `!${txt.trimEnd()}` : actionLine(txt, endsParagraph(lines[i + 1])), L.notes));
+        } else {
           pushBlankOnce();
         }
         i++;
         break;
       }
       case 'character': {
-        // CHARACTER cue, then optional parenthetical + dialogue block
-        const who = (L.text || '').trim().toUpperCase();
+        // CHARACTER cue followed by its parenthetical/dialogue block
+        const who = (L.text || '').trim();
+        const cue = L.forced || !isUpperCue(who) ? `@${who}` : who;
         pushBlankOnce();
-        out.push(who);
+        out.push(withNotes(L.dual === 'right' ? `${cue} ^` : cue, L.notes));
         i++;
 
-        if (i < lines.length && lines[i].type === 'parenthetical') {
-          out.push((lines[i].text || '').trim());
-          i++;
-        }
-
-        let hadDialogue = false;
-        while (i < lines.length && lines[i].type === 'dialogue') {
-          out.push((lines[i].text || '').trim());
-          hadDialogue = true;
+        while (i < lines.length && (lines[i].type === 'parenthetical' || lines[i].type === 'dialogue' || lines[i].type === 'note')) {
+          const D = lines[i];
+          if (D.type === 'note') out.push(noteMarkup(D.text));
+          else if (D.type === 'parenthetical') out.push(withNotes((D.text || '').trim(), D.notes));
+          else out.push(D.text.trim() ? withNotes(D.text.trim(), D.notes) : '  ');
           i++;
         }
-        if (hadDialogue) pushBlankOnce();
-        break;
-      }
-      case 'parenthetical': {
-        out.push((L.text || '').trim());
-        pushBlankOnce();
-        i++;
+        out.push('');
         break;
       }
+      case 'parenthetical':
       case 'dialogue': {
-        // Dialogue without an explicit CHARACTER above — allow it anyway.
+        // Dialogue without an explicit CHARACTER above — keep the text as action.
         const txt = (L.text || '').trim();
-        if (txt) out.push(txt);
+        if (txt) out.push(withNotes(actionLine(txt, endsParagraph(lines[i + 1])), L.notes));
         i++;
         break;
       }
       case 'transition': {
-        const t = (L.text || '').trim().toUpperCase();
-        pushBlankOnce();
-        out.push(t.endsWith('TO:') ? t : `${t} TO:`);
-        pushBlankOnce();
+        block(withNotes(transitionLine(L), L.notes));
         i++;
         break;
       }
       case 'lyric': {
         const lyr = (L.text || '').trim();
-        out.push(lyr.startsWith('~') ? lyr : `~${lyr}`);
+        out.push(withNotes(`~${lyr.replace(/^~/, '')}`, L.notes));
+        i++;
+        break;
+      }
+      case 'centered': {
+        out.push(withNotes(`> ${(L.text || '').trim()} <`, L.notes));
+        i++;
+        break;
+      }
+      case 'section': {
+        block(`${'#'.repeat(Math.max(1, L.depth || 1))} ${(L.text || '').trim()}`);
+        i++;
+        break;
+      }
+      case 'synopsis': {
+        out.push(`= ${(L.text || '').trim()}`);
+        i++;
+        break;
+      }
+      case 'note': {
+        out.push(noteMarkup((L.text || '').trim()));
+        i++;
+        break;
+      }
+      case 'boneyard': {
+        // Raw source line, including its /* */ markers; reopen the comment if the opener was dropped
+        const raw: string = !inBoneyard && !L.text.includes('/*') ? `/* ${L.text}` : L.text;
+        const open: number = raw.lastIndexOf('/*');
+        const close = raw.lastIndexOf('*/');
+        if (open !== close) inBoneyard = open > close;
+        i++;
+        // ...and close it before regular lines follow
+        if (inBoneyard && lines[i]?.type !== 'boneyard') {
+          out.push(`${raw} */`);
+          inBoneyard = false;
+        } else {
+          out.push(raw);
+        }
+        break;
+      }
+      case 'pagebreak': {
+        block('===');
         i++;
         break;
       }
@@ -112,4 +234,39 @@ export function linesToFountain(lines: ScriptLine[]): string {
   // Trim trailing blanks
   while (out.length && out[out.length - 1] === '') out.pop();
   return out.join('\n');
-}
\ No newline at end of file
+}
+
+/**
+ * Print film timeline scenes as one Fountain document.
+ * originalSceneNumber becomes the #n# scene number and each scene's notes
+ * are written as [[notes]] right under its heading.
+ */
+export function scenesToFountain(
+  scenes: FountainScene[],
+  notes: FountainNote[] = [],
+  opts: FountainExportOptions = {},
+): string {
+  const lines: ScriptLine[] = [];
+  for (const s of scenes) {
+    const number = s.sceneNumber ?? s.originalSceneNumber;
+    const sceneNumber = number != null && String(number) !== '' ? String(number) : undefined;
+    if (s.omitted) {
+      lines.push({ type: 'scene', text: 'OMITTED', sceneNumber, forced: true });
+      continue;
+    }
+    lines.push({ type: 'scene', text: s.heading, sceneNumber });
+
+    const sceneNotes = notes.filter(n => n.sceneId === s.id).sort((a, b) => a.order - b.order);
+    for (const n of sceneNotes) {
+      const text = n.text.replace(/\s*\n\s*/g, ' ').trim();
+      if (text) lines.push({ type: 'note', text });
+    }
+
+    const body = s.scriptLines?.length
+      ? s.scriptLines
+      : (s.description || '').split('\n').map<ScriptLine>(text => ({ type: 'action', text }));
+    lines.push({ type: 'action', text: '' });
+    lines.push(...body.filter(l => l.type !== 'scene' && l.type !== 'title'));
+  }
+  return linesToFountain(lines, opts);
+}
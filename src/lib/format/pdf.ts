@@ -0,0 +1,171 @@
+// src/lib/format/pdf.ts
+// PDF exports for the film workspace: the screenplay (Courier 12 on US Letter, standard
+// element margins, scene numbers in both margins, OMITTED too) and the stripboard.
+
+import type { LineType, ScriptLine } from '../scriptTypes';
+import { formatEighths } from '../pagination';
+import { formatTime } from '../time';
+import { stripColor, type Strip } from '../stripboard';
+
+/** Minimal scene shape needed to print a film timeline as a PDF. */
+export type PdfScene = {
+  heading: string;
+  description: string;
+  /** Printed in both margins of the heading. */
+  sceneNumber?: string;
+  /** Placeholder for a scene cut after numbers were locked; printed as "OMITTED". */
+  omitted?: boolean;
+  scriptLines?: ScriptLine[];
+};
+
+export type PdfExportOptions = { title?: string };
+
+const PT = 72;              // points per inch
+const PAGE_W = 8.5 * PT;
+const PAGE_H = 11 * PT;
+const TOP = 1 * PT;
+const BOTTOM = PAGE_H - 1 * PT;
+const LEADING = 12;         // 6 lines per inch
+
+// x and width (inches) per element, matching lib/pagination's layout
+const ELEMENT: Partial<Record<LineType, { x: number; w: number; before: number }>> = {
+  scene: { x: 1.5, w: 6, before: 2 },
+  action: { x: 1.5, w: 6, before: 1 },
+  general: { x: 1.5, w: 6, before: 1 },
+  shot: { x: 1.5, w: 6, before: 1 },
+  centered: { x: 1.5, w: 6, before: 1 },
+  character: { x: 3.7, w: 3.8, before: 1 },
+  parenthetical: { x: 3.1, w: 2.5, before: 0 },
+  dialogue: { x: 2.5, w: 3.5, before: 0 },
+  lyric: { x: 2.5, w: 3.5, before: 0 },
+  transition: { x: 6, w: 1.5, before: 1 },
+};
+
+/** Build the PDF (jsPDF is loaded on demand). */
+export async function scenesToPdf(scenes: PdfScene[], opts: PdfExportOptions = {}): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  doc.setFont('courier', 'normal');
+  doc.setFontSize(12);
+
+  let y = TOP;
+  // the title page isn't counted, and page 1 carries no number
+  let page = opts.title ? 0 : 1;
+  const newPage = () => {
+    doc.addPage('letter', 'portrait');
+    page += 1;
+    if (page > 1) doc.text(`${page}.`, 7.5 * PT, 0.5 * PT, { align: 'right' });
+    y = TOP;
+  };
+  const skip = (lines: number) => { if (y > TOP) y += lines * LEADING; };
+
+  const print = (type: LineType, text: string, number?: string) => {
+    const el = ELEMENT[type];
+    if (!el) return; // notes, sections, synopses… aren't printed
+    const rows = doc.splitTextToSize(text, el.w * PT) as string[];
+    skip(el.before);
+    // keep a heading with at least two lines of what follows
+    if (y + LEADING * (rows.length + (type === 'scene' ? 2 : 0)) > BOTTOM) newPage();
+    rows.forEach((row, i) => {
+      if (y + LEADING > BOTTOM) newPage();
+      if (type === 'transition') doc.text(row, 7.5 * PT, y, { align: 'right' });
+      else if (type === 'centered') doc.text(row, 4.5 * PT, y, { align: 'center' });
+      else doc.text(row, el.x * PT, y);
+      if (number && i === 0) {
+        doc.text(number, 0.75 * PT, y);
+        doc.text(number, 7.75 * PT, y, { align: 'right' });
+      }
+      y += LEADING;
+    });
+  };
+
+  if (opts.title) {
+    y = PAGE_H / 2 - 2 * LEADING;
+    doc.text(opts.title.toUpperCase(), PAGE_W / 2, y, { align: 'center' });
+    newPage();
+  }
+
+  for (const s of scenes) {
+    if (s.omitted) {
+      print('scene', 'OMITTED', s.sceneNumber);
+      continue;
+    }
+    print('scene', (s.heading || '').trim().toUpperCase(), s.sceneNumber);
+    const body = s.scriptLines?.length
+      ? s.scriptLines.filter(l => l.type !== 'scene' && l.type !== 'title')
+      : (s.description || '').split('\n').filter(t => t.trim()).map<ScriptLine>(text => ({ type: 'action', text }));
+    for (const l of body) {
+      const text = (l.text || '').trim();
+      if (!text) continue;
+      print(l.type, l.type === 'character' ? text.toUpperCase() : text);
+    }
+  }
+  return doc.output('blob');
+}
+
+export type StripboardPdfDay = { label: string; strips: Strip[]; eighths: number; sec: number };
+
+/** Stripboard on landscape Letter: one colored row per strip and a dark bar after each day. */
+export async function stripboardToPdf(
+  board: { days: StripboardPdfDay[]; unscheduled: Strip[]; cast: string[] },
+  opts: PdfExportOptions = {},
+): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'letter', orientation: 'landscape' });
+  const W = 11 * PT, H = 8.5 * PT, M = 0.5 * PT, ROW = 16;
+  // column x positions: scene no., I/E, D/N, set, pages, cast
+  const COL = [M + 4, M + 50, M + 100, M + 150, W - M - 190, W - M - 140];
+  let y = M;
+
+  const line = (cells: string[], fill: string, color: string, bold = false) => {
+    if (y + ROW > H - M) { doc.addPage('letter', 'landscape'); y = M; }
+    doc.setFillColor(fill);
+    doc.setDrawColor('#9ca3af');
+    doc.rect(M, y, W - 2 * M, ROW, 'FD');
+    doc.setTextColor(color);
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((c, i) => {
+      const room = (COL[i + 1] ?? W - M) - COL[i] - 6;
+      doc.text(doc.splitTextToSize(c, room)[0] ?? '', COL[i], y + ROW - 5);
+    });
+    y += ROW;
+  };
+  const strip = (s: Strip) => {
+    const { bg, text } = stripColor(s);
+    const set = [s.location, s.sublocation].filter(Boolean).join(' - ');
+    line([s.number, s.intExt ?? '', s.dayNight ?? s.timeOfDay ?? '', set, `${formatEighths(s.eighths)} pg`, s.cast.join(', ')], bg, text);
+  };
+
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text(opts.title ? `${opts.title} — Stripboard` : 'Stripboard', M, y + 12);
+  y += 24;
+  doc.setFontSize(9);
+  line(['Scene', 'I/E', 'D/N', 'Set', 'Pages', 'Cast'], '#e5e7eb', '#111827', true);
+
+  for (const day of board.days) {
+    day.strips.forEach(strip);
+    line([`END OF ${day.label.toUpperCase()}`, '', '', `${day.strips.length} scenes · ${formatTime(day.sec)} screen time`, `${formatEighths(day.eighths)} pg`, ''], '#111827', '#f9fafb', true);
+  }
+  if (board.unscheduled.length) {
+    y += ROW / 2;
+    line(['UNSCHEDULED', '', '', '', '', ''], '#e5e7eb', '#111827', true);
+    board.unscheduled.forEach(strip);
+  }
+
+  if (board.cast.length) {
+    y += ROW;
+    doc.setTextColor('#111827');
+    doc.setFont('helvetica', 'bold');
+    if (y + ROW > H - M) { doc.addPage('letter', 'landscape'); y = M; }
+    doc.text('Cast', M, y + 10);
+    y += ROW;
+    doc.setFont('helvetica', 'normal');
+    board.cast.forEach((name, i) => {
+      if (y + 12 > H - M) { doc.addPage('letter', 'landscape'); y = M; }
+      doc.text(`${i + 1}. ${name}`, M, y + 10);
+      y += 12;
+    });
+  }
+  return doc.output('blob');
+}
@@ -0,0 +1,208 @@
+// src/lib/history.ts
+// Patch-based undo/redo. A document is a record of collections (arrays of { id } items)
+// and plain values; each history entry stores only what changed between two versions —
+// per item and per field — so moving a scene doesn't copy its image data URL.
+
+type Doc = Record<string, unknown>;
+type Item = { id: string } & Record<string, unknown>;
+
+export type ItemPatch =
+  | { op: 'add'; index: number; item: Item }
+  | { op: 'remove'; index: number; item: Item }
+  | { op: 'update'; id: string; before: Record<string, unknown>; after: Record<string, unknown> };
+
+/** Either item-level changes of an id'd collection, or a whole value swap. */
+export type FieldPatch =
+  | { kind: 'items'; changes: ItemPatch[] }
+  | { kind: 'value'; before: unknown; after: unknown };
+
+export type Patch = Record<string, FieldPatch>;
+
+export type HistoryEntry = {
+  id: number;
+  label: string;
+  patch: Patch;
+  /** Consecutive entries with the same key (within COALESCE_MS) merge into one. */
+  coalesceKey?: string;
+  time: number;
+};
+
+export type HistoryStack = {
+  past: HistoryEntry[];   // oldest first; the last one is the current state
+  future: HistoryEntry[]; // next redo first
+  nextId: number;
+};
+
+export const HISTORY_LIMIT = 200;
+export const COALESCE_MS = 1500;
+
+export const emptyHistory = (): HistoryStack => ({ past: [], future: [], nextId: 1 });
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const bb = b as unknown[];
+    return a.length === bb.length && a.every((v, i) => deepEqual(v, bb[i]));
+  }
+  const ka = Object.keys(a as object).filter(k => (a as Doc)[k] !== undefined);
+  const kb = Object.keys(b as object).filter(k => (b as Doc)[k] !== undefined);
+  return ka.length === kb.length && ka.every(k => deepEqual((a as Doc)[k], (b as Doc)[k]));
+}
+
+const isItemList = (v: unknown): v is Item[] =>
+  Array.isArray(v) && v.every(x => x && typeof x === 'object' && typeof (x as Item).id === 'string');
+
+function diffItems(before: Item[], after: Item[]): ItemPatch[] | null {
+  const afterIds = new Set(after.map(x => x.id));
+  const beforeById = new Map(before.map(x => [x.id, x]));
+  const kept = before.filter(x => afterIds.has(x.id)).map(x => x.id);
+  const keptAfter = after.filter(x => beforeById.has(x.id)).map(x => x.id);
+  // Reordered collections are stored whole
+  if (kept.length !== keptAfter.length || kept.some((id, i) => id !== keptAfter[i])) return null;
+
+  const changes: ItemPatch[] = [];
+  // removals from the back so indices stay valid when undone front to back
+  for (let i = before.length - 1; i >= 0; i--) {
+    if (!afterIds.has(before[i].id)) changes.push({ op: 'remove', index: i, item: before[i] });
+  }
+  after.forEach((item, i) => {
+    const prev = beforeById.get(item.id);
+    if (!prev) { changes.push({ op: 'add', index: i, item }); return; }
+    if (prev === item) return;
+    const b: Record<string, unknown> = {};
+    const a: Record<string, unknown> = {};
+    for (const k of new Set([...Object.keys(prev), ...Object.keys(item)])) {
+      if (!deepEqual(prev[k], item[k])) { b[k] = prev[k]; a[k] = item[k]; }
+    }
+    if (Object.keys(a).length) changes.push({ op: 'update', id: item.id, before: b, after: a });
+  });
+  return changes;
+}
+
+/** What changed from `before` to `after`, or null when nothing did. */
+export function diffDocs<T extends Doc>(before: T, after: T): Patch | null {
+  const patch: Patch = {};
+  for (const key of Object.keys(after)) {
+    const b = before[key];
+    const a = after[key];
+    if (b === a) continue;
+    if (isItemList(b) && isItemList(a)) {
+      const changes = diffItems(b, a);
+      if (changes && changes.length) patch[key] = { kind: 'items', changes };
+      else if (!changes) patch[key] = { kind: 'value', before: b, after: a };
+    } else if (!deepEqual(b, a)) {
+      patch[key] = { kind: 'value', before: b, after: a };
+    }
+  }
+  return Object.keys(patch).length ? patch : null;
+}
+
+function setFields(item: Item, fields: Record<string, unknown>): Item {
+  const next: Item = { ...item };
+  for (const [k, v] of Object.entries(fields)) {
+    if (v === undefined) delete next[k];
+    else next[k] = v;
+  }
+  return next;
+}
+
+function applyItems(list: Item[], changes: ItemPatch[], dir: 'undo' | 'redo'): Item[] {
+  let out = [...list];
+  if (dir === 'redo') {
+    for (const c of changes) {
+      if (c.op === 'remove') out = out.filter(x => x.id !== c.item.id);
+    }
+    for (const c of changes) {
+      if (c.op === 'add') out.splice(Math.min(c.index, out.length), 0, c.item);
+      if (c.op === 'update') out = out.map(x => x.id === c.id ? setFields(x, c.after) : x);
+    }
+  } else {
+    for (const c of changes) {
+      if (c.op === 'update') out = out.map(x => x.id === c.id ? setFields(x, c.before) : x);
+    }
+    for (const c of changes) {
+      if (c.op === 'add') out = out.filter(x => x.id !== c.item.id);
+    }
+    for (const c of [...changes].reverse()) {
+      if (c.op === 'remove') out.splice(Math.min(c.index, out.length), 0, c.item);
+    }
+  }
+  return out;
+}
+
+/** Apply a patch forwards (redo) or backwards (undo). */
+export function applyPatch<T extends Doc>(doc: T, patch: Patch, dir: 'undo' | 'redo'): T {
+  const out: Doc = { ...doc };
+  for (const [key, p] of Object.entries(patch)) {
+    if (p.kind === 'value') out[key] = dir === 'undo' ? p.before : p.after;
+    else out[key] = applyItems((out[key] as Item[]) ?? [], p.changes, dir);
+  }
+  return out as T;
+}
+
+/**
+ * Record the change from `before` to `after`. When the newest entry has the same
+ * coalesceKey and is recent, the two are merged into one entry. Recording clears redo.
+ */
+export function recordChange<T extends Doc>(
+  h: HistoryStack,
+  before: T,
+  after: T,
+  meta: { label: string; coalesceKey?: string; time?: number },
+  limit = HISTORY_LIMIT,
+): HistoryStack {
+  const time = meta.time ?? Date.now();
+  const last = h.past[h.past.length - 1];
+  if (last && meta.coalesceKey && last.coalesceKey === meta.coalesceKey && time - last.time <= COALESCE_MS) {
+    const base = applyPatch(before, last.patch, 'undo');
+    const patch = diffDocs(base, after);
+    const past = h.past.slice(0, -1);
+    return {
+      past: patch ? [...past, { ...last, patch, time }] : past,
+      future: [],
+      nextId: h.nextId,
+    };
+  }
+
+  const patch = diffDocs(before, after);
+  if (!patch) return h;
+  const entry: HistoryEntry = { id: h.nextId, label: meta.label, patch, coalesceKey: meta.coalesceKey, time };
+  const past = [...h.past, entry];
+  return { past: past.slice(Math.max(0, past.length - limit)), future: [], nextId: h.nextId + 1 };
+}
+
+export function undoStep<T extends Doc>(h: HistoryStack, doc: T): { history: HistoryStack; doc: T } | null {
+  const entry = h.past[h.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: h.past.slice(0, -1), future: [entry, ...h.future], nextId: h.nextId },
+    doc: applyPatch(doc, entry.patch, 'undo'),
+  };
+}
+
+export function redoStep<T extends Doc>(h: HistoryStack, doc: T): { history: HistoryStack; doc: T } | null {
+  const entry = h.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...h.past, entry], future: h.future.slice(1), nextId: h.nextId },
+    doc: applyPatch(doc, entry.patch, 'redo'),
+  };
+}
+
+/** Undo or redo until `entryId` is the newest applied entry (0 = before the first entry). */
+export function jumpTo<T extends Doc>(h: HistoryStack, doc: T, entryId: number): { history: HistoryStack; doc: T } {
+  let cur = { history: h, doc };
+  const applied = (id: number) => id === 0 || cur.history.past.some(e => e.id === id);
+  if (applied(entryId)) {
+    while (cur.history.past.length && cur.history.past[cur.history.past.length - 1].id !== entryId) {
+      cur = undoStep(cur.history, cur.doc)!;
+    }
+  } else if (h.future.some(e => e.id === entryId)) {
+    while (cur.history.future.length && !applied(entryId)) {
+      cur = redoStep(cur.history, cur.doc)!;
+    }
+  }
+  return cur;
+}
@@ -1,5 +1,6 @@
 import { XMLParser } from 'fast-xml-parser';
-import type { ParsedScript, SceneBlock, ScriptLine } from '@/lib/scriptTypes';
+import type { ParsedScript, SceneBlock, ScriptLine, TitlePage } from '@/lib/scriptTypes';
+import { DEFAULT_SECONDS_PER_PAGE, eighthsToSeconds, sceneEighths } from '@/lib/pagination';
 
 function toLineTypeFromFDX(elemType: string): ScriptLine['type'] {
   // Map FDX elements to our types
@@ -10,29 +11,91 @@ function toLineTypeFromFDX(elemType: string): ScriptLine['type'] {
     case 'Parenthetical': return 'parenthetical';
     case 'Dialogue': return 'dialogue';
     case 'Transition': return 'transition';
+    case 'Shot': return 'shot';
+    case 'Lyrics': return 'lyric';
+    case 'New Act':
+    case 'End of Act': return 'section';
+    case 'General':
+    case 'Cast List': return 'general';
     default: return 'action';
   }
 }
 
+function asArray<T>(x: T | T[] | undefined | null): T[] {
+  if (x == null) return [];
+  return Array.isArray(x) ? x : [x];
+}
+
+/**
+ * Join every <Text> run of a paragraph. Styled runs come through as
+ * { '#text', Style, ... } objects, several runs as an array.
+ */
 function coerceText(x: any): string {
   if (x == null) return '';
+  if (Array.isArray(x)) return x.map(coerceText).join('');
   if (typeof x === 'string') return x;
+  if (typeof x === 'number' || typeof x === 'boolean') return String(x);
   // Some FDX text is { '#text': '...' }
-  if (typeof x === 'object' && typeof x['#text'] === 'string') return x['#text'];
+  if (typeof x === 'object') return x['#text'] != null ? String(x['#text']) : '';
   return String(x ?? '');
 }
 
-function sceneEstSeconds(lines: ScriptLine[]): number {
-  let est = lines.reduce((acc, l) => {
-    switch (l.type) {
-      case 'action': return acc + 2.0;
-      case 'dialogue': return acc + 1.5;
-      case 'parenthetical': return acc + 0.8;
-      case 'lyric': return acc + 1.2;
-      default: return acc;
+function paragraphText(p: any): string {
+  return coerceText(p?.Text).trim();
+}
+
+/** "#RRRRGGGGBBBB" (16 bits per channel) or "#RRGGBB" → "#rrggbb". */
+export function fromFdxColor(c?: string): string | undefined {
+  const hex = String(c || '').trim().replace(/^#/, '');
+  if (/^[0-9a-f]{12}$/i.test(hex)) return `#${hex.slice(0, 2)}${hex.slice(4, 6)}${hex.slice(8, 10)}`.toLowerCase();
+  if (/^[0-9a-f]{6}$/i.test(hex)) return `#${hex}`.toLowerCase();
+  return undefined;
+}
+
+/** FDX Length like "1 3/8", "5/8" or "2" → eighths of a page. */
+export function parseFdxLength(len?: string): number | undefined {
+  const m = /^\s*(?:(\d+)\s*)?(?:(\d+)\s*\/\s*8)?\s*$/.exec(String(len ?? ''));
+  if (!m || (m[1] == null && m[2] == null)) return undefined;
+  return Number(m[1] || 0) * 8 + Number(m[2] || 0);
+}
+
+/**
+ * FDX title pages are free-form centered/left paragraphs. Blocks are separated by empty
+ * paragraphs: the first centered block is the title, "by"/"Written by" is the credit and
+ * the block after it the author; left-aligned blocks are contact/draft date.
+ */
+function titlePageFromFdx(tp: any): TitlePage {
+  const blocks: { left: boolean; rows: string[] }[] = [];
+  let cur: { left: boolean; rows: string[] } | null = null;
+  for (const p of asArray(tp?.Content?.Paragraph)) {
+    const text = paragraphText(p);
+    if (!text) { cur = null; continue; }
+    const left = p?.Alignment === 'Left' || p?.Alignment === 'Right';
+    // A change of alignment also starts a new block
+    if (!cur || cur.left !== left) { cur = { left, rows: [] }; blocks.push(cur); }
+    cur.rows.push(text);
+  }
+
+  const fields: TitlePage = [];
+  let expectAuthor = false;
+  for (const b of blocks) {
+    const value = b.rows.join('\n');
+    if (b.left) {
+      const isDate = b.rows.length === 1 && /\d{1,4}[\/.\-]\d{1,2}|\b(19|20)\d{2}\b|draft/i.test(value);
+      fields.push({ key: isDate ? 'Draft date' : 'Contact', value });
+    } else if (!fields.some(f => f.key === 'Title')) {
+      fields.push({ key: 'Title', value });
+    } else if (/^(written\s+)?by$/i.test(value) || /^(screenplay|story|teleplay)\s+by$/i.test(value)) {
+      fields.push({ key: 'Credit', value });
+      expectAuthor = true;
+    } else if (expectAuthor) {
+      fields.push({ key: b.rows.length > 1 ? 'Authors' : 'Author', value });
+      expectAuthor = false;
+    } else {
+      fields.push({ key: 'Notes', value });
     }
-  }, 0);
-  return Math.max(10, Math.min(est, 180));
+  }
+  return fields;
 }
 
 export function importFdxToScenes(xml: string): ParsedScript {
@@ -41,7 +104,9 @@ export function importFdxToScenes(xml: string): ParsedScript {
     attributeNamePrefix: '',
     textNodeName: '#text',
     preserveOrder: false,
-    trimValues: true,
+    // keep spaces between styled <Text> runs; paragraphs are trimmed after joining
+    trimValues: false,
+    parseTagValue: false,
   });
 
   const json: any = parser.parse(xml || '');
@@ -52,7 +117,7 @@ export function importFdxToScenes(xml: string): ParsedScript {
 
   // Document/Content/Paragraphs/Paragraph
   const paragraphs = fd?.Content?.Paragraph || fd?.Content?.Paragraphs?.Paragraph || [];
-  const list = Array.isArray(paragraphs) ? paragraphs : [paragraphs];
+  const list: any[] = asArray(paragraphs);
 
   const scenes: SceneBlock[] = [];
   const warnings: string[] = [];
@@ -61,25 +126,60 @@ export function importFdxToScenes(xml: string): ParsedScript {
 
   const flush = () => {
     if (!cur) return;
-    cur.estLengthSec = sceneEstSeconds(cur.lines);
     scenes.push(cur);
     cur = null;
   };
 
+  const pushLine = (line: ScriptLine, i: number) => {
+    if (!cur) {
+      warnings.push('FDX content before first Scene Heading — creating a COLD OPEN.');
+      idx = 1;
+      cur = {
+        index: idx,
+        heading: 'INT. COLD OPEN - DAY',
+        slug: 'INT. COLD OPEN - DAY',
+        startLine: i,
+        lines: [],
+        description: '',
+        estLengthSec: 0,
+        positionSec: 0,
+      };
+    }
+    cur.lines.push(line);
+  };
+
   for (let i = 0; i < list.length; i++) {
     const p = list[i];
+
+    // <Paragraph><DualDialogue><Paragraph Type="Character"/>…</DualDialogue></Paragraph>
+    if (p?.DualDialogue) {
+      let side: 'left' | 'right' | undefined;
+      for (const dp of asArray(p.DualDialogue.Paragraph)) {
+        const lt = toLineTypeFromFDX(dp?.Type || 'Dialogue');
+        if (lt === 'character') side = side ? 'right' : 'left';
+        pushLine({ type: lt, text: paragraphText(dp), dual: side }, i);
+      }
+      continue;
+    }
+
     const type = p?.Type || p?.type || 'Action';
-    const text = coerceText(p?.Text);
+    const text = paragraphText(p);
 
     if (type === 'Scene Heading') {
       flush();
       idx += 1;
       const heading = text || `UNTITLED SCENE ${idx}`;
       const slug = heading.toUpperCase().replace(/\s*[-–]\s*/g, ' - ');
+      const props = p?.SceneProperties;
       cur = {
         index: idx,
         heading,
         slug,
+        sceneNumber: p?.Number ? String(p.Number) : undefined,
+        title: props?.Title || undefined,
+        color: fromFdxColor(props?.Color),
+        page: props?.Page ? String(props.Page) : undefined,
+        lengthEighths: parseFdxLength(props?.Length),
         startLine: i,
         lines: [],
         description: '',
@@ -87,26 +187,24 @@ export function importFdxToScenes(xml: string): ParsedScript {
         positionSec: 0,
       };
     } else {
-      if (!cur) {
-        warnings.push('FDX content before first Scene Heading — creating a COLD OPEN.');
-        idx = 1;
-        cur = {
-          index: idx,
-          heading: 'INT. COLD OPEN - DAY',
-          slug: 'INT. COLD OPEN - DAY',
-          startLine: i,
-          lines: [],
-          description: '',
-          estLengthSec: 0,
-          positionSec: 0,
-        };
-      }
       const lt = toLineTypeFromFDX(type);
-      cur.lines.push({ type: lt, text });
+      const line: ScriptLine = { type: lt, text };
+      if (p?.Alignment === 'Center' && lt === 'action') line.type = 'centered';
+      pushLine(line, i);
     }
   }
   flush();
 
+  // Length: FDX Length wins, then the Page difference to the next scene, then our own pagination
+  scenes.forEach((s, k) => {
+    if (s.lengthEighths == null && s.page != null && k + 1 < scenes.length) {
+      const pages = parseFloat(scenes[k + 1].page ?? '') - parseFloat(s.page);
+      if (Number.isFinite(pages) && pages > 0) s.lengthEighths = Math.round(pages * 8);
+    }
+    s.lengthEighths ??= sceneEighths([{ type: 'scene', text: s.heading }, ...s.lines]);
+    s.estLengthSec = eighthsToSeconds(s.lengthEighths, DEFAULT_SECONDS_PER_PAGE);
+  });
+
   // descriptions + layout
   let cursor = 0;
   const GAP = 1;
@@ -120,5 +218,6 @@ export function importFdxToScenes(xml: string): ParsedScript {
     cursor += s.estLengthSec + GAP;
   }
 
-  return { scenes, warnings };
-}
\ No newline at end of file
+  const titlePage = titlePageFromFdx(fd.TitlePage);
+  return { scenes, warnings, titlePage: titlePage.length ? titlePage : undefined };
+}
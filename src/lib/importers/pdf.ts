@@ -2,6 +2,11 @@
 // Client-side PDF text extraction with pdfjs-dist (legacy build).
 // Kept minimal and robust for Vercel builds without Node shims.
 
+import type { ParsedScript, ScriptLine } from '@/lib/scriptTypes';
+import { parseLines } from '@/lib/scriptParser';
+import { DEFAULT_SECONDS_PER_PAGE, eighthsToSeconds } from '@/lib/pagination';
+import { isSceneHeading } from '@/lib/scriptClassifier';
+
 export async function extractPdfText(file: File): Promise<string> {
   // Always use the legacy build for maximum compatibility
   const pdfjs: any = await import('pdfjs-dist/legacy/build/pdf');
@@ -40,4 +45,284 @@ export async function extractPdfText(file: File): Promise<string> {
   const full = chunks.join('\n\n').replace(/\r\n/g, '\n');
   try { await doc.destroy?.(); } catch {}
   return full;
-}
\ No newline at end of file
+}
+
+/* ---------- Layout-aware screenplay import ---------- */
+
+/** One pdf.js text run, in PDF points (origin bottom-left). */
+export type PdfTextItem = {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontName?: string;
+  fontSize: number;
+};
+
+export type PdfPageLayout = {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+};
+
+/** Read every text run with its position and font (transform = [a, b, c, d, x, y]). */
+export async function extractPdfLayout(file: File): Promise<PdfPageLayout[]> {
+  const pdfjs: any = await import('pdfjs-dist/legacy/build/pdf');
+  const data = new Uint8Array(await file.arrayBuffer());
+  const doc = await pdfjs.getDocument({
+    data,
+    useWorkerFetch: false,
+    isEvalSupported: false,
+    disableFontFace: true,
+  }).promise;
+
+  const pages: PdfPageLayout[] = [];
+  for (let i = 1; i <= doc.numPages; i++) {
+    const page = await doc.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const items: PdfTextItem[] = [];
+    for (const it of content.items as any[]) {
+      if (!('str' in it) || !it.str) continue;
+      const t: number[] = it.transform || [12, 0, 0, 12, 0, 0];
+      items.push({
+        str: it.str,
+        x: t[4],
+        y: t[5],
+        width: it.width || 0,
+        fontName: it.fontName,
+        fontSize: Math.hypot(t[2], t[3]) || Math.abs(t[0]) || 12,
+      });
+    }
+    pages.push({ pageNumber: i, width: viewport.width, height: viewport.height, items });
+  }
+  try { await doc.destroy?.(); } catch {}
+  return pages;
+}
+
+type PdfLine = {
+  page: number;
+  x: number;          // left edge of the text (scene numbers removed)
+  y: number;
+  right: number;      // right edge of the text
+  text: string;
+  sceneNumber?: string;
+  pos: number;        // position in pages from the start of the script (1.5 = middle of page 2)
+};
+
+const SCENE_NUMBER_RE = /^\*?(\d+[A-Z]{0,2})\.?\*?$/;
+const PAGE_NUMBER_RE = /^(?:page\s*)?\d+\.?$/i;
+const CONTD_RE = /\s*\((?:CONT['’]D|CONTINUED|CONT\.?)\)\s*/gi;
+const MARGIN = 72; // 1 inch
+
+function median(xs: number[]): number {
+  if (!xs.length) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  return s[Math.floor(s.length / 2)];
+}
+
+/** Group runs into visual lines, pull scene numbers out of the margins and drop revision marks. */
+function buildLines(pages: PdfPageLayout[], charW: number): PdfLine[] {
+  const out: PdfLine[] = [];
+  for (const pg of pages) {
+    const items = pg.items
+      .filter(it => it.str.trim())
+      .sort((a, b) => (b.y - a.y) || (a.x - b.x));
+
+    const rows: PdfTextItem[][] = [];
+    for (const it of items) {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(row[0].y - it.y) <= it.fontSize * 0.4) row.push(it);
+      else rows.push([it]);
+    }
+
+    const usable = Math.max(1, pg.height - 2 * MARGIN);
+    for (const row of rows) {
+      row.sort((a, b) => a.x - b.x);
+      // Revision asterisks live in the right margin
+      const kept = row.filter(it => !(/^\*+$/.test(it.str.trim()) && it.x > pg.width * 0.75));
+      if (!kept.length) continue;
+
+      let sceneNumber: string | undefined;
+      const first = kept[0];
+      const firstNum = SCENE_NUMBER_RE.exec(first.str.trim());
+      if (firstNum && kept.length > 1 && kept[1].x - (first.x + (first.width || first.str.length * charW)) > charW * 3) {
+        sceneNumber = firstNum[1];
+        kept.shift();
+      }
+      const last = kept[kept.length - 1];
+      const lastNum = SCENE_NUMBER_RE.exec(last.str.trim());
+      if (lastNum && kept.length > 1 && last.x > pg.width * 0.75) {
+        const prev = kept[kept.length - 2];
+        if (last.x - (prev.x + (prev.width || prev.str.length * charW)) > charW * 3) {
+          sceneNumber = sceneNumber ?? lastNum[1];
+          kept.pop();
+        }
+      }
+
+      let text = '';
+      let end = kept[0].x;
+      for (const it of kept) {
+        const gap = it.x - end;
+        if (text && gap > charW * 0.3 && !/\s$/.test(text)) text += ' '.repeat(Math.max(1, Math.round(gap / charW)));
+        text += it.str;
+        end = it.x + (it.width || it.str.length * charW);
+      }
+      text = text.replace(/\s+\*+\s*$/, '').replace(/\s+$/, '');
+      if (!text.trim()) continue;
+
+      const y = kept[0].y;
+      out.push({
+        page: pg.pageNumber,
+        x: kept[0].x + (text.length - text.trimStart().length) * charW,
+        y,
+        right: end,
+        text: text.trim(),
+        sceneNumber,
+        pos: pg.pageNumber - 1 + Math.min(1, Math.max(0, (pg.height - MARGIN - y) / usable)),
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Rebuild a screenplay from positioned PDF text. Elements are told apart by their
+ * indent from the action margin (Courier 12: dialogue +1", parenthetical +1.6",
+ * character +2.2", transitions from +3.5"). Page numbers, (MORE), (CONT'D),
+ * CONTINUED: headers and revision asterisks are removed; every scene keeps the page
+ * it starts on and its length in eighths, which drives estLengthSec.
+ */
+export function layoutToScript(pages: PdfPageLayout[]): ParsedScript {
+  const all = pages.flatMap(p => p.items);
+  const fontSize = median(all.map(i => i.fontSize)) || 12;
+  const charW = fontSize * 0.6; // Courier advance width
+  const pageSize = new Map(pages.map(p => [p.pageNumber, p]));
+
+  const raw = buildLines(pages, charW).filter(l => {
+    const pg = pageSize.get(l.page)!;
+    const inHeaderOrFooter = l.y > pg.height - MARGIN * 0.95 || l.y < MARGIN * 0.9;
+    if (inHeaderOrFooter && PAGE_NUMBER_RE.test(l.text)) return false;
+    if (/^\(?CONTINUED:?\)?$/i.test(l.text) || /^CONTINUED:\s*\(\d+\)$/i.test(l.text)) return false;
+    return true;
+  });
+
+  // Action margin: the most common left edge
+  const counts = new Map<number, number>();
+  for (const l of raw) {
+    const k = Math.round(l.x / charW);
+    counts.set(k, (counts.get(k) || 0) + 1);
+  }
+  let baseKey = 0; let best = -1;
+  counts.forEach((n, k) => { if (n > best || (n === best && k < baseKey)) { best = n; baseKey = k; } });
+  const base = baseKey * charW;
+
+  const indentOf = (l: PdfLine) => (l.x - base) / charW;
+  const isUpper = (t: string) => /\p{L}/u.test(t) && t === t.toUpperCase();
+
+  const lines: ScriptLine[] = [];
+  const linePos: number[] = [];
+  const linePage: number[] = [];
+  const push = (line: ScriptLine, src: PdfLine) => {
+    lines.push(line);
+    linePos.push(src.pos);
+    linePage.push(src.page);
+  };
+
+  let prev: PdfLine | null = null;
+  let lastCue = '';
+  let moreCue = '';       // cue whose speech continues on the next page
+  let inParen = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const l = raw[i];
+    const d = indentOf(l);
+    const t = l.text;
+
+    if (/^\(MORE\)$/i.test(t)) { moreCue = lastCue; continue; }
+    if (/^\((?:CONT['’]D|CONTINUED)\)$/i.test(t)) continue;
+
+    // Paragraph breaks: a vertical gap of more than ~1.5 lines
+    if (prev && prev.page === l.page && prev.y - l.y > fontSize * 1.6) {
+      push({ type: 'action', text: '' }, l);
+    }
+    prev = l;
+
+    if (d < 5) {
+      inParen = false;
+      lastCue = '';
+      if (isSceneHeading(t)) {
+        // Scene number printed right next to the heading instead of in the margin
+        const num = /^(\d+[A-Z]{0,2})\.?\s+(?=\S)/.exec(t);
+        push({ type: 'scene', text: num ? t.slice(num[0].length) : t, sceneNumber: l.sceneNumber ?? num?.[1] }, l);
+      } else {
+        push({ type: 'action', text: t }, l);
+      }
+      continue;
+    }
+
+    if (d >= 19 && d < 35 && isUpper(t.replace(CONTD_RE, ' ')) && !/TO:$/.test(t)) {
+      const next = raw[i + 1];
+      const nd = next ? indentOf(next) : -1;
+      if (next && nd >= 5 && nd < 19) {
+        const cue = t.replace(CONTD_RE, ' ').replace(/\s+/g, ' ').trim();
+        // "JANE (CONT'D)" at the top of a page after "(MORE)" continues the same speech
+        if (moreCue && cue === moreCue) {
+          moreCue = '';
+          continue;
+        }
+        moreCue = '';
+        lastCue = cue;
+        inParen = false;
+        push({ type: 'character', text: cue }, l);
+        continue;
+      }
+    }
+
+    if (isUpper(t) && (d >= 32 || (d >= 19 && /(?:TO:|OUT\.|IN:|OUT:)$/.test(t)))) {
+      push({ type: 'transition', text: t }, l);
+      continue;
+    }
+
+    if (d >= 5 && d < 19 && lastCue) {
+      if (t.startsWith('(') || inParen) {
+        push({ type: 'parenthetical', text: t }, l);
+        inParen = !t.endsWith(')');
+      } else {
+        push({ type: 'dialogue', text: t }, l);
+      }
+      continue;
+    }
+
+    const pg = pageSize.get(l.page)!;
+    const centered = Math.abs((l.x + l.right) / 2 - pg.width / 2) < charW * 3;
+    push({ type: centered ? 'centered' : 'action', text: t }, l);
+  }
+
+  const parsed = parseLines(lines);
+
+  // Page + length from the physical layout
+  const lastPos = linePos.length ? linePos[linePos.length - 1] + fontSize / Math.max(1, (pages[0]?.height ?? 792) - 2 * MARGIN) : 0;
+  parsed.scenes.forEach((s, k) => {
+    const start = linePos[s.startLine] ?? 0;
+    const nextScene = parsed.scenes[k + 1];
+    const end = nextScene ? linePos[nextScene.startLine] ?? lastPos : lastPos;
+    s.page = linePage[s.startLine] != null ? String(linePage[s.startLine]) : undefined;
+    s.lengthEighths = Math.max(1, Math.round((end - start) * 8));
+    s.estLengthSec = eighthsToSeconds(s.lengthEighths, DEFAULT_SECONDS_PER_PAGE);
+  });
+
+  let cursor = 0;
+  const GAP = 1;
+  for (const s of parsed.scenes) {
+    s.positionSec = cursor;
+    cursor += s.estLengthSec + GAP;
+  }
+  return parsed;
+}
+
+/** Import a screenplay PDF into scenes using text positions (see layoutToScript). */
+export async function importPdfToScenes(file: File): Promise<ParsedScript> {
+  return layoutToScript(await extractPdfLayout(file));
+}
@@ -0,0 +1,84 @@
+// src/lib/lyricWords.ts
+// Per-word timing inside lyric clips (karaoke-style graphics). Words hold track seconds
+// like their clip, stay in order, and never overlap; these helpers keep them that way
+// when clips are imported, moved, retyped or have a word edge dragged.
+
+import type { LyricWord } from '@/types/music';
+
+/** Shortest a word can be squeezed to by dragging an edge. */
+export const MIN_WORD_SEC = 0.05;
+
+// Two edges closer than this count as the same boundary and move together
+const JOINED_SEC = 0.001;
+
+/** Spread words over [startSec, endSec], each getting time in proportion to its length. */
+export function spreadWords(texts: string[], startSec: number, endSec: number): LyricWord[] {
+  const weights = texts.map(t => Math.max(1, t.length));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const span = Math.max(0, endSec - startSec);
+  let at = startSec;
+  return texts.map((text, i) => {
+    const startSecW = at;
+    at += (span * weights[i]) / total;
+    return { text, startSec: startSecW, endSec: i === texts.length - 1 ? Math.max(startSec, endSec) : at };
+  });
+}
+
+export const shiftWords = (words: LyricWord[], deltaSec: number): LyricWord[] =>
+  words.map(w => ({ ...w, startSec: w.startSec + deltaSec, endSec: w.endSec + deltaSec }));
+
+/** Words sorted, made non-overlapping and clamped into the clip; words left outside it are dropped. */
+export function clampWordsToClip(words: LyricWord[], startSec: number, endSec: number): LyricWord[] {
+  const out: LyricWord[] = [];
+  for (const w of [...words].sort((a, b) => a.startSec - b.startSec)) {
+    const lo = Math.max(w.startSec, startSec, out.length ? out[out.length - 1].endSec : -Infinity);
+    const hi = Math.min(w.endSec, endSec);
+    if (lo < endSec) out.push({ ...w, startSec: lo, endSec: Math.max(lo, hi) });
+  }
+  return out;
+}
+
+/**
+ * Words for a clip whose text was edited. The same number of words keeps every timing
+ * (a typo fix); otherwise the new words are spread over the span the old ones covered.
+ */
+export function retextWords(words: LyricWord[], text: string): LyricWord[] | undefined {
+  const texts = text.trim().split(/\s+/).filter(Boolean);
+  if (!words.length || !texts.length) return undefined;
+  if (texts.length === words.length) return words.map((w, i) => ({ ...w, text: texts[i] }));
+  return spreadWords(texts, words[0].startSec, words[words.length - 1].endSec);
+}
+
+/**
+ * Drag one edge of word `index` to `sec`. Where that edge touches the neighbouring word
+ * the boundary moves for both; otherwise the word stops at its neighbour. `minSec`/`maxSec`
+ * bound the first start and last end (the clip's range).
+ */
+export function moveWordEdge(
+  words: LyricWord[],
+  index: number,
+  edge: 'start' | 'end',
+  sec: number,
+  minSec = 0,
+  maxSec = Infinity,
+): LyricWord[] {
+  const w = words[index];
+  if (!w) return words;
+  const out = words.slice();
+  if (edge === 'start') {
+    const prev = words[index - 1];
+    const joined = !!prev && Math.abs(prev.endSec - w.startSec) < JOINED_SEC;
+    const lo = prev ? (joined ? prev.startSec + MIN_WORD_SEC : prev.endSec) : minSec;
+    const t = Math.min(Math.max(sec, lo), w.endSec - MIN_WORD_SEC);
+    out[index] = { ...w, startSec: t };
+    if (joined) out[index - 1] = { ...prev, endSec: t };
+  } else {
+    const next = words[index + 1];
+    const joined = !!next && Math.abs(next.startSec - w.endSec) < JOINED_SEC;
+    const hi = next ? (joined ? next.endSec - MIN_WORD_SEC : next.startSec) : maxSec;
+    const t = Math.max(Math.min(sec, hi), w.startSec + MIN_WORD_SEC);
+    out[index] = { ...w, endSec: t };
+    if (joined) out[index + 1] = { ...next, startSec: t };
+  }
+  return out;
+}
@@ -1,9 +1,13 @@
 // src/lib/lyrics.ts
+import type { LyricWord } from '@/types/music';
+import { spreadWords } from './lyricWords';
+
 export type AlignedLine = {
   text: string;
   startSec: number;
   endSec?: number;
   confidence?: number;
+  words?: LyricWord[];
 };
 
 /** Detects format and returns array of { text, startSec, endSec? } */
@@ -33,9 +37,37 @@ function parsePlain(txt: string): AlignedLine[] {
   return lines.map(l => ({ text: l, startSec: 0 }));
 }
 
+// Enhanced LRC word tags: [00:12.00]<00:12.00>Hold <00:12.40>me <00:12.70>closer<00:13.50>
+const WORD_TAG = /<(\d{1,2}):(\d{2})(?:\.(\d{1,3}))?>/g;
+
+type WordRun = { texts: string[]; startSec: number; endSec?: number };
+
+/** Text with word tags removed, and the timed runs of words between tags. */
+function splitWordTags(text: string, lineStartSec: number): { text: string; runs: WordRun[] } {
+  const runs: WordRun[] = [];
+  let at = lineStartSec;
+  let from = 0;
+  const flush = (until: number, endSec?: number) => {
+    const texts = text.slice(from, until).trim().split(/\s+/).filter(Boolean);
+    if (texts.length) runs.push({ texts, startSec: at, endSec });
+  };
+  WORD_TAG.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = WORD_TAG.exec(text))) {
+    const t = parseInt(m[1], 10) * 60 + parseInt(m[2], 10) + (m[3] ? parseInt(pad3(m[3]), 10) / 1000 : 0);
+    flush(m.index, t);
+    at = t;
+    from = m.index + m[0].length;
+  }
+  // words after the last tag are still open; a closing tag leaves nothing here
+  flush(text.length);
+  return { text: text.replace(WORD_TAG, ' ').replace(/\s+/g, ' ').trim(), runs };
+}
+
 function parseLRC(txt: string): AlignedLine[] {
   // supports multiple time-tags per line
   const out: AlignedLine[] = [];
+  const wordRuns = new Map<AlignedLine, WordRun[]>();
   const re = /\[(\d{1,2}):(\d{2})(?:\.(\d{1,3}))?\]\s*(.*)/g;
   for (const rawLine of txt.split('\n')) {
     let m: RegExpExecArray | null;
@@ -50,10 +82,15 @@ function parseLRC(txt: string): AlignedLine[] {
       times.push(t);
       lineText = m[4] ?? lineText;
     }
-    const text = (lineText || '').trim();
-    if (!times.length || !text) continue;
+    if (!times.length) continue;
+    // word tags are absolute times, so they only fit a line sung once
+    const tagged = splitWordTags(lineText || '', times[0]);
+    const text = tagged.text;
+    if (!text) continue;
     for (const t of times) {
-      out.push({ text, startSec: t });
+      const line: AlignedLine = { text, startSec: t };
+      if (times.length === 1 && tagged.runs.some(r => r.endSec !== undefined)) wordRuns.set(line, tagged.runs);
+      out.push(line);
     }
   }
   // optional endSec by looking ahead
@@ -63,6 +100,13 @@ function parseLRC(txt: string): AlignedLine[] {
       out[i].endSec = out[i + 1].startSec;
     }
   }
+  for (const [line, runs] of wordRuns) {
+    const last = runs[runs.length - 1];
+    if (line.endSec === undefined && last.endSec !== undefined) line.endSec = last.endSec;
+    // an open last word runs to the next line, or about 0.4 s a word
+    last.endSec ??= line.endSec ?? last.startSec + 0.4 * last.texts.length;
+    line.words = runs.flatMap(r => spreadWords(r.texts, r.startSec, r.endSec!));
+  }
   return out;
 }
 
@@ -0,0 +1,164 @@
+// src/lib/musicProject.ts
+// Validation and migration for .dtmusic project files (V1 → V2).
+
+import type { AudioProject, AudioProjectV1, LyricsClip, Marker, Note } from '@/types/music';
+
+export const MUSIC_PROJECT_VERSION = 2;
+
+// Same palette the canvas uses for new lyric clips
+const CLIP_COLORS = ['#34d399', '#60a5fa', '#f59e0b', '#f472b6', '#a78bfa'];
+
+type Issues = string[];
+
+const isObj = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isStr = (v: unknown): v is string => typeof v === 'string';
+
+function checkOptionalNumber(p: Record<string, any>, key: string, issues: Issues) {
+  if (p[key] !== undefined && !isNum(p[key])) issues.push(`"${key}" must be a number`);
+}
+
+function checkList(
+  p: Record<string, any>,
+  key: string,
+  required: boolean,
+  checkItem: (item: Record<string, any>, at: string, issues: Issues) => void,
+  issues: Issues,
+) {
+  const list = p[key];
+  if (list === undefined && !required) return;
+  if (!Array.isArray(list)) { issues.push(`"${key}" must be a list`); return; }
+  const seen = new Set<string>();
+  list.forEach((item, i) => {
+    const at = `${key}[${i}]`;
+    if (!isObj(item)) { issues.push(`${at} is not an object`); return; }
+    if (!isStr(item.id) || !item.id) issues.push(`${at} has no id`);
+    else if (seen.has(item.id)) issues.push(`${at} repeats id "${item.id}"`);
+    else seen.add(item.id);
+    checkItem(item, at, issues);
+  });
+}
+
+const checkNote = (n: Record<string, any>, at: string, issues: Issues) => {
+  if (!isNum(n.timestampSec) || n.timestampSec < 0) issues.push(`${at}.timestampSec must be a time ≥ 0`);
+  if (!isStr(n.text)) issues.push(`${at}.text must be text`);
+  for (const k of ['xOffsetPx', 'yPx', 'w', 'h']) if (!isNum(n[k])) issues.push(`${at}.${k} must be a number`);
+};
+
+const checkClip = (c: Record<string, any>, at: string, issues: Issues) => {
+  if (!isNum(c.timestampSec) || c.timestampSec < 0) issues.push(`${at}.timestampSec must be a time ≥ 0`);
+  if (!isStr(c.text)) issues.push(`${at}.text must be text`);
+  if (c.endSec !== undefined && (!isNum(c.endSec) || c.endSec <= c.timestampSec)) {
+    issues.push(`${at}.endSec must be after timestampSec`);
+  }
+  if (c.confidence !== undefined && (!isNum(c.confidence) || c.confidence < 0 || c.confidence > 1)) {
+    issues.push(`${at}.confidence must be between 0 and 1`);
+  }
+  if (c.words !== undefined) {
+    if (!Array.isArray(c.words)) { issues.push(`${at}.words must be a list`); return; }
+    c.words.forEach((w: unknown, i: number) => {
+      const wAt = `${at}.words[${i}]`;
+      if (!isObj(w)) { issues.push(`${wAt} is not an object`); return; }
+      if (!isStr(w.text)) issues.push(`${wAt}.text must be text`);
+      if (!isNum(w.startSec) || w.startSec < 0) issues.push(`${wAt}.startSec must be a time ≥ 0`);
+      else if (!isNum(w.endSec) || w.endSec < w.startSec) issues.push(`${wAt}.endSec must not be before startSec`);
+      const prev = c.words[i - 1];
+      if (i > 0 && isNum(prev?.endSec) && isNum(w.startSec) && w.startSec < prev.endSec) {
+        issues.push(`${wAt} overlaps the word before it`);
+      }
+    });
+  }
+};
+
+const checkMarker = (m: Record<string, any>, at: string, issues: Issues) => {
+  if (!isNum(m.sec) || m.sec < 0) issues.push(`${at}.sec must be a time ≥ 0`);
+  if (m.label !== undefined && !isStr(m.label)) issues.push(`${at}.label must be text`);
+};
+
+/** Every problem found in a parsed project file (empty when it can be loaded). */
+export function validateMusicProject(data: unknown): string[] {
+  const issues: Issues = [];
+  if (!isObj(data)) return ['the file is not a JSON object'];
+  if (data.kind !== 'dtmusic') {
+    return [data.kind === 'dtfilm'
+      ? 'this is a film project (.dtfilm), open it on the Film page'
+      : `"kind" is ${JSON.stringify(data.kind ?? null)}, expected "dtmusic"`];
+  }
+  if (data.version !== 1 && data.version !== 2) {
+    return [`version ${JSON.stringify(data.version ?? null)} is not supported (this app reads versions 1–${MUSIC_PROJECT_VERSION})`];
+  }
+
+  if (data.projectName !== undefined && !isStr(data.projectName)) issues.push('"projectName" must be text');
+  for (const k of ['zoom', 'panX', 'playheadSec', 'waveAmp']) checkOptionalNumber(data, k, issues);
+  checkList(data, 'notes', true, checkNote, issues);
+
+  if (data.version === 2) {
+    checkList(data, 'lyricsClips', false, checkClip, issues);
+    checkList(data, 'markers', false, checkMarker, issues);
+    checkOptionalNumber(data, 'lyricsOffsetSec', issues);
+    const loop = data.loop;
+    if (loop !== undefined) {
+      if (!isObj(loop)) issues.push('"loop" must be an object');
+      else {
+        if (loop.a != null && !isNum(loop.a)) issues.push('loop.a must be a time or null');
+        if (loop.b != null && !isNum(loop.b)) issues.push('loop.b must be a time or null');
+        if (isNum(loop.a) && isNum(loop.b) && loop.b <= loop.a) issues.push('loop.b must be after loop.a');
+      }
+    }
+  }
+  return issues;
+}
+
+/** V1 files only had notes and view settings. */
+function fromV1(p: AudioProjectV1): AudioProject {
+  return {
+    version: 2,
+    kind: 'dtmusic',
+    projectName: p.projectName,
+    zoom: p.zoom,
+    panX: p.panX,
+    playheadSec: p.playheadSec,
+    waveAmp: p.waveAmp,
+    notes: p.notes,
+    lyricsClips: [],
+    markers: [],
+    loop: { enabled: false, a: null, b: null },
+    lyricsOffsetSec: 0,
+    snappingEnabled: false,
+    dragMovesTimestamp: false,
+    audioMeta: p.audioMeta ?? null,
+  };
+}
+
+/**
+ * Validate a parsed .dtmusic file and bring it to the current version.
+ * Throws an Error naming the problems (first few) when the file can't be loaded.
+ */
+export function migrateMusicProject(data: unknown): AudioProject {
+  const issues = validateMusicProject(data);
+  if (issues.length) {
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    throw new Error(`Invalid music project file: ${issues.slice(0, 3).join('; ')}${more}`);
+  }
+
+  const raw = data as Record<string, any>;
+  const p: AudioProject = raw.version === 1 ? fromV1(raw as AudioProjectV1) : (raw as AudioProject);
+  const loop = p.loop ?? { enabled: false, a: null, b: null };
+  return {
+    version: 2,
+    kind: 'dtmusic',
+    projectName: p.projectName || 'Untitled Audio Project',
+    zoom: p.zoom ?? 100,
+    panX: p.panX ?? 0,
+    playheadSec: p.playheadSec ?? 0,
+    waveAmp: p.waveAmp ?? 0.22,
+    notes: p.notes as Note[],
+    lyricsClips: (p.lyricsClips ?? []).map((c: LyricsClip, i) => ({ ...c, color: c.color || CLIP_COLORS[i % CLIP_COLORS.length] })),
+    markers: (p.markers ?? []).map((m: Marker, i) => ({ ...m, label: m.label ?? String(i + 1), color: m.color || '#22c55e' })),
+    loop: { enabled: !!loop.enabled, a: loop.a ?? null, b: loop.b ?? null },
+    lyricsOffsetSec: p.lyricsOffsetSec ?? 0,
+    snappingEnabled: !!p.snappingEnabled,
+    dragMovesTimestamp: !!p.dragMovesTimestamp,
+    audioMeta: p.audioMeta ?? null,
+  };
+}
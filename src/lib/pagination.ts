@@ -0,0 +1,192 @@
+// src/lib/pagination.ts
+// Screenplay pagination: lays ScriptLines out on standard pages (Courier 12, 6 lines
+// per inch, 55 body lines) and measures scenes in eighths of a page.
+
+import type { LineType, ScriptLine } from './scriptTypes';
+
+/** Body lines on a US Letter page with 1" top/bottom margins. */
+export const LINES_PER_PAGE = 55;
+/** Industry rule of thumb: one page ≈ one minute. */
+export const DEFAULT_SECONDS_PER_PAGE = 60;
+
+type ElementLayout = {
+  width: number;        // characters per line (10 cpi)
+  spaceBefore: number;  // blank lines above the element
+};
+
+// Standard margins: action 1.5"–7.5", dialogue 2.5"–6", parenthetical 3.1"–5.6", character 3.7"
+const LAYOUT: Record<LineType, ElementLayout | null> = {
+  scene: { width: 60, spaceBefore: 2 },
+  shot: { width: 60, spaceBefore: 1 },
+  action: { width: 60, spaceBefore: 1 },
+  general: { width: 60, spaceBefore: 1 },
+  centered: { width: 60, spaceBefore: 1 },
+  character: { width: 38, spaceBefore: 1 },
+  parenthetical: { width: 25, spaceBefore: 0 },
+  dialogue: { width: 35, spaceBefore: 0 },
+  lyric: { width: 35, spaceBefore: 0 },
+  transition: { width: 15, spaceBefore: 1 },
+  // Not printed
+  section: null,
+  synopsis: null,
+  note: null,
+  boneyard: null,
+  title: null,
+  pagebreak: null,
+};
+
+/** Number of printed lines `text` wraps to in a column `width` characters wide. */
+export function wrapCount(text: string, width: number): number {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return 1;
+  let rows = 1;
+  let col = 0;
+  for (const w of words) {
+    const len = w.length;
+    if (col === 0) {
+      rows += Math.floor(Math.max(0, len - 1) / width);
+      col = len % width || width;
+    } else if (col + 1 + len <= width) {
+      col += 1 + len;
+    } else {
+      rows += 1 + Math.floor(Math.max(0, len - 1) / width);
+      col = len % width || width;
+    }
+  }
+  return rows;
+}
+
+type Block = {
+  sceneIndex: number;
+  spaceBefore: number;
+  rows: number;
+  /** Dialogue blocks may split across pages, costing a (MORE) and a CONT'D cue. */
+  splittable: boolean;
+  /** Scene headings are never left alone at the bottom of a page. */
+  keepWithNext: boolean;
+};
+
+export type SceneSpan = {
+  /** 1-based page the scene heading is printed on. */
+  startPage: number;
+  /** 0-based body line on that page. */
+  startLine: number;
+  endPage: number;
+  endLine: number;
+  /** Length in 1/8 pages (at least 1). */
+  eighths: number;
+};
+
+/** Group the lines of every scene into printable blocks (a cue with its speech is one block). */
+function toBlocks(scenes: ScriptLine[][]): (Block | 'break')[] {
+  const out: (Block | 'break')[] = [];
+  scenes.forEach((lines, sceneIndex) => {
+    let cur: Block | null = null;
+    for (const L of lines) {
+      if (L.type === 'pagebreak') { cur = null; out.push('break'); continue; }
+      const layout = LAYOUT[L.type];
+      if (!layout) continue;
+      if (!L.text.trim() && L.type !== 'dialogue') { cur = null; continue; }
+
+      const rows = wrapCount(L.text, layout.width);
+      const inSpeech = L.type === 'dialogue' || L.type === 'parenthetical' || L.type === 'lyric';
+      if (cur && inSpeech && cur.splittable) { cur.rows += rows; continue; }
+      if (cur && L.type === 'action' && !cur.splittable && !cur.keepWithNext) {
+        // Consecutive action lines form one paragraph
+        cur.rows += rows;
+        continue;
+      }
+
+      cur = {
+        sceneIndex,
+        spaceBefore: layout.spaceBefore,
+        rows,
+        splittable: L.type === 'character',
+        keepWithNext: L.type === 'scene',
+      };
+      out.push(cur);
+      if (L.type === 'scene' || L.type === 'transition') cur = null;
+    }
+  });
+  return out;
+}
+
+/**
+ * Lay out consecutive scenes (each one's lines should start with its heading) and
+ * report where every scene starts and ends. Scenes are measured by the body lines
+ * they cover, so a page-break gap belongs to the scene it interrupts.
+ */
+export function paginateScenes(scenes: ScriptLine[][], linesPerPage = LINES_PER_PAGE): SceneSpan[] {
+  const blocks = toBlocks(scenes);
+  let page = 1;
+  let line = 0;
+  const start: { page: number; line: number }[] = [];
+  const end: { page: number; line: number }[] = [];
+
+  const newPage = () => { page += 1; line = 0; };
+
+  for (let b = 0; b < blocks.length; b++) {
+    const block = blocks[b];
+    if (block === 'break') { if (line > 0) newPage(); continue; }
+
+    let gap = line === 0 ? 0 : block.spaceBefore;
+    let need = gap + block.rows;
+    if (block.keepWithNext) {
+      const next = blocks[b + 1];
+      if (next && next !== 'break') need += next.spaceBefore + Math.min(next.rows, 2);
+    }
+
+    if (line + need > linesPerPage && line > 0) {
+      const room = linesPerPage - line - gap;
+      // Split long speeches: cue + one line, (MORE) here, cue (CONT'D) on the next page
+      if (block.splittable && room >= 3) {
+        if (!start[block.sceneIndex]) start[block.sceneIndex] = { page, line: line + gap };
+        let rest = block.rows - (room - 1);
+        newPage();
+        while (rest + 1 > linesPerPage) { rest -= linesPerPage - 2; newPage(); }
+        line = 1 + rest;
+        end[block.sceneIndex] = { page, line };
+        continue;
+      }
+      newPage();
+      gap = 0;
+    }
+
+    if (!start[block.sceneIndex]) start[block.sceneIndex] = { page, line: line + gap };
+    line += gap + block.rows;
+    while (line > linesPerPage) { line -= linesPerPage; page += 1; }
+    end[block.sceneIndex] = { page, line };
+  }
+
+  return scenes.map((_, i) => {
+    const s = start[i] ?? end[i - 1] ?? { page: 1, line: 0 };
+    const e = end[i] ?? s;
+    const covered = (e.page - s.page) * linesPerPage + (e.line - s.line);
+    return {
+      startPage: s.page,
+      startLine: s.line,
+      endPage: e.page,
+      endLine: e.line,
+      eighths: Math.max(1, Math.round((covered * 8) / linesPerPage)),
+    };
+  });
+}
+
+/** Eighths of a single scene laid out on its own from the top of a page. */
+export function sceneEighths(lines: ScriptLine[], linesPerPage = LINES_PER_PAGE): number {
+  return paginateScenes([lines], linesPerPage)[0].eighths;
+}
+
+/** Screen time for a length in eighths at the given seconds-per-page rate. */
+export function eighthsToSeconds(eighths: number, secondsPerPage = DEFAULT_SECONDS_PER_PAGE): number {
+  return Math.max(1, Math.round((eighths / 8) * secondsPerPage));
+}
+
+/** 11 → "1 3/8", 8 → "1", 3 → "3/8" (the way breakdown sheets print it). */
+export function formatEighths(eighths: number): string {
+  const e = Math.max(0, Math.round(eighths));
+  const pages = Math.floor(e / 8);
+  const rest = e % 8;
+  if (!rest) return String(pages);
+  return pages ? `${pages} ${rest}/8` : `${rest}/8`;
+}
@@ -0,0 +1,117 @@
+// src/lib/projectDiff.ts
+// What changed between two saved film projects: scenes are matched by id and reported
+// as added, removed, moved, resized, retitled or renumbered (timeline order, script number or
+// production number); notes as added, removed or edited.
+
+export type DiffScene = {
+  id: string;
+  heading: string;
+  positionSec: number;
+  lengthSec: number;
+  trackId?: string;
+  /** Number from the imported script. */
+  originalSceneNumber?: number;
+  /** Production number, stored once numbering is locked. */
+  sceneNumber?: string;
+};
+
+export type DiffNote = { id: string; sceneId: string; text: string };
+
+export type DiffableProject = { scenes: DiffScene[]; notes: DiffNote[] };
+
+export type SceneChange =
+  | { kind: 'added'; id: string; heading: string; number: number }
+  | { kind: 'removed'; id: string; heading: string; number: number }
+  | { kind: 'moved'; id: string; heading: string; fromSec: number; toSec: number; fromTrack?: string; toTrack?: string }
+  | { kind: 'resized'; id: string; heading: string; fromSec: number; toSec: number }
+  | { kind: 'retitled'; id: string; from: string; to: string }
+  | { kind: 'renumbered'; id: string; heading: string; numbering: SceneNumberKind; from: string; to: string };
+
+/** timeline: position in timeline order; script: originalSceneNumber; production: the locked sceneNumber. */
+export type SceneNumberKind = 'timeline' | 'script' | 'production';
+
+export type NoteChange =
+  | { kind: 'added'; id: string; sceneId: string; text: string }
+  | { kind: 'removed'; id: string; sceneId: string; text: string }
+  | { kind: 'edited'; id: string; sceneId: string; from: string; to: string; fromScene?: string };
+
+export type ProjectDiff = { scenes: SceneChange[]; notes: NoteChange[] };
+
+// Positions within a millisecond are the same (float noise from dragging/snapping)
+const EPS = 1e-3;
+const differs = (a: number, b: number) => Math.abs(a - b) > EPS;
+
+/** Scene numbers in timeline order (1-based), as shown on the canvas. */
+export function timelineNumbers(scenes: DiffScene[]): Map<string, number> {
+  const sorted = [...scenes].sort((a, b) => a.positionSec - b.positionSec);
+  return new Map(sorted.map((s, i) => [s.id, i + 1]));
+}
+
+export function diffProjects(before: DiffableProject, after: DiffableProject): ProjectDiff {
+  const scenes: SceneChange[] = [];
+  const oldNum = timelineNumbers(before.scenes);
+  const newNum = timelineNumbers(after.scenes);
+  const oldById = new Map(before.scenes.map(s => [s.id, s]));
+  const newIds = new Set(after.scenes.map(s => s.id));
+
+  for (const s of before.scenes) {
+    if (!newIds.has(s.id)) scenes.push({ kind: 'removed', id: s.id, heading: s.heading, number: oldNum.get(s.id)! });
+  }
+  for (const s of after.scenes) {
+    const prev = oldById.get(s.id);
+    if (!prev) {
+      scenes.push({ kind: 'added', id: s.id, heading: s.heading, number: newNum.get(s.id)! });
+      continue;
+    }
+    if (differs(prev.positionSec, s.positionSec) || (prev.trackId ?? '') !== (s.trackId ?? '')) {
+      scenes.push({
+        kind: 'moved', id: s.id, heading: s.heading, fromSec: prev.positionSec, toSec: s.positionSec,
+        ...((prev.trackId ?? '') !== (s.trackId ?? '') ? { fromTrack: prev.trackId, toTrack: s.trackId } : {}),
+      });
+    }
+    if (differs(prev.lengthSec, s.lengthSec)) {
+      scenes.push({ kind: 'resized', id: s.id, heading: s.heading, fromSec: prev.lengthSec, toSec: s.lengthSec });
+    }
+    if (prev.heading !== s.heading) scenes.push({ kind: 'retitled', id: s.id, from: prev.heading, to: s.heading });
+    const renumbered = (numbering: SceneNumberKind, from: string, to: string) => {
+      if (from !== to) scenes.push({ kind: 'renumbered', id: s.id, heading: s.heading, numbering, from, to });
+    };
+    renumbered('timeline', String(oldNum.get(s.id)), String(newNum.get(s.id)));
+    renumbered('script', String(prev.originalSceneNumber ?? ''), String(s.originalSceneNumber ?? ''));
+    // unlocked numbers follow the timeline order, which is reported above
+    if (prev.sceneNumber != null || s.sceneNumber != null) {
+      renumbered('production', prev.sceneNumber ?? String(oldNum.get(s.id)), s.sceneNumber ?? String(newNum.get(s.id)));
+    }
+  }
+
+  const notes: NoteChange[] = [];
+  const oldNotes = new Map(before.notes.map(n => [n.id, n]));
+  const newNoteIds = new Set(after.notes.map(n => n.id));
+  for (const n of before.notes) {
+    if (!newNoteIds.has(n.id)) notes.push({ kind: 'removed', id: n.id, sceneId: n.sceneId, text: n.text });
+  }
+  for (const n of after.notes) {
+    const prev = oldNotes.get(n.id);
+    if (!prev) notes.push({ kind: 'added', id: n.id, sceneId: n.sceneId, text: n.text });
+    else if (prev.text !== n.text || prev.sceneId !== n.sceneId) {
+      notes.push({
+        kind: 'edited', id: n.id, sceneId: n.sceneId, from: prev.text, to: n.text,
+        ...(prev.sceneId !== n.sceneId ? { fromScene: prev.sceneId } : {}),
+      });
+    }
+  }
+  return { scenes, notes };
+}
+
+/** Ids of scenes whose old position should be drawn as a ghost (moved, resized or removed). */
+export function ghostSceneIds(diff: ProjectDiff): Set<string> {
+  return new Set(diff.scenes.filter(c => c.kind === 'moved' || c.kind === 'resized' || c.kind === 'removed').map(c => c.id));
+}
+
+/** Counts per kind, e.g. { moved: 3, added: 1 }. */
+export function summarizeDiff(diff: ProjectDiff): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const c of diff.scenes) out[c.kind] = (out[c.kind] ?? 0) + 1;
+  if (diff.notes.length) out.notes = diff.notes.length;
+  return out;
+}
@@ -0,0 +1,172 @@
+// src/lib/projectStore.ts
+// IndexedDB project library: many named film/music projects, their audio files and
+// periodic snapshots. Replaces the single-slot localStorage autosave of each canvas.
+// Also keeps recent transcripts by audio hash, so analyzing a track again is instant.
+
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { Transcript } from './transcription/types';
+
+export type ProjectKind = 'dtfilm' | 'dtmusic';
+
+export type ProjectRecord = {
+  id: string;
+  kind: ProjectKind;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** The project file (ProjectFileV1 / AudioProject) as saved by the canvas. */
+  data: unknown;
+  /** Key in the blobs store of the project's audio file (music only). */
+  audioBlobId?: string;
+};
+
+export type ProjectSummary = Pick<ProjectRecord, 'id' | 'kind' | 'name' | 'createdAt' | 'updatedAt'>;
+
+export type StoredBlob = { id: string; projectId: string; name: string; type: string; blob: Blob };
+
+export type Snapshot = { id?: number; projectId: string; createdAt: number; label: string; data: unknown };
+
+/** A transcript of the audio with SHA-256 `hash`. */
+export type CachedTranscript = { hash: string; savedAt: number; transcript: Transcript };
+
+interface ProjectDB extends DBSchema {
+  projects: { key: string; value: ProjectRecord; indexes: { updatedAt: number } };
+  blobs: { key: string; value: StoredBlob; indexes: { projectId: string } };
+  snapshots: { key: number; value: Snapshot; indexes: { projectId: string } };
+  transcripts: { key: string; value: CachedTranscript; indexes: { savedAt: number } };
+}
+
+const DB_NAME = 'dt-projects';
+const DB_VERSION = 2;
+
+/** Minimum time between automatic snapshots of a project. */
+export const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+/** Snapshots kept per project; older ones are pruned. */
+export const SNAPSHOT_LIMIT = 20;
+/** Transcripts kept; the least recently saved are pruned. */
+export const TRANSCRIPT_LIMIT = 50;
+/** localStorage key remembering the project each workspace had open. */
+export const activeProjectKey = (kind: ProjectKind) => `dt:${kind === 'dtfilm' ? 'film' : 'music'}:projectId`;
+
+let dbPromise: Promise<IDBPDatabase<ProjectDB>> | null = null;
+
+function db() {
+  if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available in this browser');
+  dbPromise ??= openDB<ProjectDB>(DB_NAME, DB_VERSION, {
+    upgrade(d, oldVersion) {
+      if (oldVersion < 1) {
+        d.createObjectStore('projects', { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        d.createObjectStore('blobs', { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        d.createObjectStore('snapshots', { keyPath: 'id', autoIncrement: true }).createIndex('projectId', 'projectId');
+      }
+      if (oldVersion < 2) d.createObjectStore('transcripts', { keyPath: 'hash' }).createIndex('savedAt', 'savedAt');
+    },
+  });
+  return dbPromise;
+}
+
+export const newProjectId = () => crypto.randomUUID();
+
+/** Whether enough time has passed since the last snapshot to take another. */
+export function isSnapshotDue(lastSnapshotAt: number | null, now: number, interval = SNAPSHOT_INTERVAL_MS) {
+  return lastSnapshotAt == null || now - lastSnapshotAt >= interval;
+}
+
+/** Ids of the snapshots to delete so only the newest `limit` remain. */
+export function snapshotsToPrune(snapshots: Pick<Snapshot, 'id' | 'createdAt'>[], limit = SNAPSHOT_LIMIT): number[] {
+  return [...snapshots]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(limit)
+    .map(s => s.id!)
+    .filter(id => id != null);
+}
+
+/** Most recently edited first. */
+export async function listProjects(kind?: ProjectKind): Promise<ProjectSummary[]> {
+  const all = await (await db()).getAllFromIndex('projects', 'updatedAt');
+  return all
+    .reverse()
+    .filter(p => !kind || p.kind === kind)
+    .map(({ id, kind, name, createdAt, updatedAt }) => ({ id, kind, name, createdAt, updatedAt }));
+}
+
+export async function getProject(id: string): Promise<ProjectRecord | undefined> {
+  return (await db()).get('projects', id);
+}
+
+/** Create or update a project; keeps its creation time and audio link. */
+export async function saveProject(p: Pick<ProjectRecord, 'id' | 'kind' | 'name' | 'data'> & { audioBlobId?: string }) {
+  const d = await db();
+  const tx = d.transaction('projects', 'readwrite');
+  const prev = await tx.store.get(p.id);
+  const now = Date.now();
+  await tx.store.put({
+    ...prev,
+    ...p,
+    name: p.name || 'Untitled',
+    audioBlobId: p.audioBlobId ?? prev?.audioBlobId,
+    createdAt: prev?.createdAt ?? now,
+    updatedAt: now,
+  });
+  await tx.done;
+}
+
+export async function deleteProject(id: string) {
+  const d = await db();
+  const tx = d.transaction(['projects', 'blobs', 'snapshots'], 'readwrite');
+  await tx.objectStore('projects').delete(id);
+  for (const key of await tx.objectStore('blobs').index('projectId').getAllKeys(id)) {
+    await tx.objectStore('blobs').delete(key);
+  }
+  for (const key of await tx.objectStore('snapshots').index('projectId').getAllKeys(id)) {
+    await tx.objectStore('snapshots').delete(key);
+  }
+  await tx.done;
+}
+
+/** Store a file for a project (one audio file per project; re-saving replaces it). */
+export async function putProjectBlob(projectId: string, role: string, file: Blob & { name?: string }): Promise<string> {
+  const id = `${projectId}:${role}`;
+  await (await db()).put('blobs', { id, projectId, name: file.name ?? role, type: file.type, blob: file });
+  return id;
+}
+
+export async function getProjectBlob(id: string): Promise<StoredBlob | undefined> {
+  return (await db()).get('blobs', id);
+}
+
+export async function addSnapshot(projectId: string, data: unknown, label = 'Autosave') {
+  const d = await db();
+  const tx = d.transaction('snapshots', 'readwrite');
+  await tx.store.add({ projectId, createdAt: Date.now(), label, data });
+  const existing = await tx.store.index('projectId').getAll(projectId);
+  for (const id of snapshotsToPrune(existing)) await tx.store.delete(id);
+  await tx.done;
+}
+
+/** Newest first. */
+export async function listSnapshots(projectId: string): Promise<Snapshot[]> {
+  const all = await (await db()).getAllFromIndex('snapshots', 'projectId', projectId);
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getCachedTranscript(hash: string): Promise<Transcript | undefined> {
+  return (await (await db()).get('transcripts', hash))?.transcript;
+}
+
+/** Keep a transcript for its audio hash, pruning the oldest beyond TRANSCRIPT_LIMIT. */
+export async function cacheTranscript(hash: string, transcript: Transcript) {
+  const d = await db();
+  const tx = d.transaction('transcripts', 'readwrite');
+  await tx.store.put({ hash, savedAt: Date.now(), transcript });
+  const keys = await tx.store.index('savedAt').getAllKeys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - TRANSCRIPT_LIMIT))) await tx.store.delete(key);
+  await tx.done;
+}
+
+/** A short message for storage failures (quota errors in particular). */
+export function storageErrorMessage(err: unknown): string {
+  const name = (err as { name?: string })?.name;
+  if (name === 'QuotaExceededError') return 'Browser storage is full — save a bundle and delete old projects';
+  return (err as Error)?.message || String(err);
+}
@@ -0,0 +1,199 @@
+// src/lib/sceneNumbering.ts
+// Production scene numbering. Unlocked, scenes are numbered 1..n in timeline order; once
+// locked, every scene keeps its number, new scenes get A/B inserts (12A between 12 and 13,
+// A1 before 1) and deleted scenes stay behind as OMITTED placeholders until a renumber.
+
+export type NumberedScene = {
+  id: string;
+  positionSec: number;
+  heading?: string;
+  /** Number frozen by locking (or typed while locked); ignored while unlocked. */
+  sceneNumber?: string;
+};
+
+export type OmittedScene = { number: string; heading: string };
+
+export type SceneNumbering = {
+  locked: boolean;
+  /** Numbers of scenes deleted while locked. */
+  omitted: OmittedScene[];
+};
+
+export const DEFAULT_NUMBERING: SceneNumbering = { locked: false, omitted: [] };
+
+export type RenumberChange = { id: string; heading: string; from: string; to: string };
+
+export type RenumberReport = {
+  changes: RenumberChange[];
+  /** OMITTED placeholders that a renumber drops. */
+  omitted: OmittedScene[];
+};
+
+/** One printed entry: a scene with its number, or an OMITTED placeholder. */
+export type NumberedRow<T> =
+  | { kind: 'scene'; number: string; scene: T }
+  | { kind: 'omitted'; number: string; heading: string };
+
+// I and O are skipped so inserts aren't misread as 1 and 0 on call sheets
+const LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const MAX_CANDIDATES = LETTERS.length * (LETTERS.length + 1);
+
+/** 0 → "A", 23 → "Z", 24 → "AA", … */
+function letters(i: number): string {
+  let out = '';
+  let n = i + 1;
+  while (n > 0) {
+    n -= 1;
+    out = LETTERS[n % LETTERS.length] + out;
+    n = Math.floor(n / LETTERS.length);
+  }
+  return out;
+}
+
+const compareLetters = (a: string, b: string) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+
+/** "A12B" → { prefix: 'A', num: 12, suffix: 'B' }; null for anything that isn't letters-digits-letters. */
+export function parseSceneNumber(value: string): { prefix: string; num: number; suffix: string } | null {
+  const m = /^([A-Z]*)(\d+)([A-Z]*)$/.exec(value.trim().toUpperCase());
+  return m ? { prefix: m[1], num: Number(m[2]), suffix: m[3] } : null;
+}
+
+/** Trimmed, upper-cased scene number, or null when it isn't a valid one. */
+export function normalizeSceneNumber(input: string): string | null {
+  const v = input.replace(/\s+/g, '').toUpperCase();
+  return parseSceneNumber(v) ? v : null;
+}
+
+/** Script order of scene numbers: A1 < 1 < 1A < 1B < 2 < 12 < 12A < 12AA < 13. */
+export function compareSceneNumbers(a: string, b: string): number {
+  const pa = parseSceneNumber(a);
+  const pb = parseSceneNumber(b);
+  if (!pa || !pb) {
+    if (pa || pb) return pa ? -1 : 1;
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+  if (pa.num !== pb.num) return pa.num - pb.num;
+  if (pa.prefix !== pb.prefix) {
+    // prefixed numbers come before the plain one (A12 < 12)
+    if (!pa.prefix) return 1;
+    if (!pb.prefix) return -1;
+    return compareLetters(pa.prefix, pb.prefix);
+  }
+  return compareLetters(pa.suffix, pb.suffix);
+}
+
+/**
+ * Number for a scene inserted between `prev` and `next` (either may be null) that isn't
+ * in `taken`: 12 → 12A, 12A → 12B, before 1 → A1, after A1 → B1. When nothing fits in
+ * between (12 and 12A), the first free number after `prev` is used.
+ */
+export function insertSceneNumber(prev: string | null, next: string | null, taken: Set<string>): string {
+  const candidates: string[] = [];
+  const p = prev ? parseSceneNumber(prev) : null;
+  const n = next ? parseSceneNumber(next) : null;
+  const each = (make: (i: number) => string) => {
+    for (let i = 0; i < MAX_CANDIDATES; i++) candidates.push(make(i));
+  };
+  if (prev && p) {
+    if (p.prefix) each(i => `${letters(i)}${p.num}`);
+    each(i => `${p.prefix}${p.num}${letters(i)}`);
+  } else if (prev) {
+    each(i => `${prev}${letters(i)}`);
+  } else if (n) {
+    each(i => `${letters(i)}${n.num}`);
+  } else {
+    each(i => String(i + 1));
+  }
+  const free = candidates.filter(c => !taken.has(c) && (!prev || compareSceneNumbers(c, prev) > 0));
+  return free.find(c => !next || compareSceneNumbers(c, next) < 0) ?? free[0] ?? `${prev ?? next ?? ''}${letters(taken.size)}`;
+}
+
+const byPosition = <T extends NumberedScene>(scenes: T[]) =>
+  scenes.map((s, i) => ({ s, i })).sort((a, b) => a.s.positionSec - b.s.positionSec || a.i - b.i).map(x => x.s);
+
+/** Scene id → production number under the given numbering. */
+export function assignSceneNumbers(scenes: NumberedScene[], numbering: SceneNumbering): Map<string, string> {
+  const sorted = byPosition(scenes);
+  const out = new Map<string, string>();
+  if (!numbering.locked) {
+    sorted.forEach((s, i) => out.set(s.id, String(i + 1)));
+    return out;
+  }
+
+  // Frozen numbers win; a repeated one (a duplicated scene) is treated as a new scene
+  const fixed = new Map<string, string>();
+  const seen = new Set<string>();
+  for (const s of sorted) {
+    const v = s.sceneNumber?.trim();
+    if (v && !seen.has(v)) { fixed.set(s.id, v); seen.add(v); }
+  }
+  const taken = new Set([...fixed.values(), ...numbering.omitted.map(o => o.number)]);
+
+  let prev: string | null = null;
+  sorted.forEach((s, i) => {
+    let num = fixed.get(s.id);
+    if (!num) {
+      const after = sorted.slice(i + 1).find(x => fixed.has(x.id));
+      num = insertSceneNumber(prev, after ? fixed.get(after.id)! : null, taken);
+      taken.add(num);
+    }
+    out.set(s.id, num);
+    prev = num;
+  });
+  return out;
+}
+
+/** Freeze the numbers the scenes currently show (call when locking). */
+export function lockSceneNumbers<T extends NumberedScene>(scenes: T[], numbering: SceneNumbering): T[] {
+  const numbers = assignSceneNumbers(scenes, numbering);
+  return scenes.map(s => ({ ...s, sceneNumber: numbers.get(s.id) }));
+}
+
+/** Record the scenes about to be removed as OMITTED (only while locked). */
+export function omitScenes(numbering: SceneNumbering, scenes: NumberedScene[], removedIds: Iterable<string>): SceneNumbering {
+  if (!numbering.locked) return numbering;
+  const numbers = assignSceneNumbers(scenes, numbering);
+  const added: OmittedScene[] = [];
+  for (const id of removedIds) {
+    const s = scenes.find(x => x.id === id);
+    const number = numbers.get(id);
+    if (s && number) added.push({ number, heading: s.heading ?? '' });
+  }
+  if (!added.length) return numbering;
+  const omitted = [...numbering.omitted, ...added].sort((a, b) => compareSceneNumbers(a.number, b.number));
+  return { ...numbering, omitted };
+}
+
+/** What unlocking would do: every number that changes, and the placeholders that go away. */
+export function renumberReport(scenes: NumberedScene[], numbering: SceneNumbering): RenumberReport {
+  const current = assignSceneNumbers(scenes, numbering);
+  const next = assignSceneNumbers(scenes, DEFAULT_NUMBERING);
+  const changes: RenumberChange[] = [];
+  for (const s of byPosition(scenes)) {
+    const from = current.get(s.id)!;
+    const to = next.get(s.id)!;
+    if (from !== to) changes.push({ id: s.id, heading: s.heading ?? '', from, to });
+  }
+  return { changes, omitted: numbering.locked ? numbering.omitted : [] };
+}
+
+/**
+ * Scenes in timeline order with their numbers, and OMITTED placeholders slotted in after
+ * the last entry that numbers before them (what the exports print).
+ */
+export function numberedRows<T extends NumberedScene>(scenes: T[], numbering: SceneNumbering): NumberedRow<T>[] {
+  const numbers = assignSceneNumbers(scenes, numbering);
+  const rows: NumberedRow<T>[] = byPosition(scenes).map(scene => ({ kind: 'scene', number: numbers.get(scene.id)!, scene }));
+  if (!numbering.locked) return rows;
+
+  const used = new Set(numbers.values());
+  const omitted = numbering.omitted
+    .filter(o => !used.has(o.number))
+    .sort((a, b) => compareSceneNumbers(a.number, b.number));
+  for (const o of omitted) {
+    let at = 0;
+    rows.forEach((r, i) => { if (compareSceneNumbers(r.number, o.number) < 0) at = i + 1; });
+    rows.splice(at, 0, { kind: 'omitted', number: o.number, heading: o.heading });
+  }
+  return rows;
+}
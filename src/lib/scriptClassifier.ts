@@ -0,0 +1,298 @@
+// src/lib/scriptClassifier.ts
+// Fountain 1.1 line classifier shared by the parser, the writer pages and the film timeline.
+// Returns exactly one ScriptLine per source line so editors can map rows back to the text.
+
+import type { LineType, ScriptLine, TitlePage } from './scriptTypes';
+
+export type ClassifyOptions = {
+  /** Recognize a `Key: value` title page at the top of the text (default true). */
+  titlePage?: boolean;
+};
+
+// INT, EXT, EST, INT./EXT, INT/EXT, I/E followed by a dot or a space
+const SCENE_PREFIX_RE = /^(?:INT\.?\/EXT|INT|EXT|EST|I\/E)[.\s]/i;
+// Leading scene number as printed by most PDF/DOCX exports: "12A. INT. ..." / "3) EXT. ..."
+const LEADING_NUMBER_RE = /^(\d+[A-Z]?)[.:)]?\s+(?=(?:INT|EXT|EST|I\/E))/i;
+// Trailing scene number separated by a tab or 2+ spaces: "INT. ROOM - DAY    12A"
+const TRAILING_NUMBER_RE = /(?:\s{2,}|\t)+(\d+[A-Z]?)\s*$/;
+// Fountain scene number: "INT. ROOM - DAY #12A#"
+const FOUNTAIN_NUMBER_RE = /\s*#([\w.\-]+)#\s*$/;
+const TITLE_KEY_RE = /^([A-Za-z][A-Za-z0-9 _-]*):\s*(.*)$/;
+// Keys from the Fountain spec; any other key must be written in mixed case so "CUT TO:" never opens a title page
+const TITLE_KEYS = ['title', 'credit', 'author', 'authors', 'source', 'draft date', 'date', 'contact', 'copyright', 'notes', 'revision'];
+const PAGE_BREAK_RE = /^={3,}$/;
+const PAREN_RE = /^\(.*\)$/;
+const EXTENSIONS_RE = /(?:\s*\([^)]*\))+\s*$/;
+
+type Stripped = {
+  raw: string;
+  visible: string;     // text with boneyard and notes removed
+  notes: string[];
+  boneyard: boolean;   // line touched by /* ... */
+};
+
+/** True when the text starts like an (unforced) scene heading, ignoring printed scene numbers. */
+export function isSceneHeading(text: string): boolean {
+  const t = (text || '').trim().replace(LEADING_NUMBER_RE, '');
+  return SCENE_PREFIX_RE.test(t);
+}
+
+/**
+ * Remove boneyard (/* *\/) and [[notes]] from every line.
+ * Both may span several lines; the state is carried across the loop.
+ */
+function stripMarkup(rawLines: string[]): Stripped[] {
+  const out: Stripped[] = [];
+  let inBoneyard = false;
+  let inNote = false;
+
+  for (const raw of rawLines) {
+    // Notes cannot span a truly blank line
+    if (inNote && raw.length === 0) inNote = false;
+
+    let visible = '';
+    const notes: string[] = [];
+    let boneyard = inBoneyard;
+    let i = 0;
+
+    while (i < raw.length) {
+      if (inBoneyard) {
+        const end = raw.indexOf('*/', i);
+        if (end === -1) { i = raw.length; break; }
+        inBoneyard = false;
+        i = end + 2;
+        continue;
+      }
+      if (inNote) {
+        const end = raw.indexOf(']]', i);
+        const frag = raw.slice(i, end === -1 ? raw.length : end).trim();
+        if (frag) notes.push(frag);
+        if (end === -1) { i = raw.length; break; }
+        inNote = false;
+        i = end + 2;
+        continue;
+      }
+      const b = raw.indexOf('/*', i);
+      const n = raw.indexOf('[[', i);
+      if (b === -1 && n === -1) { visible += raw.slice(i); break; }
+      const next = b === -1 ? n : n === -1 ? b : Math.min(b, n);
+      visible += raw.slice(i, next);
+      if (next === b) { inBoneyard = true; boneyard = true; }
+      else inNote = true;
+      i = next + 2;
+    }
+
+    out.push({ raw, visible, notes, boneyard });
+  }
+  return out;
+}
+
+function splitSceneNumber(t: string): { text: string; sceneNumber?: string } {
+  let text = t.trim();
+  let sceneNumber: string | undefined;
+  const fountain = FOUNTAIN_NUMBER_RE.exec(text);
+  if (fountain) {
+    sceneNumber = fountain[1];
+    text = text.slice(0, fountain.index).trim();
+  }
+  const lead = LEADING_NUMBER_RE.exec(text);
+  if (lead) {
+    sceneNumber ??= lead[1];
+    text = text.slice(lead[0].length);
+  }
+  const trail = TRAILING_NUMBER_RE.exec(text);
+  if (trail) {
+    sceneNumber ??= trail[1];
+    text = text.slice(0, trail.index);
+  }
+  return { text: text.trim(), sceneNumber };
+}
+
+function characterName(t: string, forced: boolean): { text: string; dual: boolean } | null {
+  let body = t.trim();
+  const dual = body.endsWith('^');
+  if (dual) body = body.slice(0, -1).trimEnd();
+  if (forced) return body ? { text: body, dual } : null;
+  const name = body.replace(EXTENSIONS_RE, '');
+  if (!/\p{L}/u.test(name)) return null;
+  if (name !== name.toUpperCase()) return null;
+  return { text: body, dual };
+}
+
+/** Classify Fountain (or Fountain-ish) text into one ScriptLine per source line. */
+export function classifyLines(text: string, options: ClassifyOptions = {}): ScriptLine[] {
+  const rawLines = (text || '').replace(/\r\n?/g, '\n').split('\n');
+  const rows = stripMarkup(rawLines);
+  const out: ScriptLine[] = [];
+
+  const isBlankAt = (i: number) => {
+    if (i < 0 || i >= rows.length) return true;
+    return rows[i].visible.trim() === '';
+  };
+  const prevBlank = (i: number) => isBlankAt(i - 1);
+  const nextBlank = (i: number) => isBlankAt(i + 1);
+
+  // ---- title page ----
+  let i = 0;
+  if (options.titlePage !== false) {
+    let first = 0;
+    while (first < rows.length && rows[first].raw.trim() === '') first++;
+    const m = first < rows.length ? TITLE_KEY_RE.exec(rows[first].raw.trim()) : null;
+    if (m && (TITLE_KEYS.includes(m[1].trim().toLowerCase()) || /[a-z]/.test(m[1]))) {
+      for (let k = 0; k < first; k++) out.push({ type: 'action', text: '' });
+      i = first;
+      while (i < rows.length && rows[i].raw.trim() !== '') {
+        const raw = rows[i].raw;
+        const kv = TITLE_KEY_RE.exec(raw.trim());
+        if (kv && !/^(?:\s{3,}|\t)/.test(raw)) {
+          out.push({ type: 'title', key: kv[1].trim(), text: kv[2].trim() });
+        } else {
+          // Indented continuation of the previous key (Authors, Contact, ...)
+          out.push({ type: 'title', text: raw.trim() });
+        }
+        i++;
+      }
+    }
+  }
+
+  // ---- body ----
+  let inDialogue = false;
+  let dualSide: 'left' | 'right' | undefined;
+
+  const push = (line: ScriptLine, notes: string[]) => {
+    if (notes.length && line.type !== 'note') line.notes = notes;
+    out.push(line);
+  };
+
+  for (; i < rows.length; i++) {
+    const row = rows[i];
+    const v = row.visible;
+    const t = v.trim();
+
+    if (t === '') {
+      if (row.boneyard) { out.push({ type: 'boneyard', text: row.raw }); continue; }
+      if (row.notes.length) { out.push({ type: 'note', text: row.notes.join(' ') }); continue; }
+      // Two spaces keep a dialogue block open across an "empty" line
+      if (inDialogue && v === '  ') { push({ type: 'dialogue', text: '', dual: dualSide }, []); continue; }
+      out.push({ type: 'action', text: '' });
+      inDialogue = false;
+      dualSide = undefined;
+      continue;
+    }
+
+    const notes = row.notes;
+
+    // ---- page break / forced elements ----
+    if (PAGE_BREAK_RE.test(t)) {
+      push({ type: 'pagebreak', text: '' }, notes);
+      inDialogue = false;
+      continue;
+    }
+    if (t.startsWith('!')) {
+      push({ type: 'action', text: v.trimEnd().replace(/^(\s*)!/, '$1'), forced: true }, notes);
+      inDialogue = false;
+      continue;
+    }
+    if (t.startsWith('~')) {
+      push({ type: 'lyric', text: t.slice(1).trim() }, notes);
+      continue;
+    }
+    if (t.startsWith('>') && t.endsWith('<') && t.length > 1) {
+      push({ type: 'centered', text: t.slice(1, -1).trim() }, notes);
+      inDialogue = false;
+      continue;
+    }
+    if (t.startsWith('>')) {
+      push({ type: 'transition', text: t.slice(1).trim(), forced: true }, notes);
+      inDialogue = false;
+      continue;
+    }
+    if (/^\.[^.]/.test(t)) {
+      const { text: heading, sceneNumber } = splitSceneNumber(t.slice(1));
+      push({ type: 'scene', text: heading, sceneNumber, forced: true }, notes);
+      inDialogue = false;
+      continue;
+    }
+    if (t.startsWith('#')) {
+      const depth = /^#+/.exec(t)![0].length;
+      push({ type: 'section', text: t.slice(depth).trim(), depth }, notes);
+      inDialogue = false;
+      continue;
+    }
+    if (t.startsWith('=')) {
+      push({ type: 'synopsis', text: t.slice(1).trim() }, notes);
+      continue;
+    }
+
+    // ---- scene heading: starts its own paragraph (or follows a transition); "." forces one ----
+    if (isSceneHeading(t) && (prevBlank(i) || out[out.length - 1]?.type === 'transition')) {
+      const { text: heading, sceneNumber } = splitSceneNumber(t);
+      push({ type: 'scene', text: heading, sceneNumber }, notes);
+      inDialogue = false;
+      dualSide = undefined;
+      continue;
+    }
+
+    // ---- dialogue block ----
+    if (inDialogue) {
+      const type: LineType = PAREN_RE.test(t) ? 'parenthetical' : 'dialogue';
+      push({ type, text: type === 'parenthetical' ? t : v.trim(), dual: dualSide }, notes);
+      continue;
+    }
+
+    // ---- transition: uppercase, ends in TO:, own paragraph ----
+    if (prevBlank(i) && t === t.toUpperCase() && /TO:$/.test(t) &&
+        (nextBlank(i) || isSceneHeading(rows[i + 1].visible))) {
+      push({ type: 'transition', text: t }, notes);
+      continue;
+    }
+
+    // ---- character: uppercase line after a blank, followed by dialogue ----
+    const forcedCharacter = t.startsWith('@');
+    if ((forcedCharacter || prevBlank(i)) && !nextBlank(i)) {
+      const cue = forcedCharacter ? characterName(t.slice(1), true) : characterName(t, false);
+      if (cue && (forcedCharacter || !/TO:$/.test(cue.text))) {
+        const line: ScriptLine = { type: 'character', text: cue.text };
+        if (forcedCharacter) line.forced = true;
+        if (cue.dual) {
+          line.dual = 'right';
+          markPreviousBlockLeft(out);
+        }
+        push(line, notes);
+        inDialogue = true;
+        dualSide = line.dual;
+        continue;
+      }
+    }
+
+    push({ type: 'action', text: v.trimEnd() }, notes);
+  }
+
+  return out;
+}
+
+/** The block before a `^` cue becomes the left column of a dual dialogue pair. */
+function markPreviousBlockLeft(out: ScriptLine[]) {
+  let j = out.length - 1;
+  while (j >= 0 && out[j].type === 'action' && out[j].text === '') j--;
+  while (j >= 0 && (out[j].type === 'dialogue' || out[j].type === 'parenthetical')) {
+    out[j].dual = 'left';
+    j--;
+  }
+  if (j >= 0 && out[j].type === 'character') out[j].dual = 'left';
+}
+
+/** Collect the title page fields produced by classifyLines (continuation lines are joined with \n). */
+export function titlePageOf(lines: ScriptLine[]): TitlePage {
+  const fields: TitlePage = [];
+  for (const l of lines) {
+    if (l.type !== 'title') continue;
+    const last = fields[fields.length - 1];
+    if (l.key === undefined && last) {
+      last.value = last.value ? `${last.value}\n${l.text}` : l.text;
+    } else {
+      fields.push({ key: l.key || '', value: l.text });
+    }
+  }
+  return fields;
+}
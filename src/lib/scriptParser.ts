@@ -1,53 +1,10 @@
 import { ParsedScript, SceneBlock, ScriptLine, LineType } from './scriptTypes';
+import { classifyLines, titlePageOf } from './scriptClassifier';
+import { DEFAULT_SECONDS_PER_PAGE, eighthsToSeconds, paginateScenes } from './pagination';
+import { estimateSeconds, type TimingModel } from './timing';
 
-// Scene heading: INT., EXT., INT./EXT., EST., I/E  (case-insensitive), optional leading scene numbers
-const SCENE_RE = /^\s*(?:\d+[A-Z]?[.:)]?\s+)?((?:INT|EXT|EST|I\/E|INT\.\/EXT\.)\.?\s+.+?)$/i;
-// Character cue: ALL CAPS, may include spaces and some punctuation
-const CHARACTER_RE = /^[A-Z0-9 .'\-()]+$/;
-// Transition: ends with TO:, e.g., CUT TO:
-const TRANSITION_RE = /^[A-Z ]+\s+TO:$/;
-// Parenthetical: ( ... )
-const PAREN_RE = /^\s*\(.+\)\s*$/;
-// Lyric: ~ at start
-const LYRIC_RE = /^\s*~.+$/;
-
-function classify(line: string, prev?: ScriptLine): LineType {
-  const t = line.trimEnd();
-
-  if (SCENE_RE.test(t)) return 'scene';
-  if (TRANSITION_RE.test(t)) return 'transition';
-  if (PAREN_RE.test(t)) return 'parenthetical';
-  if (LYRIC_RE.test(t)) return 'lyric';
-
-  // Dialogue detection: a line following CHARACTER or Parenthetical is dialogue
-  if (prev && (prev.type === 'character' || prev.type === 'parenthetical')) return 'dialogue';
-
-  // Character: all-caps block not too long and not empty
-  if (t.length > 0 && t.length <= 40 && CHARACTER_RE.test(t)) return 'character';
-
-  // Blank => action (but will be collapsed later)
-  if (t.trim().length === 0) return 'action';
-
-  return 'action';
-}
-
-/**
- * Estimate time for one line type (very rough but serviceable for layout):
- * - action: 2.0s
- * - dialogue: 1.5s
- * - parenthetical: 0.8s
- * - lyric: 1.2s
- * - character/transition/scene: 0s
- */
-function lineSeconds(type: LineType): number {
-  switch (type) {
-    case 'action': return 2.0;
-    case 'dialogue': return 1.5;
-    case 'parenthetical': return 0.8;
-    case 'lyric': return 1.2;
-    default: return 0;
-  }
-}
+// Lines that carry no story content; they never open a COLD OPEN scene on their own.
+const NON_CONTENT: LineType[] = ['title', 'note', 'boneyard', 'section', 'synopsis', 'pagebreak'];
 
 function normalizeSceneHeading(h: string): { heading: string; slug: string } {
   // Collapse whitespace
@@ -72,17 +29,24 @@ function normalizeSceneHeading(h: string): { heading: string; slug: string } {
   return { heading: up, slug };
 }
 
-export function parseScript(text: string): ParsedScript {
-  const rawLines = text.replace(/\r\n/g, '\n').split('\n');
-  const lines: ScriptLine[] = [];
-  const warnings: string[] = [];
+export type ParseOptions = {
+  /** Screen time per page used to turn eighths into estLengthSec (default 60). */
+  secondsPerPage?: number;
+  /** Time scenes from word counts and speaking rates instead of page length. */
+  timing?: TimingModel;
+};
 
-  for (let i = 0; i < rawLines.length; i++) {
-    const prev = lines[lines.length - 1];
-    const t = rawLines[i];
-    const type = classify(t, prev);
-    lines.push({ type, text: t.trimEnd() });
-  }
+export function parseScript(text: string, opts: ParseOptions = {}): ParsedScript {
+  return parseLines(classifyLines(text), opts);
+}
+
+/**
+ * Split already classified lines into scenes (used by importers that classify
+ * lines themselves, e.g. the layout-aware PDF importer).
+ */
+export function parseLines(lines: ScriptLine[], opts: ParseOptions = {}): ParsedScript {
+  const warnings: string[] = [];
+  const titlePage = titlePageOf(lines);
 
   // Split into scenes
   const scenes: SceneBlock[] = [];
@@ -98,12 +62,7 @@ export function parseScript(text: string): ParsedScript {
       .join('\n')
       .trim();
 
-    // Estimate length
-    let est = cur.lines.reduce((acc, l) => acc + lineSeconds(l.type), 0);
-    est = Math.max(10, Math.min(est, 180)); // clamp 10s..180s
-
     cur.description = desc;
-    cur.estLengthSec = est;
     scenes.push(cur);
     cur = null;
   };
@@ -119,6 +78,7 @@ export function parseScript(text: string): ParsedScript {
         index: sceneIndex,
         heading,
         slug,
+        sceneNumber: L.sceneNumber,
         startLine: i,
         lines: [],
         description: '',
@@ -127,6 +87,8 @@ export function parseScript(text: string): ParsedScript {
       };
     } else {
       if (!cur) {
+        // Title page, blank lines and other non-printing lines before the first heading are not a scene
+        if (NON_CONTENT.includes(L.type) || L.text.trim() === '') continue;
         // Script without explicit heading at start: create a “COLD OPEN”
         warnings.push(`Content before first scene heading detected near line ${i + 1}. Starting a COLD OPEN scene.`);
         const { heading, slug } = normalizeSceneHeading('INT. COLD OPEN - DAY');
@@ -147,6 +109,17 @@ export function parseScript(text: string): ParsedScript {
   }
   flushScene();
 
+  // Length from pagination: eighths of a page at the configured seconds-per-page,
+  // or from word counts when a timing model is given
+  const spans = paginateScenes(scenes.map(s => [{ type: 'scene', text: s.heading }, ...s.lines]));
+  scenes.forEach((s, k) => {
+    s.lengthEighths = spans[k].eighths;
+    s.page = String(spans[k].startPage);
+    s.estLengthSec = opts.timing
+      ? estimateSeconds(s.lines, opts.timing)
+      : eighthsToSeconds(spans[k].eighths, opts.secondsPerPage ?? DEFAULT_SECONDS_PER_PAGE);
+  });
+
   // Lay scenes out sequentially
   let cursor = 0;
   const GAP = 1; // 1s gap between scenes
@@ -155,5 +128,5 @@ export function parseScript(text: string): ParsedScript {
     cursor += s.estLengthSec + GAP;
   }
 
-  return { scenes, warnings };
+  return { scenes, warnings, titlePage: titlePage.length ? titlePage : undefined };
 }
\ No newline at end of file
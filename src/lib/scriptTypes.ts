@@ -6,17 +6,39 @@ export type LineType =
   | 'dialogue'     // Dialogue lines
   | 'transition'   // CUT TO:, FADE OUT:
   | 'lyric'        // ~ lyrics
+  | 'centered'     // > THE END <
+  | 'section'      // # ACT ONE
+  | 'synopsis'     // = The heist goes wrong.
+  | 'note'         // [[note]] on its own line
+  | 'boneyard'     // /* commented-out text */
+  | 'pagebreak'    // ===
+  | 'title'        // Title page key/value
+  | 'shot'         // Shot heading (FDX "Shot"), e.g. ANGLE ON THE DOOR
   | 'general';     // Fallback
 
 export type ScriptLine = {
   type: LineType;
-  text: string;     // raw line w/o trailing newline
+  text: string;     // raw line w/o trailing newline (Fountain markup removed)
+  sceneNumber?: string;          // scene: #12A# or a leading/trailing number
+  forced?: boolean;              // written with a Fountain forcing prefix (!, @, ., >)
+  dual?: 'left' | 'right';       // dual dialogue side (character/parenthetical/dialogue)
+  depth?: number;                // section: number of leading #
+  key?: string;                  // title: title page key, e.g. "Title" (unset on continuation lines)
+  notes?: string[];              // inline [[notes]] removed from text
 };
 
+export type TitlePageField = { key: string; value: string };
+export type TitlePage = TitlePageField[];
+
 export type SceneBlock = {
   index: number;           // 1-based order in the script
   heading: string;         // scene heading line (normalized)
   slug: string;            // INT./EXT. LOCATION - TIME (normalized slug)
+  sceneNumber?: string;    // scene number printed in the script, if any
+  title?: string;          // scene title (FDX SceneProperties Title)
+  color?: string;          // CSS hex color (FDX SceneProperties Color)
+  page?: string;           // page the scene starts on, as printed in the source
+  lengthEighths?: number;  // scene length in 1/8 pages (from the source or lib/pagination)
   startLine: number;       // 0-based index of heading line
   lines: ScriptLine[];     // all lines until next scene heading
   description: string;     // concatenated action/dialogue in plain text
@@ -27,4 +49,5 @@ export type SceneBlock = {
 export type ParsedScript = {
   scenes: SceneBlock[];
   warnings: string[];
-};
\ No newline at end of file
+  titlePage?: TitlePage;
+};
@@ -0,0 +1,152 @@
+// src/lib/storyStructure.ts
+// Story structure overlay for the film timeline: act and sequence ranges and named beats,
+// placed at percentages of the runtime by a template (Save the Cat, three-act, Hero's
+// Journey). Every beat reports how far the timeline drifts from its target: at the scene
+// assigned to it, else at the scene start nearest the target.
+
+export type StructureTemplateId = 'save-the-cat' | 'three-act' | 'heros-journey';
+
+export type StructureBand = {
+  id: string;
+  kind: 'act' | 'sequence';
+  label: string;
+  /** Range as percentages of the runtime (0–100). */
+  startPct: number;
+  endPct: number;
+};
+
+export type StoryBeat = {
+  id: string;
+  label: string;
+  /** Target position as a percentage of the runtime. */
+  pct: number;
+  /** Scene where the beat actually happens, if assigned. */
+  sceneId?: string;
+};
+
+export type StoryStructure = {
+  template: StructureTemplateId;
+  bands: StructureBand[];
+  beats: StoryBeat[];
+  /** Drift (percent of runtime) above which a beat is flagged. */
+  tolerancePct: number;
+};
+
+export type BeatDrift = {
+  beatId: string;
+  label: string;
+  /** The scene the drift is measured at. */
+  sceneId: string;
+  /** The scene is the beat's assigned one, not just the one starting nearest the target. */
+  assigned: boolean;
+  targetSec: number;
+  actualSec: number;
+  /** Actual minus target, in percent of the runtime (negative = early). */
+  driftPct: number;
+  warn: boolean;
+};
+
+export const DEFAULT_TOLERANCE_PCT = 5;
+
+type Template = {
+  name: string;
+  acts: Array<[string, number, number]>;
+  sequences?: Array<[string, number, number]>;
+  beats: Array<[string, number]>;
+};
+
+// Save the Cat percentages follow the beat sheet's 110-page model
+export const STRUCTURE_TEMPLATES: Record<StructureTemplateId, Template> = {
+  'save-the-cat': {
+    name: 'Save the Cat',
+    acts: [['Act 1', 0, 23], ['Act 2A', 23, 50], ['Act 2B', 50, 77], ['Act 3', 77, 100]],
+    sequences: [
+      ['Set-Up', 1, 10], ['Debate', 11, 23], ['Fun and Games', 27, 50],
+      ['Bad Guys Close In', 50, 68], ['Dark Night of the Soul', 68, 77], ['Finale', 77, 99],
+    ],
+    beats: [
+      ['Opening Image', 0], ['Theme Stated', 5], ['Catalyst', 11], ['Break into Two', 23], ['B Story', 27],
+      ['Midpoint', 50], ['All Is Lost', 68], ['Break into Three', 77], ['Final Image', 100],
+    ],
+  },
+  'three-act': {
+    name: 'Three-act',
+    acts: [['Act I', 0, 25], ['Act II', 25, 75], ['Act III', 75, 100]],
+    sequences: Array.from({ length: 8 }, (_, i) => [`Sequence ${String.fromCharCode(65 + i)}`, i * 12.5, (i + 1) * 12.5]),
+    beats: [
+      ['Inciting Incident', 12], ['Plot Point 1', 25], ['Midpoint', 50], ['Plot Point 2', 75], ['Climax', 90], ['Resolution', 97],
+    ],
+  },
+  'heros-journey': {
+    name: "Hero's Journey",
+    acts: [['Departure', 0, 25], ['Initiation', 25, 75], ['Return', 75, 100]],
+    beats: [
+      ['Ordinary World', 0], ['Call to Adventure', 10], ['Refusal of the Call', 15], ['Meeting the Mentor', 20],
+      ['Crossing the Threshold', 25], ['Tests, Allies, Enemies', 35], ['Approach to the Inmost Cave', 45], ['Ordeal', 50],
+      ['Reward', 60], ['The Road Back', 75], ['Resurrection', 90], ['Return with the Elixir', 98],
+    ],
+  },
+};
+
+/** A fresh structure from a template (ids are unique within the structure). */
+export function structureFromTemplate(template: StructureTemplateId, tolerancePct = DEFAULT_TOLERANCE_PCT): StoryStructure {
+  const t = STRUCTURE_TEMPLATES[template];
+  const band = (kind: StructureBand['kind']) => ([label, startPct, endPct]: [string, number, number], i: number): StructureBand =>
+    ({ id: `${kind}:${i}`, kind, label, startPct, endPct });
+  return {
+    template,
+    bands: [...t.acts.map(band('act')), ...(t.sequences ?? []).map(band('sequence'))],
+    beats: t.beats.map(([label, pct], i) => ({ id: `beat:${i}`, label, pct })),
+    tolerancePct,
+  };
+}
+
+/**
+ * Switch templates, keeping the scene assigned to each beat whose name exists in both
+ * (the Midpoint stays on its scene when going from Save the Cat to three-act).
+ */
+export function switchTemplate(prev: StoryStructure | null, template: StructureTemplateId): StoryStructure {
+  const next = structureFromTemplate(template, prev?.tolerancePct);
+  if (!prev) return next;
+  const byLabel = new Map(prev.beats.filter(b => b.sceneId).map(b => [b.label.toLowerCase(), b.sceneId]));
+  return { ...next, beats: next.beats.map(b => byLabel.has(b.label.toLowerCase()) ? { ...b, sceneId: byLabel.get(b.label.toLowerCase()) } : b) };
+}
+
+/** Total runtime: the end of the last scene. */
+export function runtimeOf(scenes: Array<{ positionSec: number; lengthSec: number }>): number {
+  return scenes.reduce((max, s) => Math.max(max, s.positionSec + s.lengthSec), 0);
+}
+
+export const pctToSec = (pct: number, runtimeSec: number) => (pct / 100) * runtimeSec;
+
+/**
+ * Drift of every beat, measured at the start of its assigned scene, or of the scene
+ * starting nearest the target when none is assigned (or it was deleted).
+ */
+export function beatDrifts(
+  structure: StoryStructure,
+  scenes: Array<{ id: string; positionSec: number; lengthSec: number }>,
+): BeatDrift[] {
+  const runtime = runtimeOf(scenes);
+  if (runtime <= 0) return [];
+  const byId = new Map(scenes.map(s => [s.id, s]));
+  const out: BeatDrift[] = [];
+  for (const b of structure.beats) {
+    const targetSec = pctToSec(b.pct, runtime);
+    const assigned = b.sceneId ? byId.get(b.sceneId) : undefined;
+    const scene = assigned ?? scenes.reduce((best, s) =>
+      Math.abs(s.positionSec - targetSec) < Math.abs(best.positionSec - targetSec) ? s : best);
+    const driftPct = ((scene.positionSec - targetSec) / runtime) * 100;
+    out.push({
+      beatId: b.id,
+      label: b.label,
+      sceneId: scene.id,
+      assigned: !!assigned,
+      targetSec,
+      actualSec: scene.positionSec,
+      driftPct,
+      warn: Math.abs(driftPct) > structure.tolerancePct,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,137 @@
+// src/lib/stripboard.ts
+// Stripboard / shooting schedule. Scenes become color-coded strips (INT/EXT × DAY/NIGHT)
+// that are dragged into shoot days; the shooting order is stored in the project apart from
+// the story order on the timeline, and scenes in no day are "unscheduled".
+
+import type { ScriptLine } from './scriptTypes';
+import { breakdownScenes, type DayNight, type IntExt } from './breakdown';
+import { sceneEighths } from './pagination';
+
+export type ShootDay = { id: string; label?: string; sceneIds: string[] };
+
+export type ShootingSchedule = { days: ShootDay[] };
+
+export const EMPTY_SCHEDULE: ShootingSchedule = { days: [] };
+
+/** Minimal scene shape the stripboard needs (film timeline scenes). */
+export type StripSource = {
+  id: string;
+  heading: string;
+  positionSec: number;
+  lengthSec: number;
+  lengthEighths?: number;
+  lines: ScriptLine[];
+};
+
+export type Strip = {
+  id: string;
+  /** Scene number as shown on the timeline. */
+  number: string;
+  intExt: IntExt | null;
+  location: string;
+  sublocation?: string;
+  timeOfDay: string | null;
+  dayNight: DayNight | null;
+  eighths: number;
+  lengthSec: number;
+  /** Cast ids of the characters who speak or appear (1 = most scenes). */
+  cast: number[];
+};
+
+export type StripColor = { bg: string; text: string };
+
+// The usual stripboard code: white INT day, yellow EXT day, blue INT night, green EXT night
+const STRIP_COLORS: Record<string, StripColor> = {
+  'INT DAY': { bg: '#f5f5f5', text: '#111827' },
+  'EXT DAY': { bg: '#fde047', text: '#111827' },
+  'INT NIGHT': { bg: '#60a5fa', text: '#0b1020' },
+  'EXT NIGHT': { bg: '#4ade80', text: '#052e16' },
+};
+const OTHER_COLOR: StripColor = { bg: '#d4d4d8', text: '#111827' };
+
+export function stripColor(s: Pick<Strip, 'intExt' | 'dayNight'>): StripColor {
+  // INT/EXT scenes are shot outside as far as lighting goes
+  const side = s.intExt === 'INT' ? 'INT' : s.intExt ? 'EXT' : null;
+  return (side && s.dayNight && STRIP_COLORS[`${side} ${s.dayNight}`]) || OTHER_COLOR;
+}
+
+/**
+ * Scenes (in story order) as strips, with cast ids numbered by how many scenes each
+ * character is in (ties: first to appear gets the lower id).
+ */
+export function buildStrips(scenes: StripSource[], numbers: Map<string, string>): { strips: Strip[]; cast: string[] } {
+  const sorted = [...scenes].sort((a, b) => a.positionSec - b.positionSec);
+  const breakdowns = breakdownScenes(sorted);
+
+  const count = new Map<string, number>();
+  breakdowns.forEach(b => [...b.speaking, ...b.mentioned].forEach(n => count.set(n, (count.get(n) ?? 0) + 1)));
+  const order = [...count.keys()];
+  const cast = [...order].sort((a, b) => count.get(b)! - count.get(a)! || order.indexOf(a) - order.indexOf(b));
+  const castId = new Map(cast.map((name, i) => [name, i + 1]));
+
+  const strips = sorted.map((s, i) => {
+    const { intExt, location, sublocation, timeOfDay, dayNight, speaking, mentioned } = breakdowns[i];
+    return {
+      id: s.id,
+      number: numbers.get(s.id) ?? String(i + 1),
+      intExt, location, ...(sublocation ? { sublocation } : {}), timeOfDay, dayNight,
+      eighths: s.lengthEighths ?? sceneEighths(s.lines),
+      lengthSec: s.lengthSec,
+      cast: [...speaking, ...mentioned].map(n => castId.get(n)!).sort((a, b) => a - b),
+    };
+  });
+  return { strips, cast };
+}
+
+/** Drop ids of deleted scenes and repeats; returns the cleaned schedule and the unscheduled ids in story order. */
+export function normalizeSchedule(schedule: ShootingSchedule, storyOrder: string[]): { schedule: ShootingSchedule; unscheduled: string[] } {
+  const known = new Set(storyOrder);
+  const seen = new Set<string>();
+  const days = schedule.days.map(d => ({
+    ...d,
+    sceneIds: d.sceneIds.filter(id => {
+      if (!known.has(id) || seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    }),
+  }));
+  return { schedule: { days }, unscheduled: storyOrder.filter(id => !seen.has(id)) };
+}
+
+/** Move a strip into a day (or back to unscheduled with `dayId` null) before position `index`. */
+export function moveStrip(schedule: ShootingSchedule, sceneId: string, dayId: string | null, index: number): ShootingSchedule {
+  const days = schedule.days.map(d => ({ ...d, sceneIds: d.sceneIds.filter(id => id !== sceneId) }));
+  if (dayId) {
+    const day = days.find(d => d.id === dayId);
+    if (!day) return schedule;
+    // the index was taken with the strip still in place
+    const from = schedule.days.find(d => d.id === dayId)!.sceneIds.indexOf(sceneId);
+    const at = from >= 0 && from < index ? index - 1 : index;
+    day.sceneIds.splice(Math.max(0, Math.min(at, day.sceneIds.length)), 0, sceneId);
+  }
+  return { days };
+}
+
+export function addShootDay(schedule: ShootingSchedule, id: string): ShootingSchedule {
+  return { days: [...schedule.days, { id, sceneIds: [] }] };
+}
+
+/** Remove a day; its strips go back to unscheduled. */
+export function removeShootDay(schedule: ShootingSchedule, dayId: string): ShootingSchedule {
+  return { days: schedule.days.filter(d => d.id !== dayId) };
+}
+
+/** Page count (eighths) and screen time of a day's strips. */
+export function dayTotals(day: ShootDay, strips: Map<string, Strip>) {
+  let eighths = 0;
+  let sec = 0;
+  for (const id of day.sceneIds) {
+    const s = strips.get(id);
+    if (!s) continue;
+    eighths += s.eighths;
+    sec += s.lengthSec;
+  }
+  return { eighths, sec };
+}
+
+export const dayLabel = (day: ShootDay, i: number) => day.label?.trim() || `Day ${i + 1}`;
@@ -0,0 +1,117 @@
+// src/lib/syncTransport.ts
+// Pluggable transports for live collaboration. A transport moves SyncMessages between the
+// replicas in one room; it doesn't interpret them. Messages a transport echoes back to
+// their sender are ignored by the session (see lib/collab). Across machines the app's own
+// relay is used, either over a WebSocket (when the app runs on src/server.ts, since Next
+// route handlers can't accept upgrades) or as server-sent events down and POSTs up.
+
+import type { CrdtState } from '@/lib/crdt';
+
+export type Presence = {
+  site: string;
+  name: string;
+  color: string;
+  /** Pointer position on the timeline (seconds, CSS px from the top), null when away. */
+  cursor: { sec: number; y: number } | null;
+  /** Selected scene ids. */
+  selection: string[];
+};
+
+export type SyncMessage =
+  | { type: 'hello'; site: string }                         // a replica joined; peers answer with 'state'
+  | { type: 'state'; site: string; state: CrdtState }       // full state
+  | { type: 'delta'; site: string; delta: CrdtState }       // local edits
+  | { type: 'presence'; site: string; presence: Presence }
+  | { type: 'bye'; site: string };
+
+export interface SyncTransport {
+  send(msg: SyncMessage): void;
+  /** Returns an unsubscribe function. */
+  subscribe(handler: (msg: SyncMessage) => void): () => void;
+  close(): void;
+}
+
+export type TransportKind = 'broadcast' | 'relay' | 'websocket';
+
+function handlerSet() {
+  const handlers = new Set<(msg: SyncMessage) => void>();
+  return {
+    add(h: (msg: SyncMessage) => void) { handlers.add(h); return () => { handlers.delete(h); }; },
+    emit(msg: SyncMessage) { handlers.forEach(h => h(msg)); },
+    clear() { handlers.clear(); },
+  };
+}
+
+/** Between tabs of the same browser. */
+export function createBroadcastTransport(room: string): SyncTransport {
+  const channel = new BroadcastChannel(`dt:collab:${room}`);
+  const hs = handlerSet();
+  channel.onmessage = (e: MessageEvent<SyncMessage>) => hs.emit(e.data);
+  return {
+    send: msg => channel.postMessage(msg),
+    subscribe: hs.add,
+    close: () => { hs.clear(); channel.close(); },
+  };
+}
+
+/** Through the app's relay route: server-sent events down, POST up. */
+export function createRelayTransport(room: string, base = '/api/collab'): SyncTransport {
+  const url = `${base}/${encodeURIComponent(room)}`;
+  const source = new EventSource(url);
+  const hs = handlerSet();
+  source.onmessage = (e) => {
+    try { hs.emit(JSON.parse(e.data)); } catch (err) { console.error('[Collab Relay] Bad message:', err); }
+  };
+  return {
+    send: msg => {
+      fetch(url, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(msg) })
+        .catch(err => console.error('[Collab Relay] Send failed:', err));
+    },
+    subscribe: hs.add,
+    close: () => { hs.clear(); source.close(); },
+  };
+}
+
+/** The app's WebSocket relay URL for a room (lib/collabSocket), on the page's own host. */
+export function collabSocketUrl(room: string, loc: Pick<Location, 'protocol' | 'host'> = location) {
+  return `${loc.protocol === 'https:' ? 'wss' : 'ws'}://${loc.host}/api/collab/${encodeURIComponent(room)}`;
+}
+
+/** Through a WebSocket relay that forwards each text frame to every client of the room. */
+export function createWebSocketTransport(url: string): SyncTransport {
+  const ws = new WebSocket(url);
+  const queue: string[] = [];
+  const hs = handlerSet();
+  ws.onopen = () => { queue.splice(0).forEach(m => ws.send(m)); };
+  ws.onmessage = (e) => {
+    try { hs.emit(JSON.parse(String(e.data))); } catch (err) { console.error('[Collab WebSocket] Bad message:', err); }
+  };
+  ws.onclose = (e) => {
+    if (e.code !== 1000 && e.code !== 1005) console.error(`[Collab WebSocket] Closed: ${e.code} ${e.reason}`);
+  };
+  return {
+    send: msg => {
+      const data = JSON.stringify(msg);
+      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+      else queue.push(data);
+    },
+    subscribe: hs.add,
+    close: () => { hs.clear(); ws.close(); },
+  };
+}
+
+/** In-memory room for tests: every endpoint receives the messages of the others. */
+export function createMemoryHub() {
+  const endpoints = new Set<ReturnType<typeof handlerSet>>();
+  return {
+    connect(): SyncTransport {
+      const hs = handlerSet();
+      endpoints.add(hs);
+      return {
+        send: msg => endpoints.forEach(e => { if (e !== hs) e.emit(structuredClone(msg)); }),
+        subscribe: hs.add,
+        close: () => { hs.clear(); endpoints.delete(hs); },
+      };
+    },
+  };
+}
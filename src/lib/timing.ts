@@ -0,0 +1,87 @@
+// src/lib/timing.ts
+// Dialogue-rate timing: estimates screen time from word counts instead of page length.
+// Dialogue is spoken at a words-per-minute rate (per character when overridden), action
+// paragraphs are "read" at a slower rate, and a per-scene multiplier adjusts the pace.
+
+import type { ScriptLine } from './scriptTypes';
+
+export type TimingModel = {
+  /** Default speaking rate for dialogue. */
+  dialogueWpm: number;
+  /** Rate at which action paragraphs play out on screen. */
+  actionWpm: number;
+  /** Sung lyrics are slower than speech. */
+  lyricWpm: number;
+  /** Per-character speaking rates, keyed by cue name in upper case ("SAM"). */
+  characterWpm: Record<string, number>;
+};
+
+export const DEFAULT_TIMING: TimingModel = {
+  dialogueWpm: 160,
+  actionWpm: 110,
+  lyricWpm: 90,
+  characterWpm: {},
+};
+
+export function countWords(text: string): number {
+  return (text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || []).length;
+}
+
+/** "SAM (V.O.) (CONT'D)" / "sam ^" → "SAM". */
+export function cueName(text: string): string {
+  return text
+    .replace(/\^\s*$/, '')
+    .replace(/\([^)]*\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+const seconds = (words: number, wpm: number) => (words > 0 && wpm > 0 ? (words * 60) / wpm : 0);
+
+/**
+ * Estimated seconds for a scene's lines. Words of each dialogue block are timed at the
+ * speaker's rate, action and parenthetical words at the action rate; the result is
+ * scaled by `multiplier` and rounded to whole seconds (at least 1).
+ */
+export function estimateSeconds(lines: ScriptLine[], model: TimingModel = DEFAULT_TIMING, multiplier = 1): number {
+  let total = 0;
+  let speakerWpm = model.dialogueWpm;
+
+  for (const L of lines) {
+    switch (L.type) {
+      case 'character':
+        speakerWpm = model.characterWpm[cueName(L.text)] ?? model.dialogueWpm;
+        break;
+      case 'dialogue':
+        total += seconds(countWords(L.text), speakerWpm);
+        break;
+      case 'lyric':
+        total += seconds(countWords(L.text), model.lyricWpm);
+        break;
+      case 'action':
+      case 'general':
+      case 'shot':
+      case 'centered':
+      case 'parenthetical':
+        total += seconds(countWords(L.text), model.actionWpm);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return Math.max(1, Math.round(total * (multiplier > 0 ? multiplier : 1)));
+}
+
+/** Distinct character cue names in order of first appearance. */
+export function speakingCharacters(lines: ScriptLine[]): string[] {
+  const seen = new Set<string>();
+  for (const L of lines) {
+    if (L.type === 'character') {
+      const name = cueName(L.text);
+      if (name) seen.add(name);
+    }
+  }
+  return [...seen];
+}
@@ -0,0 +1,79 @@
+// src/lib/tracks.ts
+// Lanes of the film timeline (Story, B-roll, Music cues, VO…). Scenes and clips carry a
+// trackId; lanes stack top to bottom in array order with their own height.
+
+export type Track = {
+  id: string;
+  name: string;
+  height: number;        // CSS px
+  color: string;
+  muted?: boolean;       // dimmed on the canvas and left out of script exports
+  locked?: boolean;      // clips on the lane can't be moved, resized or dropped onto
+  solo?: boolean;        // when any lane is soloed only soloed lanes are shown
+};
+
+export type TrackLane = {
+  track: Track;
+  top: number;
+  height: number;
+  visible: boolean;
+};
+
+export const TRACK_MIN_H = 40;
+export const TRACK_MAX_H = 600;
+
+export const DEFAULT_TRACKS: Track[] = [
+  { id: 'story', name: 'Story', height: 240, color: '#a78bfa' },
+  { id: 'broll', name: 'B-roll', height: 110, color: '#60a5fa' },
+  { id: 'music', name: 'Music cues', height: 110, color: '#34d399' },
+  { id: 'vo', name: 'VO', height: 110, color: '#fbbf24' },
+];
+
+/** Stack the lanes from `top`; hidden lanes (not soloed while another is) take no space. */
+export function layoutTracks(tracks: Track[], top = 0): TrackLane[] {
+  const anySolo = tracks.some(t => t.solo);
+  let y = top;
+  return tracks.map(track => {
+    const visible = !anySolo || !!track.solo;
+    const height = visible ? track.height : 0;
+    const lane = { track, top: y, height, visible };
+    y += height;
+    return lane;
+  });
+}
+
+/** Visible lane under a y coordinate (the last lane extends downwards). */
+export function laneAt(lanes: TrackLane[], y: number): TrackLane | null {
+  const visible = lanes.filter(l => l.visible);
+  for (const l of visible) {
+    if (y < l.top + l.height) return l;
+  }
+  return visible[visible.length - 1] ?? null;
+}
+
+/** The track a clip belongs to; clips without (or with an unknown) trackId sit on the first lane. */
+export function resolveTrackId(tracks: Track[], id?: string): string {
+  return tracks.some(t => t.id === id) ? id! : (tracks[0]?.id ?? DEFAULT_TRACKS[0].id);
+}
+
+/** Sanitize lanes read from a project file; falls back to the default lanes. */
+export function normalizeTracks(raw: unknown): Track[] {
+  if (!Array.isArray(raw)) return DEFAULT_TRACKS.map(t => ({ ...t }));
+  const seen = new Set<string>();
+  const out: Track[] = [];
+  raw.forEach((r: any, i) => {
+    if (!r || typeof r !== 'object') return;
+    const id = typeof r.id === 'string' && r.id && !seen.has(r.id) ? r.id : `track-${i + 1}`;
+    seen.add(id);
+    out.push({
+      id,
+      name: typeof r.name === 'string' && r.name.trim() ? r.name : `Track ${i + 1}`,
+      height: Math.min(TRACK_MAX_H, Math.max(TRACK_MIN_H, Number(r.height) || TRACK_MIN_H)),
+      color: typeof r.color === 'string' ? r.color : '#9ca3af',
+      muted: !!r.muted || undefined,
+      locked: !!r.locked || undefined,
+      solo: !!r.solo || undefined,
+    });
+  });
+  return out.length ? out : DEFAULT_TRACKS.map(t => ({ ...t }));
+}
@@ -0,0 +1,132 @@
+// src/lib/transcribe.ts
+// Client side of /api/transcribe. Starting a transcription hashes the track and reuses a
+// transcript cached for it in the project library (or the job already running for it),
+// uploading only when there is neither; following a job listens to its event stream until
+// the transcript is ready. The running job is remembered in localStorage so the music
+// canvas can pick it up again after a reload.
+
+import type { Transcript } from './transcription/types';
+import { contentHash } from './transcription/types';
+import type { TranscriptionJob } from './transcription/jobs';
+import { getCachedTranscript } from './projectStore';
+
+export type { Transcript, TranscriptionJob };
+
+export type TranscribeProgress =
+  | { phase: 'hashing' }
+  | { phase: 'uploading'; pct: number }
+  | { phase: 'queued' | 'processing' };
+
+/** A job the music canvas is waiting on, kept across reloads. */
+export type PendingTranscription = { jobId: string; hash: string; fileName: string };
+
+/** A job as startTranscription hands it out, with the SHA-256 of its audio. */
+export type StartedTranscription = Pick<TranscriptionJob, 'id' | 'status'> & Partial<TranscriptionJob> & { hash: string };
+
+export const TRANSCRIBE_ENDPOINT = '/api/transcribe';
+export const PENDING_TRANSCRIPTION_KEY = 'dt:music:transcribeJob';
+
+const cancelled = () => new DOMException('Transcription cancelled', 'AbortError');
+
+function upload(file: Blob, fileName: string, onProgress?: (p: TranscribeProgress) => void, signal?: AbortSignal) {
+  return new Promise<TranscriptionJob>((resolve, reject) => {
+    // XHR rather than fetch: fetch can't report upload progress
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', TRANSCRIBE_ENDPOINT);
+    xhr.responseType = 'json';
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.({ phase: 'uploading', pct: (e.loaded / e.total) * 100 });
+    };
+    xhr.onload = () => {
+      const body = xhr.response as { job?: TranscriptionJob; error?: string } | null;
+      if (xhr.status >= 200 && xhr.status < 300 && body?.job) resolve(body.job);
+      else reject(new Error(body?.error || `Transcription failed (HTTP ${xhr.status})`));
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading audio'));
+    xhr.onabort = () => reject(cancelled());
+    if (signal) {
+      if (signal.aborted) { reject(cancelled()); return; }
+      signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    }
+    const form = new FormData();
+    form.append('audio', file, fileName);
+    onProgress?.({ phase: 'uploading', pct: 0 });
+    xhr.send(form);
+  });
+}
+
+/** Hash the track, reuse its cached transcript or running job, else upload it; resolves with the job. */
+export async function startTranscription(
+  file: Blob,
+  opts: { fileName?: string; onProgress?: (p: TranscribeProgress) => void; signal?: AbortSignal } = {},
+): Promise<StartedTranscription> {
+  const { fileName = 'audio', onProgress, signal } = opts;
+  onProgress?.({ phase: 'hashing' });
+  const hash = await contentHash(file);
+  if (signal?.aborted) throw cancelled();
+  const cached = await getCachedTranscript(hash).catch(err => {
+    // no library: transcribe anyway
+    console.error('[Transcribe] Could not read the transcript cache:', err);
+    return undefined;
+  });
+  if (cached) return { id: '', status: 'done', provider: cached.provider, result: cached, hash };
+  const pending = loadPendingTranscription();
+  if (pending?.hash === hash) return { id: pending.jobId, status: 'running', hash };
+  return { ...await upload(file, fileName, onProgress, signal), hash };
+}
+
+/** Wait for a job to finish, reporting its phase; rejects when it fails or the backend has lost it. */
+export function followTranscription(
+  job: Pick<TranscriptionJob, 'id'> & Partial<TranscriptionJob>,
+  opts: { onProgress?: (p: TranscribeProgress) => void; signal?: AbortSignal } = {},
+): Promise<Transcript> {
+  const { onProgress, signal } = opts;
+  if (job.status === 'done' && job.result) return Promise.resolve(job.result);
+  if (job.status === 'error') return Promise.reject(new Error(job.error || 'Transcription failed'));
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`${TRANSCRIBE_ENDPOINT}/${encodeURIComponent(job.id)}/events`);
+    const finish = (fn: () => void) => {
+      source.close();
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+    const onAbort = () => finish(() => reject(cancelled()));
+    if (signal?.aborted) { onAbort(); return; }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    source.onmessage = (e) => {
+      let next: TranscriptionJob | undefined;
+      try { next = (JSON.parse(e.data) as { job?: TranscriptionJob }).job; } catch {}
+      if (!next) return;
+      if (next.status === 'done' && next.result) finish(() => resolve(next!.result!));
+      else if (next.status === 'error') finish(() => reject(new Error(next!.error || 'Transcription failed')));
+      else onProgress?.({ phase: next.phase === 'queued' || next.phase === 'processing' ? next.phase : 'queued' });
+    };
+    // EventSource reconnects by itself; only give up when the job is really gone
+    source.onerror = async () => {
+      try {
+        const res = await fetch(`${TRANSCRIBE_ENDPOINT}/${encodeURIComponent(job.id)}`);
+        if (res.status === 404) finish(() => reject(new Error('The transcription service no longer knows this job. Analyze again.')));
+      } catch {
+        // offline for now; keep waiting for the reconnect
+      }
+    };
+  });
+}
+
+export function loadPendingTranscription(): PendingTranscription | null {
+  try {
+    const p = JSON.parse(localStorage.getItem(PENDING_TRANSCRIPTION_KEY) || 'null') as PendingTranscription | null;
+    return p && typeof p.jobId === 'string' && typeof p.hash === 'string' ? p : null;
+  } catch {
+    return null;
+  }
+}
+
+export function savePendingTranscription(p: PendingTranscription | null) {
+  try {
+    if (p) localStorage.setItem(PENDING_TRANSCRIPTION_KEY, JSON.stringify(p));
+    else localStorage.removeItem(PENDING_TRANSCRIPTION_KEY);
+  } catch {}
+}
@@ -0,0 +1,93 @@
+// src/lib/transcription/assemblyai.ts
+// AssemblyAI: upload the file, create a transcript with language detection, then poll
+// until it completes. Word times come back in milliseconds. `submit`/`check` split that
+// in two so the API routes can hand out AssemblyAI's own transcript id and poll it later.
+
+import { cleanWords, expectOk, type FetchLike, type Transcript, type TranscriptionProvider } from './types';
+
+export type AssemblyAiConfig = {
+  apiKey: string;
+  baseUrl?: string;
+  pollMs?: number;
+  /** Give up after this long waiting for the transcript. */
+  timeoutMs?: number;
+  fetch?: FetchLike;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const t = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(t); reject(new DOMException('Aborted', 'AbortError')); }, { once: true });
+});
+
+export function createAssemblyAiProvider(config: AssemblyAiConfig): TranscriptionProvider {
+  const { apiKey, baseUrl = 'https://api.assemblyai.com', pollMs = 2000, timeoutMs = 240_000 } = config;
+  const fetchFn: FetchLike = config.fetch ?? fetch;
+
+  const provider: TranscriptionProvider = {
+    id: 'assemblyai',
+    async submit(audio, opts = {}) {
+      const { signal, onPhase } = opts;
+      onPhase?.('uploading');
+      const upload = await expectOk(await fetchFn(`${baseUrl}/v2/upload`, {
+        method: 'POST',
+        headers: { authorization: apiKey, 'content-type': 'application/octet-stream' },
+        body: audio.data,
+        signal,
+      }), 'AssemblyAI upload');
+      const { upload_url } = await upload.json() as { upload_url?: string };
+      if (!upload_url) throw new Error('AssemblyAI upload did not return upload_url');
+
+      const create = await expectOk(await fetchFn(`${baseUrl}/v2/transcript`, {
+        method: 'POST',
+        headers: { authorization: apiKey, 'content-type': 'application/json' },
+        body: JSON.stringify({ audio_url: upload_url, punctuate: true, format_text: true, language_detection: true }),
+        signal,
+      }), 'AssemblyAI transcript create');
+      const created = await create.json() as { id?: string };
+      if (!created.id) throw new Error('AssemblyAI did not return a transcript id');
+      onPhase?.('queued');
+      return created.id;
+    },
+    async check(remoteId, opts = {}) {
+      const res = await fetchFn(`${baseUrl}/v2/transcript/${encodeURIComponent(remoteId)}`, {
+        headers: { authorization: apiKey },
+        signal: opts.signal,
+      });
+      // AssemblyAI answers an id it doesn't have with 400 ("Transcript lookup error")
+      if (res.status === 400 || res.status === 404) return null;
+      const result = await (await expectOk(res, 'AssemblyAI transcript get')).json();
+      if (result.status === 'completed') return { status: 'done', result: toTranscript(result) };
+      if (result.status === 'error') return { status: 'error', error: `AssemblyAI transcription error: ${result.error || 'unknown'}` };
+      return { status: 'running', phase: result.status === 'processing' ? 'processing' : 'queued' };
+    },
+    async transcribe(audio, opts = {}) {
+      const { signal, onPhase } = opts;
+      const id = await provider.submit!(audio, opts);
+      const deadline = Date.now() + timeoutMs;
+      for (;;) {
+        const job = await provider.check!(id, { signal });
+        if (!job) throw new Error(`AssemblyAI lost transcript ${id}`);
+        if (job.status === 'done') return job.result;
+        if (job.status === 'error') throw new Error(job.error);
+        if (job.phase === 'processing') onPhase?.('processing');
+        if (Date.now() >= deadline) throw new Error(`AssemblyAI transcription timed out (phase=${job.phase})`);
+        await sleep(pollMs, signal);
+      }
+    },
+  };
+  return provider;
+}
+
+function toTranscript(result: any): Transcript {
+  return {
+    text: result.text ?? '',
+    words: cleanWords((result.words ?? []).map((w: any) => ({
+      text: w.text,
+      start: Number(w.start) / 1000,
+      end: Number(w.end) / 1000,
+      confidence: w.confidence,
+    }))),
+    provider: 'assemblyai',
+    language_code: result.language_code ?? null,
+  };
+}
@@ -0,0 +1,51 @@
+// src/lib/transcription/background.ts
+// Gives a backend that answers in one request (Deepgram, a local server) the submit/check
+// pair of a queueing one: `submit` starts the request and returns at once, and the result
+// is kept in a job record in this server process until `check` is asked about it.
+// The records live in memory, so these backends need a single long-running server (like
+// the collab relay); on serverless hosts use AssemblyAI, whose jobs live at AssemblyAI.
+
+import type { RemoteJobStatus, TranscriptionProvider } from './types';
+
+type JobRecord = { state: RemoteJobStatus; updatedAt: number };
+
+/** Finished records are forgotten after this long. */
+export const JOB_RECORD_TTL_MS = 60 * 60 * 1000;
+
+// Kept on globalThis so dev-mode module reloads don't lose running jobs
+const g = globalThis as typeof globalThis & { __dtTranscribeRecords?: Map<string, JobRecord> };
+const records = (g.__dtTranscribeRecords ??= new Map());
+
+function sweep(now = Date.now()) {
+  for (const [id, record] of records) {
+    if (record.state.status !== 'running' && now - record.updatedAt > JOB_RECORD_TTL_MS) records.delete(id);
+  }
+}
+
+export function runInBackground(provider: TranscriptionProvider): TranscriptionProvider {
+  return {
+    ...provider,
+    async submit(audio) {
+      sweep();
+      const id = crypto.randomUUID();
+      const record: JobRecord = { state: { status: 'running', phase: 'queued' }, updatedAt: Date.now() };
+      const update = (state: RemoteJobStatus) => Object.assign(record, { state, updatedAt: Date.now() });
+      records.set(id, record);
+      provider.transcribe(audio, { onPhase: phase => update({ status: 'running', phase }) })
+        .then(result => update({ status: 'done', result }))
+        .catch(err => {
+          console.error(`[Transcribe Jobs] ${provider.id} failed:`, err);
+          update({ status: 'error', error: err?.message || String(err) });
+        });
+      return id;
+    },
+    async check(remoteId) {
+      return records.get(remoteId)?.state ?? null;
+    },
+  };
+}
+
+/** Forget every job record (tests). */
+export function resetJobRecords() {
+  records.clear();
+}
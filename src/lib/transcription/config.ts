@@ -0,0 +1,43 @@
+// src/lib/transcription/config.ts
+// Picks the transcription backend from the environment:
+//   TRANSCRIBE_PROVIDER   assemblyai | deepgram | local | fake (default: the first one configured)
+//   ASSEMBLYAI_API_KEY    AssemblyAI
+//   DEEPGRAM_API_KEY      Deepgram (DEEPGRAM_MODEL, default nova-2)
+//   TRANSCRIBE_LOCAL_URL  local server, e.g. http://127.0.0.1:8080/inference (TRANSCRIBE_LOCAL_MODEL)
+// Deepgram and the local server answer in one request, so their jobs run in the background
+// of this server process (see ./background).
+
+import { createAssemblyAiProvider } from './assemblyai';
+import { runInBackground } from './background';
+import { createDeepgramProvider } from './deepgram';
+import { createFakeProvider } from './fake';
+import { createLocalProvider } from './local';
+import type { ProviderId, TranscriptionProvider } from './types';
+
+type Env = Record<string, string | undefined>;
+
+const PROVIDERS: ProviderId[] = ['assemblyai', 'deepgram', 'local', 'fake'];
+
+/** Throws with a setup hint when the chosen provider is missing its settings. */
+export function providerFromEnv(env: Env = process.env): TranscriptionProvider {
+  const requested = env.TRANSCRIBE_PROVIDER?.trim().toLowerCase();
+  if (requested && !PROVIDERS.includes(requested as ProviderId)) {
+    throw new Error(`Unknown TRANSCRIBE_PROVIDER "${requested}" (expected ${PROVIDERS.join(', ')})`);
+  }
+  const id = (requested as ProviderId | undefined)
+    ?? (env.ASSEMBLYAI_API_KEY ? 'assemblyai' : env.DEEPGRAM_API_KEY ? 'deepgram' : env.TRANSCRIBE_LOCAL_URL ? 'local' : undefined);
+  const need = (name: string) => {
+    const v = env[name];
+    if (!v) throw new Error(`Server missing ${name} (TRANSCRIBE_PROVIDER=${id})`);
+    return v;
+  };
+
+  switch (id) {
+    case 'assemblyai': return createAssemblyAiProvider({ apiKey: need('ASSEMBLYAI_API_KEY') });
+    case 'deepgram': return runInBackground(createDeepgramProvider({ apiKey: need('DEEPGRAM_API_KEY'), model: env.DEEPGRAM_MODEL || undefined }));
+    case 'local': return runInBackground(createLocalProvider({ url: need('TRANSCRIBE_LOCAL_URL'), model: env.TRANSCRIBE_LOCAL_MODEL || undefined }));
+    case 'fake': return createFakeProvider();
+    default:
+      throw new Error('No transcription provider configured. Set ASSEMBLYAI_API_KEY, DEEPGRAM_API_KEY or TRANSCRIBE_LOCAL_URL (or TRANSCRIBE_PROVIDER=fake).');
+  }
+}
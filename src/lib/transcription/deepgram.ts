@@ -0,0 +1,40 @@
+// src/lib/transcription/deepgram.ts
+// Deepgram pre-recorded API: one request with the audio as the body; words (in seconds)
+// are in the first alternative of the first channel.
+
+import { cleanWords, expectOk, type FetchLike, type TranscriptionProvider } from './types';
+
+export type DeepgramConfig = { apiKey: string; baseUrl?: string; model?: string; fetch?: FetchLike };
+
+export function createDeepgramProvider(config: DeepgramConfig): TranscriptionProvider {
+  const { apiKey, baseUrl = 'https://api.deepgram.com', model = 'nova-2' } = config;
+  const fetchFn: FetchLike = config.fetch ?? fetch;
+  return {
+    id: 'deepgram',
+    async transcribe(audio, opts = {}) {
+      // one request: upload and recognition can't be told apart
+      opts.onPhase?.('processing');
+      const query = new URLSearchParams({ model, smart_format: 'true', detect_language: 'true' });
+      const res = await expectOk(await fetchFn(`${baseUrl}/v1/listen?${query}`, {
+        method: 'POST',
+        headers: { authorization: `Token ${apiKey}`, 'content-type': audio.mimeType || 'application/octet-stream' },
+        body: audio.data,
+        signal: opts.signal,
+      }), 'Deepgram request');
+      const dg = await res.json();
+      const channel = dg.results?.channels?.[0];
+      const alt = channel?.alternatives?.[0];
+      return {
+        text: alt?.transcript ?? '',
+        words: cleanWords((alt?.words ?? []).map((w: any) => ({
+          text: w.punctuated_word ?? w.word,
+          start: Number(w.start),
+          end: Number(w.end),
+          confidence: w.confidence,
+        }))),
+        provider: 'deepgram',
+        language_code: channel?.detected_language ?? null,
+      };
+    },
+  };
+}
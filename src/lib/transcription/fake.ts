@@ -0,0 +1,43 @@
+// src/lib/transcription/fake.ts
+// Deterministic stand-in for tests and offline demos: "hears" a fixed text, one line per
+// phrase, with evenly spaced words and a pause between lines. No network involved.
+
+import type { Word } from '../align';
+import type { Transcript, TranscriptionProvider } from './types';
+
+export const FAKE_LYRICS = 'Hello darkness my old friend\nI have come to talk with you again';
+
+export type FakeConfig = { text?: string; wordSec?: number; pauseSec?: number };
+
+export function createFakeProvider(config: FakeConfig = {}): TranscriptionProvider {
+  const { text = FAKE_LYRICS, wordSec = 0.4, pauseSec = 1 } = config;
+  const hear = (): Transcript => {
+    const words: Word[] = [];
+    let t = 0;
+    text.split('\n').filter(l => l.trim()).forEach((line, li) => {
+      if (li > 0) t += pauseSec;
+      for (const token of line.trim().split(/\s+/)) {
+        // every fifth word is "unsure" so confidence handling gets exercised too
+        words.push({ text: token, start: t, end: t + wordSec * 0.9, confidence: words.length % 5 === 4 ? 0.5 : 0.95 });
+        t += wordSec;
+      }
+    });
+    return { text: words.map(w => w.text).join(' '), words, provider: 'fake', language_code: 'en' };
+  };
+  return {
+    id: 'fake',
+    async transcribe(_audio, opts = {}) {
+      if (opts.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      opts.onPhase?.('processing');
+      return hear();
+    },
+    // like a queueing backend, but every job is finished by the time anyone asks
+    async submit(_audio, opts = {}) {
+      if (opts.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      return crypto.randomUUID();
+    },
+    async check() {
+      return { status: 'done', result: hear() };
+    },
+  };
+}
@@ -0,0 +1,54 @@
+// src/lib/transcription/jobs.ts
+// Transcription jobs for /api/transcribe: a POST hands the audio to the backend and returns
+// at once, and the job id carries the backend's own id, so GET / the event stream ask the
+// backend how it's going. AssemblyAI (and the fake backend) keep their jobs themselves, so
+// any server instance can answer; backends that answer in one request (Deepgram, a local
+// server) run in a job record of this server process (./background). Caching by audio
+// hash is the client's (lib/transcribe).
+
+import { runInBackground } from './background';
+import type { AudioInput, ProviderId, RemoteJobStatus, Transcript, TranscribePhase, TranscriptionProvider } from './types';
+
+export type JobStatus = RemoteJobStatus['status'];
+
+export type TranscriptionJob = {
+  /** `<provider>.<the backend's id>` */
+  id: string;
+  provider: ProviderId;
+  status: JobStatus;
+  phase?: TranscribePhase;
+  result?: Transcript;
+  error?: string;
+};
+
+/** How often the event stream asks the backend about a running job. */
+export const JOB_POLL_MS = 2000;
+
+const toJob = (provider: ProviderId, remoteId: string, state: RemoteJobStatus): TranscriptionJob =>
+  ({ id: `${provider}.${remoteId}`, provider, ...state });
+
+/** The backend's id inside a job id, or null when the id isn't one of `provider`'s. */
+export function remoteJobId(provider: TranscriptionProvider, id: string): string | null {
+  const prefix = `${provider.id}.`;
+  if (!id.startsWith(prefix)) return null;
+  const remoteId = id.slice(prefix.length);
+  return /^[\w-]{1,128}$/.test(remoteId) ? remoteId : null;
+}
+
+const queueing = (provider: TranscriptionProvider) => provider.submit && provider.check ? provider : runInBackground(provider);
+
+/** Hand the audio to the backend and return the running job; throws when the backend refuses it. */
+export async function startJob(provider: TranscriptionProvider, audio: AudioInput): Promise<TranscriptionJob> {
+  return toJob(provider.id, await queueing(provider).submit!(audio), { status: 'running', phase: 'queued' });
+}
+
+/**
+ * Where a job is now, asked of its backend; null when the id is unknown (or its record
+ * expired). Throws when the backend can't be reached.
+ */
+export async function checkJob(provider: TranscriptionProvider, id: string, opts: { signal?: AbortSignal } = {}): Promise<TranscriptionJob | null> {
+  const remoteId = remoteJobId(provider, id);
+  if (!remoteId) return null;
+  const state = await queueing(provider).check!(remoteId, opts);
+  return state && toJob(provider.id, remoteId, state);
+}
@@ -0,0 +1,37 @@
+// src/lib/transcription/local.ts
+// Offline backend: a speech-to-text server on this machine, e.g. whisper.cpp's
+// `whisper-server` (POST /inference) or an OpenAI-compatible one
+// (POST /v1/audio/transcriptions). Words come either top-level or per segment.
+
+import { cleanWords, expectOk, type FetchLike, type TranscriptionProvider } from './types';
+
+export type LocalConfig = { url: string; model?: string; fetch?: FetchLike };
+
+export function createLocalProvider(config: LocalConfig): TranscriptionProvider {
+  const fetchFn: FetchLike = config.fetch ?? fetch;
+  return {
+    id: 'local',
+    async transcribe(audio, opts = {}) {
+      opts.onPhase?.('processing');
+      const form = new FormData();
+      form.append('file', audio.data, audio.fileName);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'word');
+      if (config.model) form.append('model', config.model);
+      const res = await expectOk(await fetchFn(config.url, { method: 'POST', body: form, signal: opts.signal }), 'Local transcription');
+      const body = await res.json();
+      const raw: any[] = Array.isArray(body.words) ? body.words : (body.segments ?? []).flatMap((s: any) => s.words ?? []);
+      return {
+        text: String(body.text ?? '').trim(),
+        words: cleanWords(raw.map(w => ({
+          text: w.word ?? w.text,
+          start: Number(w.start),
+          end: Number(w.end),
+          confidence: w.probability ?? w.confidence,
+        }))),
+        provider: 'local',
+        language_code: body.language ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// src/lib/transcription/types.ts
+// What every transcription backend returns (the /api/transcribe response), and the word
+// cleanup they share: seconds, finite, end ≥ start, empty tokens dropped.
+
+import type { Word } from '../align';
+
+export type ProviderId = 'assemblyai' | 'deepgram' | 'local' | 'fake';
+
+export type Transcript = {
+  text: string;
+  words: Word[];
+  provider: ProviderId;
+  language_code: string | null;
+};
+
+/** The uploaded track as the route received it. */
+export type AudioInput = { data: Blob; fileName: string; mimeType: string };
+
+/** Where a provider is with a file; hosted ones upload first and may queue it. */
+export type TranscribePhase = 'uploading' | 'queued' | 'processing';
+
+export type TranscribeOptions = { signal?: AbortSignal; onPhase?: (phase: TranscribePhase) => void };
+
+/** A job as the backend reports it. */
+export type RemoteJobStatus =
+  | { status: 'running'; phase: TranscribePhase }
+  | { status: 'done'; result: Transcript }
+  | { status: 'error'; error: string };
+
+export interface TranscriptionProvider {
+  readonly id: ProviderId;
+  transcribe(audio: AudioInput, opts?: TranscribeOptions): Promise<Transcript>;
+  /** Backends that queue work: hand the audio over and return the backend's own job id. */
+  submit?(audio: AudioInput, opts?: TranscribeOptions): Promise<string>;
+  /** Where a submitted job is now, asked of the backend itself; null when it doesn't know the id. */
+  check?(remoteId: string, opts?: { signal?: AbortSignal }): Promise<RemoteJobStatus | null>;
+}
+
+/** Providers take a fetch so tests can stand in for the network. */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export function cleanWords(words: Word[]): Word[] {
+  return words
+    .map(w => ({ ...w, text: String(w.text ?? '').trim() }))
+    .filter(w => w.text && isFinite(w.start) && isFinite(w.end) && w.end >= w.start && w.start >= 0)
+    .map(w => (typeof w.confidence === 'number' && isFinite(w.confidence) ? w : { text: w.text, start: w.start, end: w.end }));
+}
+
+/** SHA-256 of the audio bytes as hex; transcripts are cached by it. */
+export async function contentHash(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Throw with the upstream status and body, e.g. "Deepgram request failed: 401 Invalid credentials". */
+export async function expectOk(res: Response, what: string): Promise<Response> {
+  if (res.ok) return res;
+  const body = await res.text().catch(() => '');
+  throw new Error(`${what} failed: ${res.status} ${body || res.statusText}`);
+}
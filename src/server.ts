@@ -0,0 +1,29 @@
+// src/server.ts
+// The app on its own HTTP server, for the collaboration WebSocket relay (lib/collabSocket):
+// `npm run dev:ws` / `npm run start:ws` instead of `next dev` / `next start`. Everything
+// else is served by Next as usual.
+
+import { createServer } from 'http';
+import next from 'next';
+import { attachCollabSocket } from './lib/collabSocket';
+
+const dev = process.env.NODE_ENV !== 'production';
+const port = Number(process.env.PORT) || 3000;
+
+const app = next({ dev });
+
+app.prepare().then(() => {
+  const handle = app.getRequestHandler();
+  const server = createServer((req, res) => {
+    handle(req, res).catch(err => {
+      console.error('[Server] Request failed:', err);
+      res.statusCode = 500;
+      res.end('Internal Server Error');
+    });
+  });
+  attachCollabSocket(server, app.getUpgradeHandler());
+  server.listen(port, () => console.log(`> Ready on http://localhost:${port} (collab WebSocket relay at /api/collab/<room>)`));
+}).catch(err => {
+  console.error('[Server] Failed to start:', err);
+  process.exit(1);
+});
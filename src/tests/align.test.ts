@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { alignProvidedLyricsToWords, wordsToClipsByPause, type Word } from '@/lib/align';
+
+const w = (text: string, start: number, end: number, confidence?: number): Word => ({ text, start, end, confidence });
+
+describe('align', () => {
+  const words = [
+    w('Hello', 0, 0.4, 0.9), w('darkness', 0.5, 1.0, 0.7), w('my', 1.1, 1.3, 1), w('old', 1.4, 1.6, 1), w('friend', 1.7, 2.2, 0.8),
+    w("I've", 3.5, 3.7, 0.6), w('come', 3.8, 4.0, 0.6), w('to', 4.1, 4.2, 0.9), w('talk', 4.3, 4.6, 0.9),
+  ];
+
+  it('splits words into clips at pauses with their mean confidence', () => {
+    const clips = wordsToClipsByPause(words, 0.6);
+    expect(clips.map(c => [c.text, c.startSec, c.endSec])).toEqual([
+      ['Hello darkness my old friend', 0, 2.2],
+      ["I've come to talk", 3.5, 4.6],
+    ]);
+    expect(clips[0].confidence).toBeCloseTo(0.88);
+    expect(clips[1].confidence).toBeCloseTo(0.75);
+    // no recognizer scores: every word counts as certain
+    expect(wordsToClipsByPause([w('la', 0, 1)])[0].confidence).toBe(1);
+    expect(clips[1].words).toEqual([
+      { text: "I've", startSec: 3.5, endSec: 3.7 }, { text: 'come', startSec: 3.8, endSec: 4.0 },
+      { text: 'to', startSec: 4.1, endSec: 4.2 }, { text: 'talk', startSec: 4.3, endSec: 4.6 },
+    ]);
+  });
+
+  it('scores aligned lyric lines by the share of their words found', () => {
+    const lines = alignProvidedLyricsToWords(['Hello darkness, my old friend', "I've come to speak with you talk"], words);
+    expect(lines.map(l => [l.startSec, l.endSec])).toEqual([[0, 2.2], [3.5, 4.6]]);
+    expect(lines[0].confidence).toBeCloseTo(0.88);
+    // 4 of 7 words heard, at a mean score of 0.75
+    expect(lines[1].confidence).toBeCloseTo((4 / 7) * 0.75);
+  });
+
+  it('times the written words of each line, spreading the unheard ones', () => {
+    const [line] = alignProvidedLyricsToWords(["I've come to speak with you talk"], words.slice(5));
+    expect(line.words!.map(x => x.text)).toEqual(["I've", 'come', 'to', 'speak', 'with', 'you', 'talk']);
+    expect(line.words![0]).toEqual({ text: "I've", startSec: 3.5, endSec: 3.7 });
+    // "speak with you" fills the gap between "to" and "talk"
+    const gap = line.words!.slice(3, 6);
+    expect(gap[0].startSec).toBeCloseTo(4.2);
+    expect(gap[2].endSec).toBeCloseTo(4.3);
+    expect(line.words![6]).toEqual({ text: 'talk', startSec: 4.3, endSec: 4.6 });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { breakdownFacets, breakdownScenes, dayNightOf, matchesBreakdown, parseSlug } from '@/lib/breakdown';
+import { parseScript } from '@/lib/scriptParser';
+
+describe('parseSlug', () => {
+  it('splits INT/EXT, location, sublocation and time of day', () => {
+    expect(parseSlug('INT. HOUSE - KITCHEN - NIGHT')).toEqual({ intExt: 'INT', location: 'HOUSE', sublocation: 'KITCHEN', timeOfDay: 'NIGHT' });
+    expect(parseSlug('ext. park – early morning')).toEqual({ intExt: 'EXT', location: 'PARK', timeOfDay: 'EARLY MORNING' });
+    expect(parseSlug('INT./EXT. CAR - MOVING - CONTINUOUS')).toEqual({ intExt: 'INT/EXT', location: 'CAR', sublocation: 'MOVING', timeOfDay: 'CONTINUOUS' });
+    expect(parseSlug('I/E SPIDER-MAN\'S LAIR')).toEqual({ intExt: 'INT/EXT', location: 'SPIDER-MAN\'S LAIR', timeOfDay: null });
+    expect(parseSlug('MONTAGE')).toEqual({ intExt: null, location: 'MONTAGE', timeOfDay: null });
+  });
+
+  it('groups times into DAY and NIGHT', () => {
+    expect(['DAY', 'LATE AFTERNOON', 'DUSK', 'NIGHT', 'LATER', null].map(dayNightOf)).toEqual(['DAY', 'DAY', 'NIGHT', 'NIGHT', null, null]);
+  });
+});
+
+describe('breakdownScenes', () => {
+  const script = [
+    'INT. HOUSE - KITCHEN - NIGHT',
+    '',
+    'SAM (30s) makes tea. The samovar hisses.',
+    '',
+    'SAM',
+    'Anyone?',
+    '',
+    'EXT. GARDEN - CONTINUOUS',
+    '',
+    'Sam steps out. Rita waves from the fence.',
+    '',
+    'INT. OFFICE - DAY',
+    '',
+    'RITA (V.O.)',
+    'Morning.',
+    '',
+    'JO',
+    'Hi.',
+  ].join('\n');
+  const list = breakdownScenes(parseScript(script).scenes);
+
+  it('finds speakers and silent mentions of known characters', () => {
+    expect(list.map(b => b.speaking)).toEqual([['SAM'], [], ['RITA', 'JO']]);
+    expect(list.map(b => b.mentioned)).toEqual([[], ['SAM', 'RITA'], []]);
+  });
+
+  it('carries DAY/NIGHT through CONTINUOUS scenes', () => {
+    expect(list.map(b => [b.location, b.timeOfDay, b.dayNight])).toEqual([
+      ['HOUSE', 'NIGHT', 'NIGHT'],
+      ['GARDEN', 'CONTINUOUS', 'NIGHT'],
+      ['OFFICE', 'DAY', 'DAY'],
+    ]);
+  });
+
+  it('filters and counts facets', () => {
+    expect(list.map(b => matchesBreakdown(b, { character: 'SAM', dayNight: 'NIGHT' }))).toEqual([true, true, false]);
+    expect(list.map(b => matchesBreakdown(b, { location: 'OFFICE' }))).toEqual([false, false, true]);
+    const facets = breakdownFacets(list);
+    expect(facets.characters[0]).toEqual({ value: 'RITA', scenes: 2 });
+    expect(facets.dayNight).toEqual([{ value: 'NIGHT', scenes: 2 }, { value: 'DAY', scenes: 1 }]);
+  });
+});
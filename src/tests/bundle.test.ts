@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import {
+  assetIdOf, assetRef, buildBundle, bytesToDataUrl, dataUrlToBytes, isBundleBytes, matchesAsset, openBundle, packAsset,
+} from '@/lib/bundle';
+
+const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3, 4]);
+
+describe('project bundles', () => {
+  it('round-trips a project and its media', async () => {
+    const a = await packAsset(png, 'scene-1', 'image/png', 'images');
+    const dup = await packAsset(png, 'scene-2', 'image/png', 'images');
+    expect(a.asset.id).toBe(dup.asset.id);
+    expect(a.asset.path).toBe(`images/${a.asset.id}.png`);
+
+    const project = { kind: 'dtfilm', scenes: [{ id: 's1', imageUrl: assetRef(a.asset.id) }] };
+    const bytes = buildBundle('dtfilm', 'Demo', project, [a, dup]);
+    expect(isBundleBytes(bytes)).toBe(true);
+
+    const opened = await openBundle(bytes, 'dtfilm');
+    expect(opened.project).toEqual(project);
+    expect(opened.manifest.assets).toHaveLength(1);
+    expect(opened.unresolved).toEqual([]);
+    expect(opened.assets.get(assetIdOf(project.scenes[0].imageUrl)!)).toEqual(png);
+  });
+
+  it('reports missing and tampered media for relinking', async () => {
+    const a = await packAsset(png, 'song.wav', 'audio/wav', 'audio');
+    const b = await packAsset(new Uint8Array([9, 9, 9]), 'cover.jpg', 'image/jpeg', 'images');
+    const files = unzipSync(buildBundle('dtmusic', 'Song', {}, [a, b]));
+    delete files[a.asset.path];
+    files[b.asset.path] = new Uint8Array([0]);
+
+    const opened = await openBundle(zipSync(files), 'dtmusic');
+    expect(opened.unresolved.map(u => [u.asset.name, u.reason])).toEqual([['song.wav', 'missing'], ['cover.jpg', 'hash']]);
+    expect(await matchesAsset(a.asset, png)).toBe(true);
+    expect(await matchesAsset(a.asset, new Uint8Array([1]))).toBe(false);
+  });
+
+  it('rejects files that are not bundles of the right kind', async () => {
+    await expect(openBundle(strToU8('{"kind":"dtfilm"}'), 'dtfilm')).rejects.toThrow(/could not be unzipped/);
+    await expect(openBundle(zipSync({ 'project.json': strToU8('{}') }), 'dtfilm')).rejects.toThrow(/no manifest\.json/);
+    await expect(openBundle(buildBundle('dtmusic', 'Song', {}, []), 'dtfilm')).rejects.toThrow(/music bundle/);
+  });
+
+  it('converts data URLs to bytes and back', () => {
+    const url = bytesToDataUrl(png, 'image/png');
+    expect(dataUrlToBytes(url)).toEqual({ bytes: png, mime: 'image/png' });
+    expect(dataUrlToBytes('https://example.com/a.png')).toBeNull();
+    expect(assetIdOf('data:image/png;base64,AA')).toBeNull();
+  });
+});
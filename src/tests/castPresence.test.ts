@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { castPresence, castPresenceCsv, type PresenceScene } from '@/lib/castPresence';
+import { classifyLines } from '@/lib/scriptClassifier';
+
+const scene = (id: string, positionSec: number, lengthSec: number, text: string): PresenceScene =>
+  ({ id, heading: 'INT. ROOM - DAY', positionSec, lengthSec, lines: classifyLines(text, { titlePage: false }) });
+
+describe('castPresence', () => {
+  const stats = castPresence([
+    scene('c', 3000, 60, 'Sam returns, alone.'),
+    scene('a', 0, 120, 'SAM\nHello.\n\nRITA\nHi.\n\nSAM (CONT\'D)\nBye.'),
+    scene('b', 100, 60, 'RITA\nStill here.'),
+  ]);
+
+  it('collects appearances, screen time and speeches per character', () => {
+    expect(stats.map(c => c.name)).toEqual(['SAM', 'RITA']);
+    const [sam, rita] = stats;
+    expect(sam.appearances).toEqual([
+      { sceneId: 'a', startSec: 0, endSec: 120, speaking: true },
+      { sceneId: 'c', startSec: 3000, endSec: 3060, speaking: false },
+    ]);
+    expect(sam).toMatchObject({ screenTimeSec: 180, lines: 2, firstSec: 0, lastSec: 3060, longestGapSec: 2880 });
+    // overlapping scenes count once
+    expect(rita).toMatchObject({ screenTimeSec: 160, lines: 2, firstSec: 0, lastSec: 160, longestGapSec: 0 });
+  });
+
+  it('exports CSV', () => {
+    expect(castPresenceCsv(stats).split('\n')).toEqual([
+      'Character,Scenes,Speaking scenes,Lines,Screen time,First appearance,Last appearance,Longest absence',
+      'SAM,2,1,2,3:00,0:00,51:00,48:00',
+      'RITA,2,2,2,2:40,0:00,2:40,0:00',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { startCollab, type CollabSession } from '@/lib/collab';
+import { createMemoryHub, type Presence } from '@/lib/syncTransport';
+import { MAX_MESSAGE_BYTES, joinRoom, publish, roomSize } from '@/lib/collabRelay';
+import { attachCollabSocket, collabRoomOf } from '@/lib/collabSocket';
+
+type Doc = { scenes: { id: string; positionSec: number }[]; notes: { id: string; text: string }[] };
+
+const sessions: CollabSession<Doc>[] = [];
+afterEach(() => { sessions.splice(0).forEach(s => s.close()); });
+
+function join(hub: ReturnType<typeof createMemoryHub>, site: string, initial: Doc) {
+  const state = { doc: initial, peers: [] as Presence[] };
+  const session = startCollab<Doc>({
+    transport: hub.connect(),
+    site,
+    name: site.toUpperCase(),
+    initial,
+    onRemoteChange: doc => { state.doc = doc; },
+    onPeers: p => { state.peers = p; },
+  });
+  sessions.push(session);
+  return { session, state };
+}
+
+describe('collaboration session', () => {
+  it('syncs a late joiner and merges edits from both sides', () => {
+    const hub = createMemoryHub();
+    const a = join(hub, 'a', { scenes: [{ id: 's1', positionSec: 0 }, { id: 's2', positionSec: 10 }], notes: [] });
+    const b = join(hub, 'b', { scenes: [], notes: [] });
+    expect(b.state.doc.scenes.map(s => s.id)).toEqual(['s1', 's2']);
+
+    a.session.commit({ ...a.state.doc, scenes: [{ id: 's1', positionSec: 20 }, { id: 's2', positionSec: 10 }] });
+    b.session.commit({ ...b.state.doc, notes: [{ id: 'n1', text: 'push in' }] });
+
+    expect(b.state.doc.scenes.find(s => s.id === 's1')?.positionSec).toBe(20);
+    expect(a.state.doc.notes).toEqual([{ id: 'n1', text: 'push in' }]);
+  });
+
+  it('shares presence and drops peers that leave', () => {
+    const hub = createMemoryHub();
+    const a = join(hub, 'a', { scenes: [], notes: [] });
+    const b = join(hub, 'b', { scenes: [], notes: [] });
+    expect(a.state.peers.map(p => p.name)).toEqual(['B']);
+    expect(b.state.peers.map(p => p.name)).toEqual(['A']);
+
+    b.session.close();
+    sessions.splice(sessions.indexOf(b.session), 1);
+    expect(a.state.peers).toEqual([]);
+  });
+});
+
+describe('collab relay rooms', () => {
+  it('forwards messages to everyone in the room', () => {
+    const got: string[] = [];
+    const leave1 = joinRoom('r1', d => got.push(`1:${d}`));
+    const leave2 = joinRoom('r1', d => got.push(`2:${d}`));
+    expect(publish('r1', 'hi')).toBe(2);
+    expect(publish('other', 'nobody')).toBe(0);
+    leave1(); leave2();
+    expect(roomSize('r1')).toBe(0);
+    expect(got).toEqual(['1:hi', '2:hi']);
+  });
+});
+
+describe('collab relay route', () => {
+  const post = async (body: BodyInit, headers: Record<string, string> = {}) => {
+    const { POST } = await import('@/app/api/collab/[room]/route');
+    const req = new Request('http://localhost/api/collab/r1', { method: 'POST', body, headers, duplex: 'half' } as RequestInit);
+    return POST(req as any, { params: { room: 'r1' } });
+  };
+
+  it('delivers a sync message to the room', async () => {
+    const got: string[] = [];
+    const leave = joinRoom('r1', d => got.push(d));
+    const res = await post(JSON.stringify({ type: 'hello', site: 'a' }));
+    leave();
+    expect(await res.json()).toEqual({ delivered: 1 });
+    expect(got).toEqual(['{"type":"hello","site":"a"}']);
+  });
+
+  it('rejects messages over the limit by their size in bytes', async () => {
+    expect((await post('{}', { 'content-length': String(MAX_MESSAGE_BYTES + 1) })).status).toBe(413);
+    // under the limit in characters, over it in UTF-8 bytes
+    const text = JSON.stringify({ type: 'delta', site: 'a', pad: 'é'.repeat(MAX_MESSAGE_BYTES / 2) });
+    expect(text.length).toBeLessThan(MAX_MESSAGE_BYTES);
+    const stream = new ReadableStream<Uint8Array>({
+      start(c) { c.enqueue(new TextEncoder().encode(text)); c.close(); },
+    });
+    expect((await post(stream)).status).toBe(413);
+  });
+});
+
+describe('collab WebSocket relay', () => {
+  let server: Server | undefined;
+  afterEach(async () => {
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise(resolve => server!.close(resolve));
+    server = undefined;
+  });
+
+  async function listen() {
+    const s = (server = createServer());
+    attachCollabSocket(s);
+    await new Promise<void>(resolve => s.listen(0, '127.0.0.1', resolve));
+    return `ws://127.0.0.1:${(s.address() as AddressInfo).port}`;
+  }
+  const open = (url: string) => new Promise<WebSocket>((resolve, reject) => {
+    const ws = new WebSocket(url);
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+  const next = (ws: WebSocket) => new Promise<string>(resolve => ws.once('message', d => resolve(d.toString())));
+
+  it('reads the room from the relay path', () => {
+    expect(collabRoomOf('/api/collab/r%201')).toBe('r 1');
+    expect(collabRoomOf('/api/collab/r1?x=1')).toBe('r1');
+    expect(collabRoomOf('/api/collab/r1/more')).toBeNull();
+    expect(collabRoomOf('/_next/webpack-hmr')).toBeNull();
+  });
+
+  it('shares a room with the server-sent-event relay', async () => {
+    const base = await listen();
+    const a = await open(`${base}/api/collab/r1`);
+    const b = await open(`${base}/api/collab/r1`);
+    const sse: string[] = [];
+    const leave = joinRoom('r1', d => sse.push(d));
+
+    const gotB = next(b);
+    a.send(JSON.stringify({ type: 'hello', site: 'a' }));
+    expect(await gotB).toBe('{"type":"hello","site":"a"}');
+    expect(sse).toEqual(['{"type":"hello","site":"a"}']);
+
+    // a POST to the relay route reaches the WebSocket clients too
+    const gotA = next(a);
+    publish('r1', '{"type":"bye","site":"c"}');
+    expect(await gotA).toBe('{"type":"bye","site":"c"}');
+    leave();
+    a.close(); b.close();
+  });
+
+  it('closes connections that send something other than a sync message', async () => {
+    const base = await listen();
+    const ws = await open(`${base}/api/collab/r1`);
+    const closed = new Promise<number>(resolve => ws.once('close', code => resolve(code)));
+    ws.send('not json');
+    expect(await closed).toBe(1003);
+    await expect(open(`${base}/elsewhere`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { applyRemote, createReplica, localEdit, materialize, mergeState } from '@/lib/crdt';
+
+const scene = (id: string, positionSec: number, extra: Record<string, unknown> = {}) => ({ id, positionSec, lengthSec: 10, ...extra });
+
+describe('crdt', () => {
+  it('merges concurrent edits of different fields of the same scene', () => {
+    const seed = localEdit(createReplica('a'), 'scenes', [], [scene('s1', 0)]);
+    let a = seed.replica;
+    let b = applyRemote(createReplica('b'), seed.delta!);
+
+    const ea = localEdit(a, 'scenes', [scene('s1', 0)], [scene('s1', 30)]);
+    const eb = localEdit(b, 'scenes', [scene('s1', 0)], [scene('s1', 0, { lengthSec: 25 })]);
+    a = applyRemote(ea.replica, eb.delta!);
+    b = applyRemote(eb.replica, ea.delta!);
+
+    expect(materialize(a.state, 'scenes')).toEqual([{ id: 's1', positionSec: 30, lengthSec: 25 }]);
+    expect(materialize(b.state, 'scenes')).toEqual(materialize(a.state, 'scenes'));
+  });
+
+  it('resolves conflicting writes the same way on every replica', () => {
+    const seed = localEdit(createReplica('a'), 'scenes', [], [scene('s1', 0)]);
+    const b0 = applyRemote(createReplica('b'), seed.delta!);
+    const ea = localEdit(seed.replica, 'scenes', [scene('s1', 0)], [scene('s1', 5)]);
+    const eb = localEdit(b0, 'scenes', [scene('s1', 0)], [scene('s1', 9)]);
+
+    const ab = mergeState(mergeState(seed.replica.state, ea.delta!), eb.delta!);
+    const ba = mergeState(mergeState(b0.state, eb.delta!), ea.delta!);
+    expect(materialize(ab, 'scenes')).toEqual(materialize(ba, 'scenes'));
+    // same counter: the higher site id wins
+    expect(materialize(ab, 'scenes')[0].positionSec).toBe(9);
+    // merging twice changes nothing
+    expect(mergeState(ab, ab)).toEqual(ab);
+  });
+
+  it('deletes, re-adds and keeps creation order', () => {
+    let r = localEdit(createReplica('a'), 'notes', [], [{ id: 'n1', text: 'x' }, { id: 'n2', text: 'y' }]).replica;
+    r = localEdit(r, 'notes', [{ id: 'n1', text: 'x' }, { id: 'n2', text: 'y' }], [{ id: 'n2', text: 'y' }]).replica;
+    expect(materialize(r.state, 'notes')).toEqual([{ id: 'n2', text: 'y' }]);
+    r = localEdit(r, 'notes', [{ id: 'n2', text: 'y' }], [{ id: 'n2', text: 'y' }, { id: 'n1', text: 'back' }]).replica;
+    expect(materialize(r.state, 'notes').map(n => n.id)).toEqual(['n1', 'n2']);
+    expect(localEdit(r, 'notes', [{ id: 'n1', text: 'back' }], [{ id: 'n1', text: 'back' }]).delta).toBeNull();
+  });
+});
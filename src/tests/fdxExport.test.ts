@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { XMLParser } from 'fast-xml-parser';
+import { linesToFdx, scenesToFdx, toFdxColor } from '@/lib/format/fdx';
+import { importFdxToScenes } from '@/lib/importers/fdx';
+import { classifyLines } from '@/lib/scriptClassifier';
+
+const parse = (xml: string) =>
+  new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', textNodeName: '#text' }).parse(xml);
+
+describe('scenesToFdx', () => {
+  const xml = scenesToFdx([
+    { heading: 'EXT. PARK - DAY', description: 'Birds & bees.', originalSceneNumber: 2, newSceneNumber: 1, color: '#34d399' },
+    {
+      heading: 'INT. OFFICE - DAY',
+      description: '',
+      originalSceneNumber: 1,
+      newSceneNumber: 2,
+      color: '#a78bfa',
+      scriptLines: [
+        { type: 'action', text: 'A phone rings.' },
+        { type: 'character', text: 'SAM' },
+        { type: 'parenthetical', text: '(picking up)' },
+        { type: 'dialogue', text: 'Hello?' },
+        { type: 'transition', text: 'CUT TO:' },
+      ],
+    },
+  ]);
+
+  it('writes a FinalDraft document the importer can read back', () => {
+    expect(xml.startsWith('<?xml')).toBe(true);
+    const { scenes, warnings } = importFdxToScenes(xml);
+    expect(warnings).toEqual([]);
+    expect(scenes.map(s => s.heading)).toEqual(['EXT. PARK - DAY', 'INT. OFFICE - DAY']);
+    expect(scenes[0].lines).toEqual([{ type: 'action', text: 'Birds & bees.' }]);
+    expect(scenes[1].lines.map(l => l.type)).toEqual(['action', 'character', 'parenthetical', 'dialogue', 'transition']);
+  });
+
+  it('numbers headings by timeline order, keeps the original number and color', () => {
+    const paras = parse(xml).FinalDraft.Content.Paragraph;
+    const headings = paras.filter((p: any) => p.Type === 'Scene Heading');
+    expect(headings.map((p: any) => [p.Number, p.OriginalNumber])).toEqual([['1', '2'], ['2', '1']]);
+    expect(headings[0].SceneProperties.Color).toBe('#3434D3D39999');
+  });
+
+  it('prints omitted scenes as a bare OMITTED heading', () => {
+    const paras = parse(scenesToFdx([{ heading: '', description: 'gone', newSceneNumber: '12A', omitted: true }])).FinalDraft.Content.Paragraph;
+    expect(paras).toEqual({ Type: 'Scene Heading', Number: '12A', Text: 'OMITTED' });
+  });
+});
+
+describe('linesToFdx', () => {
+  it('wraps dual dialogue, marks page breaks and prints the title page', () => {
+    const lines = classifyLines('Title: Demo\n\nINT. HOUSE - DAY #4#\n\nBRICK\nNo.\n\nSTEEL ^\nYes.\n\n===\n\n>THE END<');
+    const fd = parse(linesToFdx(lines)).FinalDraft;
+    const paras = fd.Content.Paragraph;
+    expect(paras[0]).toMatchObject({ Type: 'Scene Heading', Number: '4', Text: 'INT. HOUSE - DAY' });
+    expect(paras[1].DualDialogue.Paragraph.map((p: any) => p.Text)).toEqual(['BRICK', 'No.', 'STEEL', 'Yes.']);
+    expect(paras[2]).toMatchObject({ Type: 'Action', Alignment: 'Center', StartsNewPage: 'Yes', Text: 'THE END' });
+    expect(fd.TitlePage.Content.Paragraph[0].Text).toBe('Demo');
+  });
+
+  it('converts CSS hex colors to 16-bit FDX colors', () => {
+    expect(toFdxColor('#ff0080')).toBe('#FFFF00008080');
+    expect(toFdxColor('red')).toBeUndefined();
+  });
+});
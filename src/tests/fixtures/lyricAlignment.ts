@@ -0,0 +1,81 @@
+// src/tests/fixtures/lyricAlignment.ts
+// Benchmark cases for aligning a lyric sheet to a transcript. Each case "sings" what the
+// recognizer heard at given times and records when every sheet line really starts
+// (null where the line was never heard and has to be interpolated).
+
+import type { Word } from '@/lib/align';
+
+export type AlignmentCase = {
+  name: string;
+  sheet: string[];
+  words: Word[];
+  /** True start of each sheet line, or null when nothing of it was heard. */
+  expectedStarts: Array<number | null>;
+};
+
+const WORD_SEC = 0.35;
+
+/** Words heard from `[startSec, 'heard text', confidence?]` phrases, one word every 0.35 s. */
+function sing(...phrases: Array<[number, string, number?]>): Word[] {
+  return phrases.flatMap(([at, text, confidence]) =>
+    text.split(' ').map((t, i) => ({
+      text: t,
+      start: at + i * WORD_SEC,
+      end: at + i * WORD_SEC + WORD_SEC * 0.8,
+      confidence: confidence ?? 0.9,
+    })));
+}
+
+const CHORUS = ['Hold me closer tiny dancer', 'Count the headlights on the highway'];
+
+export const ALIGNMENT_CASES: AlignmentCase[] = [
+  {
+    name: 'clean transcript',
+    sheet: ['Is this the real life?', 'Is this just fantasy?', 'Caught in a landslide', 'No escape from reality'],
+    words: sing([1, 'is this the real life'], [4, 'is this just fantasy'], [7, 'caught in a landslide'], [10, 'no escape from reality']),
+    expectedStarts: [1, 4, 7, 10],
+  },
+  {
+    name: 'misheard words',
+    sheet: CHORUS,
+    words: sing([2, 'hold me closer tony danza', 0.6], [6, 'count the head lights on the highway', 0.7]),
+    expectedStarts: [2, 6],
+  },
+  {
+    name: 'chorus repeated three times',
+    sheet: ['Verse one goes here', ...CHORUS, 'Verse two is different', ...CHORUS, 'Bridge before the end', ...CHORUS],
+    words: sing(
+      [0, 'verse one goes here'],
+      [4, 'hold me closer tiny dancer'], [7, 'count the headlights on the highway'],
+      [12, 'verse two is different'],
+      [16, 'hold me closer tiny dancer'], [19, 'count the headlights on the highway'],
+      [24, 'bridge before the end'],
+      [28, 'hold me closer tiny dancer'], [31, 'count the headlights on the highway'],
+    ),
+    expectedStarts: [0, 4, 7, 12, 16, 19, 24, 28, 31],
+  },
+  {
+    name: 'line missing from the transcript',
+    sheet: ['We were young and free', 'Mumbled under the drums', 'Running down the empty road'],
+    words: sing([0, 'we were young and free'], [8, 'running down the empty road']),
+    expectedStarts: [0, null, 8],
+  },
+  {
+    name: 'ad-libs between lines',
+    sheet: ['Lights go down tonight', 'Nobody sleeps in this town'],
+    words: sing([0, 'lights go down tonight'], [2.5, 'yeah yeah oh', 0.5], [4, 'nobody sleeps in this town']),
+    expectedStarts: [0, 4],
+  },
+  {
+    name: 'unheard first line after a spoken intro',
+    sheet: ['Whispered opening words', 'Sunrise on the water', 'Gold across the sky'],
+    words: sing([0, 'one two three four'], [8, 'sunrise on the water'], [11, 'gold across the sky']),
+    expectedStarts: [null, 8, 11],
+  },
+  {
+    name: 'spoken intro before the first line',
+    sheet: ['Take my hand tonight', 'Dance until the morning'],
+    words: sing([0, 'this one is for all of you out there'], [6, 'take my hand tonight'], [9, 'dance until the morning']),
+    expectedStarts: [6, 9],
+  },
+];
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { classifyLines, titlePageOf } from '@/lib/scriptClassifier';
+import { linesToFountain, scenesToFountain } from '@/lib/format/fountain';
+import { parseScript } from '@/lib/scriptParser';
+import type { ScriptLine } from '@/lib/scriptTypes';
+
+const sample = `Title: Brick & Steel
+Credit: Written by
+Authors:
+   Stu Maschwitz
+   Jane Doe
+Draft date: 1/20/2012
+
+# ACT ONE
+
+= Brick and Steel finish the job.
+
+EXT. BRICK'S PATIO - DAY #1#
+
+A gorgeous day. [[Check the weather]]
+
+BRICK
+Screw retirement.
+
+STEEL ^
+Screw retirement.
+
+.SNIPER SCOPE POV
+
+!ALL CAPS ACTION
+
+@McCLANE
+(beat)
+Yippee ki-yay.
+
+> Burn to White.
+
+>THE END<
+
+===
+
+INT. LAB - NIGHT #12A#
+
+[[Rewrite this scene]]
+
+~Willy Wonka! Willy Wonka!
+
+CUT TO:
+
+EXT. STREET - DAY`;
+
+// Compare the parts that matter for round-tripping; blank lines are layout only
+const significant = (lines: ScriptLine[]) =>
+  lines
+    .filter(l => !(l.type === 'action' && !l.text.trim()))
+    .map(({ type, text, sceneNumber, dual, depth, notes }) => ({ type, text: text.trim(), sceneNumber, dual, depth, notes }));
+
+describe('linesToFountain', () => {
+  it('round-trips every element through the classifier', () => {
+    const first = classifyLines(sample);
+    const exported = linesToFountain(first);
+    const second = classifyLines(exported);
+    expect(significant(second)).toEqual(significant(first));
+    expect(titlePageOf(second)).toEqual(titlePageOf(first));
+  });
+
+  it('is stable when exported twice', () => {
+    const once = linesToFountain(classifyLines(sample));
+    expect(linesToFountain(classifyLines(once))).toBe(once);
+  });
+
+  it('adds blank lines and forcing prefixes for editor lines without layout', () => {
+    const out = linesToFountain([
+      { type: 'scene', text: 'int. apartment - night', sceneNumber: '3' },
+      { type: 'action', text: 'BANG' },
+      { type: 'action', text: 'The door flies open.' },
+      { type: 'character', text: 'Alex' },
+      { type: 'dialogue', text: 'Hi.' },
+      { type: 'transition', text: 'Fade out.' },
+    ]);
+    expect(out).toBe('INT. APARTMENT - NIGHT #3#\n\n!BANG\nThe door flies open.\n\n@Alex\nHi.\n\n> Fade out.');
+    expect(classifyLines(out).filter(l => l.text.trim()).map(l => l.type))
+      .toEqual(['scene', 'action', 'action', 'character', 'dialogue', 'transition']);
+  });
+
+  it('closes a boneyard that was opened on an action line', () => {
+    const out = linesToFountain(classifyLines('Still here. /*\nhidden'));
+    expect(out).toBe('Still here.\n/* hidden */');
+  });
+
+  it('keeps brackets in notes from closing them early', () => {
+    const notes = ['Cut ]] here?', 'See [[old draft]]', 'Ends in a bracket]'];
+    const out = linesToFountain([
+      { type: 'action', text: 'A door.', notes: [notes[0]] },
+      { type: 'note', text: notes[1] },
+      { type: 'note', text: notes[2] },
+    ]);
+    const back = classifyLines(out);
+    expect(back.flatMap(l => l.type === 'note' ? [l.text] : l.notes ?? [])).toEqual(['Cut ] here?', 'See [old draft]', 'Ends in a bracket]']);
+    expect(back.filter(l => l.text.trim()).map(l => l.text.trim())).toEqual(['A door.', 'See [old draft]', 'Ends in a bracket]']);
+    expect(linesToFountain(classifyLines(out))).toBe(out);
+  });
+});
+
+describe('scenesToFountain', () => {
+  it('writes originalSceneNumber and film notes', () => {
+    const txt = scenesToFountain(
+      [
+        { id: 'a', heading: 'INT. OFFICE - DAY', description: 'A phone rings.', originalSceneNumber: 4 },
+        { id: 'b', heading: 'EXT. PARK - DAY', description: 'Birds.', originalSceneNumber: 7 },
+      ],
+      [
+        { sceneId: 'a', text: 'Second note', order: 1 },
+        { sceneId: 'a', text: 'First\nnote', order: 0 },
+      ],
+      { titlePage: [{ key: 'Title', value: 'Demo' }] },
+    );
+    expect(txt).toContain('INT. OFFICE - DAY #4#\n\n[[First note]]\n[[Second note]]');
+
+    const parsed = parseScript(txt);
+    expect(parsed.titlePage).toEqual([{ key: 'Title', value: 'Demo' }]);
+    expect(parsed.scenes.map(s => s.sceneNumber)).toEqual(['4', '7']);
+    expect(parsed.scenes[0].lines.filter(l => l.type === 'note').map(l => l.text)).toEqual(['First note', 'Second note']);
+  });
+
+  it('prefers the production number and prints OMITTED placeholders', () => {
+    const txt = scenesToFountain([
+      { id: 'a', heading: 'INT. OFFICE - DAY', description: 'A phone rings.', originalSceneNumber: 4, sceneNumber: '12' },
+      { id: 'omitted:12A', heading: '', description: '', sceneNumber: '12A', omitted: true },
+      { id: 'b', heading: 'EXT. PARK - DAY', description: 'Birds.', sceneNumber: '12B' },
+    ]);
+    expect(txt).toContain('.OMITTED #12A#');
+    expect(parseScript(txt).scenes.map(s => s.sceneNumber)).toEqual(['12', '12A', '12B']);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { applyPatch, diffDocs, emptyHistory, jumpTo, recordChange, redoStep, undoStep } from '@/lib/history';
+
+type Doc = { scenes: { id: string; pos: number; image?: string }[]; zoom: number };
+
+const v0: Doc = { scenes: [{ id: 'a', pos: 0, image: 'data:image/png;base64,AAAA' }, { id: 'b', pos: 10 }], zoom: 1 };
+const v1: Doc = { ...v0, scenes: [{ ...v0.scenes[0], pos: 5 }, v0.scenes[1]] };
+const v2: Doc = { ...v1, scenes: [...v1.scenes, { id: 'c', pos: 20 }] };
+
+describe('patch history', () => {
+  it('stores only the changed fields of changed items', () => {
+    const patch = diffDocs(v0, v1)!;
+    expect(patch).toEqual({ scenes: { kind: 'items', changes: [{ op: 'update', id: 'a', before: { pos: 0 }, after: { pos: 5 } }] } });
+    expect(JSON.stringify(patch)).not.toContain('base64');
+    expect(diffDocs(v0, { ...v0 })).toBeNull();
+  });
+
+  it('round-trips adds, removes and value changes', () => {
+    const v3: Doc = { scenes: [v2.scenes[2], v2.scenes[1]], zoom: 2 };
+    const patch = diffDocs(v2, v3)!;
+    expect(applyPatch(v2, patch, 'redo')).toEqual(v3);
+    expect(applyPatch(v3, patch, 'undo')).toEqual(v2);
+  });
+
+  it('undoes and redoes labeled entries', () => {
+    let h = recordChange(emptyHistory(), v0, v1, { label: 'Moved scene 1' });
+    h = recordChange(h, v1, v2, { label: 'Added scene' });
+    expect(h.past.map(e => e.label)).toEqual(['Moved scene 1', 'Added scene']);
+
+    const u = undoStep(h, v2)!;
+    expect(u.doc).toEqual(v1);
+    expect(u.history.future.map(e => e.label)).toEqual(['Added scene']);
+    const r = redoStep(u.history, u.doc)!;
+    expect(r.doc).toEqual(v2);
+    expect(undoStep(emptyHistory(), v0)).toBeNull();
+
+    // a new edit clears redo
+    expect(recordChange(u.history, v1, v0, { label: 'Moved scene 1' }).future).toEqual([]);
+  });
+
+  it('coalesces continuous edits with the same key and respects the limit', () => {
+    let h = recordChange(emptyHistory(), v0, v1, { label: 'Resized', coalesceKey: 'len:a', time: 1000 });
+    const v1b: Doc = { ...v1, scenes: [{ ...v1.scenes[0], pos: 7 }, v1.scenes[1]] };
+    h = recordChange(h, v1, v1b, { label: 'Resized', coalesceKey: 'len:a', time: 1500 });
+    expect(h.past).toHaveLength(1);
+    expect(undoStep(h, v1b)!.doc).toEqual(v0);
+
+    let many = emptyHistory();
+    let doc = v0;
+    for (let i = 1; i <= 5; i++) {
+      const next = { ...doc, zoom: i };
+      many = recordChange(many, doc, next, { label: `Zoom ${i}` }, 3);
+      doc = next;
+    }
+    expect(many.past.map(e => e.label)).toEqual(['Zoom 3', 'Zoom 4', 'Zoom 5']);
+  });
+
+  it('jumps to any entry', () => {
+    let h = recordChange(emptyHistory(), v0, v1, { label: 'one' });
+    h = recordChange(h, v1, v2, { label: 'two' });
+    const first = h.past[0].id;
+    const back = jumpTo(h, v2, 0);
+    expect(back.doc).toEqual(v0);
+    const fwd = jumpTo(back.history, back.doc, first);
+    expect(fwd.doc).toEqual(v1);
+    expect(fwd.history.past.map(e => e.label)).toEqual(['one']);
+  });
+});
@@ -55,4 +55,83 @@ describe('importers', () => {
     // First scene should exist and have non-zero estimated length
     expect(res.scenes[0].estLengthSec).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+});
+
+const fdxRich = `
+<?xml version="1.0" encoding="UTF-8"?>
+<FinalDraft DocumentType="Script" Template="No">
+  <Content>
+    <Paragraph Number="12A" Type="Scene Heading">
+      <SceneProperties Color="#34349999FFFF" Length="1 2/8" Page="3" Title="The call"/>
+      <Text>INT. OFFICE - DAY</Text>
+    </Paragraph>
+    <Paragraph Type="Action"><Text Style="Bold">The phone </Text><Text>rings</Text><Text Style="Italic">, twice.</Text></Paragraph>
+    <Paragraph Type="Shot"><Text>ANGLE ON THE PHONE</Text></Paragraph>
+    <Paragraph Type="Cast List"><Text>SAM, JO</Text></Paragraph>
+    <Paragraph>
+      <DualDialogue>
+        <Paragraph Type="Character"><Text>SAM</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Hello?</Text></Paragraph>
+        <Paragraph Type="Character"><Text>JO</Text></Paragraph>
+        <Paragraph Type="Dialogue"><Text>Hi!</Text></Paragraph>
+      </DualDialogue>
+    </Paragraph>
+    <Paragraph Number="13" Type="Scene Heading">
+      <SceneProperties Page="5"/>
+      <Text>EXT. PARK - DAY</Text>
+    </Paragraph>
+    <Paragraph Type="Action"><Text>1</Text></Paragraph>
+    <Paragraph Type="Scene Heading"><SceneProperties Page="7"/><Text>EXT. ROAD - NIGHT</Text></Paragraph>
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center" Type="Title"><Text>DEMO</Text></Paragraph>
+      <Paragraph Alignment="Center"><Text/></Paragraph>
+      <Paragraph Alignment="Center"><Text>Written by</Text></Paragraph>
+      <Paragraph Alignment="Center"><Text/></Paragraph>
+      <Paragraph Alignment="Center"><Text>Sam Writer</Text></Paragraph>
+      <Paragraph Alignment="Left"><Text>Agency</Text></Paragraph>
+      <Paragraph Alignment="Left"><Text>555-1234</Text></Paragraph>
+    </Content>
+  </TitlePage>
+</FinalDraft>
+`.trim();
+
+describe('FDX importer fidelity', () => {
+  const res = importFdxToScenes(fdxRich);
+  const [office, park] = res.scenes;
+
+  it('joins styled <Text> runs and keeps numeric text as text', () => {
+    expect(office.lines[0]).toEqual({ type: 'action', text: 'The phone rings, twice.' });
+    expect(park.lines[0]).toEqual({ type: 'action', text: '1' });
+  });
+
+  it('maps Shot, Cast List and DualDialogue paragraphs', () => {
+    expect(office.lines.slice(1).map(l => [l.type, l.text, l.dual])).toEqual([
+      ['shot', 'ANGLE ON THE PHONE', undefined],
+      ['general', 'SAM, JO', undefined],
+      ['character', 'SAM', 'left'],
+      ['dialogue', 'Hello?', 'left'],
+      ['character', 'JO', 'right'],
+      ['dialogue', 'Hi!', 'right'],
+    ]);
+  });
+
+  it('reads scene numbers and SceneProperties', () => {
+    expect(office).toMatchObject({ sceneNumber: '12A', title: 'The call', color: '#3499ff', page: '3', lengthEighths: 10 });
+    // Length drives the estimate: 1 2/8 pages at one minute per page
+    expect(office.estLengthSec).toBe(75);
+    // No Length: page 5 → 7 is two pages
+    expect(park).toMatchObject({ sceneNumber: '13', lengthEighths: 16, estLengthSec: 120 });
+    expect(park.positionSec).toBe(76);
+  });
+
+  it('reads the title page', () => {
+    expect(res.titlePage).toEqual([
+      { key: 'Title', value: 'DEMO' },
+      { key: 'Credit', value: 'Written by' },
+      { key: 'Author', value: 'Sam Writer' },
+      { key: 'Contact', value: 'Agency\n555-1234' },
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { alignProvidedLyricsToWords } from '@/lib/align';
+import { ALIGNMENT_CASES } from './fixtures/lyricAlignment';
+
+// How far a heard line's start may land from where it was sung
+const TOLERANCE_SEC = 0.3;
+
+describe('lyric alignment benchmark', () => {
+  for (const c of ALIGNMENT_CASES) {
+    it(c.name, () => {
+      const lines = alignProvidedLyricsToWords(c.sheet, c.words);
+      expect(lines.map(l => l.text)).toEqual(c.sheet);
+
+      lines.forEach((l, i) => {
+        expect(l.endSec).toBeGreaterThanOrEqual(l.startSec);
+        if (i > 0) expect(l.startSec).toBeGreaterThanOrEqual(lines[i - 1].startSec);
+        const expected = c.expectedStarts[i];
+        if (expected === null) {
+          // interpolated between its neighbours
+          expect(l.confidence).toBe(0);
+          if (i > 0) expect(l.startSec).toBeGreaterThanOrEqual(lines[i - 1].endSec!);
+          if (i + 1 < lines.length) expect(l.endSec!).toBeLessThanOrEqual(lines[i + 1].startSec);
+        } else {
+          expect(Math.abs(l.startSec - expected)).toBeLessThanOrEqual(TOLERANCE_SEC);
+          expect(l.confidence).toBeGreaterThan(0);
+          expect(l.confidence).toBeLessThanOrEqual(1);
+        }
+      });
+    });
+  }
+
+  it('scores misheard lines below cleanly heard ones', () => {
+    const [misheard] = ALIGNMENT_CASES.filter(c => c.name === 'misheard words');
+    const lines = alignProvidedLyricsToWords(misheard.sheet, misheard.words);
+    expect(lines[0].confidence).toBeLessThan(0.6);
+    expect(lines[1].confidence).toBeGreaterThan(lines[0].confidence);
+  });
+});
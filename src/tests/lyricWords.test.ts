@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { clampWordsToClip, moveWordEdge, MIN_WORD_SEC, retextWords, shiftWords, spreadWords } from '@/lib/lyricWords';
+import { parseLyricsSmart } from '@/lib/lyrics';
+
+const wd = (text: string, startSec: number, endSec: number) => ({ text, startSec, endSec });
+
+describe('lyric words', () => {
+  const words = [wd('hold', 1, 1.5), wd('me', 1.5, 2), wd('closer', 2.5, 3.5)];
+
+  it('spreads words by their length and shifts them with the clip', () => {
+    expect(spreadWords(['ab', 'abcd'], 0, 3)).toEqual([wd('ab', 0, 1), wd('abcd', 1, 3)]);
+    expect(shiftWords(words, 2)[2]).toEqual(wd('closer', 4.5, 5.5));
+  });
+
+  it('moves a shared boundary for both words and stops at a gap', () => {
+    const joined = moveWordEdge(words, 1, 'start', 1.2);
+    expect(joined.slice(0, 2)).toEqual([wd('hold', 1, 1.2), wd('me', 1.2, 2)]);
+    // "me" and "closer" have a gap between them, so "me" can only grow up to "closer"
+    expect(moveWordEdge(words, 1, 'end', 3)[1]).toEqual(wd('me', 1.5, 2.5));
+    expect(moveWordEdge(words, 1, 'end', 3)[2]).toEqual(words[2]);
+    // a word never shrinks below the minimum, nor leaves the clip
+    expect(moveWordEdge(words, 0, 'end', 0)[0].endSec).toBeCloseTo(1 + MIN_WORD_SEC);
+    expect(moveWordEdge(words, 0, 'start', 0, 0.8)[0].startSec).toBe(0.8);
+    expect(moveWordEdge(words, 2, 'end', 9, 0, 4)[2].endSec).toBe(4);
+  });
+
+  it('keeps timings through a typo fix and respreads a rewrite', () => {
+    expect(retextWords(words, 'hold me closer!')!.map(w => [w.text, w.startSec])).toEqual([['hold', 1], ['me', 1.5], ['closer!', 2.5]]);
+    const rewritten = retextWords(words, 'hold me')!;
+    expect(rewritten.map(w => w.text)).toEqual(['hold', 'me']);
+    expect([rewritten[0].startSec, rewritten[1].endSec]).toEqual([1, 3.5]);
+    expect(retextWords(words, '  ')).toBeUndefined();
+  });
+
+  it('clamps words into their clip without overlaps', () => {
+    const messy = [wd('b', 1.9, 2.6), wd('a', 0.5, 2), wd('c', 5, 6)];
+    expect(clampWordsToClip(messy, 1, 3)).toEqual([wd('a', 1, 2), wd('b', 2, 2.6)]);
+  });
+
+  it('reads word timings from enhanced LRC tags', () => {
+    const lines = parseLyricsSmart([
+      '[00:12.00]<00:12.00>Hold <00:12.40>me <00:12.70>closer<00:13.50>',
+      '[00:15.00]Count the <00:16.00>headlights',
+      '[00:20.00]No word tags here',
+    ].join('\n'));
+    expect(lines.map(l => l.text)).toEqual(['Hold me closer', 'Count the headlights', 'No word tags here']);
+    expect(lines[0].words).toEqual([wd('Hold', 12, 12.4), wd('me', 12.4, 12.7), wd('closer', 12.7, 13.5)]);
+    // untagged leading words share the time up to the first tag; the last runs to the next line
+    expect(lines[1].words!.map(w => [w.text, w.startSec, w.endSec])).toEqual([
+      ['Count', 15, expect.closeTo(15 + 5 / 8)], ['the', expect.closeTo(15 + 5 / 8), 16], ['headlights', 16, 20],
+    ]);
+    expect(lines[2].words).toBeUndefined();
+  });
+});
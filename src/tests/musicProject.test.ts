@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { migrateMusicProject, validateMusicProject } from '@/lib/musicProject';
+
+const note = { id: 'n1', timestampSec: 2, xOffsetPx: 0, yPx: 20, text: 'Verse', color: '#eab308', w: 160, h: 26 };
+
+const v1 = {
+  version: 1, kind: 'dtmusic', projectName: 'Demo', zoom: 80, panX: 10, playheadSec: 3, waveAmp: 0.3,
+  notes: [note], audioMeta: null,
+};
+
+const v2 = {
+  ...v1,
+  version: 2,
+  lyricsClips: [{ id: 'l1', text: 'hello', timestampSec: 1, endSec: 2, color: '#34d399' }],
+  markers: [{ id: 'm1', sec: 4, label: 'Chorus', color: '#22c55e' }],
+  loop: { enabled: true, a: 1, b: 5 },
+  lyricsOffsetSec: -0.25,
+  snappingEnabled: true,
+  dragMovesTimestamp: false,
+};
+
+describe('music project files', () => {
+  it('upgrades V1 files with empty lyrics, markers and loop', () => {
+    const p = migrateMusicProject(v1);
+    expect(p.version).toBe(2);
+    expect(p.notes).toEqual([note]);
+    expect(p.lyricsClips).toEqual([]);
+    expect(p.markers).toEqual([]);
+    expect(p.loop).toEqual({ enabled: false, a: null, b: null });
+    expect(p.lyricsOffsetSec).toBe(0);
+  });
+
+  it('keeps every timeline entity of V2 files', () => {
+    const p = migrateMusicProject(JSON.parse(JSON.stringify(v2)));
+    expect(p).toEqual(v2);
+  });
+
+  it('names the problems instead of a generic error', () => {
+    expect(validateMusicProject(null)).toEqual(['the file is not a JSON object']);
+    expect(validateMusicProject({ ...v2, kind: 'dtfilm' })[0]).toMatch(/film project/);
+    expect(validateMusicProject({ ...v2, version: 3 })[0]).toMatch(/version 3 is not supported/);
+
+    const broken = {
+      ...v2,
+      notes: [{ ...note, timestampSec: 'x' }, { ...note }],
+      markers: [{ id: 'm1', sec: -1 }],
+      loop: { enabled: true, a: 5, b: 2 },
+    };
+    expect(validateMusicProject(broken)).toEqual([
+      'notes[0].timestampSec must be a time ≥ 0',
+      'notes[1] repeats id "n1"',
+      'markers[0].sec must be a time ≥ 0',
+      'loop.b must be after loop.a',
+    ]);
+    expect(() => migrateMusicProject(broken)).toThrow(/notes\[0\]\.timestampSec .*\(and 1 more\)/);
+  });
+
+  it('checks per-word timings of lyric clips', () => {
+    const words = [{ text: 'hel', startSec: 1, endSec: 1.4 }, { text: 'lo', startSec: 1.4, endSec: 2 }];
+    const withWords = { ...v2, lyricsClips: [{ ...v2.lyricsClips[0], words }] };
+    expect(validateMusicProject(withWords)).toEqual([]);
+    expect(migrateMusicProject(JSON.parse(JSON.stringify(withWords))).lyricsClips[0].words).toEqual(words);
+
+    const overlapping = { ...v2, lyricsClips: [{ ...v2.lyricsClips[0], words: [words[0], { ...words[1], startSec: 1.2, endSec: 1.1 }] }] };
+    expect(validateMusicProject(overlapping)).toEqual([
+      'lyricsClips[0].words[1].endSec must not be before startSec',
+      'lyricsClips[0].words[1] overlaps the word before it',
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { eighthsToSeconds, formatEighths, paginateScenes, sceneEighths, wrapCount } from '@/lib/pagination';
+import { parseScript } from '@/lib/scriptParser';
+import type { ScriptLine } from '@/lib/scriptTypes';
+
+const heading = (text: string): ScriptLine => ({ type: 'scene', text });
+const action = (text: string): ScriptLine => ({ type: 'action', text });
+
+describe('pagination', () => {
+  it('wraps text on word boundaries', () => {
+    expect(wrapCount('', 60)).toBe(1);
+    expect(wrapCount('a'.repeat(60), 60)).toBe(1);
+    expect(wrapCount('word '.repeat(20), 35)).toBe(3);
+  });
+
+  it('formats and converts eighths', () => {
+    expect(formatEighths(11)).toBe('1 3/8');
+    expect(formatEighths(8)).toBe('1');
+    expect(formatEighths(3)).toBe('3/8');
+    expect(eighthsToSeconds(12, 60)).toBe(90);
+    expect(eighthsToSeconds(4, 45)).toBe(23);
+  });
+
+  it('measures scenes by the page lines they cover', () => {
+    const short = [heading('INT. A - DAY'), action('Door opens.')];
+    const long = [heading('EXT. B - NIGHT'), ...Array.from({ length: 30 }, (_, i) => action(`Beat ${i}.`)).flatMap(l => [l, action('')])];
+    const spans = paginateScenes([short, long]);
+    expect(spans[0]).toMatchObject({ startPage: 1, startLine: 0, eighths: 1 });
+    expect(spans[1].startPage).toBe(1);
+    expect(spans[1].endPage).toBe(2);
+    expect(sceneEighths(long)).toBe(9);
+  });
+
+  it('splits long speeches across pages instead of pushing them whole', () => {
+    const filler = Array.from({ length: 25 }, (_, i) => action(`Line ${i}.`)).flatMap(l => [l, action('')]);
+    const speech: ScriptLine[] = [{ type: 'character', text: 'SAM' }, ...Array.from({ length: 10 }, () => ({ type: 'dialogue' as const, text: 'I keep talking.' }))];
+    const [span] = paginateScenes([[heading('INT. C - DAY'), ...filler, ...speech]]);
+    // Heading + 25 action paragraphs fill 51 lines; the cue starts on page 1 and runs onto page 2
+    expect(span.endPage).toBe(2);
+    expect(span.endLine).toBeLessThan(11);
+  });
+
+  it('times parsed scenes at the requested seconds per page', () => {
+    const text = ['INT. KITCHEN - DAY', '', ...Array.from({ length: 27 }, (_, i) => `Something happens ${i}.\n`)].join('\n');
+    expect(parseScript(text).scenes[0]).toMatchObject({ lengthEighths: 8, estLengthSec: 60, page: '1' });
+    expect(parseScript(text, { secondsPerPage: 48 }).scenes[0].estLengthSec).toBe(48);
+  });
+});
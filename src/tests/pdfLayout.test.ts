@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { layoutToScript, type PdfPageLayout, type PdfTextItem } from '@/lib/importers/pdf';
+
+// Courier 12 on US Letter: 7.2pt per character, action margin at 1.5"
+const CH = 7.2;
+const run = (str: string, x: number, y: number): PdfTextItem => ({ str, x, y, width: str.length * CH, fontName: 'Courier', fontSize: 12 });
+const at = (indent: number, row: number, str: string) => run(str, 108 + indent * CH, 720 - row * 12);
+const page = (pageNumber: number, items: PdfTextItem[]): PdfPageLayout => ({ pageNumber, width: 612, height: 792, items });
+
+const pages: PdfPageLayout[] = [
+  page(1, [
+    run('1', 72, 720), at(0, 0, 'INT. OFFICE - DAY'), run('1', 540, 720),
+    at(0, 2, 'A phone rings.'),
+    at(22, 4, 'SAM'),
+    at(16, 5, '(picking up)'),
+    at(10, 6, 'Hello? Who is'), run('*', 560, 648),
+    at(22, 7, '(MORE)'),
+  ]),
+  page(2, [
+    run('2.', 530, 756),
+    at(22, 0, "SAM (CONT'D)"),
+    at(10, 1, 'this?'),
+    at(45, 3, 'CUT TO:'),
+    run('2', 72, 660), at(0, 5, 'EXT. PARK - DAY'),
+    at(0, 7, 'Birds sing.'),
+    run('THE END', 306 - 3.5 * CH, 360),
+  ]),
+];
+
+describe('layoutToScript', () => {
+  const { scenes } = layoutToScript(pages);
+  const body = (i: number) => scenes[i].lines.filter(l => l.text).map(l => [l.type, l.text]);
+
+  it('classifies lines by their left margin and drops page artifacts', () => {
+    expect(scenes.map(s => s.heading)).toEqual(['INT. OFFICE - DAY', 'EXT. PARK - DAY']);
+    expect(body(0)).toEqual([
+      ['action', 'A phone rings.'],
+      ['character', 'SAM'],
+      ['parenthetical', '(picking up)'],
+      ['dialogue', 'Hello? Who is'],
+      ['dialogue', 'this?'],
+      ['transition', 'CUT TO:'],
+    ]);
+    expect(body(1)).toEqual([
+      ['action', 'Birds sing.'],
+      ['centered', 'THE END'],
+    ]);
+  });
+
+  it('takes scene numbers from the margins and keeps the page of each scene', () => {
+    expect(scenes.map(s => [s.sceneNumber, s.page])).toEqual([['1', '1'], ['2', '2']]);
+  });
+
+  it('times scenes from their length on the page', () => {
+    // Page 1 top to 5 lines into page 2 ≈ 1 1/8 pages
+    expect(scenes[0].lengthEighths).toBe(9);
+    expect(scenes[0].estLengthSec).toBe(68);
+    expect(scenes[1].positionSec).toBe(69);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { diffProjects, ghostSceneIds, summarizeDiff, type DiffableProject } from '@/lib/projectDiff';
+
+const before: DiffableProject = {
+  scenes: [
+    { id: 'a', heading: 'INT. HOUSE - DAY', positionSec: 0, lengthSec: 60 },
+    { id: 'b', heading: 'EXT. STREET - NIGHT', positionSec: 60, lengthSec: 30 },
+    { id: 'c', heading: 'INT. CAR - NIGHT', positionSec: 90, lengthSec: 45 },
+  ],
+  notes: [
+    { id: 'n1', sceneId: 'a', text: 'wide' },
+    { id: 'n2', sceneId: 'b', text: 'rain' },
+  ],
+};
+
+describe('project diff', () => {
+  it('reports no changes for identical versions', () => {
+    expect(diffProjects(before, structuredClone(before))).toEqual({ scenes: [], notes: [] });
+  });
+
+  it('reports moved, resized, retitled, renumbered, added and removed scenes', () => {
+    const after: DiffableProject = {
+      scenes: [
+        { id: 'a', heading: 'INT. HOUSE - DAY', positionSec: 100, lengthSec: 60 },
+        { id: 'b', heading: 'EXT. STREET - DAWN', positionSec: 60, lengthSec: 40, trackId: 'broll' },
+        { id: 'd', heading: 'INT. BAR - NIGHT', positionSec: 0, lengthSec: 20 },
+      ],
+      notes: before.notes,
+    };
+    const diff = diffProjects(before, after);
+    expect(diff.scenes).toEqual([
+      { kind: 'removed', id: 'c', heading: 'INT. CAR - NIGHT', number: 3 },
+      { kind: 'moved', id: 'a', heading: 'INT. HOUSE - DAY', fromSec: 0, toSec: 100 },
+      { kind: 'renumbered', id: 'a', heading: 'INT. HOUSE - DAY', numbering: 'timeline', from: '1', to: '3' },
+      { kind: 'moved', id: 'b', heading: 'EXT. STREET - DAWN', fromSec: 60, toSec: 60, fromTrack: undefined, toTrack: 'broll' },
+      { kind: 'resized', id: 'b', heading: 'EXT. STREET - DAWN', fromSec: 30, toSec: 40 },
+      { kind: 'retitled', id: 'b', from: 'EXT. STREET - NIGHT', to: 'EXT. STREET - DAWN' },
+      { kind: 'added', id: 'd', heading: 'INT. BAR - NIGHT', number: 1 },
+    ]);
+    expect([...ghostSceneIds(diff)].sort()).toEqual(['a', 'b', 'c']);
+    expect(summarizeDiff(diff)).toEqual({ removed: 1, moved: 2, renumbered: 1, resized: 1, retitled: 1, added: 1 });
+  });
+
+  it('reports script and locked production renumbers', () => {
+    const locked = (p: DiffableProject, numbers: Record<string, [number, string]>): DiffableProject => ({
+      ...p,
+      scenes: p.scenes.map(s => ({ ...s, originalSceneNumber: numbers[s.id][0], sceneNumber: numbers[s.id][1] })),
+    });
+    const v1 = locked(before, { a: [1, '1'], b: [2, '2'], c: [3, '3'] });
+    const v2 = locked(before, { a: [1, '1'], b: [4, '2'], c: [3, '2A'] });
+    expect(diffProjects(v1, v2).scenes).toEqual([
+      { kind: 'renumbered', id: 'b', heading: 'EXT. STREET - NIGHT', numbering: 'script', from: '2', to: '4' },
+      { kind: 'renumbered', id: 'c', heading: 'INT. CAR - NIGHT', numbering: 'production', from: '3', to: '2A' },
+    ]);
+    // locking numbers that match the timeline order changes nothing visible
+    expect(diffProjects(before, locked(before, { a: [0, '1'], b: [0, '2'], c: [0, '3'] })).scenes
+      .filter(c => c.kind === 'renumbered' && c.numbering === 'production')).toEqual([]);
+  });
+
+  it('reports changed notes', () => {
+    const after: DiffableProject = {
+      scenes: before.scenes,
+      notes: [
+        { id: 'n1', sceneId: 'a', text: 'wide, slow push' },
+        { id: 'n3', sceneId: 'c', text: 'headlights' },
+      ],
+    };
+    expect(diffProjects(before, after).notes).toEqual([
+      { kind: 'removed', id: 'n2', sceneId: 'b', text: 'rain' },
+      { kind: 'edited', id: 'n1', sceneId: 'a', from: 'wide', to: 'wide, slow push' },
+      { kind: 'added', id: 'n3', sceneId: 'c', text: 'headlights' },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { SNAPSHOT_INTERVAL_MS, activeProjectKey, isSnapshotDue, snapshotsToPrune, storageErrorMessage } from '@/lib/projectStore';
+
+describe('project library', () => {
+  it('takes a snapshot first, then at most once per interval', () => {
+    expect(isSnapshotDue(null, 1000)).toBe(true);
+    expect(isSnapshotDue(1000, 1000 + SNAPSHOT_INTERVAL_MS - 1)).toBe(false);
+    expect(isSnapshotDue(1000, 1000 + SNAPSHOT_INTERVAL_MS)).toBe(true);
+  });
+
+  it('prunes all but the newest snapshots', () => {
+    const snaps = [1, 2, 3, 4, 5].map(i => ({ id: i, createdAt: i * 100 }));
+    expect(snapshotsToPrune(snaps, 3).sort()).toEqual([1, 2]);
+    expect(snapshotsToPrune(snaps, 10)).toEqual([]);
+  });
+
+  it('keeps a separate open project per workspace and explains quota errors', () => {
+    expect(activeProjectKey('dtfilm')).toBe('dt:film:projectId');
+    expect(activeProjectKey('dtmusic')).toBe('dt:music:projectId');
+    expect(storageErrorMessage({ name: 'QuotaExceededError', message: 'x' })).toMatch(/storage is full/);
+    expect(storageErrorMessage(new Error('boom'))).toBe('boom');
+  });
+});
+
+describe('project library storage', () => {
+  let store: typeof import('@/lib/projectStore');
+  let now = 1_000;
+
+  // a fresh database and module (its connection is cached) for every test
+  beforeEach(async () => {
+    globalThis.indexedDB = new IDBFactory();
+    vi.resetModules();
+    store = await import('@/lib/projectStore');
+    now = 1_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 10));
+  });
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('saves and loads a project, keeping its creation time and audio link', async () => {
+    await store.saveProject({ id: 'p1', kind: 'dtmusic', name: 'Song', data: { v: 1 }, audioBlobId: 'p1:audio' });
+    const first = await store.getProject('p1');
+    await store.saveProject({ id: 'p1', kind: 'dtmusic', name: '', data: { v: 2 } });
+    const second = await store.getProject('p1');
+    expect(second).toMatchObject({ id: 'p1', kind: 'dtmusic', name: 'Untitled', data: { v: 2 }, audioBlobId: 'p1:audio' });
+    expect(second!.createdAt).toBe(first!.createdAt);
+    expect(second!.updatedAt).toBeGreaterThan(first!.updatedAt);
+    expect(await store.getProject('missing')).toBeUndefined();
+  });
+
+  it('lists the most recently edited projects first, by kind', async () => {
+    await store.saveProject({ id: 'a', kind: 'dtfilm', name: 'A', data: {} });
+    await store.saveProject({ id: 'b', kind: 'dtmusic', name: 'B', data: {} });
+    await store.saveProject({ id: 'c', kind: 'dtfilm', name: 'C', data: {} });
+    await store.saveProject({ id: 'a', kind: 'dtfilm', name: 'A', data: { edited: true } });
+    expect((await store.listProjects()).map(p => p.id)).toEqual(['a', 'c', 'b']);
+    expect((await store.listProjects('dtfilm')).map(p => p.id)).toEqual(['a', 'c']);
+    expect(Object.keys((await store.listProjects())[0]).sort()).toEqual(['createdAt', 'id', 'kind', 'name', 'updatedAt']);
+  });
+
+  it('keeps only the newest snapshots of each project', async () => {
+    for (let i = 0; i < store.SNAPSHOT_LIMIT + 3; i++) await store.addSnapshot('p1', { i });
+    await store.addSnapshot('p2', { i: 0 }, 'Version');
+    const snaps = await store.listSnapshots('p1');
+    expect(snaps).toHaveLength(store.SNAPSHOT_LIMIT);
+    expect(snaps[0].data).toEqual({ i: store.SNAPSHOT_LIMIT + 2 });
+    expect(snaps[snaps.length - 1].data).toEqual({ i: 3 });
+    expect((await store.listSnapshots('p2')).map(s => s.label)).toEqual(['Version']);
+  });
+
+  it('stores one file per project role, replacing it on re-save', async () => {
+    const id = await store.putProjectBlob('p1', 'audio', Object.assign(new Blob(['one']), { name: 'take1.wav' }));
+    expect(id).toBe('p1:audio');
+    await store.putProjectBlob('p1', 'audio', new Blob(['two'], { type: 'audio/wav' }));
+    const stored = await store.getProjectBlob(id);
+    expect(stored).toMatchObject({ id, projectId: 'p1', name: 'audio', type: 'audio/wav' });
+    expect(await stored!.blob.text()).toBe('two');
+  });
+
+  it('deletes a project with its files and snapshots, leaving others alone', async () => {
+    for (const id of ['p1', 'p2']) {
+      await store.saveProject({ id, kind: 'dtmusic', name: id, data: {} });
+      await store.putProjectBlob(id, 'audio', new Blob([id]));
+      await store.addSnapshot(id, {});
+    }
+    await store.deleteProject('p1');
+    expect(await store.getProject('p1')).toBeUndefined();
+    expect(await store.getProjectBlob('p1:audio')).toBeUndefined();
+    expect(await store.listSnapshots('p1')).toEqual([]);
+    expect((await store.listProjects()).map(p => p.id)).toEqual(['p2']);
+    expect(await store.getProjectBlob('p2:audio')).toBeDefined();
+    expect(await store.listSnapshots('p2')).toHaveLength(1);
+  });
+
+  it('caches transcripts by audio hash, keeping the most recently saved', async () => {
+    const heard = (text: string) => ({ text, words: [{ text, start: 0, end: 1 }], provider: 'fake' as const, language_code: null });
+    for (let i = 0; i <= store.TRANSCRIPT_LIMIT; i++) await store.cacheTranscript(`h${i}`, heard(`take ${i}`));
+    // saving h1 again makes it the newest, so only h0 falls out
+    await store.cacheTranscript('h1', heard('take 1'));
+    await store.cacheTranscript('h-new', heard('new'));
+    expect(await store.getCachedTranscript('h0')).toBeUndefined();
+    expect(await store.getCachedTranscript('h2')).toBeUndefined();
+    expect((await store.getCachedTranscript('h1'))?.text).toBe('take 1');
+    expect(await store.getCachedTranscript('h-new')).toEqual(heard('new'));
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignSceneNumbers, compareSceneNumbers, insertSceneNumber, lockSceneNumbers, normalizeSceneNumber,
+  numberedRows, omitScenes, renumberReport, DEFAULT_NUMBERING, type NumberedScene, type SceneNumbering,
+} from '@/lib/sceneNumbering';
+
+const scene = (id: string, positionSec: number, sceneNumber?: string): NumberedScene =>
+  ({ id, positionSec, heading: `SCENE ${id.toUpperCase()}`, sceneNumber });
+
+const locked: SceneNumbering = { locked: true, omitted: [] };
+
+describe('scene number order', () => {
+  it('sorts prefixes before and suffixes after the plain number', () => {
+    const nums = ['13', '12A', 'A1', '12', '1', '12AA', '12B', '2', '12Z'];
+    expect([...nums].sort(compareSceneNumbers)).toEqual(['A1', '1', '2', '12', '12A', '12B', '12Z', '12AA', '13']);
+  });
+
+  it('normalizes typed numbers', () => {
+    expect(normalizeSceneNumber(' 12a ')).toBe('12A');
+    expect(normalizeSceneNumber('12.5')).toBeNull();
+    expect(normalizeSceneNumber('')).toBeNull();
+  });
+
+  it('picks A/B inserts, skipping I and O', () => {
+    expect(insertSceneNumber('12', '13', new Set())).toBe('12A');
+    expect(insertSceneNumber('12', '13', new Set(['12A']))).toBe('12B');
+    expect(insertSceneNumber('12H', '13', new Set())).toBe('12J');
+    expect(insertSceneNumber(null, '1', new Set())).toBe('A1');
+    expect(insertSceneNumber('A1', '1', new Set())).toBe('B1');
+    expect(insertSceneNumber('20', null, new Set())).toBe('20A');
+  });
+});
+
+describe('numbering engine', () => {
+  const scenes = [scene('a', 0), scene('b', 60), scene('c', 120)];
+
+  it('numbers by timeline order while unlocked', () => {
+    const numbers = assignSceneNumbers([scenes[2], scenes[0], scenes[1]], DEFAULT_NUMBERING);
+    expect([...numbers.entries()]).toEqual([['a', '1'], ['b', '2'], ['c', '3']]);
+  });
+
+  it('keeps locked numbers when scenes move and inserts new ones as A/B', () => {
+    const frozen = lockSceneNumbers(scenes, DEFAULT_NUMBERING);
+    expect(frozen.map(s => s.sceneNumber)).toEqual(['1', '2', '3']);
+
+    const edited = [...frozen, scene('x', 70), scene('y', 80), scene('z', -5)];
+    const numbers = assignSceneNumbers(edited, locked);
+    expect(Object.fromEntries(numbers)).toEqual({ z: 'A1', a: '1', b: '2', x: '2A', y: '2B', c: '3' });
+
+    // moving a locked scene doesn't renumber it
+    const moved = frozen.map(s => s.id === 'a' ? { ...s, positionSec: 500 } : s);
+    expect(assignSceneNumbers(moved, locked).get('a')).toBe('1');
+  });
+
+  it('treats a repeated locked number as a new scene', () => {
+    const numbers = assignSceneNumbers([scene('a', 0, '1'), scene('copy', 10, '1'), scene('b', 20, '2')], locked);
+    expect(numbers.get('copy')).toBe('1A');
+  });
+
+  it('keeps deleted scenes as OMITTED placeholders while locked', () => {
+    const frozen = lockSceneNumbers(scenes, DEFAULT_NUMBERING);
+    const numbering = omitScenes(locked, frozen, ['b']);
+    expect(numbering.omitted).toEqual([{ number: '2', heading: 'SCENE B' }]);
+    expect(omitScenes(DEFAULT_NUMBERING, frozen, ['b'])).toBe(DEFAULT_NUMBERING);
+
+    const rest = frozen.filter(s => s.id !== 'b');
+    expect(numberedRows(rest, numbering).map(r => (r.kind === 'omitted' ? `${r.number} OMITTED` : r.number)))
+      .toEqual(['1', '2 OMITTED', '3']);
+    // the omitted number isn't handed out again
+    expect(assignSceneNumbers([...rest, scene('n', 30)], numbering).get('n')).toBe('1A');
+  });
+
+  it('reports what a renumber changes', () => {
+    const frozen = lockSceneNumbers(scenes, DEFAULT_NUMBERING);
+    const numbering = omitScenes(locked, frozen, ['a']);
+    const edited = [...frozen.filter(s => s.id !== 'a'), scene('x', 90)];
+    const report = renumberReport(edited, numbering);
+    expect(report.changes).toEqual([
+      { id: 'b', heading: 'SCENE B', from: '2', to: '1' },
+      { id: 'x', heading: 'SCENE X', from: '2A', to: '2' },
+    ]);
+    expect(report.omitted).toEqual([{ number: '1', heading: 'SCENE A' }]);
+    expect(renumberReport(scenes, DEFAULT_NUMBERING)).toEqual({ changes: [], omitted: [] });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { classifyLines, titlePageOf, isSceneHeading } from '@/lib/scriptClassifier';
+import { parseScript } from '@/lib/scriptParser';
+
+const types = (text: string) => classifyLines(text).map(l => l.type);
+
+describe('classifyLines — scene headings', () => {
+  it('recognizes INT/EXT/EST/I/E prefixes in any case', () => {
+    for (const h of ['INT. HOUSE - DAY', 'EXT. PARK - NIGHT', 'est. CITY - DAWN', 'INT./EXT. CAR - DAY', 'I/E CAR - DAY', 'INT HOUSE - DAY']) {
+      expect(classifyLines(h)[0].type).toBe('scene');
+    }
+    expect(isSceneHeading('INTERIOR DESIGN IS HARD')).toBe(false);
+  });
+
+  it('extracts #12A# and printed scene numbers', () => {
+    expect(classifyLines('INT. HOUSE - DAY #12A#')[0]).toMatchObject({ type: 'scene', text: 'INT. HOUSE - DAY', sceneNumber: '12A' });
+    expect(classifyLines('3. EXT. STREET - NIGHT')[0]).toMatchObject({ text: 'EXT. STREET - NIGHT', sceneNumber: '3' });
+    expect(classifyLines('INT. ROOM - DAY    7')[0]).toMatchObject({ text: 'INT. ROOM - DAY', sceneNumber: '7' });
+  });
+
+  it('forces a heading with a leading dot but not with an ellipsis', () => {
+    expect(classifyLines('.SNIPER SCOPE POV')[0]).toMatchObject({ type: 'scene', text: 'SNIPER SCOPE POV', forced: true });
+    expect(classifyLines('...and then nothing.')[0].type).toBe('action');
+  });
+
+  it('needs a blank line before an unforced heading', () => {
+    expect(types('She points up at the sign.\nEst. 1990, the diner has seen better days.')).toEqual(['action', 'action']);
+    expect(types('\nMAYA\nWe could go\nint the city - tonight.')).toEqual(['action', 'character', 'dialogue', 'dialogue']);
+    expect(types('Rain on the windows.\n\nINT. DINER - NIGHT')).toEqual(['action', 'action', 'scene']);
+  });
+});
+
+describe('classifyLines — dialogue', () => {
+  it('classifies character, parenthetical and dialogue', () => {
+    expect(types('\nSTEEL (O.S.)\n(beat)\nThey got away.\n')).toEqual(['action', 'character', 'parenthetical', 'dialogue', 'action']);
+  });
+
+  it('requires a blank line before and text after a character cue', () => {
+    expect(types('A BIG EXPLOSION.\n\nBOOM')).toEqual(['action', 'action', 'action']);
+  });
+
+  it('does not take a mixed-case line as a character', () => {
+    expect(types('\nMcCLANE\nYippee.')).toEqual(['action', 'action', 'action']);
+    expect(types('\n@McCLANE\nYippee.')).toEqual(['action', 'character', 'dialogue']);
+  });
+
+  it('keeps dialogue open across a two-space line', () => {
+    expect(types('\nDEALER\nTen.\n  \nTwenty.')).toEqual(['action', 'character', 'dialogue', 'dialogue', 'dialogue']);
+  });
+
+  it('marks both sides of dual dialogue', () => {
+    const lines = classifyLines('\nBRICK\nScrew retirement.\n\nSTEEL ^\nScrew retirement.');
+    expect(lines[1]).toMatchObject({ type: 'character', text: 'BRICK', dual: 'left' });
+    expect(lines[2]).toMatchObject({ type: 'dialogue', dual: 'left' });
+    expect(lines[4]).toMatchObject({ type: 'character', text: 'STEEL', dual: 'right' });
+    expect(lines[5]).toMatchObject({ type: 'dialogue', dual: 'right' });
+  });
+});
+
+describe('classifyLines — transitions and forced elements', () => {
+  it('detects TO: transitions in their own paragraph', () => {
+    expect(types('Hello.\n\nCUT TO:\n\nINT. ROOM - DAY')).toEqual(['action', 'action', 'transition', 'action', 'scene']);
+    expect(types('\nCUT TO:\nEXT. STREET - DAY')).toEqual(['action', 'transition', 'scene']);
+  });
+
+  it('handles !, @, ~, > and >centered<', () => {
+    expect(classifyLines('!SCANNING THE AREA')[0]).toMatchObject({ type: 'action', text: 'SCANNING THE AREA', forced: true });
+    expect(classifyLines('~Willy Wonka!')[0]).toMatchObject({ type: 'lyric', text: 'Willy Wonka!' });
+    expect(classifyLines('> Burn to White.')[0]).toMatchObject({ type: 'transition', text: 'Burn to White.', forced: true });
+    expect(classifyLines('>THE END<')[0]).toMatchObject({ type: 'centered', text: 'THE END' });
+  });
+
+  it('parses sections, synopses and page breaks', () => {
+    const lines = classifyLines('## Act Two\n= They meet.\n===');
+    expect(lines[0]).toMatchObject({ type: 'section', text: 'Act Two', depth: 2 });
+    expect(lines[1]).toMatchObject({ type: 'synopsis', text: 'They meet.' });
+    expect(lines[2].type).toBe('pagebreak');
+  });
+});
+
+describe('classifyLines — notes and boneyard', () => {
+  it('strips inline notes and keeps them on the line', () => {
+    expect(classifyLines('He waits. [[check timing]]')[0]).toMatchObject({ type: 'action', text: 'He waits.', notes: ['check timing'] });
+    expect(classifyLines('[[whole line note]]')[0]).toMatchObject({ type: 'note', text: 'whole line note' });
+  });
+
+  it('spans boneyard across lines without shifting line indexes', () => {
+    const lines = classifyLines('INT. A - DAY\n/*\nCut scene\n*/\nStill here.');
+    expect(lines.map(l => l.type)).toEqual(['scene', 'boneyard', 'boneyard', 'boneyard', 'action']);
+  });
+});
+
+describe('classifyLines — title page', () => {
+  it('reads key/value pairs and indented continuations', () => {
+    const lines = classifyLines('Title: Big Fish\nAuthor: John August\nContact:\n   Agency\n   555-1234\n\nINT. HOUSE - DAY');
+    expect(titlePageOf(lines)).toEqual([
+      { key: 'Title', value: 'Big Fish' },
+      { key: 'Author', value: 'John August' },
+      { key: 'Contact', value: 'Agency\n555-1234' },
+    ]);
+    expect(lines[6].type).toBe('scene');
+  });
+
+  it('can be disabled for scene bodies', () => {
+    expect(classifyLines('Note: keep it short.', { titlePage: false })[0].type).toBe('action');
+  });
+});
+
+describe('parseScript uses the shared classifier', () => {
+  it('does not open a COLD OPEN for the title page', () => {
+    const parsed = parseScript('Title: Demo\n\nINT. HOUSE - DAY #4#\nA room.');
+    expect(parsed.scenes).toHaveLength(1);
+    expect(parsed.scenes[0].sceneNumber).toBe('4');
+    expect(parsed.titlePage).toEqual([{ key: 'Title', value: 'Demo' }]);
+    expect(parsed.warnings).toHaveLength(0);
+  });
+});
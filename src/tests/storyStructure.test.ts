@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { STRUCTURE_TEMPLATES, beatDrifts, runtimeOf, structureFromTemplate, switchTemplate } from '@/lib/storyStructure';
+
+describe('storyStructure', () => {
+  const scenes = [
+    { id: 'a', positionSec: 0, lengthSec: 600 },
+    { id: 'b', positionSec: 600, lengthSec: 900 },
+    { id: 'c', positionSec: 3000, lengthSec: 3000 },
+  ];
+
+  it('builds acts, sequences and beats from a template', () => {
+    const s = structureFromTemplate('three-act');
+    expect(s.bands.filter(b => b.kind === 'act').map(b => [b.label, b.startPct, b.endPct]))
+      .toEqual([['Act I', 0, 25], ['Act II', 25, 75], ['Act III', 75, 100]]);
+    expect(s.bands.filter(b => b.kind === 'sequence')).toHaveLength(8);
+    expect(s.beats.find(b => b.label === 'Midpoint')?.pct).toBe(50);
+    expect(new Set([...s.bands, ...s.beats].map(x => x.id)).size).toBe(s.bands.length + s.beats.length);
+    for (const t of Object.values(STRUCTURE_TEMPLATES)) {
+      expect(t.beats.every(([, pct]) => pct >= 0 && pct <= 100)).toBe(true);
+    }
+  });
+
+  it('measures drift of assigned beats against the runtime', () => {
+    expect(runtimeOf(scenes)).toBe(6000);
+    const s = structureFromTemplate('three-act');
+    s.beats = s.beats.map(b =>
+      b.label === 'Inciting Incident' ? { ...b, sceneId: 'b' } : b.label === 'Midpoint' ? { ...b, sceneId: 'c' } : b);
+    const drifts = beatDrifts(s, scenes).filter(d => d.assigned);
+    expect(drifts.map(d => [d.label, d.targetSec, d.actualSec, Math.round(d.driftPct), d.warn])).toEqual([
+      ['Inciting Incident', 720, 600, -2, false],
+      ['Midpoint', 3000, 3000, 0, false],
+    ]);
+    s.beats = s.beats.map(b => b.label === 'Midpoint' ? { ...b, sceneId: 'a' } : b);
+    expect(beatDrifts(s, scenes).find(d => d.label === 'Midpoint')).toMatchObject({ driftPct: -50, warn: true });
+    expect(beatDrifts(s, [])).toEqual([]);
+  });
+
+  it('measures unassigned beats at the scene starting nearest their target', () => {
+    const s = structureFromTemplate('three-act');
+    s.beats = s.beats.map(b => b.label === 'Midpoint' ? { ...b, sceneId: 'gone' } : b);
+    const drifts = beatDrifts(s, scenes);
+    expect(drifts).toHaveLength(s.beats.length);
+    expect(drifts.map(d => [d.label, d.sceneId, d.assigned, Math.round(d.driftPct), d.warn])).toEqual([
+      ['Inciting Incident', 'b', false, -2, false],
+      ['Plot Point 1', 'b', false, -15, true],
+      // a deleted scene counts as unassigned
+      ['Midpoint', 'c', false, 0, false],
+      ['Plot Point 2', 'c', false, -25, true],
+      ['Climax', 'c', false, -40, true],
+      ['Resolution', 'c', false, -47, true],
+    ]);
+  });
+
+  it('keeps beat assignments with matching names when switching templates', () => {
+    const cat = structureFromTemplate('save-the-cat');
+    cat.beats = cat.beats.map(b => b.label === 'Midpoint' || b.label === 'Catalyst' ? { ...b, sceneId: 'b' } : b);
+    const three = switchTemplate(cat, 'three-act');
+    expect(three.template).toBe('three-act');
+    expect(three.beats.filter(b => b.sceneId).map(b => b.label)).toEqual(['Midpoint']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addShootDay, buildStrips, dayTotals, moveStrip, normalizeSchedule, removeShootDay, stripColor, type StripSource,
+} from '@/lib/stripboard';
+import { classifyLines } from '@/lib/scriptClassifier';
+
+const scene = (id: string, positionSec: number, heading: string, text: string, lengthEighths?: number): StripSource =>
+  ({ id, heading, positionSec, lengthSec: 60, lengthEighths, lines: classifyLines(text, { titlePage: false }) });
+
+describe('stripboard', () => {
+  const scenes = [
+    scene('b', 100, 'EXT. PARK - NIGHT', 'RITA\nHi.\n\nSAM\nHey.', 3),
+    scene('a', 0, 'INT. HOUSE - DAY', 'SAM\nHello.', 12),
+    scene('c', 200, 'INT./EXT. CAR - DAY', 'Sam drives.'),
+  ];
+  const { strips, cast } = buildStrips(scenes, new Map([['a', '1'], ['b', '1A'], ['c', '2']]));
+
+  it('builds strips in story order with cast ids by scene count', () => {
+    expect(cast).toEqual(['SAM', 'RITA']);
+    expect(strips.map(s => [s.id, s.number, s.intExt, s.location, s.dayNight, s.cast])).toEqual([
+      ['a', '1', 'INT', 'HOUSE', 'DAY', [1]],
+      ['b', '1A', 'EXT', 'PARK', 'NIGHT', [1, 2]],
+      ['c', '2', 'INT/EXT', 'CAR', 'DAY', [1]],
+    ]);
+    expect(strips[0].eighths).toBe(12);
+    expect(strips[2].eighths).toBeGreaterThan(0);
+  });
+
+  it('colors strips by INT/EXT and DAY/NIGHT', () => {
+    expect(strips.map(s => stripColor(s).bg)).toEqual(['#f5f5f5', '#4ade80', '#fde047']);
+    expect(stripColor({ intExt: null, dayNight: null }).bg).toBe('#d4d4d8');
+  });
+
+  it('moves strips between days and keeps the rest unscheduled', () => {
+    let sched = addShootDay(addShootDay({ days: [] }, 'd1'), 'd2');
+    sched = moveStrip(sched, 'c', 'd1', 0);
+    sched = moveStrip(sched, 'a', 'd1', 1);
+    sched = moveStrip(sched, 'b', 'd2', 0);
+    expect(sched.days.map(d => d.sceneIds)).toEqual([['c', 'a'], ['b']]);
+
+    // reorder within a day: drop 'c' after 'a'
+    sched = moveStrip(sched, 'c', 'd1', 2);
+    expect(sched.days[0].sceneIds).toEqual(['a', 'c']);
+
+    const byId = new Map(strips.map(s => [s.id, s]));
+    expect(dayTotals(sched.days[0], byId)).toEqual({ eighths: 12 + byId.get('c')!.eighths, sec: 120 });
+
+    const back = moveStrip(sched, 'a', null, 0);
+    expect(normalizeSchedule(back, ['a', 'b', 'c']).unscheduled).toEqual(['a']);
+    expect(normalizeSchedule(removeShootDay(sched, 'd2'), ['a', 'b', 'c']).unscheduled).toEqual(['b']);
+  });
+
+  it('drops deleted and repeated scenes from a saved schedule', () => {
+    const { schedule, unscheduled } = normalizeSchedule({ days: [{ id: 'd1', sceneIds: ['x', 'a', 'a'] }, { id: 'd2', sceneIds: ['a', 'b'] }] }, ['a', 'b', 'c']);
+    expect(schedule.days.map(d => d.sceneIds)).toEqual([['a'], ['b']]);
+    expect(unscheduled).toEqual(['c']);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, cueName, DEFAULT_TIMING, estimateSeconds, speakingCharacters } from '@/lib/timing';
+import { classifyLines } from '@/lib/scriptClassifier';
+import { parseScript } from '@/lib/scriptParser';
+
+const scene = classifyLines([
+  'INT. DINER - NIGHT',
+  '',
+  'Rain on the windows. Nobody moves.',
+  '',
+  'SAM (V.O.)',
+  "I don't think we should be here at all tonight.",
+  '',
+  'ALEX',
+  '(quietly)',
+  'Then leave.',
+].join('\n'));
+
+describe('dialogue-rate timing', () => {
+  it('counts words and normalizes cue names', () => {
+    expect(countWords("I don't think we should — be here.")).toBe(7);
+    expect(cueName("SAM (V.O.) (CONT'D)")).toBe('SAM');
+    expect(cueName('alex ^')).toBe('ALEX');
+    expect(speakingCharacters(scene)).toEqual(['SAM', 'ALEX']);
+  });
+
+  it('times dialogue at the speaker rate and action at the action rate', () => {
+    const model = { ...DEFAULT_TIMING, dialogueWpm: 60, actionWpm: 60 };
+    // 6 action + 10 SAM + 1 parenthetical + 2 ALEX words at one word per second
+    expect(estimateSeconds(scene, model)).toBe(19);
+    // SAM speaks twice as fast
+    expect(estimateSeconds(scene, { ...model, characterWpm: { SAM: 120 } })).toBe(14);
+  });
+
+  it('applies the scene multiplier', () => {
+    const model = { ...DEFAULT_TIMING, dialogueWpm: 60, actionWpm: 60 };
+    expect(estimateSeconds(scene, model, 2)).toBe(38);
+    expect(estimateSeconds([], model)).toBe(1);
+  });
+
+  it('lets the parser time scenes from word counts', () => {
+    const text = scene.map(l => l.text).join('\n');
+    const model = { ...DEFAULT_TIMING, dialogueWpm: 60, actionWpm: 60 };
+    expect(parseScript(text, { timing: model }).scenes[0].estLengthSec).toBe(19);
+  });
+});
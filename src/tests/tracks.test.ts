@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_TRACKS, laneAt, layoutTracks, normalizeTracks, resolveTrackId, type Track } from '@/lib/tracks';
+
+const tracks: Track[] = [
+  { id: 'a', name: 'Story', height: 200, color: '#fff' },
+  { id: 'b', name: 'B-roll', height: 100, color: '#fff' },
+  { id: 'c', name: 'VO', height: 80, color: '#fff' },
+];
+
+describe('tracks', () => {
+  it('stacks lanes by height', () => {
+    expect(layoutTracks(tracks).map(l => [l.track.id, l.top, l.height])).toEqual([['a', 0, 200], ['b', 200, 100], ['c', 300, 80]]);
+    expect(laneAt(layoutTracks(tracks), 250)?.track.id).toBe('b');
+    expect(laneAt(layoutTracks(tracks), 900)?.track.id).toBe('c');
+  });
+
+  it('shows only soloed lanes when any lane is soloed', () => {
+    const lanes = layoutTracks(tracks.map(t => t.id === 'c' ? { ...t, solo: true } : t));
+    expect(lanes.map(l => [l.track.id, l.visible, l.top])).toEqual([['a', false, 0], ['b', false, 0], ['c', true, 0]]);
+    expect(laneAt(lanes, 10)?.track.id).toBe('c');
+  });
+
+  it('puts clips without a known lane on the first lane', () => {
+    expect(resolveTrackId(tracks, 'b')).toBe('b');
+    expect(resolveTrackId(tracks, undefined)).toBe('a');
+    expect(resolveTrackId(tracks, 'gone')).toBe('a');
+  });
+
+  it('sanitizes lanes from project files', () => {
+    expect(normalizeTracks(undefined)).toEqual(DEFAULT_TRACKS);
+    expect(normalizeTracks([{ id: 'x', name: '', height: 5, muted: 1 }, { id: 'x', name: 'Dup', height: 120 }])).toEqual([
+      { id: 'x', name: 'Track 1', height: 40, color: '#9ca3af', muted: true, locked: undefined, solo: undefined },
+      { id: 'track-2', name: 'Dup', height: 120, color: '#9ca3af', muted: undefined, locked: undefined, solo: undefined },
+    ]);
+  });
+});
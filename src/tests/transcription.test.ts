@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { providerFromEnv } from '@/lib/transcription/config';
+import { createAssemblyAiProvider } from '@/lib/transcription/assemblyai';
+import { createDeepgramProvider } from '@/lib/transcription/deepgram';
+import { createLocalProvider } from '@/lib/transcription/local';
+import { createFakeProvider } from '@/lib/transcription/fake';
+import { resetJobRecords } from '@/lib/transcription/background';
+import { checkJob, startJob } from '@/lib/transcription/jobs';
+import type { AudioInput, FetchLike, RemoteJobStatus, Transcript, TranscriptionProvider } from '@/lib/transcription/types';
+
+const audio: AudioInput = { data: new Blob([new Uint8Array([1, 2, 3])]), fileName: 'song.mp3', mimeType: 'audio/mpeg' };
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+/** A fetch that answers each call with the next canned response and records the URLs. */
+function scripted(...responses: Response[]) {
+  const urls: string[] = [];
+  const fetch: FetchLike = async (url) => { urls.push(url); return responses.shift()!; };
+  return { fetch, urls };
+}
+
+describe('transcription providers', () => {
+  it('picks the provider from the environment', () => {
+    expect(providerFromEnv({ TRANSCRIBE_PROVIDER: 'fake' }).id).toBe('fake');
+    expect(providerFromEnv({ DEEPGRAM_API_KEY: 'k' }).id).toBe('deepgram');
+    expect(providerFromEnv({ ASSEMBLYAI_API_KEY: 'a', DEEPGRAM_API_KEY: 'k' }).id).toBe('assemblyai');
+    expect(providerFromEnv({ TRANSCRIBE_LOCAL_URL: 'http://127.0.0.1:8080/inference' }).id).toBe('local');
+    expect(() => providerFromEnv({})).toThrow(/No transcription provider/);
+    expect(() => providerFromEnv({ TRANSCRIBE_PROVIDER: 'deepgram' })).toThrow(/DEEPGRAM_API_KEY/);
+    expect(() => providerFromEnv({ TRANSCRIBE_PROVIDER: 'whisper' })).toThrow(/Unknown/);
+  });
+
+  it('fake provider is deterministic', async () => {
+    const a = await createFakeProvider().transcribe(audio);
+    const b = await createFakeProvider().transcribe(audio);
+    expect(a).toEqual(b);
+    expect(a.words[0]).toMatchObject({ text: 'Hello', start: 0 });
+    // second line starts after the pause
+    expect(a.words[5].start - a.words[4].end).toBeGreaterThan(1);
+  });
+
+  it('polls AssemblyAI and converts milliseconds', async () => {
+    const { fetch, urls } = scripted(
+      json({ upload_url: 'https://cdn/x' }),
+      json({ id: 't1', status: 'queued' }),
+      json({ status: 'processing' }),
+      json({ status: 'completed', text: 'Hi there', language_code: 'en', words: [
+        { text: 'Hi', start: 100, end: 400, confidence: 0.9 }, { text: 'there', start: 500, end: 900 },
+      ] }),
+    );
+    const t = await createAssemblyAiProvider({ apiKey: 'k', fetch, pollMs: 0 }).transcribe(audio);
+    expect(urls.map(u => u.replace('https://api.assemblyai.com', ''))).toEqual(['/v2/upload', '/v2/transcript', '/v2/transcript/t1', '/v2/transcript/t1']);
+    expect(t).toEqual({
+      text: 'Hi there', provider: 'assemblyai', language_code: 'en',
+      words: [{ text: 'Hi', start: 0.1, end: 0.4, confidence: 0.9 }, { text: 'there', start: 0.5, end: 0.9 }],
+    });
+  });
+
+  it('checks an AssemblyAI transcript by its id', async () => {
+    const { fetch, urls } = scripted(
+      json({ status: 'queued' }),
+      json({ status: 'error', error: 'file is silent' }),
+      json({ error: 'Transcript lookup error' }, 400),
+    );
+    const provider = createAssemblyAiProvider({ apiKey: 'k', fetch });
+    expect(await provider.check!('t1')).toEqual({ status: 'running', phase: 'queued' });
+    expect(await provider.check!('t1')).toEqual({ status: 'error', error: 'AssemblyAI transcription error: file is silent' });
+    expect(await provider.check!('gone')).toBeNull();
+    expect(urls.at(-1)).toBe('https://api.assemblyai.com/v2/transcript/gone');
+  });
+
+  it('reports upstream errors with their status', async () => {
+    const { fetch } = scripted(new Response('Invalid credentials', { status: 401 }));
+    await expect(createDeepgramProvider({ apiKey: 'bad', fetch }).transcribe(audio)).rejects.toThrow('Deepgram request failed: 401 Invalid credentials');
+  });
+
+  it('reads Deepgram and local whisper responses', async () => {
+    const dg = scripted(json({ results: { channels: [{ detected_language: 'es', alternatives: [{
+      transcript: 'hola', words: [{ word: 'hola', punctuated_word: 'Hola,', start: 0.2, end: 0.6, confidence: 0.8 }],
+    }] }] } }));
+    expect(await createDeepgramProvider({ apiKey: 'k', fetch: dg.fetch }).transcribe(audio)).toMatchObject({
+      language_code: 'es', words: [{ text: 'Hola,', start: 0.2, end: 0.6, confidence: 0.8 }],
+    });
+
+    const local = scripted(json({ text: ' la la', language: 'en', segments: [
+      { words: [{ word: ' la', start: 0, end: 0.3, probability: 0.7 }, { word: ' la', start: 0.4, end: 0.2 }] },
+    ] }));
+    const t = await createLocalProvider({ url: 'http://127.0.0.1:8080/inference', fetch: local.fetch }).transcribe(audio);
+    // the word ending before it starts is dropped
+    expect(t).toMatchObject({ text: 'la la', provider: 'local', words: [{ text: 'la', start: 0, end: 0.3, confidence: 0.7 }] });
+  });
+});
+
+describe('transcription jobs', () => {
+  beforeEach(() => { resetJobRecords(); });
+
+  const transcript: Transcript = { text: 'la', words: [{ text: 'la', start: 0, end: 1 }], provider: 'fake', language_code: null };
+
+  /** A queueing backend whose only job is in whatever state the test puts it. */
+  function queueing() {
+    const backend = { state: { status: 'running', phase: 'processing' } as RemoteJobStatus };
+    const provider: TranscriptionProvider = {
+      id: 'assemblyai',
+      transcribe: async () => { throw new Error('not used'); },
+      submit: async () => 'tx-1',
+      check: async remoteId => remoteId === 'tx-1' ? backend.state : null,
+    };
+    return { provider, backend };
+  }
+
+  it('keys a queued job on the backend id and asks the backend about it', async () => {
+    const { provider, backend } = queueing();
+    const job = await startJob(provider, audio);
+    expect(job).toEqual({ id: 'assemblyai.tx-1', provider: 'assemblyai', status: 'running', phase: 'queued' });
+    expect(await checkJob(provider, job.id)).toMatchObject({ status: 'running', phase: 'processing' });
+
+    backend.state = { status: 'done', result: transcript };
+    expect(await checkJob(provider, job.id)).toMatchObject({ id: job.id, status: 'done', result: transcript });
+    // another backend's job, a malformed id or one the backend doesn't know
+    expect(await checkJob(provider, 'deepgram.tx-1')).toBeNull();
+    expect(await checkJob(provider, 'assemblyai.../x')).toBeNull();
+    expect(await checkJob(provider, 'assemblyai.tx-2')).toBeNull();
+  });
+
+  it('runs one-request backends in a job record and keeps their errors on it', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    let finish!: (t: Transcript) => void;
+    const direct: TranscriptionProvider = {
+      id: 'deepgram',
+      transcribe: (_audio, opts) => { opts?.onPhase?.('processing'); return new Promise(resolve => { finish = resolve; }); },
+    };
+    const job = await startJob(direct, audio);
+    expect(job).toMatchObject({ provider: 'deepgram', status: 'running' });
+    expect(await checkJob(direct, job.id)).toMatchObject({ status: 'running', phase: 'processing' });
+    finish(transcript);
+    await Promise.resolve();
+    expect(await checkJob(direct, job.id)).toMatchObject({ id: job.id, status: 'done', result: transcript });
+
+    const failing: TranscriptionProvider = { id: 'local', transcribe: async () => { throw new Error('quota exceeded'); } };
+    const failed = await startJob(failing, audio);
+    await new Promise(r => setTimeout(r, 0));
+    expect(await checkJob(failing, failed.id)).toMatchObject({ status: 'error', error: 'quota exceeded' });
+    vi.restoreAllMocks();
+  });
+
+  it('throws when a queueing backend refuses the audio', async () => {
+    const refusing: TranscriptionProvider = { ...queueing().provider, submit: async () => { throw new Error('AssemblyAI upload failed: 401'); } };
+    await expect(startJob(refusing, audio)).rejects.toThrow('401');
+  });
+});
+
+describe('/api/transcribe', () => {
+  afterEach(() => { vi.unstubAllEnvs(); });
+
+  const upload = () => {
+    const form = new FormData();
+    form.append('audio', audio.data, audio.fileName);
+    return new Request('http://localhost/api/transcribe', { method: 'POST', body: form }) as any;
+  };
+
+  it('starts a job and follows it without keeping it on the server', async () => {
+    vi.stubEnv('TRANSCRIBE_PROVIDER', 'fake');
+    const { POST } = await import('@/app/api/transcribe/route');
+    const { GET: status } = await import('@/app/api/transcribe/[id]/route');
+    const { GET: events } = await import('@/app/api/transcribe/[id]/events/route');
+
+    const res = await POST(upload());
+    expect(res.status).toBe(202);
+    const { job } = await res.json();
+    expect(job).toMatchObject({ provider: 'fake', status: 'running' });
+    expect(job.id).toMatch(/^fake\./);
+
+    const stream = await events(new Request(`http://localhost/api/transcribe/${job.id}/events`) as any, { params: { id: job.id } });
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+    const messages = (await stream.text()).split('\n\n').filter(m => m.startsWith('data: ')).map(m => JSON.parse(m.slice(6)).job);
+    expect(messages.at(-1)).toMatchObject({ id: job.id, status: 'done', provider: 'fake' });
+    expect(messages.at(-1).result.words.length).toBeGreaterThan(5);
+
+    const checked = await status(new Request('http://localhost') as any, { params: { id: job.id } });
+    expect((await checked.json()).job.status).toBe('done');
+    expect((await status(new Request('http://localhost') as any, { params: { id: 'nope' } })).status).toBe(404);
+    expect((await events(new Request('http://localhost') as any, { params: { id: 'nope' } })).status).toBe(404);
+  });
+
+  it('rejects a request without audio', async () => {
+    vi.stubEnv('TRANSCRIBE_PROVIDER', 'fake');
+    const { POST } = await import('@/app/api/transcribe/route');
+    const res = await POST(new Request('http://localhost/api/transcribe', { method: 'POST', body: new FormData() }) as any);
+    expect(res.status).toBe(400);
+  });
+});
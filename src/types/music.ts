@@ -10,11 +10,18 @@ export type Note = {
   collapsed?: boolean;
 };
 
+/** One sung word inside a lyric clip, in track seconds like the clip itself. */
+export type LyricWord = { text: string; startSec: number; endSec: number };
+
 export type LyricsClip = {
   id: string;
   text: string;
   timestampSec: number;
   endSec?: number;
+  /** 0–1, set when the clip came from transcription or alignment to a transcript. */
+  confidence?: number;
+  /** Per-word timing for karaoke-style graphics, in order and inside the clip. */
+  words?: LyricWord[];
   color: string;
   w?: number;
   h?: number;
@@ -32,4 +39,26 @@ export type AudioProjectV1 = {
   waveAmp: number;
   notes: Note[];
   audioMeta?: { fileName?: string; duration?: number } | null;
-};
\ No newline at end of file
+};
+/** V2 keeps every timeline entity: lyrics, markers, loop, offset and snapping. */
+export type AudioProjectV2 = {
+  version: 2;
+  kind: 'dtmusic';
+  projectName: string;
+  zoom: number;
+  panX: number;
+  playheadSec: number;
+  waveAmp: number;
+  notes: Note[];
+  lyricsClips: LyricsClip[];
+  markers: Marker[];
+  loop: { enabled: boolean; a: number | null; b: number | null };
+  lyricsOffsetSec: number;
+  snappingEnabled: boolean;
+  dragMovesTimestamp: boolean;
+  /** assetId points at the audio file inside a .dtmusicz bundle. */
+  audioMeta?: { fileName?: string; duration?: number; assetId?: string } | null;
+};
+
+/** Current on-disk format; older versions are migrated by lib/musicProject. */
+export type AudioProject = AudioProjectV2;